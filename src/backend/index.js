@@ -1,12 +1,18 @@
 import express from 'express';
 import cors from 'cors';
+import { Readable } from 'node:stream';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
 
 const app = express();
 const PORT = process.env.PORT || 5174;
+// Recorded AI responses for the fixture provider, one JSON file per prompt hash
+const FIXTURE_DIR = path.resolve(process.env.AI_FIXTURE_DIR || 'fixtures/ai');
 
 // Enable CORS for all origins (use a stricter origin list in production)
 app.use(cors());
-app.use(express.json());
+// Large enough for base64 image attachments and recorded fixtures
+app.use(express.json({ limit: '20mb' }));
 
 app.get('/api/health', (req, res) => {
   res.json({ success: true, status: 'healthy', timestamp: new Date().toISOString() });
@@ -16,6 +22,43 @@ app.post('/api/echo', (req, res) => {
   res.json({ success: true, data: req.body });
 });
 
+// Fixture files for the AI fixture provider. Keys are hex hashes, which also
+// keeps them from naming files outside the fixture directory.
+const fixturePath = (key) => (/^[a-f0-9]+$/.test(key) ? path.join(FIXTURE_DIR, `${key}.json`) : null);
+
+app.get('/api/fixtures/:key', async (req, res) => {
+  const file = fixturePath(req.params.key);
+  if (!file) {
+    res.status(400).json({ success: false, error: { message: 'Invalid fixture key' } });
+    return;
+  }
+  try {
+    res.type('application/json').send(await readFile(file, 'utf8'));
+  } catch (err) {
+    if (err.code !== 'ENOENT') console.error('Fixture read error:', err);
+    res.status(404).json({
+      success: false,
+      error: { message: `No fixture recorded for this prompt (key ${req.params.key}). Record one with a live provider first.` },
+    });
+  }
+});
+
+app.put('/api/fixtures/:key', async (req, res) => {
+  const file = fixturePath(req.params.key);
+  if (!file) {
+    res.status(400).json({ success: false, error: { message: 'Invalid fixture key' } });
+    return;
+  }
+  try {
+    await mkdir(FIXTURE_DIR, { recursive: true });
+    await writeFile(file, `${JSON.stringify(req.body, null, 2)}\n`);
+    res.json({ success: true });
+  } catch (err) {
+    console.error('Fixture write error:', err);
+    res.status(500).json({ success: false, error: { message: 'Failed to save fixture' } });
+  }
+});
+
 // Simple proxy to local Ollama server to avoid browser CORS issues.
 app.use('/ollama', async (req, res) => {
   try {
@@ -51,8 +94,12 @@ app.use('/ollama', async (req, res) => {
 
     res.status(proxied.status);
     proxied.headers.forEach((v, k) => res.setHeader(k, v));
-    const body = await proxied.arrayBuffer();
-    res.send(Buffer.from(body));
+    if (!proxied.body) {
+      res.end();
+      return;
+    }
+    // Pipe the body through as it arrives so streamed chat responses stay incremental
+    Readable.fromWeb(proxied.body).pipe(res);
   } catch (err) {
     console.error('Ollama proxy error:', err);
     res.status(502).json({ success: false, error: 'Failed to proxy to Ollama' });
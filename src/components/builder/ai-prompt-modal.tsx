@@ -7,11 +7,38 @@ import {
   DialogDescription,
 } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { useBuilderStore, ComponentType } from '@/store/builder-store';
-import { callAI, AIAction, isAIConfigured, ImageAttachment } from '@/lib/ai-service';
-import { Sparkles, Send, Loader2, Settings, AlertCircle, CheckCircle2, ImagePlus, X } from 'lucide-react';
+import { useBuilderStore } from '@/store/builder-store';
+import { useAIStagingStore } from '@/store/ai-staging-store';
+import {
+  callAI,
+  AIAction,
+  AIResponse,
+  AIStreamProgress,
+  ConversationHistory,
+  getAIModel,
+  getAIProvider,
+  isAIConfigured,
+  isReviewMode,
+  setReviewMode,
+  ImageAttachment,
+} from '@/lib/ai-service';
+import { getAIProviderAdapter } from '@/lib/ai-providers';
+import { isAbortError } from '@/lib/ai-stream';
+import { AIValidationReport, formatActionIssue } from '@/lib/ai-validation';
+import { createActionApplier, describeAction, formatRejectedProps } from '@/lib/ai-actions';
+import {
+  addAssistantMessage,
+  addUserMessage,
+  createConversation,
+  generateTitleFromMessage,
+  getConversationHistory,
+} from '@/lib/conversation-manager';
+import { estimateTokens } from '@/lib/db';
+import { Sparkles, Send, Loader2, Settings, AlertCircle, CheckCircle2, ImagePlus, X, Square, Ban, MessageSquarePlus } from 'lucide-react';
 import { toast } from 'sonner';
 import { AISettingsModal } from './ai-settings-modal';
 
@@ -25,7 +52,33 @@ interface Message {
   content: string;
   images?: ImageAttachment[];
   actions?: AIAction[];
-  status?: 'pending' | 'success' | 'error';
+  // The actions were staged for review rather than applied
+  staged?: boolean;
+  // Repairs, retries and skipped actions, one line each
+  notes?: string[];
+  status?: 'pending' | 'success' | 'error' | 'cancelled';
+}
+
+// Most skipped actions listed under a message
+const MAX_NOTES = 5;
+
+// Notes for the validation report and the actions that could not be applied
+function buildNotes(validation: AIValidationReport, retriedIssues: number | null, skipped: string[]): string[] {
+  const notes: string[] = [];
+  if (validation.repairs.length > 0) {
+    notes.push(`Repaired the response: ${validation.repairs.join(', ').toLowerCase()}`);
+  }
+  if (retriedIssues !== null) {
+    notes.push(retriedIssues > 0
+      ? `Retried once to fix ${retriedIssues} rejected action${retriedIssues !== 1 ? 's' : ''}`
+      : 'Retried once after a response that could not be read');
+  }
+  const skips = [...validation.issues.map(formatActionIssue), ...skipped];
+  notes.push(...skips.slice(0, MAX_NOTES).map((skip) => `Skipped ${skip}`));
+  if (skips.length > MAX_NOTES) {
+    notes.push(`…and ${skips.length - MAX_NOTES} more skipped`);
+  }
+  return notes;
 }
 
 export function AIPromptModal({ open, onOpenChange }: AIPromptModalProps) {
@@ -34,6 +87,15 @@ export function AIPromptModal({ open, onOpenChange }: AIPromptModalProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [attachedImages, setAttachedImages] = useState<ImageAttachment[]>([]);
+  // Progress of the response currently streaming in
+  const [progress, setProgress] = useState<AIStreamProgress | null>(null);
+  const [streamedActions, setStreamedActions] = useState<AIAction[]>([]);
+  const [isRetrying, setIsRetrying] = useState(false);
+  // Stage responses for review on the canvas instead of applying them
+  const [reviewChanges, setReviewChanges] = useState(isReviewMode);
+  const abortRef = useRef<AbortController | null>(null);
+  // Stored conversation the messages belong to, created with the first request
+  const conversationRef = useRef<string | null>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -42,10 +104,12 @@ export function AIPromptModal({ open, onOpenChange }: AIPromptModalProps) {
   const ALLOWED_TYPES = ['image/png', 'image/jpeg', 'image/jpg'];
 
   const components = useBuilderStore((s) => s.components);
-  const addComponent = useBuilderStore((s) => s.addComponent);
-  const updateComponent = useBuilderStore((s) => s.updateComponent);
-  const updateComponentPosition = useBuilderStore((s) => s.updateComponentPosition);
-  const removeComponent = useBuilderStore((s) => s.removeComponent);
+  const beginTransaction = useBuilderStore((s) => s.beginTransaction);
+  const commitTransaction = useBuilderStore((s) => s.commitTransaction);
+  const startStaging = useAIStagingStore((s) => s.startStaging);
+  const stageAction = useAIStagingStore((s) => s.stageAction);
+  const finishStaging = useAIStagingStore((s) => s.finishStaging);
+  const clearStaging = useAIStagingStore((s) => s.clearStaging);
 
   useEffect(() => {
     if (open && textareaRef.current) {
@@ -57,7 +121,7 @@ export function AIPromptModal({ open, onOpenChange }: AIPromptModalProps) {
     if (scrollRef.current) {
       scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, streamedActions]);
 
   const handleImageSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
@@ -159,70 +223,6 @@ export function AIPromptModal({ open, onOpenChange }: AIPromptModalProps) {
     }
   };
 
-  const applyActions = (actions: AIAction[]) => {
-    let appliedCount = 0;
-
-    for (const action of actions) {
-      try {
-        switch (action.type) {
-          case 'add':
-            if (action.componentType) {
-              addComponent(action.componentType, action.position);
-              // Update size and props if provided
-              // We need to get the newly created component's ID
-              // The store auto-selects new components, so we can use that
-              setTimeout(() => {
-                const state = useBuilderStore.getState();
-                const newId = state.selectedId;
-                if (newId) {
-                  if (action.size) {
-                    updateComponentPosition(newId, action.size);
-                  }
-                  if (action.props) {
-                    updateComponent(newId, action.props);
-                  }
-                }
-              }, 10);
-              appliedCount++;
-            }
-            break;
-
-          case 'update':
-            if (action.componentId && action.props) {
-              updateComponent(action.componentId, action.props);
-              appliedCount++;
-            }
-            break;
-
-          case 'remove':
-            if (action.componentId) {
-              removeComponent(action.componentId);
-              appliedCount++;
-            }
-            break;
-
-          case 'move':
-            if (action.componentId && action.position) {
-              updateComponentPosition(action.componentId, action.position);
-              appliedCount++;
-            }
-            break;
-
-          case 'resize':
-            if (action.componentId && action.size) {
-              updateComponentPosition(action.componentId, action.size);
-              appliedCount++;
-            }
-            break;
-        }
-      } catch (error) {
-        console.error(`Failed to apply action:`, action, error);
-      }
-    }
-
-    return appliedCount;
-  };
-
   const handleSubmit = async () => {
     if (!prompt.trim()) return;
 
@@ -232,43 +232,184 @@ export function AIPromptModal({ open, onOpenChange }: AIPromptModalProps) {
       return;
     }
 
+    const reviewing = reviewChanges;
+    if (reviewing && useAIStagingStore.getState().status !== 'idle') {
+      toast.error('Accept or reject the proposed changes first');
+      return;
+    }
+
     const userMessage: Message = { role: 'user', content: prompt.trim(), images: attachedImages.length > 0 ? [...attachedImages] : undefined };
     setMessages((prev) => [...prev, userMessage]);
     const imagesToSend = [...attachedImages];
     setPrompt('');
     setAttachedImages([]);
     setIsLoading(true);
+    setProgress({ receivedChars: 0, actionCount: 0 });
+    setStreamedActions([]);
+    setIsRetrying(false);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
+    // Earlier turns give follow-ups like "make that button bigger" their context
+    let conversationId = conversationRef.current;
+    let history: ConversationHistory | undefined;
     try {
-      const response = await callAI(prompt.trim(), components, imagesToSend.length > 0 ? imagesToSend : undefined);
-      
-      const appliedCount = applyActions(response.actions);
+      if (conversationId) {
+        history = await getConversationHistory(conversationId);
+      } else {
+        conversationId = (await createConversation(generateTitleFromMessage(userMessage.content))).id;
+        conversationRef.current = conversationId;
+      }
+      await addUserMessage(conversationId, userMessage.content, userMessage.images);
+    } catch (error) {
+      console.warn('Failed to save the conversation:', error);
+    }
+    // Token counts come from the provider; failed requests and providers that
+    // report none fall back to an estimate
+    const recordReply = (content: string, status: 'success' | 'error', response?: AIResponse) => {
+      if (!conversationId) return;
+      const provider = response?.provider ?? getAIProvider();
+      const actions = response?.actions;
+      const sent = [userMessage.content, ...(history?.turns ?? []).map((turn) => turn.content)].join('\n');
+      addAssistantMessage(conversationId, content, {
+        actions,
+        status,
+        provider,
+        model: response?.model ?? getAIModel(),
+        inputTokens: response?.usage?.inputTokens ?? estimateTokens(sent, provider),
+        outputTokens: response?.usage?.outputTokens ?? estimateTokens(JSON.stringify({ actions: actions ?? [], explanation: content }), provider),
+        imageCount: imagesToSend.length,
+        fallbackFrom: response?.fallbackFrom,
+      }).catch((error) => console.warn('Failed to save the AI reply:', error));
+    };
+    const applier = createActionApplier();
+    // Issue count of the first response when it had to be retried
+    let retriedIssues: number | null = null;
+    const pluralize = (count: number) => `${count} change${count !== 1 ? 's' : ''}`;
+    const finishApplying = () => {
+      const result = applier.finish();
+      const rejectedMessage = formatRejectedProps(result.rejected);
+      if (rejectedMessage) {
+        toast.warning(rejectedMessage);
+      }
+      return result;
+    };
+
+    // One AI response is one undo step, however many actions stream in
+    if (reviewing) {
+      startStaging();
+    } else {
+      beginTransaction();
+    }
+    try {
+      const response = await callAI(userMessage.content, components, imagesToSend.length > 0 ? imagesToSend : undefined, {
+        signal: controller.signal,
+        history,
+        onAction: (action) => {
+          if (reviewing) {
+            stageAction(action);
+          } else {
+            applier.apply(action);
+          }
+          setStreamedActions((prev) => [...prev, action]);
+        },
+        onProgress: setProgress,
+        onRetry: (report) => {
+          retriedIssues = report.issues.length;
+          setIsRetrying(true);
+          setProgress({ receivedChars: 0, actionCount: 0 });
+        },
+        getComponents: () => useBuilderStore.getState().components,
+      });
+
+      const { appliedCount, skipped } = finishApplying();
+      const notes = buildNotes(response.validation, retriedIssues, skipped);
+      if (response.fallbackFrom) {
+        notes.unshift(`Answered by ${getAIProviderAdapter(response.provider).name} (${response.model}) because ${getAIProviderAdapter(response.fallbackFrom).name} failed`);
+      }
+      recordReply(response.explanation, 'success', response);
 
       const assistantMessage: Message = {
         role: 'assistant',
         content: response.explanation,
         actions: response.actions,
+        staged: reviewing,
+        notes: notes.length > 0 ? notes : undefined,
         status: 'success',
       };
       setMessages((prev) => [...prev, assistantMessage]);
 
-      toast.success(`Applied ${appliedCount} change${appliedCount !== 1 ? 's' : ''}`);
+      if (reviewing) {
+        finishStaging(response.explanation);
+        toast.info(`Review ${pluralize(response.actions.length)} proposed on the canvas`);
+        onOpenChange(false);
+        return;
+      }
+
+      const skippedCount = response.validation.issues.length + skipped.length;
+      if (skippedCount > 0) {
+        toast.warning(`Applied ${pluralize(appliedCount)}, skipped ${skippedCount} invalid action${skippedCount !== 1 ? 's' : ''}`);
+      } else {
+        toast.success(`Applied ${pluralize(appliedCount)}`);
+      }
     } catch (error) {
+      const { appliedCount } = finishApplying();
+
+      if (isAbortError(error)) {
+        if (reviewing) {
+          clearStaging();
+        }
+        const assistantMessage: Message = {
+          role: 'assistant',
+          content: appliedCount > 0
+            ? `Cancelled. ${pluralize(appliedCount)} applied before stopping can be undone in one step.`
+            : 'Cancelled before any changes were made.',
+          status: 'cancelled',
+        };
+        setMessages((prev) => [...prev, assistantMessage]);
+        return;
+      }
+
       const errorMessage = error instanceof Error ? error.message : 'Something went wrong';
+      // Whatever was staged before the error can still be reviewed
+      if (reviewing && useAIStagingStore.getState().actions.length > 0) {
+        finishStaging(errorMessage);
+      } else if (reviewing) {
+        clearStaging();
+      }
       
       const assistantMessage: Message = {
         role: 'assistant',
-        content: errorMessage,
+        content: appliedCount > 0 ? `${errorMessage}\n${pluralize(appliedCount)} applied before the error.` : errorMessage,
         status: 'error',
       };
       setMessages((prev) => [...prev, assistantMessage]);
       
+      recordReply(errorMessage, 'error');
       toast.error(errorMessage);
     } finally {
+      if (!reviewing) {
+        commitTransaction();
+      }
+      abortRef.current = null;
       setIsLoading(false);
+      setProgress(null);
+      setStreamedActions([]);
+      setIsRetrying(false);
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // Later requests start without the earlier turns as context
+  const handleNewChat = () => {
+    conversationRef.current = null;
+    setMessages([]);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -294,15 +435,40 @@ export function AIPromptModal({ open, onOpenChange }: AIPromptModalProps) {
             </DialogTitle>
             <DialogDescription className="flex items-center justify-between">
               <span>Describe what you want to create or change</span>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => setShowSettings(true)}
-                className="gap-1 text-xs"
-              >
-                <Settings className="h-3 w-3" />
-                Settings
-              </Button>
+              <span className="flex items-center gap-2">
+                <Label htmlFor="ai-review-changes" className="text-xs font-normal" title="Preview proposed changes on the canvas and choose which to apply">
+                  Review first
+                </Label>
+                <Switch
+                  id="ai-review-changes"
+                  checked={reviewChanges}
+                  onCheckedChange={(checked) => {
+                    setReviewChanges(checked);
+                    setReviewMode(checked);
+                  }}
+                />
+                {messages.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleNewChat}
+                    disabled={isLoading}
+                    className="gap-1 text-xs"
+                  >
+                    <MessageSquarePlus className="h-3 w-3" />
+                    New chat
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowSettings(true)}
+                  className="gap-1 text-xs"
+                >
+                  <Settings className="h-3 w-3" />
+                  Settings
+                </Button>
+              </span>
             </DialogDescription>
           </DialogHeader>
 
@@ -346,6 +512,8 @@ export function AIPromptModal({ open, onOpenChange }: AIPromptModalProps) {
                           ? 'bg-primary text-primary-foreground'
                           : msg.status === 'error'
                           ? 'bg-destructive/10 text-destructive border border-destructive/20'
+                          : msg.status === 'cancelled'
+                          ? 'bg-muted text-muted-foreground'
                           : 'bg-muted'
                       }`}
                     >
@@ -353,6 +521,9 @@ export function AIPromptModal({ open, onOpenChange }: AIPromptModalProps) {
                         {msg.role === 'assistant' && msg.status === 'error' && (
                           <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
                         )}
+                        {msg.role === 'assistant' && msg.status === 'cancelled' && (
+                          <Ban className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                        )}
                         {msg.role === 'assistant' && msg.status === 'success' && (
                           <CheckCircle2 className="h-4 w-4 mt-0.5 flex-shrink-0 text-green-600" />
                         )}
@@ -372,17 +543,45 @@ export function AIPromptModal({ open, onOpenChange }: AIPromptModalProps) {
                       )}
                       {msg.actions && msg.actions.length > 0 && (
                         <div className="mt-2 pt-2 border-t border-border/50 text-xs text-muted-foreground">
-                          {msg.actions.length} action{msg.actions.length !== 1 ? 's' : ''} applied
+                          {msg.actions.length} action{msg.actions.length !== 1 ? 's' : ''} {msg.staged ? 'proposed for review' : 'applied'}
                         </div>
                       )}
+                      {msg.notes && (
+                        <ul className="mt-2 pt-2 border-t border-border/50 text-xs text-muted-foreground space-y-0.5">
+                          {msg.notes.map((note, noteIdx) => (
+                            <li key={noteIdx}>{note}</li>
+                          ))}
+                        </ul>
+                      )}
                     </div>
                   </div>
                 ))
               )}
               {isLoading && (
                 <div className="flex justify-start">
-                  <div className="bg-muted rounded-lg px-4 py-3">
-                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  <div className="max-w-[80%] bg-muted rounded-lg px-4 py-3 space-y-2">
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <Loader2 className="h-4 w-4 animate-spin flex-shrink-0" />
+                      {isRetrying && (!progress || progress.receivedChars === 0)
+                        ? 'Some actions were invalid, asking the AI to fix them…'
+                        : !progress || progress.receivedChars === 0
+                        ? 'Waiting for a response…'
+                        : `Applying changes… ${streamedActions.length} so far (${(progress.receivedChars / 1024).toFixed(1)} KB received)`}
+                    </div>
+                    {streamedActions.length > 0 && (
+                      <ul className="text-xs text-muted-foreground space-y-0.5 pl-6">
+                        {streamedActions.slice(-5).map((action, i) => (
+                          <li key={i} className="flex items-center gap-1.5 truncate">
+                            <CheckCircle2 className="h-3 w-3 flex-shrink-0 text-green-600" />
+                            {describeAction(action)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <Button variant="outline" size="sm" onClick={handleCancel} className="h-7 gap-1 text-xs">
+                      <Square className="h-3 w-3" />
+                      Cancel
+                    </Button>
                   </div>
                 </div>
               )}
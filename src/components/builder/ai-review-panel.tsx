@@ -0,0 +1,219 @@
+import { useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Sparkles, Loader2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBuilderStore, ComponentPosition } from '@/store/builder-store';
+import { useAIStagingStore } from '@/store/ai-staging-store';
+import { AIAction } from '@/lib/ai-service';
+import { StagedChange, createActionApplier, formatRejectedProps, previewActions } from '@/lib/ai-actions';
+import { cn } from '@/lib/utils';
+
+// Colors per action type, shared by the panel and the canvas ghosts
+const ACTION_STYLES: Record<AIAction['type'], { badge: string; ghost: string; tag: string }> = {
+  add: { badge: 'bg-emerald-500/15 text-emerald-700 dark:text-emerald-400', ghost: 'border-emerald-500 bg-emerald-500/10', tag: 'bg-emerald-500' },
+  update: { badge: 'bg-amber-500/15 text-amber-700 dark:text-amber-400', ghost: 'border-amber-500 bg-amber-500/5', tag: 'bg-amber-500' },
+  remove: { badge: 'bg-red-500/15 text-red-700 dark:text-red-400', ghost: 'border-red-500 bg-red-500/15', tag: 'bg-red-500' },
+  move: { badge: 'bg-blue-500/15 text-blue-700 dark:text-blue-400', ghost: 'border-blue-500 bg-blue-500/10', tag: 'bg-blue-500' },
+  resize: { badge: 'bg-blue-500/15 text-blue-700 dark:text-blue-400', ghost: 'border-blue-500 bg-blue-500/10', tag: 'bg-blue-500' },
+};
+
+// Longest value shown in a prop diff
+const MAX_VALUE_LENGTH = 40;
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined) return '—';
+  const text = typeof value === 'string' ? `"${value}"` : JSON.stringify(value);
+  return text.length > MAX_VALUE_LENGTH ? `${text.slice(0, MAX_VALUE_LENGTH)}…` : text;
+};
+
+const formatBox = (box: ComponentPosition) =>
+  `${Math.round(box.x)}, ${Math.round(box.y)} · ${Math.round(box.width)}×${Math.round(box.height)}`;
+
+// Preview of the staged actions on the current canvas
+function useStagedChanges(): StagedChange[] {
+  const components = useBuilderStore((s) => s.components);
+  const breakpoint = useBuilderStore((s) => s.breakpoint);
+  const actions = useAIStagingStore((s) => s.actions);
+  return useMemo(() => previewActions(components, actions, breakpoint), [components, actions, breakpoint]);
+}
+
+/**
+ * Ghost boxes on the canvas for the staged AI actions that are switched on.
+ * Rendered inside the canvas, in canvas coordinates.
+ */
+export function StagedChangesOverlay() {
+  const enabled = useAIStagingStore((s) => s.enabled);
+  const changes = useStagedChanges();
+
+  return (
+    <div className="absolute inset-0 pointer-events-none z-40">
+      {changes.filter((change) => enabled[change.index]).map((change) => {
+        const style = ACTION_STYLES[change.action.type];
+        const moved = change.before && change.after && change.before !== change.after;
+        return (
+          <div key={change.index}>
+            {/* Where a moved or resized component is now */}
+            {moved && (
+              <div
+                className="absolute border border-dotted border-blue-500/60"
+                style={{ left: change.before.x, top: change.before.y, width: change.before.width, height: change.before.height }}
+              />
+            )}
+            {(change.after ?? change.before) && (
+              <div
+                className={cn('absolute border-2 border-dashed rounded-sm', style.ghost)}
+                style={{
+                  left: (change.after ?? change.before).x,
+                  top: (change.after ?? change.before).y,
+                  width: (change.after ?? change.before).width,
+                  height: (change.after ?? change.before).height,
+                }}
+              >
+                <span className={cn('absolute -top-5 left-0 text-white text-[10px] px-1.5 py-0.5 rounded-t-md font-medium whitespace-nowrap', style.tag)}>
+                  {change.action.type} {change.name}
+                </span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Lists staged AI actions as a diff; each can be switched off before the
+ * selection is applied as one undo step
+ */
+export function AIReviewPanel() {
+  const status = useAIStagingStore((s) => s.status);
+  const enabled = useAIStagingStore((s) => s.enabled);
+  const explanation = useAIStagingStore((s) => s.explanation);
+  const toggleAction = useAIStagingStore((s) => s.toggleAction);
+  const setAllEnabled = useAIStagingStore((s) => s.setAllEnabled);
+  const clearStaging = useAIStagingStore((s) => s.clearStaging);
+  const beginTransaction = useBuilderStore((s) => s.beginTransaction);
+  const commitTransaction = useBuilderStore((s) => s.commitTransaction);
+  const undo = useBuilderStore((s) => s.undo);
+  const changes = useStagedChanges();
+
+  if (status === 'idle') return null;
+
+  const selectedCount = enabled.filter(Boolean).length;
+
+  const handleAccept = () => {
+    const applier = createActionApplier();
+    beginTransaction();
+    try {
+      changes.filter((change) => enabled[change.index]).forEach((change) => applier.apply(change.action));
+    } finally {
+      commitTransaction();
+    }
+    const { appliedCount, skipped, rejected } = applier.finish();
+    clearStaging();
+
+    toast.success(`Applied ${appliedCount} change${appliedCount !== 1 ? 's' : ''}`, {
+      action: { label: 'Undo', onClick: () => undo() },
+    });
+    if (skipped.length > 0) {
+      console.warn('Skipped AI actions:', skipped);
+      toast.warning(`Skipped ${skipped.length} change${skipped.length !== 1 ? 's' : ''} whose component no longer exists`);
+    }
+    const rejectedMessage = formatRejectedProps(rejected);
+    if (rejectedMessage) {
+      toast.warning(rejectedMessage);
+    }
+  };
+
+  const handleReject = () => {
+    clearStaging();
+    toast.info('Discarded the proposed changes');
+  };
+
+  return (
+    <div className="absolute top-4 right-4 z-50 w-80 rounded-lg border bg-background/95 backdrop-blur shadow-lg flex flex-col max-h-[calc(100%-5rem)]">
+      <div className="p-3 border-b space-y-1">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          {status === 'streaming' ? (
+            <Loader2 className="h-4 w-4 animate-spin text-primary" />
+          ) : (
+            <Sparkles className="h-4 w-4 text-primary" />
+          )}
+          Review AI changes
+        </div>
+        {explanation && <p className="text-xs text-muted-foreground">{explanation}</p>}
+        <div className="flex items-center justify-between text-xs text-muted-foreground pt-1">
+          <span>{selectedCount} of {changes.length} selected</span>
+          <span className="flex gap-2">
+            <button type="button" className="hover:text-foreground" onClick={() => setAllEnabled(true)}>All</button>
+            <button type="button" className="hover:text-foreground" onClick={() => setAllEnabled(false)}>None</button>
+          </span>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0">
+        <ul className="p-2 space-y-1">
+          {changes.map((change) => (
+            <li key={change.index}>
+              <label className={cn('flex gap-2 rounded-md p-2 cursor-pointer hover:bg-accent/50', !enabled[change.index] && 'opacity-50')}>
+                <Checkbox
+                  checked={enabled[change.index]}
+                  onCheckedChange={(checked) => toggleAction(change.index, checked === true)}
+                  className="mt-0.5"
+                />
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex items-center gap-1.5">
+                    <span className={cn('text-[10px] font-medium uppercase rounded px-1', ACTION_STYLES[change.action.type].badge)}>
+                      {change.action.type}
+                    </span>
+                    <span className="text-xs truncate">{change.name}</span>
+                  </div>
+                  {change.problem && (
+                    <p className="flex items-center gap-1 text-[11px] text-destructive">
+                      <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                      {change.problem}
+                    </p>
+                  )}
+                  {(change.action.type === 'move' || change.action.type === 'resize') && change.before && change.after && (
+                    <p className="text-[11px] font-mono text-muted-foreground">
+                      {formatBox(change.before)} → {formatBox(change.after)}
+                    </p>
+                  )}
+                  {change.propChanges.length > 0 && (
+                    <ul className="text-[11px] font-mono text-muted-foreground space-y-0.5">
+                      {change.propChanges.map((prop) => (
+                        <li key={prop.key} className="break-all">
+                          {prop.key}:{' '}
+                          {change.action.type === 'update' && (
+                            <>
+                              <span className="line-through text-red-600/80">{formatValue(prop.before)}</span>{' → '}
+                            </>
+                          )}
+                          <span className="text-emerald-700 dark:text-emerald-400">{formatValue(prop.after)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </label>
+            </li>
+          ))}
+          {changes.length === 0 && (
+            <li className="p-4 text-center text-xs text-muted-foreground">Waiting for the first change…</li>
+          )}
+        </ul>
+      </ScrollArea>
+
+      <div className="p-3 border-t flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={handleReject}>
+          Reject All
+        </Button>
+        <Button size="sm" onClick={handleAccept} disabled={status !== 'ready' || selectedCount === 0}>
+          Accept {selectedCount === changes.length ? 'All' : selectedCount}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -25,9 +25,14 @@ import {
   AIProvider, fetchOllamaModels, OllamaModel,
   getGeminiApiKey, saveGeminiApiKey, removeGeminiApiKey, isEnvGeminiApiKey,
   getGeminiSettings, setGeminiSettings, GEMINI_MODELS,
-  isEnhancedPromptMode, setEnhancedPromptMode, getAvailablePresets
+  getOpenAICompatibleSettings, setOpenAICompatibleSettings, fetchOpenAICompatibleModels, OpenAICompatibleSettings,
+  isEnhancedPromptMode, setEnhancedPromptMode, getAvailablePresets,
+  isFixtureRecording, setFixtureRecording,
+  getFallbackChain, setFallbackChain, FallbackEntry
 } from '@/lib/ai-service';
-import { Key, Check, Trash2, ExternalLink, Lock, Bot, FileCode, RefreshCw, Sparkles, Zap } from 'lucide-react';
+import { getAIProviderAdapter, getAIProviderAdapters, hasAIProviderAdapter } from '@/lib/ai-providers';
+import { resetCircuits } from '@/lib/ai-fallback';
+import { Key, Check, Trash2, ExternalLink, Lock, Bot, FileCode, RefreshCw, Sparkles, Zap, CircleDot, Plus } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { toast } from 'sonner';
 import { Textarea } from '@/components/ui/textarea';
@@ -39,6 +44,8 @@ interface AISettingsModalProps {
 
 export function AISettingsModal({ open, onOpenChange }: AISettingsModalProps) {
   const [provider, setProvider] = useState<AIProvider>('claude');
+  // Open tab; the provider is the last provider tab chosen, not e.g. Prompt
+  const [tab, setTab] = useState<string>('claude');
   
   // Claude State
   const [apiKey, setApiKey] = useState('');
@@ -57,6 +64,22 @@ export function AISettingsModal({ open, onOpenChange }: AISettingsModalProps) {
   const [isGeminiConfigured, setIsGeminiConfigured] = useState(false);
   const [isGeminiFromEnv, setIsGeminiFromEnv] = useState(false);
 
+  // OpenAI-compatible State
+  const [openaiBaseUrl, setOpenaiBaseUrl] = useState('');
+  const [openaiModel, setOpenaiModel] = useState('');
+  const [openaiApiKey, setOpenaiApiKey] = useState('');
+  const [openaiJsonMode, setOpenaiJsonMode] = useState(true);
+  const [openaiModels, setOpenaiModels] = useState<string[]>([]);
+  const [isLoadingOpenaiModels, setIsLoadingOpenaiModels] = useState(false);
+
+  // Fixture State (the fixture backend only runs in development)
+  const showFixtures = import.meta.env.DEV;
+  const [recordFixtures, setRecordFixtures] = useState(false);
+
+  // Fallback State
+  const [fallbackChain, setFallbackChainState] = useState<FallbackEntry[]>([]);
+  const fallbackAdapters = getAIProviderAdapters().filter((adapter) => adapter.id !== 'fixture' || showFixtures);
+
   // System Prompt State
   const [systemPrompt, setSystemPromptState] = useState('');
   const [useEnhancedPrompt, setUseEnhancedPrompt] = useState(false);
@@ -73,11 +96,31 @@ export function AISettingsModal({ open, onOpenChange }: AISettingsModalProps) {
     }
   };
 
+  // OpenAI-compatible settings as currently entered in the form
+  const getOpenaiFormSettings = (): OpenAICompatibleSettings => ({
+    baseUrl: openaiBaseUrl.trim(),
+    model: openaiModel.trim(),
+    apiKey: openaiApiKey.trim() || undefined,
+    jsonMode: openaiJsonMode,
+  });
+
+  const loadOpenaiModels = async (settings: OpenAICompatibleSettings) => {
+    if (!settings.baseUrl) return;
+    setIsLoadingOpenaiModels(true);
+    try {
+      const models = await fetchOpenAICompatibleModels(settings);
+      setOpenaiModels(models);
+    } finally {
+      setIsLoadingOpenaiModels(false);
+    }
+  };
+
   useEffect(() => {
     if (open) {
       // Load Provider
       const currentProvider = getAIProvider();
       setProvider(currentProvider);
+      setTab(currentProvider);
 
       // Load Claude Settings
       const existingKey = getApiKey();
@@ -100,6 +143,16 @@ export function AISettingsModal({ open, onOpenChange }: AISettingsModalProps) {
       const geminiSettings = getGeminiSettings();
       setGeminiModel(geminiSettings.model);
 
+      // Load OpenAI-compatible Settings
+      const openaiSettings = getOpenAICompatibleSettings();
+      setOpenaiBaseUrl(openaiSettings.baseUrl);
+      setOpenaiModel(openaiSettings.model);
+      setOpenaiApiKey(openaiSettings.apiKey || '');
+      setOpenaiJsonMode(openaiSettings.jsonMode);
+
+      setRecordFixtures(isFixtureRecording());
+      setFallbackChainState(getFallbackChain());
+
       // Load System Prompt
       setSystemPromptState(getSystemPrompt());
       setUseEnhancedPrompt(isEnhancedPromptMode());
@@ -117,10 +170,32 @@ export function AISettingsModal({ open, onOpenChange }: AISettingsModalProps) {
     }
   }, [provider, open]);
 
+  // Load the server's models when switching to the OpenAI-compatible tab
+  useEffect(() => {
+    if (provider === 'openai-compatible' && open) {
+      loadOpenaiModels(getOpenAICompatibleSettings());
+    }
+  }, [provider, open]);
+
+  const updateFallback = (index: number, entry: FallbackEntry) => {
+    setFallbackChainState((chain) => chain.map((current, i) => (i === index ? entry : current)));
+  };
+
+  const handleTabChange = (value: string) => {
+    setTab(value);
+    if (hasAIProviderAdapter(value)) {
+      setProvider(value);
+    }
+  };
+
   const handleSave = () => {
     // Save Provider
     setAIProvider(provider);
 
+    // Save Fallbacks; changed settings get a fresh chance after failures
+    setFallbackChain(fallbackChain.map((entry) => ({ provider: entry.provider, model: entry.model?.trim() || undefined })));
+    resetCircuits();
+
     // Save System Prompt
     setSystemPrompt(systemPrompt);
 
@@ -165,6 +240,17 @@ export function AISettingsModal({ open, onOpenChange }: AISettingsModalProps) {
         endpoint: ollamaEndpoint.trim(),
         model: ollamaModel.trim()
       });
+    } else if (provider === 'openai-compatible') {
+      if (!openaiBaseUrl.trim()) {
+        toast.error('Please enter the server URL');
+        return;
+      }
+      if (!openaiModel.trim()) {
+        toast.error('Please enter a model name');
+        return;
+      }
+
+      setOpenAICompatibleSettings(getOpenaiFormSettings());
     }
 
     toast.success('AI settings saved successfully');
@@ -218,11 +304,13 @@ export function AISettingsModal({ open, onOpenChange }: AISettingsModalProps) {
           </DialogDescription>
         </DialogHeader>
 
-        <Tabs value={provider} onValueChange={(v) => setProvider(v as AIProvider)} className="w-full">
-          <TabsList className="grid w-full grid-cols-4">
+        <Tabs value={tab} onValueChange={handleTabChange} className="w-full">
+          <TabsList className={`grid w-full ${showFixtures ? 'grid-cols-6' : 'grid-cols-5'}`}>
             <TabsTrigger value="claude">Claude</TabsTrigger>
             <TabsTrigger value="gemini">Gemini</TabsTrigger>
             <TabsTrigger value="ollama">Ollama</TabsTrigger>
+            <TabsTrigger value="openai-compatible" title="OpenAI-compatible server">OpenAI API</TabsTrigger>
+            {showFixtures && <TabsTrigger value="fixture">Fixtures</TabsTrigger>}
             <TabsTrigger value="prompt">Prompt</TabsTrigger>
           </TabsList>
           
@@ -411,6 +499,121 @@ export function AISettingsModal({ open, onOpenChange }: AISettingsModalProps) {
             </div>
           </TabsContent>
 
+          <TabsContent value="openai-compatible" className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="openaiBaseUrl">Server URL</Label>
+              <Input
+                id="openaiBaseUrl"
+                placeholder="http://localhost:1234/v1"
+                value={openaiBaseUrl}
+                onChange={(e) => setOpenaiBaseUrl(e.target.value)}
+                onBlur={() => loadOpenaiModels(getOpenaiFormSettings())}
+              />
+              <p className="text-xs text-muted-foreground">
+                Any server with an OpenAI-style API, such as LM Studio, llama.cpp server or vLLM.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="openaiApiKey">API Key (optional)</Label>
+              <Input
+                id="openaiApiKey"
+                type="password"
+                placeholder="Leave empty if the server needs none"
+                value={openaiApiKey}
+                onChange={(e) => setOpenaiApiKey(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="openaiModel">Model Name</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="openaiModel"
+                  placeholder="qwen2.5-coder-7b-instruct"
+                  value={openaiModel}
+                  onChange={(e) => setOpenaiModel(e.target.value)}
+                  className="flex-1"
+                />
+                <Select onValueChange={setOpenaiModel} value={openaiModels.includes(openaiModel) ? openaiModel : ''}>
+                  <SelectTrigger className="w-[180px]" disabled={openaiModels.length === 0}>
+                    <SelectValue placeholder={openaiModels.length > 0 ? 'Select Model' : 'No models found'} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {openaiModels.map((model) => (
+                      <SelectItem key={model} value={model}>
+                        {model}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => loadOpenaiModels(getOpenaiFormSettings())}
+                  disabled={isLoadingOpenaiModels || !openaiBaseUrl.trim()}
+                  title="Refresh Models"
+                >
+                  <RefreshCw className={`h-4 w-4 ${isLoadingOpenaiModels ? 'animate-spin' : ''}`} />
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Enter manually or select a model listed by the server.
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between gap-4">
+              <div className="space-y-0.5">
+                <Label htmlFor="openaiJsonMode">JSON mode</Label>
+                <p className="text-xs text-muted-foreground">
+                  Turn off if the server rejects <code className="bg-muted px-1 rounded">response_format</code>.
+                </p>
+              </div>
+              <Switch id="openaiJsonMode" checked={openaiJsonMode} onCheckedChange={setOpenaiJsonMode} />
+            </div>
+
+            <div className="bg-muted/50 p-3 rounded-md text-xs text-muted-foreground">
+              <p className="font-medium mb-1">Note:</p>
+              <p>The server must allow requests from this page. In LM Studio, enable CORS in the server settings.</p>
+            </div>
+          </TabsContent>
+
+          {showFixtures && (
+            <TabsContent value="fixture" className="space-y-4 py-4">
+              <p className="text-sm text-muted-foreground">
+                Replays recorded responses instead of calling a model, so the builder can be developed and tested offline.
+                A prompt matches a recording when the canvas has the same components in the same order; component ids
+                may differ. A prompt without a recorded response fails with its fixture key.
+              </p>
+
+              <div className="flex items-center justify-between gap-4 p-3 border rounded-lg">
+                <div className="space-y-0.5">
+                  <Label htmlFor="record-fixtures" className="flex items-center gap-1.5">
+                    <CircleDot className={`h-3.5 w-3.5 ${recordFixtures ? 'text-red-500' : 'text-muted-foreground'}`} />
+                    Record responses
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Save every response from the other providers as a fixture.
+                  </p>
+                </div>
+                <Switch
+                  id="record-fixtures"
+                  checked={recordFixtures}
+                  onCheckedChange={(checked) => {
+                    setRecordFixtures(checked);
+                    setFixtureRecording(checked);
+                  }}
+                />
+              </div>
+
+              <div className="bg-muted/50 p-3 rounded-md text-xs text-muted-foreground">
+                <p className="font-medium mb-1">Note:</p>
+                <p>Fixtures are read from and saved to <code className="bg-muted px-1 rounded">fixtures/ai</code> by the backend.</p>
+                <p className="mt-1">Run: <code className="bg-muted px-1 rounded">npm run start:backend</code></p>
+              </div>
+            </TabsContent>
+          )}
+
           <TabsContent value="prompt" className="space-y-4 py-4">
             {/* Enhanced Mode Toggle */}
             <div className="p-4 border rounded-lg bg-gradient-to-r from-indigo-500/10 to-purple-500/10 border-indigo-500/20">
@@ -485,6 +688,60 @@ export function AISettingsModal({ open, onOpenChange }: AISettingsModalProps) {
           </TabsContent>
         </Tabs>
 
+        <div className="space-y-2 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <Label>Fallback providers</Label>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 gap-1 text-xs"
+              onClick={() => setFallbackChainState((chain) => [...chain, { provider: 'ollama' }])}
+            >
+              <Plus className="h-3 w-3" />
+              Add
+            </Button>
+          </div>
+          {fallbackChain.map((entry, index) => (
+            <div key={index} className="flex gap-2">
+              <Select
+                value={entry.provider}
+                onValueChange={(value) => updateFallback(index, { provider: value as AIProvider })}
+              >
+                <SelectTrigger className="w-[170px] h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {fallbackAdapters.map((adapter) => (
+                    <SelectItem key={adapter.id} value={adapter.id}>
+                      {adapter.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                className="h-8 flex-1 text-xs"
+                placeholder={getAIProviderAdapter(entry.provider).getModel() || 'Model'}
+                value={entry.model ?? ''}
+                onChange={(e) => updateFallback(index, { ...entry, model: e.target.value })}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0"
+                onClick={() => setFallbackChainState((chain) => chain.filter((_, i) => i !== index))}
+                title="Remove fallback"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            {fallbackChain.length === 0
+              ? 'None. Requests fail when the selected provider does.'
+              : 'Tried in order when the selected provider fails before responding. An empty model uses the provider\'s own setting.'}
+          </p>
+        </div>
+
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
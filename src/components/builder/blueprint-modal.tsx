@@ -1,23 +1,59 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { useBuilderStore } from '@/store/builder-store';
 import { generateBlueprint } from '@/lib/blueprint-utils';
-import { Copy, Check, FileCode } from 'lucide-react';
+import { importProject, downloadProjectJSON, ProjectImportError } from '@/lib/project-format';
+import { Copy, Check, FileCode, Upload, Download, AlertTriangle } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { toast } from 'sonner';
 interface BlueprintModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 export function BlueprintModal({ open, onOpenChange }: BlueprintModalProps) {
   const components = useBuilderStore((s) => s.components);
+  const loadComponents = useBuilderStore((s) => s.loadComponents);
+  const undo = useBuilderStore((s) => s.undo);
   const [copied, setCopied] = useState(false);
+  const [tab, setTab] = useState('blueprint');
+  const [importText, setImportText] = useState('');
+  const [importErrors, setImportErrors] = useState<ProjectImportError[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const blueprint = generateBlueprint(components);
   const handleCopy = () => {
     navigator.clipboard.writeText(blueprint);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImportText(await file.text());
+    setImportErrors([]);
+    e.target.value = '';
+  };
+  const handleImport = () => {
+    const result = importProject(importText);
+    setImportErrors(result.errors);
+    if (result.components.length === 0) {
+      toast.error('Nothing could be imported');
+      return;
+    }
+    loadComponents(result.components);
+    const message = `Imported ${result.source === 'json' ? 'project' : 'blueprint'}`;
+    const action = { label: 'Undo', onClick: () => undo() };
+    if (result.errors.length > 0) {
+      toast.warning(`${message} with ${result.errors.length} issue(s)`, { action });
+      return;
+    }
+    toast.success(message, { action });
+    setImportText('');
+    onOpenChange(false);
+  };
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-3xl max-h-[80vh] flex flex-col">
@@ -27,32 +63,98 @@ export function BlueprintModal({ open, onOpenChange }: BlueprintModalProps) {
             Project Blueprint
           </DialogTitle>
           <DialogDescription>
-            This is the generated architectural blueprint of your current layout.
+            {tab === 'blueprint'
+              ? 'This is the generated architectural blueprint of your current layout.'
+              : 'Paste a project JSON file or a generated blueprint to rebuild the canvas.'}
           </DialogDescription>
         </DialogHeader>
-        <div className="flex-1 min-h-0 border rounded-md bg-muted/50 relative group">
-          <ScrollArea className="h-[400px] w-full p-4">
-            <pre className="text-sm font-mono whitespace-pre-wrap text-foreground/80">
-              {blueprint}
-            </pre>
-          </ScrollArea>
-          <Button
-            size="icon"
-            variant="secondary"
-            className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity"
-            onClick={handleCopy}
-          >
-            {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
-          </Button>
-        </div>
+        <Tabs value={tab} onValueChange={setTab} className="flex-1 min-h-0 flex flex-col">
+          <TabsList className="self-start">
+            <TabsTrigger value="blueprint">Blueprint</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+          </TabsList>
+          <TabsContent value="blueprint" className="flex-1 min-h-0">
+            <div className="border rounded-md bg-muted/50 relative group">
+              <ScrollArea className="h-[400px] w-full p-4">
+                <pre className="text-sm font-mono whitespace-pre-wrap text-foreground/80">
+                  {blueprint}
+                </pre>
+              </ScrollArea>
+              <Button
+                size="icon"
+                variant="secondary"
+                className="absolute top-2 right-2 opacity-0 group-hover:opacity-100 transition-opacity"
+                onClick={handleCopy}
+              >
+                {copied ? <Check className="h-4 w-4 text-green-500" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </TabsContent>
+          <TabsContent value="import" className="flex-1 min-h-0 space-y-3">
+            <Textarea
+              value={importText}
+              onChange={(e) => {
+                setImportText(e.target.value);
+                setImportErrors([]);
+              }}
+              placeholder={'{ "format": "aetheria-project", ... } or # Project Blueprint ...'}
+              className="h-[260px] font-mono text-sm resize-none"
+            />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.md,.markdown,.txt"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            {importErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Some nodes could not be reconstructed</AlertTitle>
+                <AlertDescription>
+                  <ScrollArea className="max-h-[100px]">
+                    <ul className="text-xs space-y-1">
+                      {importErrors.map((error, i) => (
+                        <li key={i}>
+                          {error.line !== undefined && <span className="font-mono">L{error.line} </span>}
+                          {error.nodeId && <span className="font-mono">[{error.nodeId}] </span>}
+                          {error.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                </AlertDescription>
+              </Alert>
+            )}
+          </TabsContent>
+        </Tabs>
         <DialogFooter>
           <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
-          <Button onClick={handleCopy} className="gap-2">
-            {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
-            {copied ? 'Copied!' : 'Copy to Clipboard'}
-          </Button>
+          {tab === 'blueprint' ? (
+            <>
+              <Button variant="outline" onClick={() => downloadProjectJSON(components)} className="gap-2">
+                <Download className="h-4 w-4" />
+                Download JSON
+              </Button>
+              <Button onClick={handleCopy} className="gap-2">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                {copied ? 'Copied!' : 'Copy to Clipboard'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="gap-2">
+                <Upload className="h-4 w-4" />
+                Open File
+              </Button>
+              <Button onClick={handleImport} disabled={!importText.trim()} className="gap-2">
+                <FileCode className="h-4 w-4" />
+                Replace Canvas
+              </Button>
+            </>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -2,22 +2,80 @@ import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { ThemeToggle } from '@/components/ThemeToggle';
 import { useBuilderStore } from '@/store/builder-store';
-import { Eye, Edit3, Code, Trash2, Download, Sparkles } from 'lucide-react';
+import { Eye, Edit3, Code, Trash2, Download, Sparkles, Undo2, Redo2, Monitor, Tablet, Smartphone, LayoutTemplate, Palette } from 'lucide-react';
 import { BlueprintModal } from './blueprint-modal';
 import { AIPromptModal } from './ai-prompt-modal';
+import { TemplatePickerModal } from './template-picker-modal';
+import { RestyleModal } from './restyle-modal';
+import { DesignTokensModal } from './design-tokens-modal';
+import { ProjectSwitcher } from './project-switcher';
+import { downloadReactProject } from '@/lib/react-export';
+import { downloadStaticHTML } from '@/lib/blueprint-utils';
+import { Breakpoint, BREAKPOINTS, BREAKPOINT_CONFIG } from '@/lib/responsive';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { toast } from 'sonner';
 
+const BREAKPOINT_ICONS: Record<Breakpoint, typeof Monitor> = {
+  desktop: Monitor,
+  tablet: Tablet,
+  mobile: Smartphone,
+};
+
 export function BuilderHeader() {
   const mode = useBuilderStore((s) => s.mode);
   const setMode = useBuilderStore((s) => s.setMode);
+  const breakpoint = useBuilderStore((s) => s.breakpoint);
+  const setBreakpoint = useBuilderStore((s) => s.setBreakpoint);
   const reset = useBuilderStore((s) => s.reset);
+  const components = useBuilderStore((s) => s.components);
+  const undo = useBuilderStore((s) => s.undo);
+  const redo = useBuilderStore((s) => s.redo);
+  const canUndo = useBuilderStore((s) => s.past.length > 0);
+  const canRedo = useBuilderStore((s) => s.future.length > 0);
   const [showBlueprint, setShowBlueprint] = useState(false);
   const [showAIPrompt, setShowAIPrompt] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [showRestyle, setShowRestyle] = useState(false);
+  const [showTokens, setShowTokens] = useState(false);
 
   const handleReset = () => {
-    if (confirm('Are you sure you want to clear the canvas? This cannot be undone.')) {
+    if (confirm('Are you sure you want to clear the canvas?')) {
       reset();
-      toast.success('Canvas cleared');
+      toast.success('Canvas cleared', {
+        action: { label: 'Undo', onClick: () => undo() },
+      });
+    }
+  };
+
+  const handleExport = (format: 'react' | 'html') => {
+    if (components.length === 0) {
+      toast.error('Add some components before exporting');
+      return;
+    }
+    try {
+      if (format === 'react') {
+        downloadReactProject(components);
+        toast.success('React project exported');
+        return;
+      }
+      const { unsupportedClasses } = downloadStaticHTML(components);
+      if (unsupportedClasses.length > 0) {
+        toast.warning('Static HTML exported with unsupported classes', {
+          description: unsupportedClasses.slice(0, 5).join(', ') +
+            (unsupportedClasses.length > 5 ? ` and ${unsupportedClasses.length - 5} more` : ''),
+        });
+      } else {
+        toast.success('Static HTML exported');
+      }
+    } catch (error) {
+      console.error('Export failed:', error);
+      toast.error('Failed to export project');
     }
   };
 
@@ -30,6 +88,9 @@ export function BuilderHeader() {
         <h1 className="font-bold text-lg tracking-tight hidden sm:block">
           Aetheria <span className="text-muted-foreground font-normal">Builder</span>
         </h1>
+        <div className="ml-2 pl-2 border-l border-border flex items-center gap-2">
+          <ProjectSwitcher />
+        </div>
       </div>
 
       <div className="flex items-center gap-2 bg-muted/50 p-1 rounded-lg border border-border">
@@ -51,9 +112,35 @@ export function BuilderHeader() {
           <Eye className="h-3.5 w-3.5" />
           Preview
         </Button>
+        <div className="w-px h-5 bg-border" />
+        {BREAKPOINTS.map((bp) => {
+          const Icon = BREAKPOINT_ICONS[bp];
+          return (
+            <Button
+              key={bp}
+              variant={breakpoint === bp ? 'secondary' : 'ghost'}
+              size="icon"
+              onClick={() => setBreakpoint(bp)}
+              className="h-8 w-8"
+              title={`${BREAKPOINT_CONFIG[bp].label} (${BREAKPOINT_CONFIG[bp].width}px)`}
+            >
+              <Icon className="h-3.5 w-3.5" />
+            </Button>
+          );
+        })}
       </div>
 
       <div className="flex items-center gap-3">
+        {/* Undo / Redo */}
+        <div className="flex items-center">
+          <Button variant="ghost" size="icon" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+
         {/* AI Assistant Button */}
         <Button
           variant="outline"
@@ -65,6 +152,27 @@ export function BuilderHeader() {
           <span className="hidden sm:inline">AI Assistant</span>
         </Button>
 
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2 hidden sm:flex"
+          onClick={() => setShowTemplates(true)}
+          title="Start from a page template"
+        >
+          <LayoutTemplate className="h-4 w-4" />
+          Templates
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2 hidden sm:flex"
+          onClick={() => setShowRestyle(true)}
+          title="Apply a style preset to the whole page"
+        >
+          <Palette className="h-4 w-4" />
+          Restyle
+        </Button>
+
         <Button variant="ghost" size="icon" onClick={handleReset} title="Clear Canvas">
           <Trash2 className="h-4 w-4 text-muted-foreground hover:text-destructive" />
         </Button>
@@ -77,10 +185,30 @@ export function BuilderHeader() {
           <Code className="h-4 w-4" />
           Blueprint
         </Button>
-        <Button size="sm" className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md shadow-blue-500/20">
-          <Download className="h-4 w-4" />
-          <span className="hidden sm:inline">Export</span>
-        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              size="sm"
+              className="gap-2 bg-blue-600 hover:bg-blue-700 text-white shadow-md shadow-blue-500/20"
+              title="Export project"
+            >
+              <Download className="h-4 w-4" />
+              <span className="hidden sm:inline">Export</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => handleExport('react')}>
+              React + Tailwind project (.zip)
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => handleExport('html')}>
+              Static HTML + CSS (.html)
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setShowTokens(true)}>
+              Design tokens…
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
         <div className="ml-2 pl-2 border-l border-border">
           <ThemeToggle className="static" />
         </div>
@@ -88,6 +216,9 @@ export function BuilderHeader() {
 
       <BlueprintModal open={showBlueprint} onOpenChange={setShowBlueprint} />
       <AIPromptModal open={showAIPrompt} onOpenChange={setShowAIPrompt} />
+      <TemplatePickerModal open={showTemplates} onOpenChange={setShowTemplates} />
+      <RestyleModal open={showRestyle} onOpenChange={setShowRestyle} />
+      <DesignTokensModal open={showTokens} onOpenChange={setShowTokens} />
     </header>
   );
 }
\ No newline at end of file
@@ -1,16 +1,21 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { useDraggable } from '@dnd-kit/core';
-import { Box, MousePointerClick, LayoutTemplate, Heading, Type, FormInput, GripVertical, Layers, Plus } from 'lucide-react';
+import {
+  Box, MousePointerClick, LayoutTemplate, Heading, Type, FormInput, GripVertical, Layers, Plus,
+  Image, PanelTop, AppWindow, Table, ChevronsUpDown, SquareCheck, CircleUser, Tag, Component as SymbolIcon,
+} from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { ComponentType } from '@/store/builder-store';
+import { getSymbolMasters } from '@/lib/symbols';
+import { ComponentType, useBuilderStore } from '@/store/builder-store';
 import { COMPONENT_LABELS } from './component-constants';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LayerTree } from './layer-tree';
 
-const DraggableItem = ({ type, label, icon: Icon }: { type: ComponentType; label: string; icon: any }) => {
+// Dropping an item with a symbolId places an instance of that symbol
+const DraggableItem = ({ type, label, icon: Icon, symbolId }: { type: ComponentType; label: string; icon: any; symbolId?: string }) => {
   const { attributes, listeners, setNodeRef, isDragging } = useDraggable({
-    id: `sidebar-${type}`,
-    data: { type, isSidebarItem: true },
+    id: symbolId ? `sidebar-symbol-${symbolId}` : `sidebar-${type}`,
+    data: { type, label, symbolId, isSidebarItem: true },
   });
 
   return (
@@ -33,6 +38,9 @@ const DraggableItem = ({ type, label, icon: Icon }: { type: ComponentType; label
 };
 
 export function BuilderSidebar() {
+  const components = useBuilderStore((s) => s.components);
+  const symbols = useMemo(() => getSymbolMasters(components).map((master) => ({ type: master.type, ...master.symbol! })), [components]);
+
   return (
     <aside className="w-64 border-r border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 flex flex-col h-full overflow-hidden">
       <Tabs defaultValue="add" className="flex flex-col h-full">
@@ -54,6 +62,8 @@ export function BuilderSidebar() {
             <h3 className="text-xs font-medium text-muted-foreground pl-1">Layout</h3>
             <DraggableItem type="container" label={COMPONENT_LABELS.container} icon={Box} />
             <DraggableItem type="card" label={COMPONENT_LABELS.card} icon={LayoutTemplate} />
+            <DraggableItem type="tabs" label={COMPONENT_LABELS.tabs} icon={AppWindow} />
+            <DraggableItem type="navbar" label={COMPONENT_LABELS.navbar} icon={PanelTop} />
           </div>
           
           <div className="space-y-3">
@@ -61,8 +71,31 @@ export function BuilderSidebar() {
             <DraggableItem type="button" label={COMPONENT_LABELS.button} icon={MousePointerClick} />
             <DraggableItem type="header" label={COMPONENT_LABELS.header} icon={Heading} />
             <DraggableItem type="text" label={COMPONENT_LABELS.text} icon={Type} />
+            <DraggableItem type="badge" label={COMPONENT_LABELS.badge} icon={Tag} />
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-xs font-medium text-muted-foreground pl-1">Forms</h3>
             <DraggableItem type="input" label={COMPONENT_LABELS.input} icon={FormInput} />
+            <DraggableItem type="select" label={COMPONENT_LABELS.select} icon={ChevronsUpDown} />
+            <DraggableItem type="checkbox" label={COMPONENT_LABELS.checkbox} icon={SquareCheck} />
           </div>
+
+          <div className="space-y-3">
+            <h3 className="text-xs font-medium text-muted-foreground pl-1">Media & Data</h3>
+            <DraggableItem type="image" label={COMPONENT_LABELS.image} icon={Image} />
+            <DraggableItem type="avatar" label={COMPONENT_LABELS.avatar} icon={CircleUser} />
+            <DraggableItem type="table" label={COMPONENT_LABELS.table} icon={Table} />
+          </div>
+
+          {symbols.length > 0 && (
+            <div className="space-y-3">
+              <h3 className="text-xs font-medium text-muted-foreground pl-1">Symbols</h3>
+              {symbols.map((symbol) => (
+                <DraggableItem key={symbol.id} type={symbol.type} label={symbol.name} icon={SymbolIcon} symbolId={symbol.id} />
+              ))}
+            </div>
+          )}
           
           <div className="pt-4 mt-4 border-t border-border">
             <p className="text-xs text-muted-foreground text-center">
@@ -1,6 +1,21 @@
-import React, { useRef, useCallback, useState, useEffect } from 'react';
-import { useBuilderStore, Component } from '@/store/builder-store';
+import React, { useRef, useCallback, useState, useEffect, useMemo } from 'react';
+import {
+  useBuilderStore,
+  Component,
+  ComponentPosition,
+  getAbsolutePosition,
+  getTopLevelSelection,
+} from '@/store/builder-store';
 import { ComponentRegistry } from './component-registry';
+import { findDropTarget, getBoundingBox, toCanvasPoint, zoomAt } from './canvas-utils';
+import { CanvasRuler, RULER_SIZE } from './canvas-rulers';
+import { StagedChangesOverlay } from './ai-review-panel';
+import { useWorkspaceStore } from '@/store/workspace-store';
+import { DEFAULT_CANVAS } from '@/lib/workspace-defaults';
+import { CanvasConfig } from '@/types/workspace';
+import { snapToSiblings, snapToGrid, SnapEdge, SnapGuide, SnapDistance } from '@/lib/canvas-snapping';
+import { BREAKPOINT_CONFIG, resolveTree } from '@/lib/responsive';
+import { compileTailwindSubset, splitClassNames } from '@/lib/tailwind-subset';
 import { cn } from '@/lib/utils';
 
 // Check if a component type supports inline text editing
@@ -80,10 +95,11 @@ const InlineEditor: React.FC<InlineEditorProps> = ({
 interface CanvasNodeProps {
   node: Component;
   mode: 'edit' | 'preview';
-  selectedId: string | null;
+  selectedIds: string[];
   editingId: string | null;
   hoveredId: string | null;
-  onSelect: (id: string) => void;
+  dropTargetId: string | null;
+  onSelect: (id: string, additive?: boolean) => void;
   onDragStart: (e: React.MouseEvent, id: string) => void;
   onResizeStart: (e: React.MouseEvent, id: string, handle: string) => void;
   onStartEditing: (id: string) => void;
@@ -95,9 +111,10 @@ interface CanvasNodeProps {
 const CanvasNode: React.FC<CanvasNodeProps> = ({ 
   node, 
   mode, 
-  selectedId,
+  selectedIds,
   editingId,
   hoveredId,
+  dropTargetId,
   onSelect,
   onDragStart,
   onResizeStart,
@@ -106,7 +123,9 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({
   onUpdateText,
   setHoveredId,
 }) => {
-  const isSelected = selectedId === node.id;
+  const isSelected = selectedIds.includes(node.id);
+  // Label and resize handles belong to a single selection; groups get the selection box
+  const isSoleSelection = isSelected && selectedIds.length === 1;
   const isEditing = editingId === node.id;
   const canEditText = isTextEditable(node.type);
 
@@ -114,7 +133,14 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({
     if (mode === 'edit' && !isEditing) {
       e.stopPropagation();
       e.preventDefault(); // Prevent native drag/selection
-      onSelect(node.id);
+      if (e.shiftKey) {
+        onSelect(node.id, true);
+        return;
+      }
+      // Dragging a member of a multi-selection moves the whole selection
+      if (!isSelected) {
+        onSelect(node.id);
+      }
       onDragStart(e, node.id);
     }
   };
@@ -150,9 +176,10 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({
           key={child.id}
           node={child}
           mode={mode}
-          selectedId={selectedId}
+          selectedIds={selectedIds}
           editingId={editingId}
           hoveredId={hoveredId}
+          dropTargetId={dropTargetId}
           onSelect={onSelect}
           onDragStart={onDragStart}
           onResizeStart={onResizeStart}
@@ -187,6 +214,8 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({
       onMouseDown={handleMouseDown}
       onDoubleClick={handleDoubleClick}
       onMouseOver={handleMouseOver}
+      data-component-id={node.id}
+      data-component-type={node.type}
       style={{
         position: 'absolute',
         left: node.position.x,
@@ -199,11 +228,12 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({
         "group transition-shadow duration-150",
         isSelected && "ring-2 ring-primary ring-offset-1 z-20",
         !isSelected && hoveredId === node.id && "ring-1 ring-primary/50",
-        isEditing && "ring-2 ring-blue-500 z-30"
+        isEditing && "ring-2 ring-blue-500 z-30",
+        dropTargetId === node.id && "ring-2 ring-blue-500 ring-offset-2 bg-blue-500/5"
       )}
     >
       {/* Component Label */}
-      {isSelected && !isEditing && (
+      {isSoleSelection && !isEditing && (
         <div className="absolute -top-6 left-0 bg-primary text-primary-foreground text-[10px] px-2 py-0.5 rounded-t-md font-medium z-30 uppercase tracking-wider cursor-move">
           {node.type} {canEditText && <span className="opacity-70">• dbl-click to edit</span>}
         </div>
@@ -233,7 +263,7 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({
       </div>
 
       {/* Resize Handles - only show when selected and not editing */}
-      {isSelected && !isEditing && (
+      {isSoleSelection && !isEditing && (
         <>
           {/* Corner handles */}
           <div
@@ -275,17 +305,245 @@ const CanvasNode: React.FC<CanvasNodeProps> = ({
   );
 };
 
+// A component being moved or scaled as part of a multi-selection
+interface GroupItem {
+  id: string;
+  // Position relative to the component's parent when the gesture started
+  start: ComponentPosition;
+  // Canvas-space position when the gesture started
+  absolute: ComponentPosition;
+}
+
+interface DragState {
+  isDragging: boolean;
+  isResizing: boolean;
+  isGroupResizing: boolean;
+  isMarquee: boolean;
+  nodeId: string | null;
+  startX: number;
+  startY: number;
+  // Zoom when the gesture started; screen deltas are divided by it
+  scale: number;
+  startNodeX: number;
+  startNodeY: number;
+  startWidth: number;
+  startHeight: number;
+  startFontSize: number;
+  resizeHandle: string | null;
+  parentId: string | null;
+  dropTargetId: string | null;
+  // Canvas-space offset of the dragged node's parent, and its siblings' boxes for smart guides
+  parentOffsetX: number;
+  parentOffsetY: number;
+  siblings: ComponentPosition[];
+  // Multi-selection drag / resize
+  group: GroupItem[];
+  startBox: ComponentPosition | null;
+  // Marquee started with shift held: add to the selection instead of replacing it
+  additive: boolean;
+}
+
+const createIdleDragState = (): DragState => ({
+  isDragging: false,
+  isResizing: false,
+  isGroupResizing: false,
+  isMarquee: false,
+  nodeId: null,
+  startX: 0,
+  scale: 1,
+  startY: 0,
+  startNodeX: 0,
+  startNodeY: 0,
+  startWidth: 0,
+  startHeight: 0,
+  startFontSize: 16,
+  resizeHandle: null,
+  parentId: null,
+  dropTargetId: null,
+  parentOffsetX: 0,
+  parentOffsetY: 0,
+  siblings: [],
+  group: [],
+  startBox: null,
+  additive: false,
+});
+
+// Union of canvas-space boxes
+const intersects = (a: ComponentPosition, b: ComponentPosition): boolean =>
+  a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + b.height && a.y + a.height > b.y;
+
+const GROUP_HANDLES = ['nw', 'ne', 'sw', 'se'] as const;
+
+// Canvas size when the content is smaller than this
+const MIN_CANVAS_SIZE = 2000;
+
+interface SnapOverlay {
+  guides: SnapGuide[];
+  distances: SnapDistance[];
+}
+
+// Canvas-space boxes of the components sharing a parent, minus the ones being moved
+const getSiblingBoxes = (components: Component[], parentId: string | null, excludeIds: string[]): ComponentPosition[] => {
+  const parent = parentId ? findInTree(components, parentId) : null;
+  const siblings = parent ? parent.children : components;
+  return siblings
+    .filter((node) => !excludeIds.includes(node.id))
+    .flatMap((node) => {
+      const box = getAbsolutePosition(components, node.id);
+      return box ? [box] : [];
+    });
+};
+
+const findInTree = (nodes: Component[], id: string): Component | undefined => {
+  for (const node of nodes) {
+    if (node.id === id) return node;
+    const found = findInTree(node.children, id);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+const gridOffset = (rect: ComponentPosition, axis: 'x' | 'y', edge: SnapEdge, gridSize: number): number => {
+  const size = axis === 'x' ? rect.width : rect.height;
+  const value = edge === 'start' ? rect[axis] : edge === 'end' ? rect[axis] + size : rect[axis] + size / 2;
+  return snapToGrid(value, gridSize) - value;
+};
+
+// Snap a proposed canvas-space rect to sibling guides, falling back to the grid per axis
+const snapRect = (
+  rect: ComponentPosition,
+  siblings: ComponentPosition[],
+  config: CanvasConfig,
+  xEdges: SnapEdge[],
+  yEdges: SnapEdge[]
+): { offsetX: number; offsetY: number } & SnapOverlay => {
+  const result = config.smartGuides
+    ? snapToSiblings(rect, siblings, { xEdges, yEdges })
+    : { offsetX: 0, offsetY: 0, guides: [], distances: [] };
+
+  if (config.snapToGrid) {
+    if (xEdges.length > 0 && !result.guides.some((g) => g.orientation === 'vertical')) {
+      result.offsetX = gridOffset(rect, 'x', xEdges[0], config.gridSize);
+    }
+    if (yEdges.length > 0 && !result.guides.some((g) => g.orientation === 'horizontal')) {
+      result.offsetY = gridOffset(rect, 'y', yEdges[0], config.gridSize);
+    }
+  }
+  return result;
+};
+
+// Edges a resize handle moves, e.g. 'nw' moves the left and top edges
+const handleEdges = (handle: string): { xEdges: SnapEdge[]; yEdges: SnapEdge[] } => ({
+  xEdges: handle.includes('w') ? ['start'] : handle.includes('e') ? ['end'] : [],
+  yEdges: handle.includes('n') ? ['start'] : handle.includes('s') ? ['end'] : [],
+});
+
 export function CanvasRenderer() {
-  const components = useBuilderStore((s) => s.components);
+  const storedComponents = useBuilderStore((s) => s.components);
+  const breakpoint = useBuilderStore((s) => s.breakpoint);
+  // Everything on the canvas works with positions and props as seen at the current breakpoint
+  const components = useMemo(() => resolveTree(storedComponents, breakpoint), [storedComponents, breakpoint]);
+  // Arbitrary-value classes set at runtime (e.g. preset colors) are not in the app's build-time CSS
+  const arbitraryCss = useMemo(() => {
+    const classes = new Set<string>();
+    const collect = (nodes: Component[]) => nodes.forEach((node) => {
+      splitClassNames(node.props.className).filter((name) => name.includes('[')).forEach((name) => classes.add(name));
+      collect(node.children);
+    });
+    collect(components);
+    return compileTailwindSubset(classes).css;
+  }, [components]);
   const mode = useBuilderStore((s) => s.mode);
-  const selectedId = useBuilderStore((s) => s.selectedId);
+  const selectedIds = useBuilderStore((s) => s.selectedIds);
   const selectComponent = useBuilderStore((s) => s.selectComponent);
+  const setSelection = useBuilderStore((s) => s.setSelection);
   const updateComponentPosition = useBuilderStore((s) => s.updateComponentPosition);
   const updateComponent = useBuilderStore((s) => s.updateComponent);
+  const beginTransaction = useBuilderStore((s) => s.beginTransaction);
+  const commitTransaction = useBuilderStore((s) => s.commitTransaction);
+  const moveToParent = useBuilderStore((s) => s.moveToParent);
 
   const canvasRef = useRef<HTMLDivElement>(null);
+  const innerCanvasRef = useRef<HTMLDivElement>(null);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [hoveredId, setHoveredId] = useState<string | null>(null);
+  // Container the dragged component will be dropped into (null = canvas root)
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const storedCanvasConfig = useWorkspaceStore((s) => s.workspace.layout.canvas);
+  const canvasConfig: CanvasConfig = { ...DEFAULT_CANVAS, ...storedCanvasConfig };
+  // Smart guides and gap labels shown while dragging or resizing
+  const [snapOverlay, setSnapOverlay] = useState<SnapOverlay | null>(null);
+  // Rubber-band selection rectangle in canvas coordinates; the ref feeds the mouseup handler
+  const [marquee, setMarquee] = useState<ComponentPosition | null>(null);
+  const marqueeRef = useRef<ComponentPosition | null>(null);
+  const zoom = useBuilderStore((s) => s.zoom);
+  // Space held down: dragging pans the viewport instead of editing
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  const [isPanning, setIsPanning] = useState(false);
+
+  // Ctrl/Cmd + wheel (and trackpad pinch) zooms around the cursor; plain wheel scrolls
+  useEffect(() => {
+    const viewport = canvasRef.current?.closest<HTMLElement>('[data-canvas-viewport]');
+    if (!viewport) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      e.preventDefault();
+      zoomAt(useBuilderStore.getState().zoom * Math.exp(-e.deltaY * 0.002), e.clientX, e.clientY);
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  useEffect(() => {
+    const isTyping = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null;
+      return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable);
+    };
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTyping(e.target)) return;
+      // Stop the page from scrolling while panning
+      e.preventDefault();
+      setIsSpaceHeld(true);
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'Space') setIsSpaceHeld(false);
+    };
+    const handleBlur = () => setIsSpaceHeld(false);
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, []);
+
+  // Space + drag scrolls the viewport; runs in the capture phase so components never see the press
+  const handlePanStart = (e: React.MouseEvent) => {
+    const viewport = canvasRef.current?.closest<HTMLElement>('[data-canvas-viewport]');
+    if (!isSpaceHeld || e.button !== 0 || !viewport) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const start = { x: e.clientX, y: e.clientY, left: viewport.scrollLeft, top: viewport.scrollTop };
+    const handlePanMove = (event: MouseEvent) => {
+      viewport.scrollLeft = start.left - (event.clientX - start.x);
+      viewport.scrollTop = start.top - (event.clientY - start.y);
+    };
+    const handlePanEnd = () => {
+      setIsPanning(false);
+      document.removeEventListener('mousemove', handlePanMove);
+      document.removeEventListener('mouseup', handlePanEnd);
+    };
+
+    setIsPanning(true);
+    document.addEventListener('mousemove', handlePanMove);
+    document.addEventListener('mouseup', handlePanEnd);
+  };
 
   // Handlers for inline text editing
   const handleStartEditing = useCallback((id: string) => {
@@ -301,31 +559,7 @@ export function CanvasRenderer() {
     setEditingId(null);
   }, [updateComponent]);
 
-  const dragState = useRef<{
-    isDragging: boolean;
-    isResizing: boolean;
-    nodeId: string | null;
-    startX: number;
-    startY: number;
-    startNodeX: number;
-    startNodeY: number;
-    startWidth: number;
-    startHeight: number;
-    startFontSize: number;
-    resizeHandle: string | null;
-  }>({
-    isDragging: false,
-    isResizing: false,
-    nodeId: null,
-    startX: 0,
-    startY: 0,
-    startNodeX: 0,
-    startNodeY: 0,
-    startWidth: 0,
-    startHeight: 0,
-    startFontSize: 16,
-    resizeHandle: null,
-  });
+  const dragState = useRef<DragState>(createIdleDragState());
 
   // Helper to find node recursively
   const findNodeById = useCallback((nodes: Component[], id: string): Component | undefined => {
@@ -339,62 +573,190 @@ export function CanvasRenderer() {
     return undefined;
   }, []);
 
+  // Snapshot the top-level selected components for a group gesture
+  const getGroupItems = useCallback((): GroupItem[] => {
+    const state = useBuilderStore.getState();
+    const current = resolveTree(state.components, state.breakpoint);
+    return getTopLevelSelection(current, state.selectedIds).flatMap((id) => {
+      const node = findNodeById(current, id);
+      const absolute = getAbsolutePosition(current, id);
+      return node && absolute ? [{ id, start: { ...node.position }, absolute }] : [];
+    });
+  }, [findNodeById]);
+
   const handleDragStart = useCallback((e: React.MouseEvent, id: string) => {
     const node = findNodeById(components, id);
     if (!node) return;
 
+    const group = getGroupItems();
+    const absolute = getAbsolutePosition(components, id);
     dragState.current = {
+      ...createIdleDragState(),
       isDragging: true,
-      isResizing: false,
+      parentOffsetX: absolute ? absolute.x - node.position.x : 0,
+      parentOffsetY: absolute ? absolute.y - node.position.y : 0,
+      siblings: getSiblingBoxes(
+        components,
+        node.parentId ?? null,
+        group.length > 1 ? group.map((item) => item.id) : [id]
+      ),
       nodeId: id,
       startX: e.clientX,
       startY: e.clientY,
+      scale: useBuilderStore.getState().zoom,
       startNodeX: node.position.x,
       startNodeY: node.position.y,
       startWidth: node.position.width,
       startHeight: node.position.height,
       startFontSize: node.props.fontSize || 16,
-      resizeHandle: null,
+      parentId: node.parentId ?? null,
+      dropTargetId: node.parentId ?? null,
+      group: group.length > 1 ? group : [],
     };
 
+    // The whole drag becomes a single undo step
+    beginTransaction();
     document.addEventListener('mousemove', handleMouseMove);
     document.addEventListener('mouseup', handleMouseUp);
-  }, [components, findNodeById]);
+  }, [components, findNodeById, getGroupItems, beginTransaction]);
 
   const handleResizeStart = useCallback((e: React.MouseEvent, id: string, handle: string) => {
     const node = findNodeById(components, id);
     if (!node) return;
 
+    const absolute = getAbsolutePosition(components, id);
     dragState.current = {
-      isDragging: false,
+      ...createIdleDragState(),
       isResizing: true,
+      parentOffsetX: absolute ? absolute.x - node.position.x : 0,
+      parentOffsetY: absolute ? absolute.y - node.position.y : 0,
+      siblings: getSiblingBoxes(components, node.parentId ?? null, [id]),
       nodeId: id,
       startX: e.clientX,
       startY: e.clientY,
+      scale: useBuilderStore.getState().zoom,
       startNodeX: node.position.x,
       startNodeY: node.position.y,
       startWidth: node.position.width,
       startHeight: node.position.height,
       startFontSize: node.props.fontSize || 16,
       resizeHandle: handle,
+      parentId: node.parentId ?? null,
     };
 
+    beginTransaction();
     document.addEventListener('mousemove', handleMouseMove);
     document.addEventListener('mouseup', handleMouseUp);
-  }, [components, findNodeById]);
+  }, [components, findNodeById, beginTransaction]);
+
+  const handleGroupResizeStart = (e: React.MouseEvent, handle: string) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const group = getGroupItems();
+    const startBox = getBoundingBox(group.map((item) => item.absolute));
+    if (!startBox) return;
+
+    dragState.current = {
+      ...createIdleDragState(),
+      isGroupResizing: true,
+      startX: e.clientX,
+      startY: e.clientY,
+      scale: useBuilderStore.getState().zoom,
+      resizeHandle: handle,
+      group,
+      startBox,
+    };
+
+    beginTransaction();
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+  };
 
   const handleMouseMove = useCallback((e: MouseEvent) => {
     const state = dragState.current;
+
+    if (state.isMarquee) {
+      const point = toCanvasPoint(e.clientX, e.clientY);
+      marqueeRef.current = {
+        x: Math.min(state.startX, point.x),
+        y: Math.min(state.startY, point.y),
+        width: Math.abs(point.x - state.startX),
+        height: Math.abs(point.y - state.startY),
+      };
+      setMarquee(marqueeRef.current);
+      return;
+    }
+
+    const deltaX = (e.clientX - state.startX) / state.scale;
+    const deltaY = (e.clientY - state.startY) / state.scale;
+
+    if (state.isGroupResizing && state.startBox && state.resizeHandle) {
+      const box = state.startBox;
+      const handle = state.resizeHandle;
+      const minSize = 20;
+      const width = Math.max(minSize, box.width + (handle.includes('w') ? -deltaX : deltaX));
+      const height = Math.max(minSize, box.height + (handle.includes('n') ? -deltaY : deltaY));
+      // The corner opposite the handle stays put
+      const left = handle.includes('w') ? box.x + box.width - width : box.x;
+      const top = handle.includes('n') ? box.y + box.height - height : box.y;
+      const scaleX = width / box.width;
+      const scaleY = height / box.height;
+
+      state.group.forEach((item) => {
+        const newX = left + (item.absolute.x - box.x) * scaleX;
+        const newY = top + (item.absolute.y - box.y) * scaleY;
+        updateComponentPosition(item.id, {
+          x: Math.round(item.start.x + newX - item.absolute.x),
+          y: Math.round(item.start.y + newY - item.absolute.y),
+          width: Math.max(1, Math.round(item.start.width * scaleX)),
+          height: Math.max(1, Math.round(item.start.height * scaleY)),
+        });
+      });
+      return;
+    }
+
     if (!state.nodeId) return;
 
-    const deltaX = e.clientX - state.startX;
-    const deltaY = e.clientY - state.startY;
+    const config: CanvasConfig = { ...DEFAULT_CANVAS, ...useWorkspaceStore.getState().workspace.layout.canvas };
+    // Holding Alt temporarily turns snapping off
+    const snapping = !e.altKey;
 
-    if (state.isDragging) {
+    if (state.isDragging && state.group.length > 1) {
+      const box = getBoundingBox(state.group.map((item) => item.absolute))!;
+      const moved = { ...box, x: box.x + deltaX, y: box.y + deltaY };
+      const snap = snapping
+        ? snapRect(moved, state.siblings, config, ['start', 'center', 'end'], ['start', 'center', 'end'])
+        : null;
+      state.group.forEach((item) => {
+        updateComponentPosition(item.id, {
+          x: Math.round(item.start.x + deltaX + (snap?.offsetX ?? 0)),
+          y: Math.round(item.start.y + deltaY + (snap?.offsetY ?? 0)),
+        });
+      });
+      setSnapOverlay(snap);
+    } else if (state.isDragging) {
+      // Nested components may be dragged past their parent's edge to leave it
+      const min = state.parentId ? -Infinity : 0;
+      const moved = {
+        x: state.parentOffsetX + state.startNodeX + deltaX,
+        y: state.parentOffsetY + state.startNodeY + deltaY,
+        width: state.startWidth,
+        height: state.startHeight,
+      };
+      const snap = snapping
+        ? snapRect(moved, state.siblings, config, ['start', 'center', 'end'], ['start', 'center', 'end'])
+        : null;
       updateComponentPosition(state.nodeId, {
-        x: Math.max(0, state.startNodeX + deltaX),
-        y: Math.max(0, state.startNodeY + deltaY),
+        x: Math.max(min, Math.round(state.startNodeX + deltaX + (snap?.offsetX ?? 0))),
+        y: Math.max(min, Math.round(state.startNodeY + deltaY + (snap?.offsetY ?? 0))),
       });
+      setSnapOverlay(snap);
+
+      const target = findDropTarget(e.clientX, e.clientY, state.nodeId);
+      if (target !== state.dropTargetId) {
+        state.dropTargetId = target;
+        setDropTargetId(target === state.parentId ? null : target);
+      }
     } else if (state.isResizing && state.resizeHandle) {
       const handle = state.resizeHandle;
       let newX = state.startNodeX;
@@ -420,6 +782,37 @@ export function CanvasRenderer() {
         newHeight = state.startHeight + deltaY;
       }
 
+      // Snap the dragged edges to sibling edges or the grid
+      const { xEdges, yEdges } = handleEdges(handle);
+      const snap = snapping
+        ? snapRect(
+            { x: state.parentOffsetX + newX, y: state.parentOffsetY + newY, width: newWidth, height: newHeight },
+            state.siblings,
+            config,
+            xEdges,
+            yEdges
+          )
+        : null;
+      if (snap) {
+        if (handle.includes('w')) {
+          newX += snap.offsetX;
+          newWidth -= snap.offsetX;
+        } else {
+          newWidth += snap.offsetX;
+        }
+        if (handle.includes('n')) {
+          newY += snap.offsetY;
+          newHeight -= snap.offsetY;
+        } else {
+          newHeight += snap.offsetY;
+        }
+        newX = Math.round(newX);
+        newY = Math.round(newY);
+        newWidth = Math.round(newWidth);
+        newHeight = Math.round(newHeight);
+      }
+      setSnapOverlay(snap);
+
       // Enforce minimum size
       const minWidth = 50;
       const minHeight = 30;
@@ -447,79 +840,255 @@ export function CanvasRenderer() {
     }
   }, [updateComponentPosition, updateComponent]);
 
+  // Select the root components touched by the marquee
+  const finishMarquee = useCallback((state: DragState) => {
+    const rect = marqueeRef.current;
+    marqueeRef.current = null;
+    setMarquee(null);
+    const { components: stored, breakpoint: currentBreakpoint, selectedIds: currentSelection } = useBuilderStore.getState();
+    const current = resolveTree(stored, currentBreakpoint);
+
+    // A click without dragging on the background clears the selection
+    if (!rect || (rect.width < 3 && rect.height < 3)) {
+      if (!state.additive) selectComponent(null);
+      return;
+    }
+
+    const hits = current.filter((node) => intersects(rect, node.position)).map((node) => node.id);
+    setSelection(state.additive ? [...currentSelection.filter((id) => !hits.includes(id)), ...hits] : hits);
+  }, [selectComponent, setSelection]);
+
   const handleMouseUp = useCallback(() => {
-    dragState.current = {
-      isDragging: false,
-      isResizing: false,
-      nodeId: null,
-      startX: 0,
-      startY: 0,
-      startNodeX: 0,
-      startNodeY: 0,
-      startWidth: 0,
-      startHeight: 0,
-      startFontSize: 16,
-      resizeHandle: null,
-    };
+    const state = dragState.current;
+
+    if (state.isMarquee) {
+      finishMarquee(state);
+    }
+
+    if (state.isDragging && state.group.length <= 1 && state.nodeId && state.dropTargetId !== state.parentId) {
+      // Dropped over a different container: reparent inside the same undo step
+      moveToParent(state.nodeId, state.dropTargetId);
+    }
+    if (state.isDragging || state.isResizing || state.isGroupResizing) {
+      commitTransaction();
+    }
+    setDropTargetId(null);
+    setSnapOverlay(null);
+    dragState.current = createIdleDragState();
     document.removeEventListener('mousemove', handleMouseMove);
     document.removeEventListener('mouseup', handleMouseUp);
-  }, [handleMouseMove]);
+  }, [handleMouseMove, commitTransaction, moveToParent, finishMarquee]);
 
-  const handleCanvasClick = (e: React.MouseEvent) => {
-    // Only deselect if clicking directly on canvas background
-    if (e.target === e.currentTarget || (e.target as HTMLElement).dataset.canvasBackground) {
-      selectComponent(null);
-    }
+  const handleCanvasMouseDown = (e: React.MouseEvent) => {
+    // Only start a marquee from the canvas background
+    if (mode !== 'edit' || e.button !== 0 || !(e.target as HTMLElement).dataset.canvasBackground) return;
+    e.preventDefault();
+    const point = toCanvasPoint(e.clientX, e.clientY);
+    dragState.current = {
+      ...createIdleDragState(),
+      isMarquee: true,
+      startX: point.x,
+      startY: point.y,
+      additive: e.shiftKey,
+    };
+    marqueeRef.current = { x: point.x, y: point.y, width: 0, height: 0 };
+    setMarquee(marqueeRef.current);
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
   };
 
+  // Bounding box around a multi-selection, in canvas coordinates
+  const selectionBox = mode === 'edit' && selectedIds.length > 1
+    ? getBoundingBox(getTopLevelSelection(components, selectedIds).flatMap((id) => {
+        const box = getAbsolutePosition(components, id);
+        return box ? [box] : [];
+      }))
+    : null;
+
+  // Range highlighted on the rulers: the multi-selection box or the selected component
+  const rulerHighlight = selectionBox ?? (mode === 'edit' && selectedIds.length === 1 ? getAbsolutePosition(components, selectedIds[0]) : null);
+  const showRulers = mode === 'edit' && canvasConfig.showRulers;
+  // Grow the canvas to fit content placed beyond the default size
+  const canvasWidth = Math.max(MIN_CANVAS_SIZE, ...components.map((node) => node.position.x + node.position.width + 200));
+  const canvasHeight = Math.max(MIN_CANVAS_SIZE, ...components.map((node) => node.position.y + node.position.height + 200));
+
   return (
     <div
       ref={canvasRef}
-      onClick={handleCanvasClick}
+      onMouseDownCapture={handlePanStart}
+      onMouseDown={handleCanvasMouseDown}
       onMouseLeave={() => setHoveredId(null)}
       data-canvas-background="true"
       className={cn(
-        "min-h-full w-full relative overflow-auto",
-        mode === 'edit' && "bg-[radial-gradient(#e5e7eb_1px,transparent_1px)] dark:bg-[radial-gradient(#1f2937_1px,transparent_1px)] [background-size:20px_20px]"
+        "min-h-full min-w-full w-max relative",
+        isPanning ? "cursor-grabbing" : isSpaceHeld && "cursor-grab"
       )}
       style={{ minHeight: '100vh' }}
     >
-      {/* Inner canvas area */}
-      <div 
-        data-canvas-background="true"
-        className="relative"
-        style={{ minWidth: '2000px', minHeight: '2000px' }}
-      >
-        {components.length === 0 && mode === 'edit' ? (
-          <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 flex flex-col items-center justify-center text-muted-foreground space-y-4">
-            <div className="w-16 h-16 rounded-2xl bg-muted/50 flex items-center justify-center border-2 border-dashed border-muted-foreground/20">
-              <span className="text-2xl">✨</span>
-            </div>
-            <div className="text-center">
-              <h3 className="font-medium text-foreground">Canvas is Empty</h3>
-              <p className="text-sm">Drag components from the sidebar to start building.</p>
-            </div>
-          </div>
-        ) : (
-          components.map((node) => (
-            <CanvasNode
-              key={node.id}
-              node={node}
-              mode={mode}
-              selectedId={selectedId}
-              editingId={editingId}
-              hoveredId={hoveredId}
-              onSelect={selectComponent}
-              onDragStart={handleDragStart}
-              onResizeStart={handleResizeStart}
-              onStartEditing={handleStartEditing}
-              onStopEditing={handleStopEditing}
-              onUpdateText={handleUpdateText}
-              setHoveredId={setHoveredId}
+      {showRulers && (
+        <div className="sticky top-0 z-[60] flex">
+          <div
+            className="sticky left-0 z-10 shrink-0 bg-background border-r border-b"
+            style={{ width: RULER_SIZE, height: RULER_SIZE }}
+          />
+          <CanvasRuler
+            orientation="horizontal"
+            length={canvasWidth}
+            zoom={zoom}
+            highlight={rulerHighlight && { start: rulerHighlight.x, end: rulerHighlight.x + rulerHighlight.width }}
+          />
+        </div>
+      )}
+      <div className="flex">
+        {showRulers && (
+          <div className="sticky left-0 z-[60] shrink-0">
+            <CanvasRuler
+              orientation="vertical"
+              length={canvasHeight}
+              zoom={zoom}
+              highlight={rulerHighlight && { start: rulerHighlight.y, end: rulerHighlight.y + rulerHighlight.height }}
             />
-          ))
+          </div>
         )}
+        {/* Takes up the zoomed size so the viewport scrolls over the whole canvas */}
+        <div className="relative shrink-0" style={{ width: canvasWidth * zoom, height: canvasHeight * zoom }}>
+          {/* Inner canvas area, in canvas coordinates scaled by the zoom */}
+          <div 
+            ref={innerCanvasRef}
+            data-canvas-background="true"
+            data-canvas-root="true"
+            className={cn(
+              "absolute top-0 left-0 origin-top-left",
+              mode === 'edit' && canvasConfig.showGrid && "bg-[radial-gradient(#e5e7eb_1px,transparent_1px)] dark:bg-[radial-gradient(#1f2937_1px,transparent_1px)]"
+            )}
+            style={{
+              width: canvasWidth,
+              height: canvasHeight,
+              transform: zoom === 1 ? undefined : `scale(${zoom})`,
+              backgroundSize: `${canvasConfig.gridSize}px ${canvasConfig.gridSize}px`,
+            }}
+          >
+            {arbitraryCss && <style>{arbitraryCss}</style>}
+            {/* Device frame for the breakpoint being edited or previewed */}
+            <div
+              className={cn(
+                "absolute left-0 top-0 pointer-events-none border-2 border-dashed border-muted-foreground/30",
+                breakpoint === 'mobile' && "rounded-[32px]",
+                breakpoint === 'tablet' && "rounded-[20px]",
+                breakpoint === 'desktop' && "rounded-md"
+              )}
+              style={{ width: BREAKPOINT_CONFIG[breakpoint].width, height: BREAKPOINT_CONFIG[breakpoint].height }}
+            >
+              <span className="absolute top-2 right-4 text-[10px] font-medium uppercase tracking-wider text-muted-foreground/70">
+                {BREAKPOINT_CONFIG[breakpoint].label} · {BREAKPOINT_CONFIG[breakpoint].width} × {BREAKPOINT_CONFIG[breakpoint].height}
+              </span>
+            </div>
+
+            {components.length === 0 && mode === 'edit' ? (
+              <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 flex flex-col items-center justify-center text-muted-foreground space-y-4">
+                <div className="w-16 h-16 rounded-2xl bg-muted/50 flex items-center justify-center border-2 border-dashed border-muted-foreground/20">
+                  <span className="text-2xl">✨</span>
+                </div>
+                <div className="text-center">
+                  <h3 className="font-medium text-foreground">Canvas is Empty</h3>
+                  <p className="text-sm">Drag components from the sidebar to start building.</p>
+                </div>
+              </div>
+            ) : (
+              components.map((node) => (
+                <CanvasNode
+                  key={node.id}
+                  node={node}
+                  mode={mode}
+                  selectedIds={selectedIds}
+                  editingId={editingId}
+                  hoveredId={hoveredId}
+                  dropTargetId={dropTargetId}
+                  onSelect={selectComponent}
+                  onDragStart={handleDragStart}
+                  onResizeStart={handleResizeStart}
+                  onStartEditing={handleStartEditing}
+                  onStopEditing={handleStopEditing}
+                  onUpdateText={handleUpdateText}
+                  setHoveredId={setHoveredId}
+                />
+              ))
+            )}
+
+            {/* Multi-selection bounding box; dragging any member moves them all, corners scale */}
+            {selectionBox && (
+              <div
+                className="absolute border border-dashed border-primary z-40 pointer-events-none"
+                style={{
+                  left: selectionBox.x,
+                  top: selectionBox.y,
+                  width: selectionBox.width,
+                  height: selectionBox.height,
+                }}
+              >
+                <div className="absolute -top-6 left-0 bg-primary text-primary-foreground text-[10px] px-2 py-0.5 rounded-t-md font-medium uppercase tracking-wider">
+                  {selectedIds.length} selected
+                </div>
+                {GROUP_HANDLES.map((handle) => (
+                  <div
+                    key={handle}
+                    onMouseDown={(e) => handleGroupResizeStart(e, handle)}
+                    className={cn(
+                      "absolute w-3 h-3 bg-primary border-2 border-background rounded-sm pointer-events-auto",
+                      handle.includes('n') ? '-top-1.5' : '-bottom-1.5',
+                      handle.includes('w') ? '-left-1.5' : '-right-1.5',
+                      `cursor-${handle}-resize`
+                    )}
+                  />
+                ))}
+              </div>
+            )}
+
+            {/* Marquee selection */}
+            {marquee && (
+              <div
+                className="absolute border border-primary bg-primary/10 pointer-events-none z-50"
+                style={{ left: marquee.x, top: marquee.y, width: marquee.width, height: marquee.height }}
+              />
+            )}
+
+            {/* AI changes waiting for review */}
+            {mode === 'edit' && <StagedChangesOverlay />}
+
+            {/* Smart guides and gap measurements */}
+            {snapOverlay && (
+              <div className="absolute inset-0 pointer-events-none z-50">
+                {snapOverlay.guides.map((guide, i) => (
+                  <div
+                    key={`g${i}`}
+                    className="absolute bg-pink-500"
+                    style={guide.orientation === 'vertical'
+                      ? { left: guide.position, top: guide.start, width: 1, height: guide.end - guide.start }
+                      : { top: guide.position, left: guide.start, height: 1, width: guide.end - guide.start }}
+                  />
+                ))}
+                {snapOverlay.distances.map((distance, i) => {
+                  const horizontal = distance.axis === 'horizontal';
+                  return (
+                    <div
+                      key={`d${i}`}
+                      className="absolute flex items-center justify-center"
+                      style={horizontal
+                        ? { left: distance.from, top: distance.at, width: distance.to - distance.from, height: 1 }
+                        : { top: distance.from, left: distance.at, height: distance.to - distance.from, width: 1 }}
+                    >
+                      <div className={cn("absolute bg-pink-500", horizontal ? "inset-x-0 h-px" : "inset-y-0 w-px")} />
+                      <span className="relative bg-pink-500 text-white text-[10px] leading-none px-1 py-0.5 rounded">
+                        {Math.round(distance.to - distance.from)}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
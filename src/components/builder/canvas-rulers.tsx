@@ -0,0 +1,77 @@
+import { cn } from '@/lib/utils';
+
+// Thickness of the rulers along the canvas edges, in px
+export const RULER_SIZE = 20;
+
+// Tick spacing in canvas px; coarser when zoomed out so ticks stay legible
+const getTickSpacing = (zoom: number) => (zoom < 0.5 ? { minor: 50, major: 500 } : { minor: 10, major: 100 });
+
+interface CanvasRulerProps {
+  orientation: 'horizontal' | 'vertical';
+  // Length in canvas px
+  length: number;
+  zoom?: number;
+  // Range covered by the current selection, highlighted on the ruler
+  highlight?: { start: number; end: number } | null;
+  className?: string;
+}
+
+/**
+ * Pixel ruler drawn along the top or left edge of the canvas
+ */
+export function CanvasRuler({ orientation, length, zoom = 1, highlight, className }: CanvasRulerProps) {
+  const horizontal = orientation === 'horizontal';
+  const { minor, major } = getTickSpacing(zoom);
+  const ticks: number[] = [];
+  for (let value = 0; value <= length; value += minor) ticks.push(value);
+  const screenLength = length * zoom;
+
+  return (
+    <svg
+      width={horizontal ? screenLength : RULER_SIZE}
+      height={horizontal ? RULER_SIZE : screenLength}
+      className={cn('block shrink-0 bg-background text-muted-foreground select-none', className)}
+    >
+      {highlight && (
+        <rect
+          x={horizontal ? highlight.start * zoom : 0}
+          y={horizontal ? 0 : highlight.start * zoom}
+          width={horizontal ? (highlight.end - highlight.start) * zoom : RULER_SIZE}
+          height={horizontal ? RULER_SIZE : (highlight.end - highlight.start) * zoom}
+          className="fill-primary/15"
+        />
+      )}
+      {ticks.map((value) => {
+        const size = value % major === 0 ? RULER_SIZE : value % (major / 2) === 0 ? RULER_SIZE / 2 : RULER_SIZE / 4;
+        const position = Math.round(value * zoom) + 0.5;
+        return horizontal ? (
+          <line key={value} x1={position} x2={position} y1={RULER_SIZE - size} y2={RULER_SIZE} stroke="currentColor" strokeOpacity={0.5} />
+        ) : (
+          <line key={value} y1={position} y2={position} x1={RULER_SIZE - size} x2={RULER_SIZE} stroke="currentColor" strokeOpacity={0.5} />
+        );
+      })}
+      {ticks.filter((value) => value % major === 0 && value > 0).map((value) =>
+        horizontal ? (
+          <text key={value} x={value * zoom + 3} y={9} fontSize={9} fill="currentColor">{value}</text>
+        ) : (
+          <text
+            key={value}
+            x={9}
+            y={value * zoom - 3}
+            fontSize={9}
+            fill="currentColor"
+            transform={`rotate(-90 9 ${value * zoom - 3})`}
+          >
+            {value}
+          </text>
+        )
+      )}
+      <line
+        {...(horizontal
+          ? { x1: 0, x2: screenLength, y1: RULER_SIZE - 0.5, y2: RULER_SIZE - 0.5 }
+          : { x1: RULER_SIZE - 0.5, x2: RULER_SIZE - 0.5, y1: 0, y2: screenLength })}
+        className="stroke-border"
+      />
+    </svg>
+  );
+}
@@ -0,0 +1,113 @@
+import { Toggle } from '@/components/ui/toggle';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { zoomAt, zoomIn, zoomOut, zoomToFit, zoomToSelection } from './canvas-utils';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useBuilderStore } from '@/store/builder-store';
+import { useWorkspaceStore } from '@/store/workspace-store';
+import { DEFAULT_CANVAS } from '@/lib/workspace-defaults';
+import { CanvasConfig } from '@/types/workspace';
+import { Grid3x3, Magnet, Ruler, Crosshair, Minus, Plus } from 'lucide-react';
+
+const GRID_SIZES = [4, 8, 10, 16, 20, 24, 32];
+const ZOOM_PRESETS = [0.5, 1, 2];
+
+const TOGGLES: { key: 'showGrid' | 'snapToGrid' | 'smartGuides' | 'showRulers'; label: string; icon: typeof Grid3x3 }[] = [
+  { key: 'showGrid', label: 'Show grid', icon: Grid3x3 },
+  { key: 'snapToGrid', label: 'Snap to grid', icon: Magnet },
+  { key: 'smartGuides', label: 'Smart guides (hold Alt to bypass)', icon: Crosshair },
+  { key: 'showRulers', label: 'Rulers', icon: Ruler },
+];
+
+export function CanvasToolbar() {
+  const mode = useBuilderStore((s) => s.mode);
+  const zoom = useBuilderStore((s) => s.zoom);
+  const hasSelection = useBuilderStore((s) => s.selectedIds.length > 0);
+  const storedCanvas = useWorkspaceStore((s) => s.workspace.layout.canvas);
+  const updateCanvas = useWorkspaceStore((s) => s.updateCanvas);
+  const saveWorkspace = useWorkspaceStore((s) => s.saveWorkspace);
+  const canvas: CanvasConfig = { ...DEFAULT_CANVAS, ...storedCanvas };
+
+  if (mode !== 'edit') return null;
+
+  const update = (updates: Partial<CanvasConfig>) => {
+    updateCanvas(updates);
+    saveWorkspace();
+  };
+
+  return (
+    <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-1 rounded-lg border bg-background/95 backdrop-blur px-1.5 py-1 shadow-lg">
+      {TOGGLES.map(({ key, label, icon: Icon }) => (
+        <Toggle
+          key={key}
+          size="sm"
+          pressed={canvas[key]}
+          onPressedChange={(pressed) => update({ [key]: pressed })}
+          title={label}
+          aria-label={label}
+        >
+          <Icon className="h-4 w-4" />
+        </Toggle>
+      ))}
+      <div className="w-px h-5 bg-border mx-1" />
+      <Select value={String(canvas.gridSize)} onValueChange={(value) => update({ gridSize: Number(value) })}>
+        <SelectTrigger className="h-8 w-[84px] text-xs" title="Grid size">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {GRID_SIZES.map((size) => (
+            <SelectItem key={size} value={String(size)} className="text-xs">
+              {size}px
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <div className="w-px h-5 bg-border mx-1" />
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={zoomOut} title="Zoom out">
+        <Minus className="h-4 w-4" />
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-8 w-14 px-0 text-xs tabular-nums">
+            {Math.round(zoom * 100)}%
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center" side="top" className="w-48">
+          <DropdownMenuItem onClick={zoomIn}>
+            Zoom in
+            <DropdownMenuShortcut>⌘+</DropdownMenuShortcut>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={zoomOut}>
+            Zoom out
+            <DropdownMenuShortcut>⌘-</DropdownMenuShortcut>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={zoomToFit}>
+            Zoom to fit
+            <DropdownMenuShortcut>⇧1</DropdownMenuShortcut>
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={zoomToSelection} disabled={!hasSelection}>
+            Zoom to selection
+            <DropdownMenuShortcut>⇧2</DropdownMenuShortcut>
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          {ZOOM_PRESETS.map((preset) => (
+            <DropdownMenuItem key={preset} onClick={() => zoomAt(preset)}>
+              {preset * 100}%
+              {preset === 1 && <DropdownMenuShortcut>⌘0</DropdownMenuShortcut>}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={zoomIn} title="Zoom in">
+        <Plus className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { flushSync } from 'react-dom';
+import {
+  useBuilderStore,
+  ComponentType,
+  ComponentPosition,
+  canHaveChildren,
+  getAbsolutePosition,
+  getTopLevelSelection,
+} from '@/store/builder-store';
+import { useWorkspaceStore } from '@/store/workspace-store';
+import { DEFAULT_CANVAS } from '@/lib/workspace-defaults';
+import { resolveTree } from '@/lib/responsive';
+
+// DOM helpers shared by the canvas, its toolbar and the sidebar drop handler.
+// Canvas nodes carry data-component-id / data-component-type attributes; the
+// scrolling viewport is marked data-canvas-viewport and the scaled inner canvas data-canvas-root.
+
+/**
+ * Find the innermost container or card under a screen point, ignoring the
+ * component with `excludeId` and everything inside it. Returns null for the canvas root.
+ */
+export const findDropTarget = (clientX: number, clientY: number, excludeId?: string | null): string | null => {
+  const excluded = excludeId ? document.querySelector(`[data-component-id="${excludeId}"]`) : null;
+  for (const element of document.elementsFromPoint(clientX, clientY)) {
+    const wrapper = element.closest<HTMLElement>('[data-component-id]');
+    if (!wrapper || (excluded && excluded.contains(wrapper))) continue;
+    if (canHaveChildren(wrapper.dataset.componentType as ComponentType)) {
+      return wrapper.dataset.componentId ?? null;
+    }
+  }
+  return null;
+};
+
+
+/**
+ * Bounding box around a set of boxes
+ */
+export const getBoundingBox = (boxes: ComponentPosition[]): ComponentPosition | null => {
+  if (boxes.length === 0) return null;
+  const left = Math.min(...boxes.map((b) => b.x));
+  const top = Math.min(...boxes.map((b) => b.y));
+  const right = Math.max(...boxes.map((b) => b.x + b.width));
+  const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+};
+
+/**
+ * Convert a screen point to canvas coordinates, measured from the inner
+ * canvas element so rulers, scrolling and zoom are accounted for.
+ */
+export const toCanvasPoint = (clientX: number, clientY: number): { x: number; y: number } => {
+  const rect = document.querySelector('[data-canvas-root]')?.getBoundingClientRect();
+  const { zoom } = useBuilderStore.getState();
+  return { x: (clientX - (rect?.left ?? 0)) / zoom, y: (clientY - (rect?.top ?? 0)) / zoom };
+};
+
+// ============================================
+// ZOOM
+// ============================================
+
+const ZOOM_STEP = 1.25;
+// Space left around the content by zoom-to-fit, in screen px
+const FIT_PADDING = 40;
+
+/**
+ * Keep a zoom level inside the workspace's configured range
+ */
+export const clampZoom = (zoom: number): number => {
+  const { minZoom, maxZoom } = { ...DEFAULT_CANVAS, ...useWorkspaceStore.getState().workspace.layout.canvas };
+  return Math.min(maxZoom, Math.max(minZoom, zoom));
+};
+
+// Apply a zoom level and scroll so `point` (canvas coords) lands at `anchor` (viewport px)
+const applyZoom = (zoom: number, point: { x: number; y: number }, anchor: { x: number; y: number }) => {
+  const viewport = document.querySelector<HTMLElement>('[data-canvas-viewport]');
+  // Render synchronously so the scroll size already matches the new scale
+  flushSync(() => useBuilderStore.getState().setZoom(zoom));
+
+  const root = document.querySelector('[data-canvas-root]');
+  if (!viewport || !root) return;
+  const viewportRect = viewport.getBoundingClientRect();
+  const rootRect = root.getBoundingClientRect();
+  // Offset of the canvas origin inside the scrolled content (the rulers sit before it)
+  const originX = rootRect.left - viewportRect.left + viewport.scrollLeft;
+  const originY = rootRect.top - viewportRect.top + viewport.scrollTop;
+  viewport.scrollLeft = originX + point.x * zoom - anchor.x;
+  viewport.scrollTop = originY + point.y * zoom - anchor.y;
+};
+
+// Visible area of the viewport, excluding the rulers, in viewport px
+const getVisibleArea = () => {
+  const viewport = document.querySelector<HTMLElement>('[data-canvas-viewport]');
+  const root = document.querySelector('[data-canvas-root]');
+  if (!viewport || !root) return null;
+  const viewportRect = viewport.getBoundingClientRect();
+  const rootRect = root.getBoundingClientRect();
+  const left = Math.max(0, Math.min(rootRect.left - viewportRect.left + viewport.scrollLeft, viewport.clientWidth));
+  const top = Math.max(0, Math.min(rootRect.top - viewportRect.top + viewport.scrollTop, viewport.clientHeight));
+  return { left, top, width: viewport.clientWidth - left, height: viewport.clientHeight - top };
+};
+
+/**
+ * Zoom keeping the canvas point under the given screen position fixed.
+ * Without a position the center of the viewport stays put.
+ */
+export const zoomAt = (zoom: number, clientX?: number, clientY?: number) => {
+  const viewport = document.querySelector<HTMLElement>('[data-canvas-viewport]');
+  const area = getVisibleArea();
+  if (!viewport || !area) return;
+
+  const viewportRect = viewport.getBoundingClientRect();
+  const x = clientX ?? viewportRect.left + area.left + area.width / 2;
+  const y = clientY ?? viewportRect.top + area.top + area.height / 2;
+  applyZoom(clampZoom(zoom), toCanvasPoint(x, y), { x: x - viewportRect.left, y: y - viewportRect.top });
+};
+
+export const zoomIn = () => zoomAt(useBuilderStore.getState().zoom * ZOOM_STEP);
+export const zoomOut = () => zoomAt(useBuilderStore.getState().zoom / ZOOM_STEP);
+
+/**
+ * Zoom and scroll so a canvas-space rect fills the viewport
+ */
+export const zoomToRect = (rect: ComponentPosition) => {
+  const area = getVisibleArea();
+  if (!area || rect.width <= 0 || rect.height <= 0) return;
+
+  const zoom = clampZoom(Math.min(
+    (area.width - FIT_PADDING * 2) / rect.width,
+    (area.height - FIT_PADDING * 2) / rect.height
+  ));
+  applyZoom(
+    zoom,
+    { x: rect.x + rect.width / 2, y: rect.y + rect.height / 2 },
+    { x: area.left + area.width / 2, y: area.top + area.height / 2 }
+  );
+};
+
+/**
+ * Fit every component on the canvas into view
+ */
+export const zoomToFit = () => {
+  const { components, breakpoint } = useBuilderStore.getState();
+  const box = getBoundingBox(resolveTree(components, breakpoint).map((node) => node.position));
+  if (box) zoomToRect(box);
+};
+
+/**
+ * Fit the selected components into view
+ */
+export const zoomToSelection = () => {
+  const { components: stored, breakpoint, selectedIds } = useBuilderStore.getState();
+  const components = resolveTree(stored, breakpoint);
+  const box = getBoundingBox(getTopLevelSelection(components, selectedIds).flatMap((id) => {
+    const absolute = getAbsolutePosition(components, id);
+    return absolute ? [absolute] : [];
+  }));
+  if (box) zoomToRect(box);
+};
+
+/**
+ * Set up zoom keyboard shortcuts: Cmd/Ctrl + =/-/0, Shift + 1 to fit, Shift + 2 for the selection.
+ * Returns a cleanup function.
+ */
+export const setupCanvasKeyboardShortcuts = () => {
+  const handleKeyDown = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+      return;
+    }
+
+    if (e.metaKey || e.ctrlKey) {
+      if (e.key === '=' || e.key === '+') {
+        e.preventDefault();
+        zoomIn();
+      } else if (e.key === '-') {
+        e.preventDefault();
+        zoomOut();
+      } else if (e.key === '0') {
+        e.preventDefault();
+        zoomAt(1);
+      }
+    } else if (e.shiftKey && e.code === 'Digit1') {
+      e.preventDefault();
+      zoomToFit();
+    } else if (e.shiftKey && e.code === 'Digit2') {
+      e.preventDefault();
+      zoomToSelection();
+    }
+  };
+
+  window.addEventListener('keydown', handleKeyDown);
+  return () => window.removeEventListener('keydown', handleKeyDown);
+};
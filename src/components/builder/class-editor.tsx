@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Accordion, AccordionItem, AccordionTrigger, AccordionContent } from '@/components/ui/accordion';
+import { Popover, PopoverTrigger, PopoverContent } from '@/components/ui/popover';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { resolveColor } from '@/lib/tailwind-subset';
+import {
+  BASE_COLORS,
+  CLASS_CONTROLS,
+  CLASS_SECTIONS,
+  CLASS_VARIANTS,
+  ClassControl,
+  ClassVariant,
+  PALETTE_FAMILIES,
+  PALETTE_SHADES,
+  cleanClasses,
+  parseClasses,
+  setClassValue,
+} from '@/lib/tailwind-classes';
+
+// Radix Select reserves the empty string, so "unset" needs its own value
+const NONE = '__none';
+
+interface ClassEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+function Swatch({ token, className }: { token: string | undefined; className?: string }) {
+  const color = token ? resolveColor(token) : null;
+  return (
+    <span
+      className={cn('inline-block h-4 w-4 shrink-0 rounded-sm border border-border', className)}
+      style={color ? { backgroundColor: color } : undefined}
+    />
+  );
+}
+
+function ColorControl({ control, value, onChange }: { control: ClassControl; value: string | undefined; onChange: (value: string | null) => void }) {
+  const [open, setOpen] = useState(false);
+  const prefix = control.colorPrefix ?? '';
+  const token = value?.slice(prefix.length);
+  const pick = (next: string | null) => {
+    onChange(next === null ? null : `${prefix}${next}`);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 w-full justify-start gap-2 px-2 text-xs font-normal">
+          <Swatch token={token} />
+          <span className="truncate">{token ?? '—'}</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[280px] p-2" align="start">
+        <div className="flex flex-wrap gap-1 pb-2 mb-2 border-b border-border">
+          {BASE_COLORS.map((color) => (
+            <button key={color} type="button" title={color} onClick={() => pick(color)}>
+              <Swatch token={color} className={cn('h-5 w-5', color === token && 'ring-2 ring-primary ring-offset-1')} />
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-11 gap-0.5">
+          {PALETTE_FAMILIES.flatMap((family) =>
+            PALETTE_SHADES.map((shade) => {
+              const color = `${family}-${shade}`;
+              return (
+                <button key={color} type="button" title={color} onClick={() => pick(color)}>
+                  <Swatch token={color} className={cn('h-[22px] w-[22px] rounded-[3px] border-0', color === token && 'ring-2 ring-primary ring-offset-1')} />
+                </button>
+              );
+            })
+          )}
+        </div>
+        <Button variant="ghost" size="sm" className="mt-2 h-7 w-full text-xs" onClick={() => pick(null)}>
+          No color
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function SelectControl({ control, value, onChange }: { control: ClassControl; value: string | undefined; onChange: (value: string | null) => void }) {
+  // A value outside the preset list (e.g. `p-7`) is still shown and selectable
+  const options = value && !control.options.includes(value) ? [...control.options, value] : control.options;
+  return (
+    <Select value={value ?? NONE} onValueChange={(next) => onChange(next === NONE ? null : next)}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE} className="text-xs text-muted-foreground">—</SelectItem>
+        {options.map((option) => (
+          <SelectItem key={option} value={option} className="text-xs font-mono">{option}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+/**
+ * Grouped controls over a Tailwind class string. Controls read the classes they
+ * own and write back a merged string; classes no control owns are left untouched.
+ */
+export function ClassEditor({ value, onChange }: ClassEditorProps) {
+  const [variant, setVariant] = useState<ClassVariant>('base');
+  const parsed = parseClasses(value);
+  const values = parsed.values[variant];
+  const cleaned = cleanClasses(value);
+
+  const handleControl = (control: ClassControl, next: string | null) => {
+    onChange(setClassValue(value, control, variant, next));
+  };
+
+  return (
+    <div className="rounded-md border border-border">
+      <div className="flex items-center justify-between gap-2 border-b border-border p-1.5">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={variant}
+          onValueChange={(next) => next && setVariant(next as ClassVariant)}
+        >
+          {CLASS_VARIANTS.map(({ id, label }) => {
+            const count = Object.keys(parsed.values[id]).length;
+            return (
+              <ToggleGroupItem key={id} value={id} className="h-7 px-2 text-xs">
+                {label}
+                {count > 0 && <span className="ml-1 text-[10px] text-muted-foreground">{count}</span>}
+              </ToggleGroupItem>
+            );
+          })}
+        </ToggleGroup>
+        {cleaned !== value.trim() && (
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => onChange(cleaned)} title="Remove duplicate and conflicting classes">
+            Clean up
+          </Button>
+        )}
+      </div>
+
+      <Accordion type="multiple" defaultValue={['spacing', 'typography', 'colors']} className="px-3">
+        {CLASS_SECTIONS.map((section) => {
+          const controls = CLASS_CONTROLS.filter((control) => control.section === section.id);
+          const setCount = controls.filter((control) => values[control.id]).length;
+          return (
+            <AccordionItem key={section.id} value={section.id} className="last:border-b-0">
+              <AccordionTrigger className="py-2 text-xs hover:no-underline">
+                <span>
+                  {section.label}
+                  {setCount > 0 && <span className="ml-1.5 text-[10px] text-muted-foreground">{setCount}</span>}
+                </span>
+              </AccordionTrigger>
+              <AccordionContent className="pb-3">
+                <div className="grid grid-cols-2 gap-2">
+                  {controls.map((control) => (
+                    <div key={control.id} className="space-y-1">
+                      <span className="text-[10px] text-muted-foreground">{control.label}</span>
+                      {control.kind === 'color' ? (
+                        <ColorControl control={control} value={values[control.id]} onChange={(next) => handleControl(control, next)} />
+                      ) : (
+                        <SelectControl control={control} value={values[control.id]} onChange={(next) => handleControl(control, next)} />
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+
+      {parsed.other.length > 0 && (
+        <div className="border-t border-border px-3 py-2">
+          <p className="text-[10px] text-muted-foreground mb-1">Other classes (edit as text)</p>
+          <p className="font-mono text-[10px] break-all">{parsed.other.join(' ')}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,14 @@ export const COMPONENT_ICONS: Record<ComponentType, string> = {
   header: 'Heading',
   text: 'Type',
   input: 'FormInput',
+  image: 'Image',
+  navbar: 'PanelTop',
+  tabs: 'AppWindow',
+  table: 'Table',
+  select: 'ChevronsUpDown',
+  checkbox: 'SquareCheck',
+  avatar: 'CircleUser',
+  badge: 'Tag',
 };
 export const COMPONENT_LABELS: Record<ComponentType, string> = {
   container: 'Container',
@@ -14,4 +22,12 @@ export const COMPONENT_LABELS: Record<ComponentType, string> = {
   header: 'Heading',
   text: 'Text Block',
   input: 'Input Field',
+  image: 'Image',
+  navbar: 'Navbar',
+  tabs: 'Tabs',
+  table: 'Table',
+  select: 'Select',
+  checkbox: 'Checkbox',
+  avatar: 'Avatar',
+  badge: 'Badge',
 };
\ No newline at end of file
@@ -3,7 +3,15 @@ import { Button } from '@/components/ui/button';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ImageIcon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { toList, toRows } from '@/lib/component-props';
 import { ComponentType } from '@/store/builder-store';
 // This registry maps internal types to actual React components
 // It handles the rendering logic for each type
@@ -20,12 +28,18 @@ export const ComponentRegistry: React.FC<ComponentRendererProps> = ({ type, prop
   const textStyle = fontSize ? { fontSize: `${fontSize}px` } : undefined;
   
   switch (type) {
-    case 'container':
+    case 'container': {
+      const { backgroundColor, layout: _layout, ...containerRest } = rest;
       return (
-        <div className={cn('flex w-full h-full transition-all', className)} {...rest}>
+        <div
+          className={cn('flex w-full h-full transition-all', className)}
+          style={backgroundColor ? { backgroundColor } : undefined}
+          {...containerRest}
+        >
           {children}
         </div>
       );
+    }
     case 'button':
       return (
         <Button className={cn('w-full h-full', className)} style={textStyle} {...rest}>
@@ -74,6 +88,99 @@ export const ComponentRegistry: React.FC<ComponentRendererProps> = ({ type, prop
           <Input type={props.type || 'text'} placeholder={props.placeholder} style={textStyle} {...rest} />
         </div>
       );
+    case 'image':
+      return props.src ? (
+        <img src={props.src} alt={props.alt || ''} className={cn('w-full h-full object-cover', className)} draggable={false} />
+      ) : (
+        <div className={cn('flex w-full h-full flex-col items-center justify-center gap-2 bg-muted text-muted-foreground', className)}>
+          <ImageIcon className="h-8 w-8" />
+          <span className="text-xs">{props.alt || 'Image'}</span>
+        </div>
+      );
+    case 'navbar':
+      return (
+        <nav className={cn('flex w-full h-full items-center justify-between gap-4 px-4 bg-background', className)} style={textStyle}>
+          <span className="font-semibold">{props.logo || 'Brand'}</span>
+          <div className="flex items-center gap-4">
+            {toList(props.links).map((link, index) => (
+              <span key={index} className="text-muted-foreground">{link}</span>
+            ))}
+            {props.ctaText && <Button size="sm">{props.ctaText}</Button>}
+          </div>
+        </nav>
+      );
+    case 'tabs': {
+      const tabs = toList(props.tabs);
+      // Tab labels switch the highlighted trigger only; every tab shares the content area
+      return (
+        <Tabs defaultValue="0" className={cn('flex flex-col w-full h-full', className)} style={textStyle}>
+          <TabsList className="justify-start self-start">
+            {tabs.map((tab, index) => (
+              <TabsTrigger key={index} value={String(index)}>{tab}</TabsTrigger>
+            ))}
+          </TabsList>
+          <div className="flex-1 p-3 text-muted-foreground">
+            {hasChildren ? children : props.content}
+          </div>
+        </Tabs>
+      );
+    }
+    case 'table': {
+      const columns = toList(props.columns);
+      return (
+        <Table className={className} style={textStyle}>
+          <TableHeader>
+            <TableRow>
+              {columns.map((column, index) => <TableHead key={index}>{column}</TableHead>)}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {toRows(props.rows, columns.length).map((row, rowIndex) => (
+              <TableRow key={rowIndex}>
+                {row.map((cell, cellIndex) => <TableCell key={cellIndex}>{cell}</TableCell>)}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      );
+    }
+    case 'select':
+      return (
+        <div className={cn('grid w-full items-center gap-1.5', className)}>
+          {props.label && <Label style={textStyle}>{props.label}</Label>}
+          <Select>
+            <SelectTrigger style={textStyle}>
+              <SelectValue placeholder={props.placeholder || 'Select'} />
+            </SelectTrigger>
+            <SelectContent>
+              {/* Radix reserves the empty string for clearing the value */}
+              {toList(props.options).filter(Boolean).map((option, index) => (
+                <SelectItem key={index} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    case 'checkbox':
+      return (
+        <div className={cn('flex w-full h-full items-center gap-2', className)}>
+          <Checkbox checked={!!props.checked} />
+          <Label style={textStyle}>{props.label}</Label>
+        </div>
+      );
+    case 'avatar':
+      return (
+        <Avatar className={cn('h-full w-full', className)}>
+          {props.src && <AvatarImage src={props.src} alt={props.alt || ''} />}
+          <AvatarFallback>{props.fallback || '?'}</AvatarFallback>
+        </Avatar>
+      );
+    case 'badge':
+      return (
+        <Badge variant={props.variant || 'default'} className={className} style={textStyle}>
+          {props.text || 'Badge'}
+        </Badge>
+      );
     default:
       return <div className="p-2 text-red-500">Unknown component: {type}</div>;
   }
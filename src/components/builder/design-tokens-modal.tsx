@@ -0,0 +1,219 @@
+import React, { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Check, Download, Upload, SwatchBook, Trash2, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { deleteCustomPreset, getAllPresets, getPresetById, isCustomPreset, saveCustomPreset } from '@/lib/design-system';
+import {
+  TokenImportError,
+  downloadTokenFile,
+  exportCSSVariables,
+  exportDesignTokens,
+  exportTailwindConfig,
+  importDesignTokens,
+} from '@/lib/design-tokens';
+
+interface DesignTokensModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ExportFormat = 'css' | 'tailwind' | 'tokens';
+
+const FORMATS: Record<ExportFormat, { label: string; filename: string; generate: typeof exportCSSVariables }> = {
+  css: { label: 'CSS Variables', filename: 'tokens.css', generate: exportCSSVariables },
+  tailwind: { label: 'Tailwind Config', filename: 'tailwind.config.js', generate: exportTailwindConfig },
+  tokens: { label: 'Tokens JSON', filename: 'tokens.json', generate: exportDesignTokens },
+};
+
+/**
+ * Export a style preset's design tokens, or import a tokens file as a new
+ * custom preset
+ */
+export function DesignTokensModal({ open, onOpenChange }: DesignTokensModalProps) {
+  const [presetId, setPresetId] = useState(getAllPresets()[0].id);
+  const [tab, setTab] = useState<ExportFormat | 'import'>('css');
+  const [copied, setCopied] = useState(false);
+  const [importText, setImportText] = useState('');
+  const [importErrors, setImportErrors] = useState<TokenImportError[]>([]);
+  // Bumped when custom presets change so the preset list is read again
+  const [, setRevision] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const presets = getAllPresets();
+  const preset = getPresetById(presetId);
+  const format = tab === 'import' ? null : FORMATS[tab];
+  const output = format ? format.generate(preset) : '';
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(output);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImportText(await file.text());
+    setImportErrors([]);
+    e.target.value = '';
+  };
+
+  const handleImport = () => {
+    const result = importDesignTokens(importText);
+    setImportErrors(result.errors);
+    if (!result.definition) {
+      toast.error('No design tokens could be imported');
+      return;
+    }
+    const imported = saveCustomPreset(result.definition);
+    setRevision((value) => value + 1);
+    setPresetId(imported.id);
+    const message = `Added preset "${imported.name}"`;
+    if (result.errors.length > 0) {
+      toast.warning(`${message} with ${result.errors.length} missing or invalid token(s)`);
+      return;
+    }
+    toast.success(message);
+    setImportText('');
+    setTab('css');
+  };
+
+  const handleDelete = () => {
+    deleteCustomPreset(preset.id);
+    setRevision((value) => value + 1);
+    setPresetId(getAllPresets()[0].id);
+    toast.success(`Deleted preset "${preset.name}"`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SwatchBook className="h-5 w-5 text-primary" />
+            Design Tokens
+          </DialogTitle>
+          <DialogDescription>
+            {tab === 'import'
+              ? 'Paste or open a W3C design tokens JSON file to add it as a custom preset.'
+              : 'Export the colors, typography, spacing and shape of a style preset.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {tab !== 'import' && (
+          <div className="flex items-end gap-2">
+            <div className="space-y-1.5 flex-1">
+              <Label className="text-xs">Preset</Label>
+              <Select value={preset.id} onValueChange={setPresetId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {presets.map((item) => (
+                    <SelectItem key={item.id} value={item.id}>
+                      {item.name}
+                      {isCustomPreset(item.id) && <span className="ml-1 text-muted-foreground">(custom)</span>}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {isCustomPreset(preset.id) && (
+              <Button variant="ghost" size="icon" onClick={handleDelete} title="Delete custom preset">
+                <Trash2 className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+              </Button>
+            )}
+          </div>
+        )}
+
+        <Tabs value={tab} onValueChange={(value) => setTab(value as ExportFormat | 'import')} className="flex-1 min-h-0 flex flex-col">
+          <TabsList className="self-start">
+            {(Object.keys(FORMATS) as ExportFormat[]).map((key) => (
+              <TabsTrigger key={key} value={key}>{FORMATS[key].label}</TabsTrigger>
+            ))}
+            <TabsTrigger value="import">Import</TabsTrigger>
+          </TabsList>
+          {(Object.keys(FORMATS) as ExportFormat[]).map((key) => (
+            <TabsContent key={key} value={key} className="flex-1 min-h-0">
+              <div className="border rounded-md bg-muted/50">
+                <ScrollArea className="h-[340px] w-full p-4">
+                  <pre className="text-xs font-mono whitespace-pre text-foreground/80">{tab === key ? output : ''}</pre>
+                </ScrollArea>
+              </div>
+            </TabsContent>
+          ))}
+          <TabsContent value="import" className="flex-1 min-h-0 space-y-3">
+            <Textarea
+              value={importText}
+              onChange={(e) => {
+                setImportText(e.target.value);
+                setImportErrors([]);
+              }}
+              placeholder={'{ "color": { "$type": "color", "primary": { "$value": "#6366f1" } }, ... }'}
+              className="h-[260px] font-mono text-sm resize-none"
+            />
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            {importErrors.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Some tokens were missing or invalid</AlertTitle>
+                <AlertDescription>
+                  <ScrollArea className="max-h-[100px]">
+                    <ul className="text-xs space-y-1">
+                      {importErrors.map((error, i) => (
+                        <li key={i}>
+                          {error.path && <span className="font-mono">{error.path} </span>}
+                          {error.message}
+                        </li>
+                      ))}
+                    </ul>
+                  </ScrollArea>
+                </AlertDescription>
+              </Alert>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          {format ? (
+            <>
+              <Button variant="outline" onClick={() => downloadTokenFile(output, format.filename)} className="gap-2">
+                <Download className="h-4 w-4" />
+                Download {format.filename}
+              </Button>
+              <Button onClick={handleCopy} className="gap-2">
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                {copied ? 'Copied!' : 'Copy to Clipboard'}
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()} className="gap-2">
+                <Upload className="h-4 w-4" />
+                Open File
+              </Button>
+              <Button onClick={handleImport} disabled={!importText.trim()} className="gap-2">
+                <SwatchBook className="h-4 w-4" />
+                Add Preset
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
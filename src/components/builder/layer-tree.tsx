@@ -1,7 +1,11 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useBuilderStore, Component } from '@/store/builder-store';
 import { cn } from '@/lib/utils';
-import { ChevronRight, ChevronDown, Box, MousePointerClick, LayoutTemplate, Heading, Type, FormInput, Layers } from 'lucide-react';
+import {
+  ChevronRight, ChevronDown, Box, MousePointerClick, LayoutTemplate, Heading, Type, FormInput, Layers,
+  Component as SymbolIcon, Diamond,
+} from 'lucide-react';
+import { getSymbolMasters } from '@/lib/symbols';
 import { COMPONENT_LABELS } from './component-constants';
 import {
   DndContext, 
@@ -35,9 +39,11 @@ const getIconForType = (type: string) => {
 
 interface LayerItemProps {
   node: Component;
+  // Symbol names by id, for labelling masters' instances
+  symbolNames: Record<string, string>;
   depth?: number;
-  selectedId: string | null;
-  onSelect: (id: string) => void;
+  selectedIds: string[];
+  onSelect: (id: string, additive?: boolean) => void;
 }
 
 const SortableLayerItem: React.FC<LayerItemProps> = (props) => {
@@ -63,11 +69,12 @@ const SortableLayerItem: React.FC<LayerItemProps> = (props) => {
   );
 };
 
-const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0, selectedId, onSelect }) => {
+const LayerItem: React.FC<LayerItemProps> = ({ node, symbolNames, depth = 0, selectedIds, onSelect }) => {
   const [isExpanded, setIsExpanded] = useState(true);
   const hasChildren = node.children && node.children.length > 0;
-  const Icon = getIconForType(node.type);
-  const isSelected = selectedId === node.id;
+  const Icon = node.symbol ? SymbolIcon : node.instance ? Diamond : getIconForType(node.type);
+  const isSelected = selectedIds.includes(node.id);
+  const symbolName = node.symbol?.name ?? (node.instance ? symbolNames[node.instance.symbolId] : undefined);
 
   const handleToggle = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -76,7 +83,8 @@ const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0, selectedId, onSe
 
   const handleSelect = (e: React.MouseEvent) => {
     e.stopPropagation();
-    onSelect(node.id);
+    // Shift-click adds to or removes from the selection
+    onSelect(node.id, e.shiftKey);
   };
 
   return (
@@ -88,6 +96,7 @@ const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0, selectedId, onSe
         )}
         style={{ paddingLeft: `${depth * 12 + 8}px` }}
         onClick={handleSelect}
+        title={node.symbol ? 'Symbol master' : node.instance ? 'Symbol instance' : undefined}
       >
         <div 
           className={cn(
@@ -100,8 +109,15 @@ const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0, selectedId, onSe
           {isExpanded ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
         </div>
         
-        <Icon className="h-3.5 w-3.5 mr-2 text-muted-foreground" />
-        <span className="truncate">{COMPONENT_LABELS[node.type] || node.type}</span>
+        <Icon
+          className={cn(
+            "h-3.5 w-3.5 mr-2 text-muted-foreground",
+            (node.symbol || node.instance) && "text-violet-500"
+          )}
+        />
+        <span className={cn("truncate", node.masterId && "text-violet-600 dark:text-violet-400")}>
+          {symbolName ?? (COMPONENT_LABELS[node.type] || node.type)}
+        </span>
         {node.props.name && <span className="ml-2 text-xs text-muted-foreground truncate">- {node.props.name}</span>}
       </div>
 
@@ -115,8 +131,9 @@ const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0, selectedId, onSe
               <SortableLayerItem
                 key={child.id}
                 node={child}
+                symbolNames={symbolNames}
                 depth={depth + 1}
-                selectedId={selectedId}
+                selectedIds={selectedIds}
                 onSelect={onSelect}
               />
             ))}
@@ -129,9 +146,13 @@ const LayerItem: React.FC<LayerItemProps> = ({ node, depth = 0, selectedId, onSe
 
 export function LayerTree() {
   const components = useBuilderStore((s) => s.components);
-  const selectedId = useBuilderStore((s) => s.selectedId);
+  const selectedIds = useBuilderStore((s) => s.selectedIds);
   const selectComponent = useBuilderStore((s) => s.selectComponent);
   const reorderComponent = useBuilderStore((s) => s.reorderComponent);
+  const symbolNames = useMemo(
+    () => Object.fromEntries(getSymbolMasters(components).map((master) => [master.symbol!.id, master.symbol!.name])),
+    [components]
+  );
 
   const sensors = useSensors(
     useSensor(PointerSensor, {
@@ -177,7 +198,8 @@ export function LayerTree() {
             <SortableLayerItem
               key={component.id}
               node={component}
-              selectedId={selectedId}
+              symbolNames={symbolNames}
+              selectedIds={selectedIds}
               onSelect={selectComponent}
             />
           ))}
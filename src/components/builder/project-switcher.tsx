@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useProjectStore } from '@/store/project-store';
+import { ChevronDown, Check, Plus, Pencil, Copy, Trash2, FolderOpen } from 'lucide-react';
+import { toast } from 'sonner';
+
+const SAVE_STATUS_LABELS = {
+  idle: '',
+  saving: 'Saving…',
+  saved: 'Saved',
+  error: 'Save failed',
+} as const;
+
+export function ProjectSwitcher() {
+  const projects = useProjectStore((s) => s.projects);
+  const activeProjectId = useProjectStore((s) => s.activeProjectId);
+  const saveStatus = useProjectStore((s) => s.saveStatus);
+  const openProject = useProjectStore((s) => s.openProject);
+  const createProject = useProjectStore((s) => s.createProject);
+  const renameProject = useProjectStore((s) => s.renameProject);
+  const duplicateProject = useProjectStore((s) => s.duplicateProject);
+  const deleteProject = useProjectStore((s) => s.deleteProject);
+  const [showRename, setShowRename] = useState(false);
+  const [showDelete, setShowDelete] = useState(false);
+  const [nameDraft, setNameDraft] = useState('');
+
+  const activeProject = projects.find((p) => p.id === activeProjectId);
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = nameDraft.trim();
+    if (!activeProject || !name) return;
+    await renameProject(activeProject.id, name);
+    setShowRename(false);
+  };
+
+  const handleDelete = async () => {
+    if (!activeProject) return;
+    const { name } = activeProject;
+    await deleteProject(activeProject.id);
+    toast.success(`Deleted "${name}"`);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="gap-2 max-w-[220px]" disabled={!activeProject}>
+            <FolderOpen className="h-4 w-4 shrink-0" />
+            <span className="truncate">{activeProject?.name ?? 'Loading…'}</span>
+            <ChevronDown className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-64">
+          <DropdownMenuLabel>Projects</DropdownMenuLabel>
+          {projects.map((project) => (
+            <DropdownMenuItem key={project.id} onClick={() => openProject(project.id)} className="gap-2">
+              <Check className={`h-4 w-4 ${project.id === activeProjectId ? 'opacity-100' : 'opacity-0'}`} />
+              <span className="truncate flex-1">{project.name}</span>
+              <span className="text-xs text-muted-foreground">{project.componentCount}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => createProject()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            New project
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onClick={() => {
+              setNameDraft(activeProject?.name ?? '');
+              setShowRename(true);
+            }}
+            className="gap-2"
+          >
+            <Pencil className="h-4 w-4" />
+            Rename…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => activeProject && duplicateProject(activeProject.id)} className="gap-2">
+            <Copy className="h-4 w-4" />
+            Duplicate
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setShowDelete(true)} className="gap-2 text-destructive focus:text-destructive">
+            <Trash2 className="h-4 w-4" />
+            Delete…
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {saveStatus !== 'idle' && (
+        <span className={`text-xs hidden md:inline ${saveStatus === 'error' ? 'text-destructive' : 'text-muted-foreground'}`}>
+          {SAVE_STATUS_LABELS[saveStatus]}
+        </span>
+      )}
+
+      <Dialog open={showRename} onOpenChange={setShowRename}>
+        <DialogContent className="max-w-sm">
+          <form onSubmit={handleRename}>
+            <DialogHeader>
+              <DialogTitle>Rename project</DialogTitle>
+            </DialogHeader>
+            <Input
+              value={nameDraft}
+              onChange={(e) => setNameDraft(e.target.value)}
+              className="my-4"
+              autoFocus
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setShowRename(false)}>Cancel</Button>
+              <Button type="submit" disabled={!nameDraft.trim()}>Rename</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showDelete} onOpenChange={setShowDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{activeProject?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The canvas for this project will be permanently removed. Its AI conversations are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
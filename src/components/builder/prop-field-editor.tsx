@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RotateCcw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toList } from '@/lib/component-props';
+import { PropField } from '@/lib/component-schemas';
+import { ClassEditor } from './class-editor';
+
+interface PropFieldEditorProps {
+  field: PropField;
+  value: unknown;
+  defaultValue: unknown;
+  onChange: (value: unknown) => void;
+}
+
+// How a value is shown in a text box, and how typed text is read back
+const formatValue = (field: PropField, value: unknown): string => {
+  switch (field.kind) {
+    case 'list':
+      return toList(value).join('\n');
+    case 'rows':
+      return (Array.isArray(value) ? value : []).map((row) => toList(row).join(',')).join('\n');
+    default:
+      return value === undefined || value === null ? '' : String(value);
+  }
+};
+
+const parseValue = (field: PropField, text: string): unknown => {
+  switch (field.kind) {
+    case 'list':
+      return text.split('\n');
+    case 'rows':
+      return text.split('\n').map((line) => line.split(','));
+    default:
+      return text;
+  }
+};
+
+const describeDefault = (field: PropField, value: unknown): string => {
+  if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return 'empty';
+  if (field.kind === 'list') return toList(value).join(', ');
+  if (field.kind === 'number' && field.unit) return `${value}${field.unit}`;
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+/**
+ * Editor for one schema field. Typed text is validated against the field's
+ * schema and only committed when it passes; the error is shown until it does.
+ */
+export function PropFieldEditor({ field, value, defaultValue, onChange }: PropFieldEditorProps) {
+  // Text being typed that has not passed validation yet
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const formatted = formatValue(field, value);
+
+  // A change from elsewhere (undo, breakpoint switch) replaces the draft
+  useEffect(() => {
+    setDraft(null);
+    setError(null);
+  }, [formatted]);
+
+  const commit = (next: unknown) => {
+    const result = field.schema.safeParse(next);
+    if (result.success) {
+      setError(null);
+      onChange(result.data);
+      return true;
+    }
+    setError(result.error.issues[0]?.message ?? 'Invalid value');
+    return false;
+  };
+
+  const handleText = (text: string) => {
+    setDraft(commit(parseValue(field, text)) ? null : text);
+  };
+
+  const discardDraft = () => {
+    setDraft(null);
+    setError(null);
+  };
+
+  const isDefault = JSON.stringify(value ?? '') === JSON.stringify(defaultValue ?? '');
+  const shown = draft ?? formatted;
+
+  let editor: React.ReactNode;
+  switch (field.kind) {
+    case 'enum':
+      editor = (
+        <Select value={typeof value === 'string' ? value : undefined} onValueChange={(next) => commit(next)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose…" />
+          </SelectTrigger>
+          <SelectContent>
+            {field.options?.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+      break;
+    case 'boolean':
+      editor = <Switch checked={value === true} onCheckedChange={(checked) => commit(checked)} />;
+      break;
+    case 'number':
+      editor = (
+        <div className="flex items-center gap-2">
+          {field.min !== undefined && field.max !== undefined && (
+            <input
+              type="range"
+              min={field.min}
+              max={Math.min(field.max, 120)}
+              value={Number(value) || field.min}
+              onChange={(e) => handleText(e.target.value)}
+              className="flex-1 h-2 bg-muted rounded-lg appearance-none cursor-pointer"
+            />
+          )}
+          <Input
+            type="number"
+            min={field.min}
+            max={field.max}
+            value={shown}
+            onChange={(e) => handleText(e.target.value)}
+            onBlur={discardDraft}
+            className="w-16 h-8 text-xs"
+          />
+          {field.unit && <span className="text-xs text-muted-foreground">{field.unit}</span>}
+        </div>
+      );
+      break;
+    case 'color':
+      editor = (
+        <div className="flex items-center gap-2">
+          <input
+            type="color"
+            value={/^#[0-9a-f]{6}$/i.test(formatted) ? formatted : '#ffffff'}
+            onChange={(e) => handleText(e.target.value)}
+            className="h-8 w-10 shrink-0 cursor-pointer rounded border border-input bg-transparent p-0.5"
+          />
+          <Input
+            value={shown}
+            onChange={(e) => handleText(e.target.value)}
+            onBlur={discardDraft}
+            placeholder="#000000"
+            className="h-8 font-mono text-xs"
+          />
+        </div>
+      );
+      break;
+    case 'longText':
+    case 'list':
+    case 'rows':
+      editor = (
+        <Textarea
+          value={shown}
+          onChange={(e) => handleText(e.target.value)}
+          onBlur={discardDraft}
+          placeholder={field.placeholder}
+          className={cn('resize-none', field.kind === 'rows' ? 'h-28 font-mono text-xs' : 'h-20')}
+        />
+      );
+      break;
+    case 'classList':
+      editor = (
+        <>
+          <Input
+            value={shown}
+            onChange={(e) => handleText(e.target.value)}
+            onBlur={discardDraft}
+            className="font-mono text-xs"
+          />
+          <ClassEditor value={formatted} onChange={(next) => commit(next)} />
+        </>
+      );
+      break;
+    default:
+      editor = (
+        <Input
+          value={shown}
+          onChange={(e) => handleText(e.target.value)}
+          onBlur={discardDraft}
+          placeholder={field.placeholder ?? (typeof defaultValue === 'string' ? defaultValue : undefined)}
+        />
+      );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 min-h-6">
+        <Label className={cn(field.kind === 'number' && 'text-xs')}>{field.label}</Label>
+        {!isDefault && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-muted-foreground"
+            onClick={() => commit(defaultValue ?? '')}
+            title={`Reset to default (${describeDefault(field, defaultValue)})`}
+          >
+            <RotateCcw className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+      {editor}
+      {error ? (
+        <p className="text-[10px] text-destructive">{error}</p>
+      ) : (
+        field.help && <p className="text-[10px] text-muted-foreground">{field.help}</p>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,145 @@
 import React from 'react';
-import { useBuilderStore } from '@/store/builder-store';
+import { useBuilderStore, Alignment, canHaveChildren } from '@/store/builder-store';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
-import { Trash2, X, Move, Maximize2, Type } from 'lucide-react';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Textarea } from '@/components/ui/textarea';
+import {
+  Trash2, X, Move, Maximize2, Type, Group, Ungroup, RotateCcw,
+  AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+  AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { BREAKPOINT_CONFIG, hasOverrides, resolveTree } from '@/lib/responsive';
+import { PropField, PropFieldGroup, getFieldDefault, getFieldsByGroup } from '@/lib/component-schemas';
+import { splitClassNames } from '@/lib/tailwind-subset';
+import { findInstanceRoot, findMasterNode, findSymbolMaster, isInstanceChild } from '@/lib/symbols';
+import { PropFieldEditor } from './prop-field-editor';
+import { SymbolSection } from './symbol-section';
+
+const ALIGN_ACTIONS: { alignment: Alignment; label: string; icon: React.ElementType }[] = [
+  { alignment: 'left', label: 'Align left', icon: AlignStartVertical },
+  { alignment: 'center', label: 'Align center', icon: AlignCenterVertical },
+  { alignment: 'right', label: 'Align right', icon: AlignEndVertical },
+  { alignment: 'top', label: 'Align top', icon: AlignStartHorizontal },
+  { alignment: 'middle', label: 'Align middle', icon: AlignCenterHorizontal },
+  { alignment: 'bottom', label: 'Align bottom', icon: AlignEndHorizontal },
+];
+
+// Sections of schema fields, in panel order
+const PROP_SECTIONS: { group: PropFieldGroup; title: string; icon?: React.ElementType }[] = [
+  { group: 'typography', title: 'Typography', icon: Type },
+  { group: 'content', title: 'Content' },
+  { group: 'appearance', title: 'Appearance' },
+];
+
+// Shown instead of the property editors when several components are selected
+function MultiSelectionPanel() {
+  const selectedIds = useBuilderStore((s) => s.selectedIds);
+  const selectComponent = useBuilderStore((s) => s.selectComponent);
+  const ungroup = useBuilderStore((s) => s.ungroup);
+  const alignSelection = useBuilderStore((s) => s.alignSelection);
+  const distributeSelection = useBuilderStore((s) => s.distributeSelection);
+  const groupSelection = useBuilderStore((s) => s.groupSelection);
+  const removeComponent = useBuilderStore((s) => s.removeComponent);
+  const beginTransaction = useBuilderStore((s) => s.beginTransaction);
+  const commitTransaction = useBuilderStore((s) => s.commitTransaction);
+
+  const handleGroup = () => {
+    if (!groupSelection()) {
+      toast.error('Only components with the same parent can be grouped');
+    }
+  };
+
+  const handleDeleteAll = () => {
+    beginTransaction();
+    try {
+      [...selectedIds].forEach((id) => removeComponent(id));
+    } finally {
+      commitTransaction();
+    }
+  };
+
+  return (
+    <aside className="w-80 border-l border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60 flex flex-col h-full overflow-hidden">
+      <div className="p-4 border-b border-border flex items-center justify-between bg-muted/10">
+        <div>
+          <h2 className="font-semibold text-sm">Selection</h2>
+          <p className="text-xs text-muted-foreground mt-0.5">{selectedIds.length} components selected</p>
+        </div>
+        <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => selectComponent(null)}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        <div className="space-y-3">
+          <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Align</h3>
+          <div className="grid grid-cols-6 gap-1">
+            {ALIGN_ACTIONS.map(({ alignment, label, icon: Icon }) => (
+              <Button key={alignment} variant="outline" size="icon" className="h-8 w-8" title={label} onClick={() => alignSelection(alignment)}>
+                <Icon className="h-4 w-4" />
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Distribute</h3>
+          <div className="grid grid-cols-2 gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 text-xs"
+              disabled={selectedIds.length < 3}
+              onClick={() => distributeSelection('horizontal')}
+            >
+              <AlignHorizontalDistributeCenter className="h-4 w-4" />
+              Horizontally
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-2 text-xs"
+              disabled={selectedIds.length < 3}
+              onClick={() => distributeSelection('vertical')}
+            >
+              <AlignVerticalDistributeCenter className="h-4 w-4" />
+              Vertically
+            </Button>
+          </div>
+          <p className="text-[10px] text-muted-foreground">Equal spacing needs at least three components.</p>
+        </div>
+
+        <Separator />
+
+        <Button variant="outline" className="w-full gap-2" onClick={handleGroup} title="Group (Ctrl+G)">
+          <Group className="h-4 w-4" />
+          Group into Container
+        </Button>
+      </div>
+      <div className="p-4 border-t border-border bg-muted/10">
+        <Button variant="destructive" className="w-full gap-2" onClick={handleDeleteAll}>
+          <Trash2 className="h-4 w-4" />
+          Delete {selectedIds.length} Components
+        </Button>
+      </div>
+    </aside>
+  );
+}
 
 export function PropertiesPanel() {
   const selectedId = useBuilderStore((s) => s.selectedId);
+  const selectedCount = useBuilderStore((s) => s.selectedIds.length);
   const components = useBuilderStore((s) => s.components);
   const updateComponent = useBuilderStore((s) => s.updateComponent);
   const updateComponentPosition = useBuilderStore((s) => s.updateComponentPosition);
   const removeComponent = useBuilderStore((s) => s.removeComponent);
   const selectComponent = useBuilderStore((s) => s.selectComponent);
+  const ungroup = useBuilderStore((s) => s.ungroup);
+  const breakpoint = useBuilderStore((s) => s.breakpoint);
+  const clearOverrides = useBuilderStore((s) => s.clearOverrides);
 
   // Helper to find the selected component in the tree
   const findSelectedComponent = (nodes: any[], id: string): any => {
@@ -28,7 +153,13 @@ export function PropertiesPanel() {
     return null;
   };
 
-  const selectedComponent = selectedId ? findSelectedComponent(components, selectedId) : null;
+  // Editors show (and edit) the values in effect at the current breakpoint
+  const selectedComponent = selectedId ? findSelectedComponent(resolveTree(components, breakpoint), selectedId) : null;
+  const storedComponent = selectedId ? findSelectedComponent(components, selectedId) : null;
+
+  if (selectedCount > 1) {
+    return <MultiSelectionPanel />;
+  }
 
   if (!selectedId || !selectedComponent) {
     return (
@@ -41,10 +172,28 @@ export function PropertiesPanel() {
     );
   }
 
+  // Instance nodes reset to the master's value rather than the type default
+  const instanceRoot = storedComponent?.masterId ? findInstanceRoot(components, selectedId) : null;
+  const symbolMaster = instanceRoot?.instance ? findSymbolMaster(components, instanceRoot.instance.symbolId) : null;
+  const masterNode = symbolMaster ? findMasterNode(symbolMaster, storedComponent.masterId) : null;
+  // Parts of an instance are placed by the master
+  const isLocked = !!storedComponent && isInstanceChild(storedComponent);
+
   const handleChange = (key: string, value: any) => {
     updateComponent(selectedId, { [key]: value });
   };
 
+  const handleFieldChange = (field: PropField, value: unknown) => {
+    if (field.syncClassName && typeof value === 'string') {
+      // Swap the previous option's class for the new one
+      const optionValues = new Set(field.options?.map((option) => option.value));
+      const classes = splitClassNames(selectedComponent.props.className).filter((c) => !optionValues.has(c));
+      updateComponent(selectedId, { [field.key]: value, className: [...classes, value].join(' ') });
+      return;
+    }
+    handleChange(field.key, value);
+  };
+
   const handlePositionChange = (key: string, value: number) => {
     updateComponentPosition(selectedId, { [key]: value });
   };
@@ -61,9 +210,32 @@ export function PropertiesPanel() {
         </Button>
       </div>
 
+      {breakpoint !== 'desktop' && (
+        <div className="px-4 py-2 border-b border-border bg-primary/5 flex items-center justify-between gap-2">
+          <p className="text-xs text-muted-foreground">
+            Changes apply to <span className="font-medium text-foreground">{BREAKPOINT_CONFIG[breakpoint].label}</span>
+            {breakpoint === 'tablet' ? ' and mobile' : ''} only
+          </p>
+          {storedComponent && hasOverrides(storedComponent, breakpoint) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1.5 text-xs"
+              onClick={() => clearOverrides(selectedId, breakpoint)}
+              title="Remove this breakpoint's overrides"
+            >
+              <RotateCcw className="h-3 w-3" />
+              Reset
+            </Button>
+          )}
+        </div>
+      )}
+
       <div className="flex-1 overflow-y-auto p-6 space-y-6">
+        {storedComponent && <SymbolSection node={storedComponent} />}
+
         {/* Position & Size */}
-        <div className="space-y-4">
+        <fieldset className="space-y-4 disabled:opacity-60" disabled={isLocked}>
           <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
             <Move className="h-3 w-3" />
             Position & Size
@@ -106,204 +278,52 @@ export function PropertiesPanel() {
               />
             </div>
           </div>
-        </div>
+        </fieldset>
 
-        {/* Font Size (for text-based components) */}
-        {(selectedComponent.type === 'button' || selectedComponent.type === 'header' || selectedComponent.type === 'text' || selectedComponent.type === 'card' || selectedComponent.type === 'input') && (
-          <>
-            <Separator />
-            <div className="space-y-4">
-              <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
-                <Type className="h-3 w-3" />
-                Typography
-              </h3>
-              <div className="space-y-2">
-                <div className="flex justify-between items-center">
-                  <Label className="text-xs">Font Size</Label>
-                  <span className="text-xs text-muted-foreground">{selectedComponent.props.fontSize || 16}px</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <input
-                    type="range"
-                    min="8"
-                    max="120"
-                    value={selectedComponent.props.fontSize || 16}
-                    onChange={(e) => handleChange('fontSize', parseInt(e.target.value))}
-                    className="flex-1 h-2 bg-muted rounded-lg appearance-none cursor-pointer"
-                  />
-                  <Input
-                    type="number"
-                    min="8"
-                    max="200"
-                    value={selectedComponent.props.fontSize || 16}
-                    onChange={(e) => handleChange('fontSize', Math.max(8, Math.min(200, parseInt(e.target.value) || 16)))}
-                    className="w-16 h-8 text-xs"
+        {/* Prop editors generated from the component's schema */}
+        {PROP_SECTIONS.map(({ group, title, icon: Icon }) => {
+          const fields = getFieldsByGroup(selectedComponent.type, group);
+          if (fields.length === 0 && !(group === 'content' && selectedComponent.type === 'container')) return null;
+          return (
+            <React.Fragment key={group}>
+              <Separator />
+              <div className="space-y-4">
+                <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider flex items-center gap-2">
+                  {Icon && <Icon className="h-3 w-3" />}
+                  {title}
+                </h3>
+                {/* Container Help Text */}
+                {group === 'content' && selectedComponent.type === 'container' && (
+                  <div className="text-xs text-muted-foreground p-3 bg-muted/50 rounded-md border border-border/50">
+                    <p>This is a layout container.</p>
+                    <p className="mt-1">Drag other components (like Text, Buttons, or Cards) inside it to add content.</p>
+                  </div>
+                )}
+                {fields.map((field) => (
+                  <PropFieldEditor
+                    key={field.key}
+                    field={field}
+                    value={selectedComponent.props[field.key]}
+                    defaultValue={masterNode ? masterNode.props[field.key] : getFieldDefault(selectedComponent.type, field.key)}
+                    onChange={(value) => handleFieldChange(field, value)}
                   />
-                </div>
+                ))}
               </div>
-            </div>
-          </>
-        )}
-
-        <Separator />
-
-        {/* Content Properties */}
-        {(['button', 'header', 'text', 'card', 'input', 'container'].includes(selectedComponent.type)) && (
-          <>
-            <div className="space-y-4">
-              <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Content</h3>
-              
-              {/* Container Help Text */}
-              {selectedComponent.type === 'container' && (
-                <div className="text-xs text-muted-foreground p-3 bg-muted/50 rounded-md border border-border/50">
-                  <p>This is a layout container.</p>
-                  <p className="mt-1">Drag other components (like Text, Buttons, or Cards) inside it to add content.</p>
-                </div>
-              )}
-
-              {/* Text Content (Children) */}
-              {(selectedComponent.type === 'button' || selectedComponent.type === 'header' || selectedComponent.type === 'text') && (
-                <div className="space-y-2">
-                  <Label>Text</Label>
-                  <Input 
-                    value={selectedComponent.props.children || ''} 
-                    onChange={(e) => handleChange('children', e.target.value)} 
-                  />
-                </div>
-              )}
-              {/* Card Specifics */}
-              {selectedComponent.type === 'card' && (
-                <>
-                  <div className="space-y-2">
-                    <Label>Title</Label>
-                    <Input 
-                      value={selectedComponent.props.title || ''} 
-                      onChange={(e) => handleChange('title', e.target.value)} 
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Description</Label>
-                    <Textarea 
-                      value={selectedComponent.props.description || ''} 
-                      onChange={(e) => handleChange('description', e.target.value)} 
-                      className="resize-none h-20"
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Footer</Label>
-                    <Input 
-                      value={selectedComponent.props.footer || ''} 
-                      onChange={(e) => handleChange('footer', e.target.value)} 
-                    />
-                  </div>
-                </>
-              )}
-              {/* Input Specifics */}
-              {selectedComponent.type === 'input' && (
-                <>
-                  <div className="space-y-2">
-                    <Label>Label</Label>
-                    <Input 
-                      value={selectedComponent.props.label || ''} 
-                      onChange={(e) => handleChange('label', e.target.value)} 
-                    />
-                  </div>
-                  <div className="space-y-2">
-                    <Label>Placeholder</Label>
-                    <Input 
-                      value={selectedComponent.props.placeholder || ''} 
-                      onChange={(e) => handleChange('placeholder', e.target.value)} 
-                    />
-                  </div>
-                </>
-              )}
-            </div>
-            <Separator />
-          </>
-        )}
-        <div className="space-y-4">
-          <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wider">Appearance</h3>
-          {/* Button Variant */}
-          {selectedComponent.type === 'button' && (
-            <div className="space-y-2">
-              <Label>Variant</Label>
-              <Select 
-                value={selectedComponent.props.variant || 'default'} 
-                onValueChange={(val) => handleChange('variant', val)}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="default">Default</SelectItem>
-                  <SelectItem value="destructive">Destructive</SelectItem>
-                  <SelectItem value="outline">Outline</SelectItem>
-                  <SelectItem value="secondary">Secondary</SelectItem>
-                  <SelectItem value="ghost">Ghost</SelectItem>
-                  <SelectItem value="link">Link</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          )}
-          {/* Header Level */}
-          {selectedComponent.type === 'header' && (
-            <div className="space-y-2">
-              <Label>Level</Label>
-              <Select 
-                value={selectedComponent.props.level || 'h2'} 
-                onValueChange={(val) => handleChange('level', val)}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="h1">H1</SelectItem>
-                  <SelectItem value="h2">H2</SelectItem>
-                  <SelectItem value="h3">H3</SelectItem>
-                  <SelectItem value="h4">H4</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          )}
-          {/* Container Layout */}
-          {selectedComponent.type === 'container' && (
-            <div className="space-y-2">
-              <Label>Layout Direction</Label>
-              <Select 
-                value={selectedComponent.props.layout || 'flex-col'} 
-                onValueChange={(val) => {
-                  handleChange('layout', val);
-                  // Update className to reflect layout
-                  const currentClass = selectedComponent.props.className || '';
-                  const newClass = currentClass.replace(/flex-row|flex-col/g, '').trim() + ` ${val}`;
-                  handleChange('className', newClass);
-                }}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="flex-col">Vertical (Column)</SelectItem>
-                  <SelectItem value="flex-row">Horizontal (Row)</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          )}
-          <div className="space-y-2">
-            <Label>Custom Classes</Label>
-            <Input 
-              value={selectedComponent.props.className || ''} 
-              onChange={(e) => handleChange('className', e.target.value)} 
-              className="font-mono text-xs"
-            />
-            <p className="text-[10px] text-muted-foreground">Tailwind classes separated by space</p>
-          </div>
-        </div>
+            </React.Fragment>
+          );
+        })}
       </div>
-      <div className="p-4 border-t border-border bg-muted/10">
+      <div className="p-4 border-t border-border bg-muted/10 space-y-2">
+        {canHaveChildren(selectedComponent.type) && selectedComponent.children.length > 0 && !storedComponent?.masterId && (
+          <Button variant="outline" className="w-full gap-2" onClick={() => ungroup(selectedId)} title="Ungroup (Ctrl+Shift+G)">
+            <Ungroup className="h-4 w-4" />
+            Ungroup
+          </Button>
+        )}
         <Button 
           variant="destructive" 
           className="w-full gap-2" 
+          disabled={isLocked}
           onClick={() => removeComponent(selectedId)}
         >
           <Trash2 className="h-4 w-4" />
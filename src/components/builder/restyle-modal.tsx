@@ -0,0 +1,131 @@
+import { useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Palette } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBuilderStore, Component } from '@/store/builder-store';
+import { getAllPresets, getPresetById, getPresetStyles } from '@/lib/design-system';
+import { generateStaticHTML } from '@/lib/blueprint-utils';
+import { restyleTree } from '@/lib/restyle';
+import { syncInstances } from '@/lib/symbols';
+
+interface RestyleModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Width of each preview column; pages are rendered at full width and scaled down
+const PREVIEW_WIDTH = 340;
+
+function PagePreview({ label, components }: { label: string; components: Component[] }) {
+  const html = useMemo(() => generateStaticHTML(components).html, [components]);
+  const width = Math.max(...components.map((node) => node.position.x + node.position.width), 1);
+  const height = Math.max(...components.map((node) => node.position.y + node.position.height), 1);
+  const scale = PREVIEW_WIDTH / width;
+
+  return (
+    <div className="space-y-1.5">
+      <span className="text-xs font-medium text-muted-foreground">{label}</span>
+      <div className="h-[360px] overflow-y-auto overflow-x-hidden rounded-md border bg-white">
+        <div className="relative" style={{ width: PREVIEW_WIDTH, height: height * scale }}>
+          <iframe
+            title={label}
+            srcDoc={html}
+            className="absolute top-0 left-0 origin-top-left pointer-events-none border-0"
+            style={{ width, height, transform: `scale(${scale})` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Restyle the whole canvas with a design-system preset, comparing the page
+ * before and after first. Applying is a single undo step.
+ */
+export function RestyleModal({ open, onOpenChange }: RestyleModalProps) {
+  const components = useBuilderStore((s) => s.components);
+  const applyStylePreset = useBuilderStore((s) => s.applyStylePreset);
+  const undo = useBuilderStore((s) => s.undo);
+  const presets = getAllPresets();
+  const [presetId, setPresetId] = useState(presets[0].id);
+  const preset = getPresetById(presetId);
+  const { colors } = getPresetStyles(preset.id);
+
+  const preview = useMemo(() => {
+    if (!open) return null;
+    const restyled: Component[] = JSON.parse(JSON.stringify(components));
+    const changed = restyleTree(restyled, preset);
+    syncInstances(restyled);
+    return { components: restyled, changed };
+  }, [open, components, preset]);
+
+  const handleApply = () => {
+    applyStylePreset(preset);
+    toast.success(`Restyled ${preview?.changed ?? 0} components with ${preset.name}`, {
+      action: { label: 'Undo', onClick: () => undo() },
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Palette className="h-5 w-5 text-primary" />
+            Restyle Page
+          </DialogTitle>
+          <DialogDescription>
+            Remap colors, typography, spacing, corners and shadows on every component to a style preset. Layout and content stay as they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-end gap-4">
+          <div className="space-y-1.5 flex-1">
+            <Label className="text-xs">Style</Label>
+            <Select value={preset.id} onValueChange={setPresetId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>{item.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-1 pb-2" title="Preset colors">
+            {[colors.primary, colors.secondary, colors.accent, colors.background, colors.text].map((color, index) => (
+              <span key={index} className="h-6 w-6 rounded-full border border-border" style={{ background: color }} />
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">{preset.description}</p>
+
+        {components.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">Add some components to restyle.</p>
+        ) : (
+          preview && (
+            <div className="grid grid-cols-2 gap-4 min-h-0">
+              <PagePreview label="Before" components={components} />
+              <PagePreview label={`After · ${preview.changed} components change`} components={preview.components} />
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!preview || preview.changed === 0}>
+            Apply Style
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
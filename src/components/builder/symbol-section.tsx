@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { useBuilderStore, Component } from '@/store/builder-store';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Component as SymbolIcon, Diamond, Unlink, RotateCcw, Crosshair } from 'lucide-react';
+import { toast } from 'sonner';
+import { countInstances, findInstanceRoot, findSymbolMaster, getSymbolMasters, isInSymbol } from '@/lib/symbols';
+
+interface SymbolSectionProps {
+  // The selected component as stored (not resolved for a breakpoint)
+  node: Component;
+}
+
+/**
+ * Symbol controls for the selected component: create a symbol from it, rename
+ * a master, or manage the overrides and link of an instance
+ */
+export function SymbolSection({ node }: SymbolSectionProps) {
+  const components = useBuilderStore((s) => s.components);
+  const createSymbol = useBuilderStore((s) => s.createSymbol);
+  const renameSymbol = useBuilderStore((s) => s.renameSymbol);
+  const detachInstance = useBuilderStore((s) => s.detachInstance);
+  const resetInstanceOverrides = useBuilderStore((s) => s.resetInstanceOverrides);
+  const selectComponent = useBuilderStore((s) => s.selectComponent);
+  const [name, setName] = useState(node.symbol?.name ?? '');
+
+  useEffect(() => {
+    setName(node.symbol?.name ?? '');
+  }, [node.id, node.symbol?.name]);
+
+  const root = node.masterId ? findInstanceRoot(components, node.id) : null;
+  const master = root?.instance ? findSymbolMaster(components, root.instance.symbolId) : null;
+
+  if (root?.instance && master) {
+    const overridden = Object.keys(root.instance.overrides[node.masterId!] ?? {});
+    return (
+      <div className="space-y-3 p-3 rounded-md border border-violet-500/30 bg-violet-500/5">
+        <div className="flex items-center gap-2 text-xs">
+          <Diamond className="h-3.5 w-3.5 text-violet-500" />
+          <span>
+            {node.instance ? 'Instance of ' : 'Part of an instance of '}
+            <span className="font-medium">{master.symbol!.name}</span>
+          </span>
+        </div>
+        <p className="text-[10px] text-muted-foreground">
+          {overridden.length > 0
+            ? `Overrides: ${overridden.join(', ')}`
+            : 'Follows the master. Edited props become overrides for this instance.'}
+        </p>
+        <div className="grid grid-cols-2 gap-2">
+          <Button variant="outline" size="sm" className="gap-1.5 text-xs" onClick={() => selectComponent(master.id)}>
+            <Crosshair className="h-3 w-3" />
+            Go to Master
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="gap-1.5 text-xs"
+            onClick={() => detachInstance(node.id)}
+            title="Detach instance (Ctrl+Alt+B)"
+          >
+            <Unlink className="h-3 w-3" />
+            Detach
+          </Button>
+        </div>
+        {overridden.length > 0 && (
+          <Button variant="ghost" size="sm" className="w-full gap-1.5 text-xs" onClick={() => resetInstanceOverrides(node.id)}>
+            <RotateCcw className="h-3 w-3" />
+            Reset Overrides
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (node.symbol) {
+    const instanceCount = countInstances(components, node.symbol.id);
+    const commitName = () => {
+      const trimmed = name.trim();
+      if (trimmed && trimmed !== node.symbol!.name) {
+        renameSymbol(node.symbol!.id, trimmed);
+      } else {
+        setName(node.symbol!.name);
+      }
+    };
+    return (
+      <div className="space-y-3 p-3 rounded-md border border-violet-500/30 bg-violet-500/5">
+        <div className="flex items-center gap-2 text-xs">
+          <SymbolIcon className="h-3.5 w-3.5 text-violet-500" />
+          <span>Symbol master · {instanceCount} {instanceCount === 1 ? 'instance' : 'instances'}</span>
+        </div>
+        <div className="space-y-1.5">
+          <Label className="text-xs">Name</Label>
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onBlur={commitName}
+            onKeyDown={(e) => e.key === 'Enter' && commitName()}
+            className="h-8 text-xs"
+          />
+        </div>
+        <p className="text-[10px] text-muted-foreground">
+          Edits here update every instance. Add instances from the Symbols group in the sidebar.
+        </p>
+      </div>
+    );
+  }
+
+  // Symbols do not nest
+  if (isInSymbol(components, node.id)) return null;
+
+  const handleCreate = () => {
+    const symbolName = name.trim() || `Symbol ${getSymbolMasters(components).length + 1}`;
+    if (createSymbol(node.id, symbolName)) {
+      toast.success(`Created symbol "${symbolName}"`);
+    } else {
+      toast.error('Symbols cannot contain or sit inside other symbols or instances');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+        placeholder="Symbol name"
+        className="h-8 text-xs"
+      />
+      <Button variant="outline" size="sm" className="gap-1.5 text-xs shrink-0" onClick={handleCreate}>
+        <SymbolIcon className="h-3 w-3" />
+        Create Symbol
+      </Button>
+    </div>
+  );
+}
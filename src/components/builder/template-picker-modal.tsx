@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LayoutTemplate, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBuilderStore } from '@/store/builder-store';
+import { getAllPresets, getAllTemplates, getPresetById, getPresetStyles } from '@/lib/design-system';
+import { buildTemplate, getSectionLabel } from '@/lib/section-library';
+import { cn } from '@/lib/utils';
+
+interface TemplatePickerModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Start a page from one of the built-in templates. Sections are generated
+ * locally from the section library, styled by the chosen preset.
+ */
+export function TemplatePickerModal({ open, onOpenChange }: TemplatePickerModalProps) {
+  const hasComponents = useBuilderStore((s) => s.components.length > 0);
+  const loadComponents = useBuilderStore((s) => s.loadComponents);
+  const undo = useBuilderStore((s) => s.undo);
+  const templates = getAllTemplates();
+  const presets = getAllPresets();
+  const [templateId, setTemplateId] = useState(templates[0].id);
+  const [presetId, setPresetId] = useState(templates[0].defaultPreset);
+
+  const template = templates.find((item) => item.id === templateId) ?? templates[0];
+  const preset = getPresetById(presetId);
+  const { colors } = getPresetStyles(preset.id);
+
+  // Each template suggests its own preset
+  useEffect(() => {
+    setPresetId(template.defaultPreset);
+  }, [template]);
+
+  const handleApply = () => {
+    loadComponents(buildTemplate(template, preset));
+    toast.success(`Added the ${template.name} template`, {
+      action: { label: 'Undo', onClick: () => undo() },
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="h-5 w-5 text-primary" />
+            Page Templates
+          </DialogTitle>
+          <DialogDescription>
+            Start from a ready-made page. Sections are stacked top to bottom and can be edited like any other component.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="flex-1 min-h-0 -mx-1 px-1">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 py-1">
+            {templates.map((item) => (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => setTemplateId(item.id)}
+                className={cn(
+                  'text-left rounded-lg border p-4 space-y-2 transition-colors hover:bg-accent/50',
+                  item.id === template.id ? 'border-primary ring-1 ring-primary' : 'border-border'
+                )}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-sm">{item.name}</span>
+                  <span className="text-[10px] text-muted-foreground">{item.sections.length} sections</span>
+                </div>
+                <p className="text-xs text-muted-foreground">{item.description}</p>
+                <div className="flex flex-wrap gap-1">
+                  {item.sections.map((section) => (
+                    <Badge key={section} variant="secondary" className="text-[10px] font-normal">
+                      {getSectionLabel(section)}
+                    </Badge>
+                  ))}
+                </div>
+              </button>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <div className="flex items-end gap-4 pt-2">
+          <div className="space-y-1.5 flex-1">
+            <Label className="text-xs">Style</Label>
+            <Select value={preset.id} onValueChange={setPresetId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {presets.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.name}
+                    {item.id === template.defaultPreset && <span className="ml-1 text-muted-foreground">(suggested)</span>}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-1 pb-2" title="Preset colors">
+            {[colors.primary, colors.secondary, colors.accent, colors.background, colors.text].map((color, index) => (
+              <span key={index} className="h-6 w-6 rounded-full border border-border" style={{ background: color }} />
+            ))}
+          </div>
+        </div>
+
+        {hasComponents && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription className="text-xs">
+              The template replaces everything on the canvas. You can undo it afterwards.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply}>
+            {hasComponents ? 'Replace Canvas' : 'Use Template'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -212,6 +212,7 @@ export function UsageStatsCard({ className }: UsageStatsCardProps) {
                 <span className="capitalize">{provider}</span>
                 <span className="text-muted-foreground">
                   {formatCost(data.cost)} • {data.requests} req
+                  {data.fallbacks > 0 && ` (${data.fallbacks} as fallback)`}
                 </span>
               </div>
             ))}
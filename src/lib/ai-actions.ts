@@ -0,0 +1,305 @@
+/**
+ * AI Actions
+ * Applies validated AI actions to the builder store, and previews what they
+ * would change before they are applied
+ */
+
+import {
+  useBuilderStore,
+  Component,
+  ComponentPosition,
+  ComponentType,
+  findComponent,
+  getAbsolutePosition,
+  getDefaultProps,
+  getDefaultSize,
+} from '@/store/builder-store';
+import { Breakpoint, resolveTree } from './responsive';
+import { validateProps, PropIssue } from './component-schemas';
+import type { AIAction } from './ai-service';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type RejectedProp = PropIssue & { type: ComponentType };
+
+export interface ApplyResult {
+  appliedCount: number;
+  // Actions that could not be applied, e.g. `Update abc: component not found`
+  skipped: string[];
+  // Props the component schemas rejected
+  rejected: RejectedProp[];
+}
+
+export interface PropChange {
+  key: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface StagedChange {
+  index: number;
+  action: AIAction;
+  // The component's type and visible name, e.g. `button "Sign In"`
+  name: string;
+  // Where the component is now and where it would end up, in canvas coordinates
+  before: ComponentPosition | null;
+  after: ComponentPosition | null;
+  propChanges: PropChange[];
+  // Set when the action cannot be applied to the canvas as it is
+  problem: string | null;
+}
+
+// A component as the preview sees it after the actions so far
+interface PreviewNode {
+  type: ComponentType;
+  props: Record<string, any>;
+  // Canvas box, and the canvas position of its parent
+  box: ComponentPosition;
+  origin: { x: number; y: number };
+}
+
+// Props shown as a component's name in labels, in order of preference
+const NAME_PROPS = ['children', 'title', 'text', 'label', 'logo', 'name'];
+
+// ============================================
+// LABELS
+// ============================================
+
+/**
+ * Short label for an action, e.g. `Add button "sign-in"` or `Remove abc123`
+ */
+export function describeAction(action: AIAction): string {
+  const verb = action.type.charAt(0).toUpperCase() + action.type.slice(1);
+  if (action.type === 'add') {
+    return `${verb} ${action.componentType ?? 'component'}${action.id ? ` "${action.id}"` : ''}`;
+  }
+  return `${verb} ${action.componentId ?? 'component'}`;
+}
+
+/**
+ * One-line summary of rejected props for a toast, or null when there are none
+ */
+export function formatRejectedProps(rejected: RejectedProp[]): string | null {
+  if (rejected.length === 0) return null;
+  const keys = [...new Set(rejected.map((issue) => `${issue.type}.${issue.key}`))];
+  return `Ignored ${rejected.length} invalid prop${rejected.length !== 1 ? 's' : ''}: ${keys.slice(0, 3).join(', ')}${keys.length > 3 ? '…' : ''}`;
+}
+
+// A component's visible name for labels
+function componentName(type: ComponentType, props: Record<string, any> = {}): string {
+  const name = NAME_PROPS.map((key) => props[key]).find((value) => typeof value === 'string' && value.trim());
+  return name ? `${type} "${name.length > 24 ? `${name.slice(0, 24)}…` : name}"` : type;
+}
+
+// ============================================
+// APPLYING
+// ============================================
+
+/**
+ * Applies actions to the builder store one at a time, e.g. as they stream in.
+ * Ids the AI gives to components it adds are remembered so later actions can
+ * nest inside them. Callers wrap the whole run in a store transaction.
+ */
+export function createActionApplier() {
+  let appliedCount = 0;
+  const createdIds = new Map<string, string>();
+  const resolveId = (id?: string | null) => (id ? createdIds.get(id) ?? id : id);
+  const skipped: string[] = [];
+  const rejected: RejectedProp[] = [];
+  const checkProps = (type: ComponentType, props: Record<string, any>) => {
+    const result = validateProps(type, props);
+    rejected.push(...result.issues.map((issue) => ({ ...issue, type })));
+    return result.props;
+  };
+
+  const apply = (action: AIAction) => {
+    const store = useBuilderStore.getState();
+    try {
+      // Actions arrive validated against AIActionSchema
+      const componentId = resolveId(action.componentId);
+      const parentId = resolveId(action.parentId);
+      const target = componentId ? findComponent(store.components, componentId) : null;
+      if (action.type !== 'add' && !target) {
+        skipped.push(`${describeAction(action)}: component not found`);
+        return;
+      }
+
+      switch (action.type) {
+        case 'add': {
+          const newId = store.addComponent(action.componentType, action.position, parentId);
+          if (action.id) {
+            createdIds.set(action.id, newId);
+          }
+          // Apply size and props on top of the defaults
+          if (action.size) {
+            store.updateComponentPosition(newId, action.size);
+          }
+          if (action.props) {
+            store.updateComponent(newId, checkProps(action.componentType, action.props));
+          }
+          break;
+        }
+
+        case 'update':
+          store.updateComponent(componentId, checkProps(target.type, action.props));
+          break;
+
+        case 'remove':
+          store.removeComponent(componentId);
+          break;
+
+        case 'move':
+          if (action.parentId !== undefined) {
+            store.moveToParent(componentId, parentId ?? null);
+          }
+          // The position is relative to the (new) parent
+          if (action.position) {
+            store.updateComponentPosition(componentId, action.position);
+          }
+          break;
+
+        case 'resize':
+          store.updateComponentPosition(componentId, action.size);
+          break;
+      }
+      appliedCount++;
+    } catch (error) {
+      console.error(`Failed to apply action:`, action, error);
+    }
+  };
+
+  const finish = (): ApplyResult => {
+    if (rejected.length > 0) {
+      console.warn('Ignored invalid props from the AI:', rejected);
+    }
+    return { appliedCount, skipped, rejected };
+  };
+
+  return { apply, finish };
+}
+
+// ============================================
+// PREVIEW
+// ============================================
+
+/**
+ * Indices of the earlier 'add' actions each action depends on, because it
+ * nests inside or targets a component one of them creates
+ */
+export function getActionDependencies(actions: AIAction[]): number[][] {
+  const declared = new Map<string, number>();
+  return actions.map((action, index) => {
+    const dependencies = [action.parentId, action.componentId]
+      .filter((id) => id && declared.has(id))
+      .map((id) => declared.get(id)!);
+    if (action.type === 'add' && action.id) {
+      declared.set(action.id, index);
+    }
+    return [...new Set(dependencies)];
+  });
+}
+
+/**
+ * What each action would change on the canvas as it is now, without applying
+ * anything: boxes before and after, and prop changes. Positions follow the
+ * given breakpoint, like the canvas does.
+ */
+export function previewActions(components: Component[], actions: AIAction[], breakpoint: Breakpoint): StagedChange[] {
+  const tree = resolveTree(components, breakpoint);
+  // Components earlier actions add or change: their box, the canvas position
+  // of their parent, and props. Added ones are keyed by the id the AI gave them.
+  const tracked = new Map<string, PreviewNode | null>();
+  const lookup = (id: string): PreviewNode | null => {
+    if (tracked.has(id)) return tracked.get(id);
+    const node = findComponent(tree, id);
+    const box = node ? getAbsolutePosition(tree, id) : null;
+    return node && box
+      ? { type: node.type, props: node.props, box, origin: { x: box.x - node.position.x, y: box.y - node.position.y } }
+      : null;
+  };
+  const diffProps = (type: ComponentType, current: Record<string, any>, props: Record<string, any>) =>
+    Object.entries(validateProps(type, props).props)
+      .filter(([key, value]) => JSON.stringify(current[key]) !== JSON.stringify(value))
+      .map(([key, value]) => ({ key, before: current[key], after: value }));
+
+  return actions.map((action, index) => {
+    const change: StagedChange = {
+      index,
+      action,
+      name: action.type === 'add' ? action.componentType : action.componentId,
+      before: null,
+      after: null,
+      propChanges: [],
+      problem: null,
+    };
+
+    if (action.type === 'add') {
+      const parent = action.parentId ? lookup(action.parentId) : null;
+      const origin = { x: parent?.box.x ?? 0, y: parent?.box.y ?? 0 };
+      const size = action.size ?? getDefaultSize(action.componentType);
+      const defaults = getDefaultProps(action.componentType);
+      change.name = componentName(action.componentType, { ...defaults, ...action.props });
+      change.after = {
+        x: origin.x + (action.position?.x ?? 100),
+        y: origin.y + (action.position?.y ?? 100),
+        width: size.width,
+        height: size.height,
+      };
+      change.propChanges = diffProps(action.componentType, defaults, action.props ?? {});
+      if (action.parentId && !parent) {
+        change.problem = `Parent ${action.parentId} not found; it would be added at the top level`;
+      }
+      if (action.id) {
+        tracked.set(action.id, { type: action.componentType, props: { ...defaults, ...action.props }, box: change.after, origin });
+      }
+      return change;
+    }
+
+    const target = lookup(action.componentId);
+    if (!target) {
+      change.problem = 'Component not found';
+      return change;
+    }
+    change.name = componentName(target.type, target.props);
+    change.before = target.box;
+    let { box, origin, props } = target;
+
+    switch (action.type) {
+      case 'update':
+        change.propChanges = diffProps(target.type, target.props, action.props);
+        props = { ...props, ...validateProps(target.type, action.props).props };
+        break;
+
+      case 'remove':
+        tracked.set(action.componentId, null);
+        return change;
+
+      case 'move': {
+        // Without a new parent the position stays relative to the current one
+        const parent = action.parentId === undefined
+          ? origin
+          : action.parentId ? lookup(action.parentId)?.box : { x: 0, y: 0 };
+        if (!parent) {
+          change.problem = `Parent ${action.parentId} not found`;
+          break;
+        }
+        // Reparenting keeps the place on screen unless a new position is given
+        origin = { x: parent.x, y: parent.y };
+        if (action.position) {
+          box = { ...box, x: origin.x + action.position.x, y: origin.y + action.position.y };
+        }
+        break;
+      }
+
+      case 'resize':
+        box = { ...box, ...action.size };
+        break;
+    }
+
+    change.after = box;
+    tracked.set(action.componentId, { type: target.type, props, box, origin });
+    return change;
+  });
+}
@@ -0,0 +1,142 @@
+/**
+ * AI Fallback
+ * Retries with exponential backoff for rate limits and server errors, and a
+ * circuit breaker per provider so the fallback chain skips providers that
+ * keep failing
+ */
+
+import type { AIProvider } from './ai-service';
+
+// ============================================
+// TYPES
+// ============================================
+
+// A provider to try when the ones before it fail. Without a model the
+// provider's configured model is used.
+export interface FallbackEntry {
+  provider: AIProvider;
+  model?: string;
+}
+
+interface CircuitState {
+  // Failed requests in a row
+  failures: number;
+  // When the circuit opened; null while closed
+  openedAt: number | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Rate limits, timeouts and server errors; 529 is Anthropic's "overloaded"
+export const RETRYABLE_STATUS_CODES = [408, 429, 500, 502, 503, 504, 529];
+
+// Retries of one request before moving on to the next provider
+export const MAX_RETRIES = 2;
+
+const BASE_DELAY_MS = 500;
+const MAX_DELAY_MS = 8000;
+
+// Failures in a row that open a provider's circuit, and how long it stays open
+export const FAILURE_THRESHOLD = 3;
+export const CIRCUIT_COOLDOWN_MS = 60_000;
+
+// ============================================
+// BACKOFF
+// ============================================
+
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUS_CODES.includes(status);
+}
+
+/**
+ * Delay before retry number `attempt` (from 0): the server's Retry-After when
+ * it sends one, otherwise exponential with jitter. Both are capped.
+ */
+export function getBackoffDelay(attempt: number, retryAfter?: string | null): number {
+  if (retryAfter) {
+    // Either a number of seconds or an HTTP date
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (!Number.isNaN(delay)) {
+      return Math.min(Math.max(delay, 0), MAX_DELAY_MS);
+    }
+  }
+  const exponential = BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(exponential + Math.random() * BASE_DELAY_MS, MAX_DELAY_MS);
+}
+
+/**
+ * Send a request, retrying with backoff while the response has a retryable
+ * status. Resolves with the last response, which may not be ok. Network
+ * errors are thrown without retrying, as the server is unreachable.
+ */
+export async function fetchWithBackoff(url: string, init: RequestInit): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, init);
+    if (response.ok || !isRetryableStatus(response.status) || attempt >= MAX_RETRIES) {
+      return response;
+    }
+    const delay = getBackoffDelay(attempt, response.headers.get('retry-after'));
+    console.warn(`AI request failed with ${response.status}, retrying in ${Math.round(delay)}ms`);
+    // Free the connection before waiting
+    await response.body?.cancel().catch(() => {});
+    await wait(delay, init.signal ?? undefined);
+  }
+}
+
+// Resolve after `ms`, or reject like fetch does when the signal aborts
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) {
+      abort();
+    } else {
+      signal?.addEventListener('abort', abort, { once: true });
+    }
+  });
+}
+
+// ============================================
+// CIRCUIT BREAKER
+// ============================================
+
+const circuits = new Map<AIProvider, CircuitState>();
+
+/**
+ * Whether a provider is being skipped after failing repeatedly. Once the
+ * cooldown has passed one request is let through; its result closes the
+ * circuit again or reopens it.
+ */
+export function isCircuitOpen(provider: AIProvider, now: number = Date.now()): boolean {
+  const circuit = circuits.get(provider);
+  return !!circuit?.openedAt && now - circuit.openedAt < CIRCUIT_COOLDOWN_MS;
+}
+
+export function recordProviderSuccess(provider: AIProvider): void {
+  circuits.delete(provider);
+}
+
+export function recordProviderFailure(provider: AIProvider, now: number = Date.now()): void {
+  const circuit = circuits.get(provider) ?? { failures: 0, openedAt: null };
+  circuit.failures++;
+  if (circuit.failures >= FAILURE_THRESHOLD) {
+    circuit.openedAt = now;
+  }
+  circuits.set(provider, circuit);
+}
+
+/**
+ * Close every circuit, e.g. after the provider settings change
+ */
+export function resetCircuits(): void {
+  circuits.clear();
+}
@@ -0,0 +1,155 @@
+/**
+ * AI Fixtures
+ * A provider that replays recorded AI responses instead of calling a model,
+ * for developing and testing the builder offline. Fixtures are JSON files,
+ * one per prompt hash, that the dev backend reads and writes.
+ */
+
+import type { AIResponse } from './ai-service';
+import { AIProviderAdapter, AIProviderRequest, registerAIProvider, usageEvent } from './ai-providers';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AIFixture {
+  version: 1;
+  key: string;
+  // The user's request, to tell fixture files apart
+  prompt: string;
+  // Provider and model the response was recorded from
+  provider: string;
+  model: string;
+  recordedAt: string;
+  // Ids of the canvas components in context order, so a replay can point the
+  // response at the components of the canvas it is replayed on
+  componentIds?: string[];
+  response: AIResponse;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Served by the dev backend (npm run start:backend) from fixtures/ai
+export const FIXTURE_ENDPOINT = 'http://localhost:5174/api/fixtures';
+
+// Replayed responses are streamed in pieces of this many characters
+const REPLAY_CHUNK_SIZE = 64;
+
+// ============================================
+// KEYS
+// ============================================
+
+/**
+ * Key of the fixture for a request: a hash of the prompt with its canvas
+ * context, the prior turns and any images. The system prompt is left out so
+ * editing it does not invalidate recorded fixtures. Component ids are
+ * generated anew for every canvas, so they are hashed as their position in
+ * the context and the same canvas built again matches.
+ */
+export function getFixtureKey(request: Pick<AIProviderRequest, 'prompt' | 'history' | 'images'>): string {
+  const ids = getFixtureComponentIds(request);
+  const normalized = JSON.stringify({
+    prompt: request.prompt,
+    history: request.history,
+    images: request.images?.map((image) => image.data),
+  });
+  return hashText(replaceIds(normalized, new Map(ids.map((id, i) => [id, `#${i + 1}`]))));
+}
+
+/**
+ * Ids of the components in a request's canvas context, in the order listed
+ */
+export function getFixtureComponentIds(request: Pick<AIProviderRequest, 'prompt'>): string[] {
+  // Components are listed as `- button (id: "...")`, see formatComponentsContext
+  const ids = [...request.prompt.matchAll(/\(id: "([^"]+)"\)/g)].map((match) => match[1]);
+  return [...new Set(ids)];
+}
+
+// Replace each mapped id wherever it appears as a whole word, in one pass
+function replaceIds(text: string, ids: Map<string, string>): string {
+  if (ids.size === 0) return text;
+  const pattern = [...ids.keys()].map((id) => id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  return text.replace(new RegExp(`(?<![\\w-])(?:${pattern})(?![\\w-])`, 'g'), (id) => ids.get(id) ?? id);
+}
+
+// 53-bit string hash (cyrb53) as 14 hex digits
+function hashText(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+/**
+ * Save a response as the fixture for its request
+ */
+export async function saveFixture(fixture: AIFixture): Promise<void> {
+  const response = await fetch(`${FIXTURE_ENDPOINT}/${fixture.key}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(fixture),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to save AI fixture: ${response.status} ${response.statusText}`);
+  }
+}
+
+// ============================================
+// REPLAY PROVIDER
+// ============================================
+
+const fixtureAdapter: AIProviderAdapter = {
+  id: 'fixture',
+  name: 'AI fixtures',
+  supportsVision: true,
+  isConfigured: () => true,
+  getModel: () => 'fixture',
+
+  // The current canvas ids ride along in the query, which the backend ignores,
+  // so the response can be pointed at them
+  buildRequest(request) {
+    const ids = getFixtureComponentIds(request);
+    const query = ids.length > 0 ? `?ids=${encodeURIComponent(ids.join(','))}` : '';
+    return {
+      url: `${FIXTURE_ENDPOINT}/${getFixtureKey(request)}${query}`,
+      init: { method: 'GET' },
+    };
+  },
+
+  // The recorded response is streamed back in the format models answer in,
+  // so it goes through the same parsing and validation as a live one
+  async *parseResponse(response) {
+    const fixture: AIFixture = await response.json();
+    const currentIds = response.url ? new URL(response.url).searchParams.get('ids')?.split(',') ?? [] : [];
+    const recordedIds = fixture.componentIds ?? [];
+    const text = replaceIds(
+      JSON.stringify({
+        actions: fixture.response.actions,
+        explanation: fixture.response.explanation,
+      }),
+      new Map(recordedIds.flatMap((id, i): [string, string][] => (currentIds[i] ? [[id, currentIds[i]]] : [])))
+    );
+    for (let i = 0; i < text.length; i += REPLAY_CHUNK_SIZE) {
+      yield { type: 'text', text: text.slice(i, i + REPLAY_CHUNK_SIZE) };
+    }
+    if (fixture.response.usage) {
+      yield usageEvent(fixture.response.usage.inputTokens, fixture.response.usage.outputTokens);
+    }
+  },
+};
+
+registerAIProvider(fixtureAdapter);
@@ -0,0 +1,104 @@
+/**
+ * AI Provider Adapters
+ * The interface every AI provider implements and the registry callAI looks
+ * the configured provider up in. Adding a provider means writing an adapter
+ * and registering it; the request pipeline stays the same.
+ */
+
+import type { AIProvider, ConversationTurn, ImageAttachment } from './ai-service';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AIProviderRequest {
+  // The adapter's configured model, or one a fallback entry names
+  model: string;
+  systemPrompt: string;
+  // The canvas context followed by the user's request
+  prompt: string;
+  images?: ImageAttachment[];
+  // Prior turns of the conversation, oldest first
+  history: ConversationTurn[];
+}
+
+export interface AIHttpRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export interface AIUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// A piece of a streamed response
+export type AIResponseEvent =
+  | { type: 'text'; text: string }
+  // Token counts reported so far; later counts replace earlier ones
+  | { type: 'usage'; usage: Partial<AIUsage> };
+
+export interface AIProviderAdapter {
+  id: AIProvider;
+  // Used in messages, e.g. `Claude API error: 401 - invalid x-api-key`
+  name: string;
+  // Whether image attachments can be sent
+  supportsVision: boolean;
+  isConfigured(): boolean;
+  getModel(): string;
+  // Throws when the provider is missing settings it needs
+  buildRequest(request: AIProviderRequest): AIHttpRequest;
+  // Read the text and token usage of a successful streamed response.
+  // Errors reported inside the stream are thrown.
+  parseResponse(response: Response): AsyncIterable<AIResponseEvent>;
+  listModels?(): Promise<string[]>;
+}
+
+// ============================================
+// REGISTRY
+// ============================================
+
+const adapters = new Map<AIProvider, AIProviderAdapter>();
+
+/**
+ * Register an adapter, replacing any registered for the same provider
+ */
+export function registerAIProvider(adapter: AIProviderAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Get the adapter for a provider. Throws when none is registered.
+ */
+export function getAIProviderAdapter(provider: AIProvider): AIProviderAdapter {
+  const adapter = adapters.get(provider);
+  if (!adapter) {
+    throw new Error(`No AI provider registered for "${provider}"`);
+  }
+  return adapter;
+}
+
+/**
+ * Whether an adapter is registered for a provider id, e.g. one read from storage
+ */
+export function hasAIProviderAdapter(provider: string): provider is AIProvider {
+  return adapters.has(provider as AIProvider);
+}
+
+/**
+ * All registered adapters, in registration order
+ */
+export function getAIProviderAdapters(): AIProviderAdapter[] {
+  return [...adapters.values()];
+}
+
+/**
+ * Usage event with only the counts that are numbers, so a partial report
+ * does not clear counts from an earlier one
+ */
+export function usageEvent(inputTokens: unknown, outputTokens: unknown): AIResponseEvent {
+  const usage: Partial<AIUsage> = {};
+  if (typeof inputTokens === 'number') usage.inputTokens = inputTokens;
+  if (typeof outputTokens === 'number') usage.outputTokens = outputTokens;
+  return { type: 'usage', usage };
+}
@@ -6,20 +6,67 @@
 import { Component, ComponentType } from '@/store/builder-store';
 import { ENHANCED_SYSTEM_PROMPT, buildContextualPrompt, ConversationContext, interpretRefinement } from './ai-system-prompt';
 import { STYLE_PRESETS, getPresetStyles, getAllPresets, getAllTemplates } from './design-system';
+import { ActionStreamParser, AIStreamOptions, isAbortError, readEventStream, readJSONLines } from './ai-stream';
+import { AIActionIssue, AIValidationReport, buildRetryPrompt, parseAIResponseText, validateAction } from './ai-validation';
+import {
+  AIProviderAdapter,
+  AIProviderRequest,
+  AIResponseEvent,
+  AIUsage,
+  getAIProviderAdapter,
+  hasAIProviderAdapter,
+  registerAIProvider,
+  usageEvent,
+} from './ai-providers';
+import { getFixtureComponentIds, getFixtureKey, saveFixture } from './ai-fixtures';
+import { FallbackEntry, fetchWithBackoff, isCircuitOpen, recordProviderFailure, recordProviderSuccess } from './ai-fallback';
+
+export type { AIStreamOptions, AIStreamProgress } from './ai-stream';
+export type { AIUsage } from './ai-providers';
+export type { FallbackEntry } from './ai-fallback';
 
 // Types for AI actions
 export interface AIAction {
   type: 'add' | 'update' | 'remove' | 'move' | 'resize';
+  // Temporary id for a component being added, referenced by later actions in the same response
+  id?: string;
   componentId?: string;
   componentType?: ComponentType;
+  // Parent for 'add', or new parent for 'move' (null moves to the root)
+  parentId?: string | null;
   position?: { x: number; y: number };
   size?: { width: number; height: number };
   props?: Record<string, any>;
 }
 
 export interface AIResponse {
+  // Only actions that passed validation
   actions: AIAction[];
   explanation: string;
+  validation: AIValidationReport;
+  // Token counts the provider reported, when it reports them
+  usage?: AIUsage;
+  // Provider and model that served the request
+  provider: AIProvider;
+  model: string;
+  // The configured provider, when a fallback served the request instead
+  fallbackFrom?: AIProvider;
+}
+
+// What a single streamed response yields, before the provider is attached
+type StreamResult = Pick<AIResponse, 'actions' | 'explanation' | 'validation' | 'usage'>;
+
+// A prior turn of the conversation, sent along with a new request
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationHistory {
+  // Recent turns, oldest first, sent as messages
+  turns: ConversationTurn[];
+  // One line per older exchange, added to the system prompt
+  summary: string[];
 }
 
 export interface ImageAttachment {
@@ -28,7 +75,8 @@ export interface ImageAttachment {
   name?: string;
 }
 
-export type AIProvider = 'claude' | 'ollama' | 'gemini';
+// 'fixture' replays recorded responses, see ai-fixtures.ts
+export type AIProvider = 'claude' | 'ollama' | 'gemini' | 'openai-compatible' | 'fixture';
 
 export interface OllamaSettings {
   endpoint: string;
@@ -39,6 +87,15 @@ export interface GeminiSettings {
   model: string;
 }
 
+// Any server with an OpenAI-style API, e.g. LM Studio, llama.cpp server or vLLM
+export interface OpenAICompatibleSettings {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  // Ask for a JSON object response; some servers reject response_format
+  jsonMode: boolean;
+}
+
 const DEFAULT_OLLAMA_SETTINGS: OllamaSettings = {
   // Point to our local backend proxy (Express) which forwards to Ollama.
   // This avoids browser CORS and 403 errors when Ollama is configured to restrict origins.
@@ -60,6 +117,14 @@ const DEFAULT_GEMINI_SETTINGS: GeminiSettings = {
   model: 'gemini-3-pro-preview',  // Default to Gemini 3 Pro
 };
 
+const DEFAULT_OPENAI_COMPATIBLE_SETTINGS: OpenAICompatibleSettings = {
+  baseUrl: 'http://localhost:1234/v1', // LM Studio's default server
+  model: '',
+  jsonMode: true,
+};
+
+const CLAUDE_MODEL = 'claude-sonnet-4-20250514';
+
 // Default System Prompt
 export const DEFAULT_SYSTEM_PROMPT = `You are an expert UI/UX Designer and Frontend Developer acting as the AI engine for a visual web builder.
 Your goal is to generate structured JSON actions to build beautiful, functional web layouts based on user requests.
@@ -69,7 +134,7 @@ You have access to the following components. Use them creatively.
 
 1. **container**
    - A wrapper for grouping items.
-   - Props: \`className\` (string), \`layout\` (string - unused, use className).
+   - Props: \`className\` (string), \`layout\` ('flex-col'|'flex-row'), \`backgroundColor\` (string - CSS color such as '#f8fafc').
    - Default: \`flex flex-col\` (Note: Layout is handled via absolute positioning, but styling applies).
 
 2. **card**
@@ -93,10 +158,47 @@ You have access to the following components. Use them creatively.
    - Form field.
    - Props: \`label\` (string), \`placeholder\` (string), \`type\` (string), \`className\` (string).
 
+7. **image**
+   - Picture; shows a placeholder when \`src\` is empty.
+   - Props: \`src\` (string - URL), \`alt\` (string), \`className\` (string).
+
+8. **navbar**
+   - Top navigation bar with a logo, links and an optional call-to-action button.
+   - Props: \`logo\` (string), \`links\` (string[]), \`ctaText\` (string - omit for no button), \`className\` (string).
+
+9. **tabs**
+   - Tab strip above a content area.
+   - Props: \`tabs\` (string[] - tab labels), \`content\` (string), \`className\` (string).
+   - Note: Children are placed in the content area and override \`content\`.
+
+10. **table**
+   - Data table.
+   - Props: \`columns\` (string[]), \`rows\` (string[][] - one array of cells per row), \`className\` (string).
+
+11. **select**
+   - Dropdown form field.
+   - Props: \`label\` (string), \`placeholder\` (string), \`options\` (string[]), \`className\` (string).
+
+12. **checkbox**
+   - Checkbox with a label.
+   - Props: \`label\` (string), \`checked\` (boolean), \`className\` (string).
+
+13. **avatar**
+   - Round user picture with initials when there is no image.
+   - Props: \`src\` (string - URL), \`alt\` (string), \`fallback\` (string - initials), \`className\` (string).
+
+14. **badge**
+   - Small status label.
+   - Props: \`text\` (string), \`variant\` ('default'|'secondary'|'destructive'|'outline'), \`className\` (string).
+
+Only the props listed for a component are applied; unknown props and invalid values are ignored.
+
 # CRITICAL LAYOUT RULES (READ CAREFULLY)
 1. **Absolute Positioning**: This builder uses absolute positioning for ALL components.
    - You MUST provide \`position: { x, y }\` and \`size: { width, height }\` for every component.
    - **Children are positioned relative to their parent.** (e.g., x: 10 inside a container means 10px from the container's left edge).
+   - **Nesting**: Only \`container\`, \`card\` and \`tabs\` can have children. Set \`parentId\` on an "add" action to place it inside an existing component, or give the parent's "add" action an \`id\` (e.g. "hero") and use that same value as \`parentId\` in later actions of the same response.
+   - To move an existing component into another parent use a "move" action with \`parentId\` (null for the root) and a \`position\` relative to that parent.
    - You CANNOT rely on CSS flexbox/grid for *positioning* (e.g., \`gap-4\` won't automatically space items). You must manually calculate \`x\` and \`y\` coordinates to create spacing.
 
 2. **Styling with Tailwind**:
@@ -109,7 +211,7 @@ You have access to the following components. Use them creatively.
 3. **Heuristics**:
    - **Containers**: Use them to group related sections (e.g., a "Hero Section" or "Sidebar").
    - **Spacing**: Leave at least 10-20px gap between elements.
-   - **Sizes**: Buttons ~40px height. Inputs ~70px height (includes label). Cards ~min 200px height.
+   - **Sizes**: Buttons ~40px height. Inputs and selects ~70px height (includes label). Cards ~min 200px height. Navbars ~56px height, full width. Checkboxes and badges ~24px height. Avatars square, ~40px.
 
 # RESPONSE FORMAT
 Respond ONLY with a valid JSON object. Do not include markdown formatting or conversational text outside the JSON.
@@ -119,6 +221,7 @@ Respond ONLY with a valid JSON object. Do not include markdown formatting or con
   "actions": [
     {
       "type": "add", // or "update", "remove", "move", "resize"
+      "id": "optional-temp-id", // Lets later actions use this component as their parentId
       "componentType": "button",
       "parentId": "optional-parent-id", // Omit for root level
       "position": { "x": 0, "y": 0 },
@@ -141,6 +244,7 @@ Respond ONLY with a valid JSON object. Do not include markdown formatting or con
   "actions": [
     {
       "type": "add",
+      "id": "login-card",
       "componentType": "card",
       "position": { "x": 800, "y": 300 },
       "size": { "width": 400, "height": 350 },
@@ -153,26 +257,29 @@ Respond ONLY with a valid JSON object. Do not include markdown formatting or con
     {
       "type": "add",
       "componentType": "input",
-      "position": { "x": 820, "y": 420 },
+      "parentId": "login-card",
+      "position": { "x": 20, "y": 120 },
       "size": { "width": 360, "height": 70 },
       "props": { "label": "Email", "placeholder": "user@example.com" }
     },
     {
       "type": "add",
       "componentType": "input",
-      "position": { "x": 820, "y": 500 },
+      "parentId": "login-card",
+      "position": { "x": 20, "y": 200 },
       "size": { "width": 360, "height": 70 },
       "props": { "label": "Password", "placeholder": "Enter your password", "type": "password" }
     },
     {
       "type": "add",
       "componentType": "button",
-      "position": { "x": 820, "y": 590 },
+      "parentId": "login-card",
+      "position": { "x": 20, "y": 290 },
       "size": { "width": 360, "height": 44 },
       "props": { "children": "Sign In", "variant": "default", "className": "w-full" }
     }
   ],
-  "explanation": "Created a centered login card and placed email/password inputs and a sign-in button visually inside it."
+  "explanation": "Created a centered login card and nested the email/password inputs and sign-in button inside it."
 }
 `;
 
@@ -187,6 +294,24 @@ export function setEnhancedPromptMode(enabled: boolean): void {
   localStorage.setItem('use_enhanced_prompt', enabled ? 'true' : 'false');
 }
 
+// Review mode stages AI actions on the canvas until they are accepted
+export function isReviewMode(): boolean {
+  return localStorage.getItem('ai_review_changes') === 'true';
+}
+
+export function setReviewMode(enabled: boolean): void {
+  localStorage.setItem('ai_review_changes', enabled ? 'true' : 'false');
+}
+
+// Record mode saves every response from a live provider as a fixture
+export function isFixtureRecording(): boolean {
+  return localStorage.getItem('ai_record_fixtures') === 'true';
+}
+
+export function setFixtureRecording(enabled: boolean): void {
+  localStorage.setItem('ai_record_fixtures', enabled ? 'true' : 'false');
+}
+
 export function getSystemPrompt(): string {
   // Check if using enhanced prompt mode
   if (isEnhancedPromptMode()) {
@@ -220,14 +345,46 @@ export function getAvailableTemplates() {
   return getAllTemplates();
 }
 
+// Claude unless a provider with a registered adapter is stored
 export function getAIProvider(): AIProvider {
-  return (localStorage.getItem('ai_provider') as AIProvider) || 'claude';
+  const stored = localStorage.getItem('ai_provider');
+  return stored && hasAIProviderAdapter(stored) ? stored : 'claude';
 }
 
 export function setAIProvider(provider: AIProvider): void {
   localStorage.setItem('ai_provider', provider);
 }
 
+// Providers tried in order when the configured one fails before responding.
+// Entries for providers without a registered adapter are left out.
+export function getFallbackChain(): FallbackEntry[] {
+  const stored = localStorage.getItem('ai_fallback_chain');
+  if (!stored) {
+    return [];
+  }
+  try {
+    const chain: unknown = JSON.parse(stored);
+    if (!Array.isArray(chain)) {
+      return [];
+    }
+    return chain.filter((entry): entry is FallbackEntry =>
+      !!entry && typeof entry === 'object' && hasAIProviderAdapter(entry.provider) &&
+      (entry.model === undefined || typeof entry.model === 'string')
+    );
+  } catch {
+    return [];
+  }
+}
+
+export function setFallbackChain(chain: FallbackEntry[]): void {
+  localStorage.setItem('ai_fallback_chain', JSON.stringify(chain));
+}
+
+// Model the configured provider sends requests to
+export function getAIModel(): string {
+  return getAIProviderAdapter(getAIProvider()).getModel();
+}
+
 export function getOllamaSettings(): OllamaSettings {
   const stored = localStorage.getItem('ollama_settings');
   if (stored) {
@@ -252,6 +409,18 @@ export function setGeminiSettings(settings: GeminiSettings): void {
   localStorage.setItem('gemini_settings', JSON.stringify(settings));
 }
 
+export function getOpenAICompatibleSettings(): OpenAICompatibleSettings {
+  const stored = localStorage.getItem('openai_compatible_settings');
+  if (stored) {
+    return { ...DEFAULT_OPENAI_COMPATIBLE_SETTINGS, ...JSON.parse(stored) };
+  }
+  return DEFAULT_OPENAI_COMPATIBLE_SETTINGS;
+}
+
+export function setOpenAICompatibleSettings(settings: OpenAICompatibleSettings): void {
+  localStorage.setItem('openai_compatible_settings', JSON.stringify(settings));
+}
+
 // Gemini API key functions
 export function getGeminiApiKey(): string | null {
   const envKey = import.meta.env.VITE_GEMINI_API_KEY;
@@ -306,16 +475,9 @@ export function removeApiKey(): void {
   localStorage.removeItem('claude_api_key');
 }
 
-// Check if AI is configured (Claude Key, Gemini Key, or Ollama)
+// Check if the configured provider has the settings it needs
 export function isAIConfigured(): boolean {
-  const provider = getAIProvider();
-  if (provider === 'ollama') {
-    return true; // Assumed configured as it has defaults
-  }
-  if (provider === 'gemini') {
-    return hasGeminiApiKey();
-  }
-  return hasApiKey();
+  return getAIProviderAdapter(getAIProvider()).isConfigured();
 }
 
 // Check if API key is configured
@@ -372,14 +534,14 @@ export interface OllamaModel {
   };
 }
 
+// Ollama endpoint without a trailing /api/chat, if the user included it
+function getOllamaBaseUrl(): string {
+  const raw = getOllamaSettings().endpoint || '';
+  return raw.replace(/\/$/, '').replace(/\/api\/chat$/, '');
+}
+
 export async function fetchOllamaModels(): Promise<OllamaModel[]> {
-  const settings = getOllamaSettings();
-  const raw = settings.endpoint || '';
-  let endpoint = raw.replace(/\/$/, '');
-  // Remove /api/chat if present to get base URL
-  endpoint = endpoint.replace(/\/api\/chat$/, '');
-  
-  const fetchUrl = `${endpoint}/api/tags`;
+  const fetchUrl = `${getOllamaBaseUrl()}/api/tags`;
 
   try {
     const response = await fetch(fetchUrl);
@@ -395,164 +557,392 @@ export async function fetchOllamaModels(): Promise<OllamaModel[]> {
   }
 }
 
-// Call Ollama API
-async function callOllamaAPI(
-  userPrompt: string,
-  currentComponents: Component[],
-  images?: ImageAttachment[]
-): Promise<AIResponse> {
-  const settings = getOllamaSettings();
-  const componentsContext = formatComponentsContext(currentComponents);
-  const fullPrompt = `${componentsContext}\n\nUser request: ${userPrompt}`;
-
-  try {
-    // Normalize endpoint and avoid duplicating /api/chat if user included it
-    const raw = settings.endpoint || '';
-    let endpoint = raw.replace(/\/$/, '');
-    // If user provided the full path including /api/chat, use it as-is
-    const endpointHasApiChat = /\/api\/chat$/.test(endpoint);
-    const fetchUrl = endpointHasApiChat ? endpoint : `${endpoint}/api/chat`;
-
-    // Build user message with optional images for vision models
-    const userMessage: { role: string; content: string; images?: string[] } = {
-      role: 'user',
-      content: fullPrompt,
-    };
-
-    // Add images if provided (Ollama vision format)
-    if (images && images.length > 0) {
-      userMessage.images = images.map((img) => img.data);
-    }
-
-    // Note: Some vision models don't support format: 'json', so we only use it for non-vision requests
-    const requestBody: Record<string, unknown> = {
-      model: settings.model,
-      messages: [
-        { role: 'system', content: getSystemPrompt() },
-        userMessage
-      ],
-      stream: false,
-    };
+// Base URL ending in /v1, whether or not the user included it
+function getOpenAICompatibleBaseUrl(settings: OpenAICompatibleSettings): string {
+  const base = settings.baseUrl.trim().replace(/\/+$/, '').replace(/\/chat\/completions$/, '');
+  return /\/v1$/.test(base) ? base : `${base}/v1`;
+}
 
-    // Only force JSON format when not sending images (vision models often don't support it)
-    if (!images || images.length === 0) {
-      requestBody.format = 'json';
-    }
+function getOpenAICompatibleHeaders(settings: OpenAICompatibleSettings): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey) {
+    headers.Authorization = `Bearer ${settings.apiKey}`;
+  }
+  return headers;
+}
 
-    const response = await fetch(fetchUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(requestBody),
-    });
+// Model ids the server lists; pass settings to try ones that are not saved yet
+export async function fetchOpenAICompatibleModels(
+  settings: OpenAICompatibleSettings = getOpenAICompatibleSettings()
+): Promise<string[]> {
+  const fetchUrl = `${getOpenAICompatibleBaseUrl(settings)}/models`;
 
+  try {
+    const response = await fetch(fetchUrl, { headers: getOpenAICompatibleHeaders(settings) });
     if (!response.ok) {
-      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+      console.warn(`Failed to fetch models: ${response.status} ${response.statusText}`);
+      return [];
     }
-
     const data = await response.json();
-    const content = data.message?.content;
+    return (data.data || []).map((model: { id: string }) => model.id);
+  } catch (error) {
+    console.error('Error fetching OpenAI-compatible models:', error);
+    return [];
+  }
+}
 
-    if (!content) {
-      throw new Error('No response content from Ollama');
+// System prompt for a request, with the summary of older turns of the conversation
+function buildRequestSystemPrompt(currentComponents: Component[], history?: ConversationHistory): string {
+  if (!history || history.summary.length === 0) {
+    return getSystemPrompt();
+  }
+  return buildContextualPrompt(getSystemPrompt(), {
+    currentComponents: currentComponents.length,
+    recentActions: history.summary,
+  });
+}
+
+// Feed streamed text into the action parser, reporting progress after each chunk.
+// Every action is validated; valid ones go to `onAction` exactly once, either
+// while streaming or after the complete (and if needed repaired) text parses.
+async function collectStream(
+  events: AsyncIterable<AIResponseEvent>,
+  providerName: string,
+  options: AIStreamOptions
+): Promise<StreamResult> {
+  const actions: AIAction[] = [];
+  const issues: AIActionIssue[] = [];
+  const check = (raw: unknown, index: number) => {
+    const result = validateAction(raw, index);
+    if ('issues' in result) {
+      issues.push(...result.issues);
+      return;
     }
+    actions.push(result.action);
+    options.onAction?.(result.action, index);
+  };
+  const parser = new ActionStreamParser(check);
+  let usage: AIUsage | undefined;
 
-    try {
-      let jsonStr = content;
-      const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[1];
-      }
-      
-      const parsed = JSON.parse(jsonStr.trim());
-      
-      return {
-        actions: parsed.actions || [],
-        explanation: parsed.explanation || 'Changes applied.',
-      };
-    } catch (parseError) {
-      console.error('Failed to parse Ollama response:', content);
-      throw new Error('Failed to parse AI response. The AI returned invalid JSON.');
+  for await (const event of events) {
+    if (event.type === 'usage') {
+      usage = { inputTokens: 0, outputTokens: 0, ...usage, ...event.usage };
+      continue;
     }
+    parser.push(event.text);
+    options.onProgress?.({
+      receivedChars: parser.receivedText.length,
+      actionCount: actions.length,
+    });
+  }
+
+  const content = parser.receivedText;
+  if (!content.trim()) {
+    throw new Error(`No response content from ${providerName}`);
+  }
+
+  let explanation = 'Changes applied.';
+  const validation: AIValidationReport = { repairs: [], issues, retried: false };
+  try {
+    const parsed = parseAIResponseText(content);
+    explanation = parsed.explanation;
+    validation.repairs = parsed.repairs;
+    // Actions the stream parser could not pick out, such as a truncated last one
+    parsed.actions.slice(parser.actions.length).forEach((raw, i) => check(raw, parser.actions.length + i));
   } catch (error) {
-    console.error('Ollama API Error:', error);
-    throw error;
+    console.error(`Failed to parse ${providerName} response:`, content);
+    validation.error = error instanceof Error ? error.message : String(error);
   }
+
+  return { actions, explanation, validation, usage };
 }
 
-// Main AI entry point
+// Main AI entry point. Responses are streamed; pass `onAction` to receive each
+// action as soon as it is complete and `signal` to cancel the request. When
+// actions are rejected or the response does not parse, the request is sent
+// once more with the problems as feedback. In record mode the final response
+// is saved as the fixture for the request.
 export async function callAI(
   userPrompt: string,
   currentComponents: Component[],
-  images?: ImageAttachment[]
+  images?: ImageAttachment[],
+  options: AIStreamOptions = {}
+): Promise<AIResponse> {
+  const response = await callWithRetry(userPrompt, currentComponents, images, options);
+
+  if (isFixtureRecording() && response.provider !== 'fixture') {
+    const request = buildProviderRequest(userPrompt, currentComponents, images, options);
+    saveFixture({
+      version: 1,
+      key: getFixtureKey(request),
+      prompt: userPrompt,
+      provider: response.provider,
+      model: response.model,
+      recordedAt: new Date().toISOString(),
+      componentIds: getFixtureComponentIds(request),
+      response,
+    }).catch((error) => console.warn('Failed to record AI fixture:', error));
+  }
+
+  return response;
+}
+
+// Send the request, and send it once more if the response had problems
+async function callWithRetry(
+  userPrompt: string,
+  currentComponents: Component[],
+  images?: ImageAttachment[],
+  options: AIStreamOptions = {}
 ): Promise<AIResponse> {
-  const provider = getAIProvider();
-  
-  if (provider === 'ollama') {
-    return callOllamaAPI(userPrompt, currentComponents, images);
+  const response = await callProvider(userPrompt, currentComponents, images, options);
+  const { validation } = response;
+  if (!validation.error && validation.issues.length === 0) {
+    return response;
   }
-  
-  if (provider === 'gemini') {
-    return callGeminiAPI(userPrompt, currentComponents, images);
+
+  console.warn('Retrying AI request after validation errors:', validation);
+  options.onRetry?.(validation);
+  const retry = await callProvider(
+    buildRetryPrompt(userPrompt, validation, response.actions.length),
+    options.getComponents?.() ?? currentComponents,
+    images,
+    options
+  );
+
+  const actions = [...response.actions, ...retry.actions];
+  const failed = retry.validation.error;
+  if (failed && actions.length === 0) {
+    throw new Error(failed);
   }
-  
-  // Default to Claude
-  return callClaudeAPI(userPrompt, currentComponents, images);
+
+  // The provider that answered last, unless its answer could not be used
+  const served = failed ? response : retry;
+  return {
+    ...response,
+    provider: served.provider,
+    model: served.model,
+    fallbackFrom: served.fallbackFrom,
+    actions,
+    explanation: validation.error ? retry.explanation : response.explanation,
+    validation: {
+      repairs: [...new Set([...validation.repairs, ...retry.validation.repairs])],
+      // A retry that could not be parsed fixed nothing
+      issues: failed ? validation.issues : retry.validation.issues,
+      retried: true,
+    },
+    // Both requests used tokens
+    usage: response.usage || retry.usage
+      ? {
+          inputTokens: (response.usage?.inputTokens ?? 0) + (retry.usage?.inputTokens ?? 0),
+          outputTokens: (response.usage?.outputTokens ?? 0) + (retry.usage?.outputTokens ?? 0),
+        }
+      : undefined,
+  };
+}
+
+// What every provider is sent: prompts with the canvas context, images and prior turns
+function buildProviderRequest(
+  userPrompt: string,
+  currentComponents: Component[],
+  images: ImageAttachment[] | undefined,
+  options: AIStreamOptions
+): Omit<AIProviderRequest, 'model'> {
+  return {
+    systemPrompt: buildRequestSystemPrompt(currentComponents, options.history),
+    prompt: `${formatComponentsContext(currentComponents)}\n\nUser request: ${userPrompt}`,
+    images: images && images.length > 0 ? images : undefined,
+    history: options.history?.turns ?? [],
+  };
 }
 
-// Call Gemini API
-export async function callGeminiAPI(
+// Send one request to the configured provider, falling back along the chain
+// when it fails before any of the response has arrived. Once text has
+// streamed in, actions may already be applied, so errors are thrown.
+async function callProvider(
   userPrompt: string,
   currentComponents: Component[],
-  images?: ImageAttachment[]
+  images?: ImageAttachment[],
+  options: AIStreamOptions = {}
 ): Promise<AIResponse> {
-  const apiKey = getGeminiApiKey();
-  const settings = getGeminiSettings();
-  
-  if (!apiKey) {
-    throw new Error('Gemini API key not configured. Please add your API key in settings.');
+  const primary = getAIProvider();
+  const request = buildProviderRequest(userPrompt, currentComponents, images, options);
+  const chain = [{ provider: primary }, ...getFallbackChain()].filter((entry, i, all) =>
+    all.findIndex((other) => other.provider === entry.provider && other.model === entry.model) === i
+  );
+  // Skip providers whose circuit is open, unless that leaves none
+  const closed = chain.filter((entry) => !isCircuitOpen(entry.provider));
+  const candidates = closed.length > 0 ? closed : chain;
+  const errors: { name: string; error: Error }[] = [];
+
+  for (const entry of candidates) {
+    const adapter = getAIProviderAdapter(entry.provider);
+    const isFallback = entry !== chain[0];
+    if (isFallback && (!adapter.isConfigured() || (request.images && !adapter.supportsVision))) {
+      continue;
+    }
+    const model = entry.model || adapter.getModel();
+    // Only failures after the request went out count toward the circuit
+    // breaker; missing settings are not the provider failing
+    let sent = false;
+    let streaming = false;
+
+    try {
+      if (request.images && !adapter.supportsVision) {
+        throw new Error(`${adapter.name} does not support image attachments`);
+      }
+      const { url, init } = adapter.buildRequest({ ...request, model });
+      sent = true;
+      const response = await fetchWithBackoff(url, { ...init, signal: options.signal });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        // Most providers wrap the message in an error object; Ollama sends a string
+        const error = (errorData as any)?.error;
+        throw new Error(
+          `${adapter.name} error: ${response.status} - ${error?.message || (typeof error === 'string' && error) || response.statusText}`
+        );
+      }
+
+      async function* events() {
+        for await (const event of adapter.parseResponse(response)) {
+          if (event.type === 'text') streaming = true;
+          yield event;
+        }
+      }
+
+      const result = await collectStream(events(), adapter.name, options);
+      recordProviderSuccess(entry.provider);
+      return {
+        ...result,
+        provider: entry.provider,
+        model,
+        fallbackFrom: isFallback ? primary : undefined,
+      };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error(`${adapter.name} error:`, error);
+      if (sent) {
+        recordProviderFailure(entry.provider);
+      }
+      const failure = error instanceof Error ? error : new Error(`Failed to communicate with ${adapter.name}`);
+      if (streaming) {
+        throw failure;
+      }
+      errors.push({ name: adapter.name, error: failure });
+    }
   }
 
-  const componentsContext = formatComponentsContext(currentComponents);
-  const fullPrompt = `${componentsContext}\n\nUser request: ${userPrompt}`;
+  if (errors.length === 1) {
+    throw errors[0].error;
+  }
+  const reasons = errors.map(({ name, error }) => (error.message.startsWith(name) ? error.message : `${name}: ${error.message}`));
+  throw new Error(`All AI providers failed. ${reasons.join(' · ')}`);
+}
 
-  // Build parts array for Gemini (supports text and images)
-  const parts: Array<{ text?: string; inlineData?: { mimeType: string; data: string } }> = [];
+// ============================================
+// PROVIDER ADAPTERS
+// ============================================
+
+const claudeAdapter: AIProviderAdapter = {
+  id: 'claude',
+  name: 'Claude API',
+  supportsVision: true,
+  isConfigured: hasApiKey,
+  getModel: () => CLAUDE_MODEL,
+
+  buildRequest({ model, systemPrompt, prompt, images, history }) {
+    const apiKey = getApiKey();
+    if (!apiKey) {
+      throw new Error('Claude API key not configured. Please add your API key in settings.');
+    }
 
-  // Add images first if provided
-  if (images && images.length > 0) {
-    for (const img of images) {
-      parts.push({
-        inlineData: {
-          mimeType: img.mimeType,
-          data: img.data,
+    // Images go before the text prompt
+    const content = [
+      ...(images ?? []).map((img) => ({
+        type: 'image',
+        source: { type: 'base64', media_type: img.mimeType, data: img.data },
+      })),
+      { type: 'text', text: prompt },
+    ];
+
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': apiKey,
+          'anthropic-version': '2023-06-01',
+          'anthropic-dangerous-direct-browser-access': 'true',
         },
-      });
+        body: JSON.stringify({
+          model,
+          max_tokens: 4096,
+          system: systemPrompt,
+          messages: [...history, { role: 'user', content }],
+          stream: true,
+        }),
+      },
+    };
+  },
+
+  // Text arrives in content_block_delta events; input tokens are counted in
+  // message_start and output tokens in message_delta
+  async *parseResponse(response) {
+    for await (const event of readEventStream(response)) {
+      if (event.type === 'error') {
+        throw new Error(`Claude API error: ${event.error?.message || event.error?.type}`);
+      }
+      if (event.type === 'message_start') {
+        yield usageEvent(event.message?.usage?.input_tokens, event.message?.usage?.output_tokens);
+      } else if (event.type === 'message_delta' && event.usage) {
+        yield usageEvent(undefined, event.usage.output_tokens);
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+        yield { type: 'text', text: event.delta.text as string };
+      }
     }
-  }
+  },
+};
 
-  // Add the text prompt
-  parts.push({
-    text: fullPrompt,
-  });
+const geminiAdapter: AIProviderAdapter = {
+  id: 'gemini',
+  name: 'Gemini API',
+  supportsVision: true,
+  isConfigured: hasGeminiApiKey,
+  getModel: () => getGeminiSettings().model,
+
+  buildRequest({ model, systemPrompt, prompt, images, history }) {
+    const apiKey = getGeminiApiKey();
+    if (!apiKey) {
+      throw new Error('Gemini API key not configured. Please add your API key in settings.');
+    }
 
-  try {
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/${settings.model}:generateContent?key=${apiKey}`,
-      {
+    // Images go before the text prompt
+    const parts = [
+      ...(images ?? []).map((img) => ({ inlineData: { mimeType: img.mimeType, data: img.data } })),
+      { text: prompt },
+    ];
+
+    return {
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${apiKey}`,
+      init: {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           contents: [
-            {
-              parts,
-            },
+            // Gemini calls the assistant role 'model'
+            ...history.map((turn) => ({
+              role: turn.role === 'assistant' ? 'model' : 'user',
+              parts: [{ text: turn.content }],
+            })),
+            { role: 'user', parts },
           ],
           systemInstruction: {
-            parts: [{ text: getSystemPrompt() }],
+            parts: [{ text: systemPrompt }],
           },
           generationConfig: {
             temperature: 0.7,
@@ -560,146 +950,168 @@ export async function callGeminiAPI(
             responseMimeType: 'application/json',
           },
         }),
+      },
+    };
+  },
+
+  // Each server-sent event is a partial response holding the next text parts
+  // and the token counts so far
+  async *parseResponse(response) {
+    for await (const data of readEventStream(response)) {
+      if (data.error) {
+        throw new Error(`Gemini API error: ${data.error.message || data.error.status}`);
       }
-    );
+      for (const part of data.candidates?.[0]?.content?.parts ?? []) {
+        if (part.text) yield { type: 'text', text: part.text as string };
+      }
+      if (data.usageMetadata) {
+        yield usageEvent(data.usageMetadata.promptTokenCount, data.usageMetadata.candidatesTokenCount);
+      }
+    }
+  },
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        `Gemini API error: ${response.status} - ${(errorData as any)?.error?.message || response.statusText}`
-      );
+  listModels: async () => GEMINI_MODELS.map((model) => model.id),
+};
+
+const ollamaAdapter: AIProviderAdapter = {
+  id: 'ollama',
+  name: 'Ollama API',
+  // Vision models only; others ignore the images
+  supportsVision: true,
+  // Assumed configured as it has defaults
+  isConfigured: () => true,
+  getModel: () => getOllamaSettings().model,
+
+  buildRequest({ model, systemPrompt, prompt, images, history }) {
+    // Use the endpoint as-is if the user included /api/chat
+    const raw = (getOllamaSettings().endpoint || '').replace(/\/$/, '');
+    const fetchUrl = /\/api\/chat$/.test(raw) ? raw : `${getOllamaBaseUrl()}/api/chat`;
+
+    // Ollama takes images as base64 strings on the message
+    const userMessage: { role: string; content: string; images?: string[] } = {
+      role: 'user',
+      content: prompt,
+    };
+    if (images) {
+      userMessage.images = images.map((img) => img.data);
     }
 
-    const data = await response.json();
-    const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    const requestBody: Record<string, unknown> = {
+      model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...history,
+        userMessage,
+      ],
+      stream: true,
+    };
 
-    if (!content) {
-      throw new Error('No response content from Gemini API');
+    // Only force JSON format when not sending images (vision models often don't support it)
+    if (!images) {
+      requestBody.format = 'json';
     }
 
-    // Parse the JSON response
-    try {
-      let jsonStr = content;
-      const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[1];
+    return {
+      url: fetchUrl,
+      init: {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(requestBody),
+      },
+    };
+  },
+
+  // One JSON object per line, each with the next piece of the message; the
+  // last one carries the token counts
+  async *parseResponse(response) {
+    for await (const data of readJSONLines(response)) {
+      if (data.error) {
+        throw new Error(`Ollama API error: ${data.error}`);
+      }
+      if (data.message?.content) {
+        yield { type: 'text', text: data.message.content as string };
+      }
+      if (data.done) {
+        yield usageEvent(data.prompt_eval_count, data.eval_count);
       }
-      
-      const parsed = JSON.parse(jsonStr.trim());
-      
-      return {
-        actions: parsed.actions || [],
-        explanation: parsed.explanation || 'Changes applied.',
-      };
-    } catch (parseError) {
-      console.error('Failed to parse Gemini response:', content);
-      throw new Error('Failed to parse AI response. The AI returned invalid JSON.');
-    }
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
     }
-    throw new Error('Failed to communicate with Gemini API');
-  }
-}
+  },
 
-// Call Claude API
-export async function callClaudeAPI(
-  userPrompt: string,
-  currentComponents: Component[],
-  images?: ImageAttachment[]
-): Promise<AIResponse> {
-  const apiKey = getApiKey();
-  
-  if (!apiKey) {
-    throw new Error('Claude API key not configured. Please add your API key in settings.');
-  }
+  listModels: async () => (await fetchOllamaModels()).map((model) => model.name),
+};
 
-  const componentsContext = formatComponentsContext(currentComponents);
-  const fullPrompt = `${componentsContext}\n\nUser request: ${userPrompt}`;
+const openAICompatibleAdapter: AIProviderAdapter = {
+  id: 'openai-compatible',
+  name: 'OpenAI-compatible API',
+  // Vision models only
+  supportsVision: true,
+  isConfigured: () => {
+    const settings = getOpenAICompatibleSettings();
+    return !!settings.baseUrl && !!settings.model;
+  },
+  getModel: () => getOpenAICompatibleSettings().model,
+
+  buildRequest({ model, systemPrompt, prompt, images, history }) {
+    const settings = getOpenAICompatibleSettings();
+
+    // Images are sent as data URLs alongside the text
+    const content = images
+      ? [
+          { type: 'text', text: prompt },
+          ...images.map((img) => ({
+            type: 'image_url',
+            image_url: { url: `data:${img.mimeType};base64,${img.data}` },
+          })),
+        ]
+      : prompt;
 
-  // Build content array for Claude (supports text and images)
-  const contentParts: Array<{ type: string; text?: string; source?: { type: string; media_type: string; data: string } }> = [];
+    const requestBody: Record<string, unknown> = {
+      model,
+      messages: [
+        { role: 'system', content: systemPrompt },
+        ...history,
+        { role: 'user', content },
+      ],
+      max_tokens: 4096,
+      stream: true,
+      // Ask for token counts in the last event
+      stream_options: { include_usage: true },
+    };
 
-  // Add images first if provided
-  if (images && images.length > 0) {
-    for (const img of images) {
-      contentParts.push({
-        type: 'image',
-        source: {
-          type: 'base64',
-          media_type: img.mimeType,
-          data: img.data,
-        },
-      });
+    if (settings.jsonMode) {
+      requestBody.response_format = { type: 'json_object' };
     }
-  }
-
-  // Add the text prompt
-  contentParts.push({
-    type: 'text',
-    text: fullPrompt,
-  });
 
-  try {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-        'anthropic-dangerous-direct-browser-access': 'true',
+    return {
+      url: `${getOpenAICompatibleBaseUrl(settings)}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers: getOpenAICompatibleHeaders(settings),
+        body: JSON.stringify(requestBody),
       },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 4096,
-        system: getSystemPrompt(),
-        messages: [
-          {
-            role: 'user',
-            content: contentParts,
-          },
-        ],
-      }),
-    });
+    };
+  },
 
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        `Claude API error: ${response.status} - ${(errorData as any)?.error?.message || response.statusText}`
-      );
+  // Each server-sent event holds the next piece of the message in a delta
+  async *parseResponse(response) {
+    for await (const data of readEventStream(response)) {
+      if (data.error) {
+        throw new Error(`OpenAI-compatible API error: ${data.error.message || data.error}`);
+      }
+      const text = data.choices?.[0]?.delta?.content;
+      if (text) yield { type: 'text', text: text as string };
+      if (data.usage) {
+        yield usageEvent(data.usage.prompt_tokens, data.usage.completion_tokens);
+      }
     }
+  },
 
-    const data = await response.json();
-    const content = (data as any).content?.[0]?.text;
-
-    if (!content) {
-      throw new Error('No response content from Claude API');
-    }
+  listModels: () => fetchOpenAICompatibleModels(),
+};
 
-    // Parse the JSON response
-    try {
-      // Try to extract JSON if it's wrapped in markdown code blocks
-      let jsonStr = content;
-      const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        jsonStr = jsonMatch[1];
-      }
-      
-      const parsed = JSON.parse(jsonStr.trim());
-      
-      return {
-        actions: parsed.actions || [],
-        explanation: parsed.explanation || 'Changes applied.',
-      };
-    } catch (parseError) {
-      console.error('Failed to parse Claude response:', content);
-      throw new Error('Failed to parse AI response. The AI returned invalid JSON.');
-    }
-  } catch (error) {
-    if (error instanceof Error) {
-      throw error;
-    }
-    throw new Error('Failed to communicate with Claude API');
-  }
-}
+registerAIProvider(claudeAdapter);
+registerAIProvider(geminiAdapter);
+registerAIProvider(ollamaAdapter);
+registerAIProvider(openAICompatibleAdapter);
@@ -0,0 +1,196 @@
+/**
+ * AI Stream Utilities
+ * Reads streamed provider responses and picks complete actions out of the
+ * partial JSON as it arrives
+ */
+
+import type { Component } from '@/store/builder-store';
+import type { AIAction, ConversationHistory } from './ai-service';
+import { AIValidationReport, parseJSONLenient } from './ai-validation';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AIStreamProgress {
+  // Characters of response text received so far
+  receivedChars: number;
+  // Complete actions parsed so far
+  actionCount: number;
+}
+
+export interface AIStreamOptions {
+  signal?: AbortSignal;
+  // Called once for every valid action as soon as its JSON object is complete
+  onAction?: (action: AIAction, index: number) => void;
+  onProgress?: (progress: AIStreamProgress) => void;
+  // Called before the request is sent again with feedback about rejected actions
+  onRetry?: (report: AIValidationReport) => void;
+  // Current canvas for the retry's context, which includes actions applied so far
+  getComponents?: () => Component[];
+  // Prior turns of the conversation to send with the request
+  history?: ConversationHistory;
+}
+
+// ============================================
+// INCREMENTAL ACTION PARSER
+// ============================================
+
+/**
+ * Scans a response that is still being streamed and emits each element of the
+ * top-level "actions" array once its closing brace arrives. Text around the
+ * JSON object (such as markdown fences) is ignored. Elements are emitted
+ * unvalidated; one that is not valid JSON even after repair is emitted as its
+ * raw text so indices stay in step with the array.
+ */
+export class ActionStreamParser {
+  private text = '';
+  private cursor = 0;
+  // Open brackets of the response object; empty before it starts
+  private stack: string[] = [];
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  // Last string closed directly inside the root object, i.e. the current key
+  private lastKey = '';
+  // Stack depth inside the actions array, or -1 when not in it
+  private actionsDepth = -1;
+  private actionStart = -1;
+  private done = false;
+  readonly actions: unknown[] = [];
+
+  constructor(private onAction?: (action: unknown, index: number) => void) {}
+
+  get receivedText(): string {
+    return this.text;
+  }
+
+  push(chunk: string): void {
+    this.text += chunk;
+    for (; this.cursor < this.text.length && !this.done; this.cursor++) {
+      this.scan(this.text[this.cursor], this.cursor);
+    }
+  }
+
+  private scan(char: string, index: number): void {
+    if (this.inString) {
+      if (this.escaped) {
+        this.escaped = false;
+      } else if (char === '\\') {
+        this.escaped = true;
+      } else if (char === '"') {
+        this.inString = false;
+        if (this.stack.length === 1) {
+          this.lastKey = this.text.slice(this.stringStart + 1, index);
+        }
+      }
+      return;
+    }
+
+    if (this.stack.length === 0) {
+      // Wait for the response object to open
+      if (char === '{') this.stack.push(char);
+      return;
+    }
+
+    switch (char) {
+      case '"':
+        this.inString = true;
+        this.stringStart = index;
+        break;
+      case '{':
+      case '[':
+        this.stack.push(char);
+        if (char === '[' && this.stack.length === 2 && this.lastKey === 'actions') {
+          this.actionsDepth = 2;
+        } else if (char === '{' && this.actionsDepth !== -1 && this.stack.length === this.actionsDepth + 1) {
+          this.actionStart = index;
+        }
+        break;
+      case '}':
+      case ']':
+        this.stack.pop();
+        if (this.actionsDepth !== -1 && this.stack.length === this.actionsDepth && this.actionStart !== -1) {
+          this.emit(this.text.slice(this.actionStart, index + 1));
+          this.actionStart = -1;
+        } else if (this.stack.length < this.actionsDepth) {
+          this.actionsDepth = -1;
+        }
+        if (this.stack.length === 0) this.done = true;
+        break;
+    }
+  }
+
+  private emit(json: string): void {
+    let action: unknown = json;
+    try {
+      action = parseJSONLenient(json).value;
+    } catch (error) {
+      console.warn('Unparseable streamed action:', json, error);
+    }
+    this.actions.push(action);
+    this.onAction?.(action, this.actions.length - 1);
+  }
+}
+
+// ============================================
+// STREAM READERS
+// ============================================
+
+/**
+ * Yield the lines of a streamed response body as they arrive
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this response');
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        yield line.replace(/\r$/, '');
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Yield the parsed JSON payload of every `data:` line of a server-sent
+ * event stream
+ */
+export async function* readEventStream(response: Response): AsyncGenerator<any> {
+  for await (const line of readLines(response)) {
+    if (!line.startsWith('data:')) continue;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === '[DONE]') continue;
+    yield JSON.parse(payload);
+  }
+}
+
+/**
+ * Yield every object of a newline-delimited JSON stream
+ */
+export async function* readJSONLines(response: Response): AsyncGenerator<any> {
+  for await (const line of readLines(response)) {
+    if (line.trim()) yield JSON.parse(line);
+  }
+}
+
+/**
+ * Whether an error came from aborting a request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
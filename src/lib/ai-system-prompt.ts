@@ -223,7 +223,7 @@ There are ${context.currentComponents} components already on the canvas. When ad
   
   if (context.recentActions.length > 0) {
     contextSection += `\n\n# RECENT CONVERSATION
-${context.recentActions.slice(-3).map(a => `- ${a}`).join('\n')}
+${context.recentActions.map(a => `- ${a}`).join('\n')}
 
 Build upon these previous interactions.`;
   }
@@ -0,0 +1,295 @@
+/**
+ * AI Response Validation
+ * Schemas for AI responses and actions, a repair pass for the JSON mistakes
+ * models commonly make, and the feedback prompt used to retry once
+ */
+
+import { z } from 'zod';
+import { COMPONENT_TYPES, ComponentType } from '@/store/builder-store';
+import type { AIAction } from './ai-service';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface AIActionIssue {
+  // Position of the action in the response's actions array
+  index: number;
+  // The action's type, when it had a readable one
+  actionType?: string;
+  path: string;
+  message: string;
+}
+
+export interface AIValidationReport {
+  // Repairs that were needed before the response parsed
+  repairs: string[];
+  // Actions that were rejected and not applied
+  issues: AIActionIssue[];
+  // Set when no usable JSON could be recovered from the response
+  error?: string;
+  // Whether the request was sent again with the issues as feedback
+  retried: boolean;
+}
+
+export interface ParsedAIResponse {
+  explanation: string;
+  // Unvalidated actions; check each with validateAction
+  actions: unknown[];
+  repairs: string[];
+}
+
+// ============================================
+// SCHEMAS
+// ============================================
+
+const idSchema = z.string().min(1);
+const parentIdSchema = idSchema.nullable();
+const positionSchema = z.object({ x: z.number(), y: z.number() });
+const sizeSchema = z.object({ width: z.number().positive(), height: z.number().positive() });
+const propsSchema = z.record(z.string(), z.any());
+
+export const AIActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('add'),
+    id: idSchema.optional(),
+    componentType: z.enum(COMPONENT_TYPES as [ComponentType, ...ComponentType[]]),
+    parentId: parentIdSchema.optional(),
+    position: positionSchema.optional(),
+    size: sizeSchema.optional(),
+    props: propsSchema.optional(),
+  }),
+  z.object({
+    type: z.literal('update'),
+    componentId: idSchema,
+    props: propsSchema,
+  }),
+  z.object({
+    type: z.literal('remove'),
+    componentId: idSchema,
+  }),
+  z.object({
+    type: z.literal('move'),
+    componentId: idSchema,
+    parentId: parentIdSchema.optional(),
+    position: positionSchema.optional(),
+  }).refine((action) => action.position !== undefined || action.parentId !== undefined, {
+    message: 'A move needs a position, a parentId or both',
+  }),
+  z.object({
+    type: z.literal('resize'),
+    componentId: idSchema,
+    size: sizeSchema,
+  }),
+]);
+
+/**
+ * The response envelope. Actions are checked one at a time with
+ * AIActionSchema so a single bad action does not reject the others.
+ */
+export const AIResponseSchema = z.object({
+  actions: z.array(z.unknown()).default([]),
+  explanation: z.string().default('Changes applied.'),
+});
+
+// ============================================
+// JSON REPAIR
+// ============================================
+
+const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Fix the mistakes models commonly make in JSON output: markdown code fences,
+ * text around the object, comments, trailing commas and a response cut off
+ * part way through. A truncated response is cut back to its last complete
+ * value and closed. Returns the repaired text and what was changed.
+ */
+export function repairJSON(text: string): { text: string; repairs: string[] } {
+  const repairs = new Set<string>();
+  let source = text.trim();
+
+  if (source.includes('```')) {
+    const fenced = source.match(/```(?:json)?\s*([\s\S]*?)(?:```|$)/);
+    if (fenced) {
+      source = fenced[1].trim();
+      repairs.add('Removed markdown code fences');
+    }
+  }
+
+  const start = source.search(/[{[]/);
+  if (start === -1) {
+    return { text: source, repairs: [...repairs] };
+  }
+  if (start > 0) {
+    repairs.add('Removed text before the JSON');
+  }
+
+  let out = '';
+  const stack: string[] = [];
+  // Output length and open brackets after the last complete value. Inside an
+  // element of an array it stays at the element's start, so an element that is
+  // cut off is dropped whole rather than closed with part of its fields.
+  let safe = { length: 0, stack: [] as string[] };
+  const markSafe = () => {
+    const outerArray = stack.indexOf('[');
+    if (outerArray === -1 || outerArray === stack.length - 1) {
+      safe = { length: out.length, stack: [...stack] };
+    }
+  };
+  let inString = false;
+  let escaped = false;
+  let end = source.length;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+
+    if (inString) {
+      out += char;
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '/' && source[i + 1] === '/') {
+      // Line comment, as in the examples of the system prompt
+      while (i < source.length && source[i] !== '\n') i++;
+      repairs.add('Removed comments');
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+      out += char;
+    } else if (char === '{' || char === '[') {
+      // Where an element of the array starts
+      markSafe();
+      stack.push(char);
+      out += char;
+      markSafe();
+    } else if (char === '}' || char === ']') {
+      const trimmed = out.replace(/,\s*$/, '');
+      if (trimmed.length !== out.length) {
+        repairs.add('Removed trailing commas');
+        out = trimmed;
+      }
+      stack.pop();
+      out += char;
+      markSafe();
+      if (stack.length === 0) {
+        end = i + 1;
+        break;
+      }
+    } else {
+      if (char === ',') {
+        // Everything before a comma is complete
+        markSafe();
+      }
+      out += char;
+    }
+  }
+
+  if (stack.length > 0) {
+    // Drop the incomplete value and close everything still open
+    out = out.slice(0, safe.length).replace(/[\s,]*$/, '');
+    out += safe.stack.map((open) => CLOSERS[open]).reverse().join('');
+    repairs.add('Closed a truncated response');
+  } else if (source.slice(end).trim()) {
+    repairs.add('Removed text after the JSON');
+  }
+
+  return { text: out, repairs: [...repairs] };
+}
+
+/**
+ * Parse JSON text, falling back to the repaired text when it is invalid
+ */
+export function parseJSONLenient(text: string): { value: unknown; repairs: string[] } {
+  try {
+    return { value: JSON.parse(text.trim()), repairs: [] };
+  } catch {
+    const repaired = repairJSON(text);
+    return { value: JSON.parse(repaired.text), repairs: repaired.repairs };
+  }
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+/**
+ * Parse the full text of a response into its explanation and unvalidated
+ * actions. Throws when no JSON object can be recovered from it.
+ */
+export function parseAIResponseText(text: string): ParsedAIResponse {
+  let parsed: { value: unknown; repairs: string[] };
+  try {
+    parsed = parseJSONLenient(text);
+  } catch {
+    throw new Error('Failed to parse AI response. The AI returned invalid JSON.');
+  }
+
+  const result = AIResponseSchema.safeParse(parsed.value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`The AI response has the wrong shape: ${issue.path.join('.') || 'response'}: ${issue.message}`);
+  }
+  return { ...result.data, repairs: parsed.repairs };
+}
+
+/**
+ * Check one action against AIActionSchema
+ */
+export function validateAction(raw: unknown, index: number): { action: AIAction } | { issues: AIActionIssue[] } {
+  const actionType = typeof (raw as AIAction)?.type === 'string' ? (raw as AIAction).type : undefined;
+  if (typeof raw === 'string') {
+    return { issues: [{ index, path: '', message: 'Not valid JSON' }] };
+  }
+
+  const result = AIActionSchema.safeParse(raw);
+  if (result.success) {
+    return { action: result.data as AIAction };
+  }
+  return {
+    issues: result.error.issues.map((issue) => ({
+      index,
+      actionType,
+      path: issue.path.join('.'),
+      message: issue.message,
+    })),
+  };
+}
+
+/**
+ * One-line description of an issue, e.g. `Action 3 (add) componentType: Invalid option`
+ */
+export function formatActionIssue(issue: AIActionIssue): string {
+  const label = `Action ${issue.index + 1}${issue.actionType ? ` (${issue.actionType})` : ''}`;
+  return `${label}${issue.path ? ` ${issue.path}` : ''}: ${issue.message}`;
+}
+
+/**
+ * Prompt for the single retry: the original request plus what was wrong with
+ * the previous response. Actions that were valid are kept, so only
+ * corrections for the rejected ones are asked for.
+ */
+export function buildRetryPrompt(userPrompt: string, report: AIValidationReport, appliedCount: number): string {
+  const problems = report.error
+    ? [`- ${report.error}`]
+    : report.issues.map((issue) => `- ${formatActionIssue(issue)}`);
+
+  const instruction = appliedCount > 0
+    ? `The other ${appliedCount} action(s) were valid and have been kept. Respond with only corrected versions of the rejected actions; they may use the ids the kept actions gave to the components they add.`
+    : 'Nothing from that response was applied. Respond again with the complete set of actions.';
+
+  return `${userPrompt}
+
+Your previous response to this request could not be used as-is:
+${problems.join('\n')}
+
+${instruction} Respond ONLY with a valid JSON object in the required format.`;
+}
@@ -1,4 +1,17 @@
 import { Component } from '@/store/builder-store';
+import { buttonVariants } from '@/components/ui/button';
+import { badgeVariants } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { toList, toRows } from './component-props';
+import { compileTailwindSubset, splitClassNames } from './tailwind-subset';
+import {
+  BREAKPOINT_CONFIG,
+  OVERRIDE_BREAKPOINTS,
+  generateLayoutCSS,
+  getNodeClassName,
+  getPropVariants,
+  getVariantClassName,
+} from './responsive';
 export function generateBlueprint(components: Component[]): string {
   const timestamp = new Date().toISOString();
   let markdown = `# Project Blueprint\n\n`;
@@ -13,15 +26,30 @@ export function generateBlueprint(components: Component[]): string {
     let output = `${indent}- **${node.type.toUpperCase()}** (ID: \`${node.id}\`)\n`;
     // Props
     const props = Object.entries(node.props)
-      .filter(([key]) => key !== 'children' && key !== 'className') // Skip children prop as it's structural, skip className for brevity unless needed
-      .map(([key, value]) => `${key}: "${value}"`)
+      .filter(([key]) => key !== 'children') // Skip children prop as it's written as Content below
+      .map(([key, value]) => `${key}: ${formatValue(value)}`)
       .join(', ');
     if (props) {
       output += `${indent}  - Props: { ${props} }\n`;
     }
+    const { x, y, width, height } = node.position;
+    output += `${indent}  - Position: { x: ${x}, y: ${y}, width: ${width}, height: ${height} }\n`;
+    // Breakpoint overrides, e.g. "- Tablet Position: { x: 20 }"
+    OVERRIDE_BREAKPOINTS.forEach((breakpoint) => {
+      const override = node.responsive?.[breakpoint];
+      const label = BREAKPOINT_CONFIG[breakpoint].label;
+      const fields = (values: Record<string, any> = {}) =>
+        Object.entries(values).map(([key, value]) => (typeof value === 'number' ? `${key}: ${value}` : `${key}: ${formatValue(value)}`)).join(', ');
+      if (override?.props && Object.keys(override.props).length > 0) {
+        output += `${indent}  - ${label} Props: { ${fields(override.props)} }\n`;
+      }
+      if (override?.position && Object.keys(override.position).length > 0) {
+        output += `${indent}  - ${label} Position: { ${fields(override.position)} }\n`;
+      }
+    });
     // Specific content handling
     if (typeof node.props.children === 'string') {
-      output += `${indent}  - Content: "${node.props.children}"\n`;
+      output += `${indent}  - Content: ${JSON.stringify(node.props.children)}\n`;
     }
     // Children
     if (node.children && node.children.length > 0) {
@@ -38,10 +66,284 @@ export function generateBlueprint(components: Component[]): string {
   markdown += `Total Components: ${countComponents(components)}\n`;
   return markdown;
 }
+// Lists and flags are written as JSON so the importer can restore them; everything else as a
+// JSON string, which keeps quotes and line breaks on one line
+function formatValue(value: unknown): string {
+  return Array.isArray(value) || typeof value === 'boolean' ? JSON.stringify(value) : JSON.stringify(String(value));
+}
 function countComponents(components: Component[]): number {
   let count = 0;
   components.forEach(c => {
     count += 1 + countComponents(c.children);
   });
   return count;
-}
\ No newline at end of file
+}
+// ============================================
+// STATIC HTML EXPORT
+// ============================================
+
+export interface StaticHTMLExport {
+  html: string;
+  // Classes the Tailwind subset compiler could not translate
+  unsupportedClasses: string[];
+}
+
+// Base classes of the shadcn/ui components the canvas renders
+const CARD_CLASSES = {
+  root: 'rounded-xl border bg-card text-card-foreground shadow',
+  header: 'flex flex-col space-y-1.5 p-6',
+  title: 'font-semibold leading-none tracking-tight',
+  description: 'text-sm text-muted-foreground',
+  content: 'p-6 pt-0',
+  footer: 'flex items-center p-6 pt-0',
+};
+const INPUT_CLASSES = 'flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-base shadow-sm transition-colors placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring md:text-sm';
+const LABEL_CLASSES = 'text-sm font-medium leading-none';
+const SELECT_CLASSES = 'flex h-9 w-full items-center rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-ring';
+const CHECKBOX_CLASSES = 'h-4 w-4 shrink-0 rounded-sm border border-primary shadow';
+const TABS_CLASSES = {
+  list: 'inline-flex h-9 items-center justify-center rounded-lg bg-muted p-1 text-muted-foreground',
+  trigger: 'inline-flex items-center justify-center whitespace-nowrap rounded-md px-3 py-1 text-sm font-medium',
+  active: 'bg-background text-foreground shadow',
+};
+const TABLE_CLASSES = {
+  wrapper: 'relative w-full overflow-auto',
+  table: 'w-full text-sm',
+  row: 'border-b',
+  head: 'h-10 px-2 text-left font-medium text-muted-foreground',
+  cell: 'p-2',
+};
+const AVATAR_CLASSES = {
+  root: 'relative flex shrink-0 overflow-hidden rounded-full',
+  image: 'aspect-square h-full w-full',
+  fallback: 'flex h-full w-full items-center justify-center rounded-full bg-muted',
+};
+
+function escapeHTML(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render the builder tree into a single self-contained HTML file.
+ * Only the Tailwind classes that appear in the output are compiled into the inline stylesheet.
+ */
+export function generateStaticHTML(components: Component[], title = 'Aetheria Export'): StaticHTMLExport {
+  const usedClasses = new Set<string>();
+
+  const cls = (...inputs: Array<string | undefined>): string => {
+    const merged = cn(...inputs);
+    splitClassNames(merged).forEach((c) => usedClasses.add(c));
+    return merged ? ` class="${escapeHTML(merged)}"` : '';
+  };
+  const font = (props: Record<string, any>): string => (props.fontSize ? `font-size: ${Number(props.fontSize)}px;` : '');
+  const fontAttr = (props: Record<string, any>): string => (props.fontSize ? ` style="${font(props)}"` : '');
+
+  // Markup for one set of props; `inner` is the indentation of the element itself
+  const renderBody = (node: Component, props: Record<string, any>, children: string, inner: string, idSuffix: string): string => {
+    let body: string;
+    switch (node.type) {
+      case 'container':
+        body = `${inner}<div${cls('flex w-full h-full transition-all', props.className)}${props.backgroundColor ? ` style="background-color: ${escapeHTML(props.backgroundColor)};"` : ''}>${children ? `\n${children}\n${inner}` : ''}</div>`;
+        break;
+      case 'button':
+        body = `${inner}<button type="button"${cls(buttonVariants({ variant: props.variant, size: props.size }), 'w-full h-full', props.className)}${fontAttr(props)}>${escapeHTML(props.children || 'Button')}</button>`;
+        break;
+      case 'card': {
+        const parts = [`${inner}<div${cls(CARD_CLASSES.root, 'h-full', props.className)}${fontAttr(props)}>`];
+        parts.push(`${inner}  <div${cls(CARD_CLASSES.header)}>`);
+        if (props.title) parts.push(`${inner}    <h3${cls(CARD_CLASSES.title)}>${escapeHTML(props.title)}</h3>`);
+        if (props.description) parts.push(`${inner}    <p${cls(CARD_CLASSES.description)}>${escapeHTML(props.description)}</p>`);
+        parts.push(`${inner}  </div>`);
+        parts.push(`${inner}  <div${cls(CARD_CLASSES.content)}>${children ? `\n${children}\n${inner}  ` : escapeHTML(props.content || 'Card content area')}</div>`);
+        if (props.footer) parts.push(`${inner}  <div${cls(CARD_CLASSES.footer)}>${escapeHTML(props.footer)}</div>`);
+        parts.push(`${inner}</div>`);
+        body = parts.join('\n');
+        break;
+      }
+      case 'header': {
+        const level = ['h1', 'h2', 'h3', 'h4'].includes(props.level) ? props.level : 'h2';
+        body = `${inner}<${level}${cls('scroll-m-20 tracking-tight w-full h-full flex items-center', props.className)}${fontAttr(props)}>${escapeHTML(props.children || 'Header')}</${level}>`;
+        break;
+      }
+      case 'text':
+        body = `${inner}<p${cls('leading-7 w-full h-full', props.className)}${fontAttr(props)}>${escapeHTML(props.children || 'Text content')}</p>`;
+        break;
+      case 'input': {
+        const inputId = `input-${node.id}${idSuffix}`;
+        const parts = [`${inner}<div${cls('grid w-full items-center gap-1.5', props.className)}>`];
+        if (props.label) parts.push(`${inner}  <label for="${escapeHTML(inputId)}"${cls(LABEL_CLASSES)}${fontAttr(props)}>${escapeHTML(props.label)}</label>`);
+        parts.push(`${inner}  <input id="${escapeHTML(inputId)}" type="${escapeHTML(props.type || 'text')}" placeholder="${escapeHTML(props.placeholder || '')}"${cls(INPUT_CLASSES)}${fontAttr(props)} />`);
+        parts.push(`${inner}</div>`);
+        body = parts.join('\n');
+        break;
+      }
+      case 'image':
+        body = props.src
+          ? `${inner}<img src="${escapeHTML(props.src)}" alt="${escapeHTML(props.alt || '')}"${cls('w-full h-full object-cover', props.className)} />`
+          : `${inner}<div${cls('flex w-full h-full items-center justify-center bg-muted text-muted-foreground text-xs', props.className)}>${escapeHTML(props.alt || 'Image')}</div>`;
+        break;
+      case 'navbar': {
+        const parts = [`${inner}<nav${cls('flex w-full h-full items-center justify-between gap-4 px-4 bg-background', props.className)}${fontAttr(props)}>`];
+        parts.push(`${inner}  <span${cls('font-semibold')}>${escapeHTML(props.logo || 'Brand')}</span>`);
+        parts.push(`${inner}  <div${cls('flex items-center gap-4')}>`);
+        toList(props.links).forEach((link) => parts.push(`${inner}    <a href="#"${cls('text-muted-foreground')}>${escapeHTML(link)}</a>`));
+        if (props.ctaText) parts.push(`${inner}    <button type="button"${cls(buttonVariants({ size: 'sm' }))}>${escapeHTML(props.ctaText)}</button>`);
+        parts.push(`${inner}  </div>`);
+        parts.push(`${inner}</nav>`);
+        body = parts.join('\n');
+        break;
+      }
+      case 'tabs': {
+        // Static markup: the first tab is shown as active
+        const parts = [`${inner}<div${cls('flex flex-col w-full h-full', props.className)}${fontAttr(props)}>`];
+        parts.push(`${inner}  <div${cls(TABS_CLASSES.list, 'self-start')}>`);
+        toList(props.tabs).forEach((tab, index) => parts.push(`${inner}    <span${cls(TABS_CLASSES.trigger, index === 0 ? TABS_CLASSES.active : undefined)}>${escapeHTML(tab)}</span>`));
+        parts.push(`${inner}  </div>`);
+        parts.push(`${inner}  <div${cls('flex-1 p-3 text-muted-foreground')}>${children ? `\n${children}\n${inner}  ` : escapeHTML(props.content || '')}</div>`);
+        parts.push(`${inner}</div>`);
+        body = parts.join('\n');
+        break;
+      }
+      case 'table': {
+        const columns = toList(props.columns);
+        const parts = [`${inner}<div${cls(TABLE_CLASSES.wrapper)}>`];
+        parts.push(`${inner}  <table${cls(TABLE_CLASSES.table, props.className)}${fontAttr(props)}>`);
+        parts.push(`${inner}    <thead><tr${cls(TABLE_CLASSES.row)}>${columns.map((column) => `<th${cls(TABLE_CLASSES.head)}>${escapeHTML(column)}</th>`).join('')}</tr></thead>`);
+        parts.push(`${inner}    <tbody>`);
+        toRows(props.rows, columns.length).forEach((row) => {
+          parts.push(`${inner}      <tr${cls(TABLE_CLASSES.row)}>${row.map((cell) => `<td${cls(TABLE_CLASSES.cell)}>${escapeHTML(cell)}</td>`).join('')}</tr>`);
+        });
+        parts.push(`${inner}    </tbody>`);
+        parts.push(`${inner}  </table>`);
+        parts.push(`${inner}</div>`);
+        body = parts.join('\n');
+        break;
+      }
+      case 'select': {
+        const selectId = `select-${node.id}${idSuffix}`;
+        const parts = [`${inner}<div${cls('grid w-full items-center gap-1.5', props.className)}>`];
+        if (props.label) parts.push(`${inner}  <label for="${escapeHTML(selectId)}"${cls(LABEL_CLASSES)}${fontAttr(props)}>${escapeHTML(props.label)}</label>`);
+        parts.push(`${inner}  <select id="${escapeHTML(selectId)}"${cls(SELECT_CLASSES)}${fontAttr(props)}>`);
+        parts.push(`${inner}    <option value="" disabled selected>${escapeHTML(props.placeholder || 'Select')}</option>`);
+        toList(props.options).filter(Boolean).forEach((option) => parts.push(`${inner}    <option>${escapeHTML(option)}</option>`));
+        parts.push(`${inner}  </select>`);
+        parts.push(`${inner}</div>`);
+        body = parts.join('\n');
+        break;
+      }
+      case 'checkbox': {
+        const checkboxId = `checkbox-${node.id}${idSuffix}`;
+        body = [
+          `${inner}<div${cls('flex w-full h-full items-center gap-2', props.className)}>`,
+          `${inner}  <input id="${escapeHTML(checkboxId)}" type="checkbox"${props.checked ? ' checked' : ''}${cls(CHECKBOX_CLASSES)} />`,
+          `${inner}  <label for="${escapeHTML(checkboxId)}"${cls(LABEL_CLASSES)}${fontAttr(props)}>${escapeHTML(props.label || '')}</label>`,
+          `${inner}</div>`,
+        ].join('\n');
+        break;
+      }
+      case 'avatar':
+        body = `${inner}<span${cls(AVATAR_CLASSES.root, 'h-full w-full', props.className)}>`
+          + (props.src
+            ? `<img src="${escapeHTML(props.src)}" alt="${escapeHTML(props.alt || '')}"${cls(AVATAR_CLASSES.image)} />`
+            : `<span${cls(AVATAR_CLASSES.fallback)}>${escapeHTML(props.fallback || '?')}</span>`)
+          + '</span>';
+        break;
+      case 'badge':
+        body = `${inner}<span${cls(badgeVariants({ variant: props.variant }), props.className)}${fontAttr(props)}>${escapeHTML(props.text || 'Badge')}</span>`;
+        break;
+      default:
+        body = `${inner}<!-- Unsupported component: ${escapeHTML(node.type)} -->`;
+    }
+    return body;
+  };
+
+  // Placement comes from the layout stylesheet so it can change per breakpoint
+  const renderNode = (node: Component, depth: number): string => {
+    const pad = '  '.repeat(depth);
+    const inner = `${pad}  `;
+    const variants = getPropVariants(node);
+
+    let body: string;
+    if (variants.length === 1) {
+      const children = node.children.map((child) => renderNode(child, depth + 2)).join('\n');
+      body = renderBody(node, variants[0].props, children, inner, '');
+    } else {
+      // Props differ between breakpoints: one copy per variant, shown by media query
+      body = variants.map((variant, index) => {
+        const children = node.children.map((child) => renderNode(child, depth + 3)).join('\n');
+        const classes = ['bp-variant', ...variant.breakpoints.map(getVariantClassName)].join(' ');
+        return `${inner}<div class="${classes}">\n${renderBody(node, variant.props, children, `${inner}  `, index > 0 ? `-${index}` : '')}\n${inner}</div>`;
+      }).join('\n');
+    }
+
+    return `${pad}<div class="${getNodeClassName(node)}">\n${body}\n${pad}</div>`;
+  };
+
+  const bodyMarkup = components.map((node) => renderNode(node, 3)).join('\n');
+  const { css, unsupported } = compileTailwindSubset(usedClasses);
+
+  const html = `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>${escapeHTML(title)}</title>
+    <style>
+${STATIC_BASE_CSS}
+${css}
+${generateLayoutCSS(components, 'page-canvas')}
+    </style>
+  </head>
+  <body>
+    <main class="page">
+      <div class="page-canvas" style="position: relative; margin: 0 auto;">
+${bodyMarkup}
+      </div>
+    </main>
+  </body>
+</html>
+`;
+
+  return { html, unsupportedClasses: unsupported };
+}
+
+/**
+ * Download the static HTML export as a single file
+ */
+export function downloadStaticHTML(components: Component[], filename = 'aetheria-export.html'): StaticHTMLExport {
+  const result = generateStaticHTML(components);
+  const url = URL.createObjectURL(new Blob([result.html], { type: 'text/html' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+  return result;
+}
+
+// Minimal preflight plus the light theme variables the shadcn classes reference
+const STATIC_BASE_CSS = `*, ::before, ::after { box-sizing: border-box; border-width: 0; border-style: solid; border-color: hsl(var(--border)); }
+:root {
+  --background: 0 0% 100%; --foreground: 0 0% 3.9%;
+  --card: 0 0% 100%; --card-foreground: 0 0% 3.9%;
+  --popover: 0 0% 100%; --popover-foreground: 0 0% 3.9%;
+  --primary: 0 0% 9%; --primary-foreground: 0 0% 98%;
+  --secondary: 0 0% 96.1%; --secondary-foreground: 0 0% 9%;
+  --muted: 0 0% 96.1%; --muted-foreground: 0 0% 45.1%;
+  --accent: 0 0% 96.1%; --accent-foreground: 0 0% 9%;
+  --destructive: 0 84.2% 60.2%; --destructive-foreground: 0 0% 98%;
+  --border: 0 0% 89.8%; --input: 0 0% 89.8%; --ring: 0 0% 3.9%;
+  --radius: 0.5rem;
+}
+html { line-height: 1.5; -webkit-text-size-adjust: 100%; font-family: Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+body { margin: 0; background: hsl(var(--background)); color: hsl(var(--foreground)); }
+h1, h2, h3, h4, p { margin: 0; font-size: inherit; font-weight: inherit; }
+button, input { font: inherit; color: inherit; margin: 0; background: transparent; }
+button { cursor: pointer; }
+.page { min-height: 100vh; }`;
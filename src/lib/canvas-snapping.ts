@@ -0,0 +1,173 @@
+/**
+ * Canvas Snapping
+ * Grid snapping and Figma-style smart guides for dragging and resizing.
+ * All rectangles are in canvas coordinates.
+ */
+
+import { ComponentPosition } from '@/store/builder-store';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SnapEdge = 'start' | 'center' | 'end';
+
+export interface SnapGuide {
+  // A vertical guide is a line at a fixed x
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+  // Extent of the line along its own axis
+  start: number;
+  end: number;
+}
+
+export interface SnapDistance {
+  // Measured along x for 'horizontal', along y for 'vertical'
+  axis: 'horizontal' | 'vertical';
+  from: number;
+  to: number;
+  // Cross-axis coordinate to draw the measurement at
+  at: number;
+}
+
+export interface SnapResult {
+  offsetX: number;
+  offsetY: number;
+  guides: SnapGuide[];
+  distances: SnapDistance[];
+}
+
+export interface SnapOptions {
+  threshold?: number;
+  // Which edges of the moving rect may snap; a resize only snaps the dragged edge
+  xEdges?: SnapEdge[];
+  yEdges?: SnapEdge[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SNAP_THRESHOLD = 5;
+
+const ALL_EDGES: SnapEdge[] = ['start', 'center', 'end'];
+
+// ============================================
+// GRID
+// ============================================
+
+/**
+ * Round a coordinate to the nearest grid line
+ */
+export function snapToGrid(value: number, gridSize: number): number {
+  if (gridSize <= 0) return value;
+  return Math.round(value / gridSize) * gridSize;
+}
+
+// ============================================
+// SMART GUIDES
+// ============================================
+
+const edgeValue = (rect: ComponentPosition, axis: 'x' | 'y', edge: SnapEdge): number => {
+  const start = rect[axis];
+  const size = axis === 'x' ? rect.width : rect.height;
+  if (edge === 'center') return start + size / 2;
+  return edge === 'start' ? start : start + size;
+};
+
+// Closest match between the moving rect's edges and any target edge on one axis
+const findAxisSnap = (
+  moving: ComponentPosition,
+  targets: ComponentPosition[],
+  axis: 'x' | 'y',
+  edges: SnapEdge[],
+  threshold: number
+): number | null => {
+  let best: number | null = null;
+  edges.forEach((edge) => {
+    const value = edgeValue(moving, axis, edge);
+    targets.forEach((target) => {
+      ALL_EDGES.forEach((targetEdge) => {
+        const delta = edgeValue(target, axis, targetEdge) - value;
+        if (Math.abs(delta) <= threshold && (best === null || Math.abs(delta) < Math.abs(best))) {
+          best = delta;
+        }
+      });
+    });
+  });
+  return best;
+};
+
+/**
+ * Snap a moving rect to the edges and centers of its siblings.
+ * Returns the offset to apply plus the guides and gap measurements to draw.
+ */
+export function snapToSiblings(
+  moving: ComponentPosition,
+  siblings: ComponentPosition[],
+  options: SnapOptions = {}
+): SnapResult {
+  const { threshold = SNAP_THRESHOLD, xEdges = ALL_EDGES, yEdges = ALL_EDGES } = options;
+  const offsetX = findAxisSnap(moving, siblings, 'x', xEdges, threshold) ?? 0;
+  const offsetY = findAxisSnap(moving, siblings, 'y', yEdges, threshold) ?? 0;
+
+  // Re-measure against the snapped rect to find every line that now coincides
+  const snapped = { ...moving, x: moving.x + offsetX, y: moving.y + offsetY };
+  const guides: SnapGuide[] = [];
+  const distances: SnapDistance[] = [];
+
+  siblings.forEach((sibling) => {
+    let alignedX = false;
+    let alignedY = false;
+
+    xEdges.forEach((edge) => {
+      const value = edgeValue(snapped, 'x', edge);
+      if (ALL_EDGES.some((e) => Math.abs(edgeValue(sibling, 'x', e) - value) < 0.5)) {
+        alignedX = true;
+        guides.push({
+          orientation: 'vertical',
+          position: value,
+          start: Math.min(snapped.y, sibling.y),
+          end: Math.max(snapped.y + snapped.height, sibling.y + sibling.height),
+        });
+      }
+    });
+
+    yEdges.forEach((edge) => {
+      const value = edgeValue(snapped, 'y', edge);
+      if (ALL_EDGES.some((e) => Math.abs(edgeValue(sibling, 'y', e) - value) < 0.5)) {
+        alignedY = true;
+        guides.push({
+          orientation: 'horizontal',
+          position: value,
+          start: Math.min(snapped.x, sibling.x),
+          end: Math.max(snapped.x + snapped.width, sibling.x + sibling.width),
+        });
+      }
+    });
+
+    // Gap between the rects along the axis they are stacked on
+    if (alignedX) {
+      const gap = measureGap(snapped, sibling, 'y');
+      if (gap) {
+        distances.push({ axis: 'vertical', ...gap, at: snapped.x + snapped.width / 2 });
+      }
+    }
+    if (alignedY) {
+      const gap = measureGap(snapped, sibling, 'x');
+      if (gap) {
+        distances.push({ axis: 'horizontal', ...gap, at: snapped.y + snapped.height / 2 });
+      }
+    }
+  });
+
+  return { offsetX, offsetY, guides, distances };
+}
+
+// Empty space between two rects that do not overlap on an axis
+const measureGap = (a: ComponentPosition, b: ComponentPosition, axis: 'x' | 'y'): { from: number; to: number } | null => {
+  const size = axis === 'x' ? 'width' : 'height';
+  if (a[axis] + a[size] <= b[axis]) return { from: a[axis] + a[size], to: b[axis] };
+  if (b[axis] + b[size] <= a[axis]) return { from: b[axis] + b[size], to: a[axis] };
+  return null;
+};
@@ -0,0 +1,26 @@
+/**
+ * Component Props
+ * Readers for list-valued props (navbar links, tab labels, table cells, select options).
+ * Props can come from the AI or imported files, so anything that is not the expected shape reads as empty.
+ */
+
+/**
+ * A list prop as strings; a comma-separated string is split
+ */
+export function toList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return value.split(',').map((item) => item.trim()).filter(Boolean);
+  }
+  return Array.isArray(value) ? value.map((item) => String(item ?? '')) : [];
+}
+
+/**
+ * Table rows as string cells, padded or trimmed to the column count
+ */
+export function toRows(value: unknown, columnCount: number): string[][] {
+  if (!Array.isArray(value)) return [];
+  return value.map((row) => {
+    const cells = toList(row);
+    return Array.from({ length: columnCount }, (_, index) => cells[index] ?? '');
+  });
+}
@@ -0,0 +1,330 @@
+/**
+ * Component Schemas
+ * Typed prop schemas for every builder component type. Each field pairs a zod
+ * schema with the editor kind the properties panel renders for it; the same
+ * schemas validate props coming from the AI before they are applied.
+ */
+
+import { z } from 'zod';
+import { ComponentType, getDefaultProps } from '@/store/builder-store';
+import { toList } from './component-props';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type PropFieldKind =
+  | 'text'
+  | 'longText'
+  | 'enum'
+  | 'color'
+  | 'number'
+  | 'boolean'
+  | 'classList'
+  | 'list'
+  | 'rows';
+
+// Properties panel section a field is shown in
+export type PropFieldGroup = 'content' | 'typography' | 'appearance';
+
+export interface PropFieldOption {
+  value: string;
+  label: string;
+}
+
+export interface PropField {
+  key: string;
+  label: string;
+  kind: PropFieldKind;
+  group: PropFieldGroup;
+  schema: z.ZodType;
+  // enum
+  options?: PropFieldOption[];
+  // number
+  unit?: string;
+  min?: number;
+  max?: number;
+  placeholder?: string;
+  help?: string;
+  // Enum values are also class names; choosing one swaps it into `className`
+  syncClassName?: boolean;
+}
+
+export interface ComponentSchema {
+  fields: PropField[];
+  // Every prop optional, unknown props rejected
+  schema: z.ZodType<Record<string, any>>;
+}
+
+export interface PropIssue {
+  key: string;
+  message: string;
+}
+
+export interface PropValidationResult {
+  // The valid props, with values normalized by their schemas
+  props: Record<string, any>;
+  // Props that were dropped and why
+  issues: PropIssue[];
+}
+
+// ============================================
+// FIELD BUILDERS
+// ============================================
+
+type FieldOptions = Partial<Omit<PropField, 'key' | 'label' | 'kind' | 'schema'>>;
+
+// Hex, rgb()/hsl() or a named color; empty clears it
+const COLOR_PATTERN = /^(#[0-9a-f]{3,8}|(rgb|hsl)a?\([^)]*\)|[a-z]+)?$/i;
+
+const text = (key: string, label: string, options: FieldOptions = {}): PropField => ({
+  key, label, kind: 'text', group: 'content', schema: z.string(), ...options,
+});
+
+const longText = (key: string, label: string, options: FieldOptions = {}): PropField => ({
+  key, label, kind: 'longText', group: 'content', schema: z.string(), ...options,
+});
+
+const choice = (key: string, label: string, options: PropFieldOption[], extra: FieldOptions = {}): PropField => ({
+  key,
+  label,
+  kind: 'enum',
+  group: 'appearance',
+  schema: z.enum(options.map((option) => option.value) as [string, ...string[]]),
+  options,
+  ...extra,
+});
+
+const color = (key: string, label: string, options: FieldOptions = {}): PropField => ({
+  key,
+  label,
+  kind: 'color',
+  group: 'appearance',
+  schema: z.string().trim().regex(COLOR_PATTERN, 'Expected a CSS color such as #1e293b'),
+  ...options,
+});
+
+const number = (key: string, label: string, min: number, max: number, options: FieldOptions = {}): PropField => ({
+  key,
+  label,
+  kind: 'number',
+  group: 'content',
+  // Numbers arrive as strings from the AI and blueprint files
+  schema: z.coerce.number().min(min, `Must be at least ${min}`).max(max, `Must be at most ${max}`),
+  min,
+  max,
+  ...options,
+});
+
+const toggle = (key: string, label: string, options: FieldOptions = {}): PropField => ({
+  key, label, kind: 'boolean', group: 'content', schema: z.boolean(), ...options,
+});
+
+const list = (key: string, label: string, options: FieldOptions = {}): PropField => ({
+  key,
+  label,
+  kind: 'list',
+  group: 'content',
+  schema: z.preprocess((value) => (typeof value === 'string' ? toList(value) : value), z.array(z.string())),
+  ...options,
+});
+
+const rows = (key: string, label: string, options: FieldOptions = {}): PropField => ({
+  key, label, kind: 'rows', group: 'content', schema: z.array(z.array(z.string())), ...options,
+});
+
+// Shared fields
+const fontSize = number('fontSize', 'Font Size', 8, 200, { unit: 'px', group: 'typography' });
+const className = (): PropField => ({
+  key: 'className',
+  label: 'Custom Classes',
+  kind: 'classList',
+  group: 'appearance',
+  schema: z.string(),
+  help: 'Tailwind classes separated by space, or pick them below',
+});
+
+const BUTTON_VARIANTS: PropFieldOption[] = [
+  { value: 'default', label: 'Default' },
+  { value: 'destructive', label: 'Destructive' },
+  { value: 'outline', label: 'Outline' },
+  { value: 'secondary', label: 'Secondary' },
+  { value: 'ghost', label: 'Ghost' },
+  { value: 'link', label: 'Link' },
+];
+
+const BADGE_VARIANTS: PropFieldOption[] = [
+  { value: 'default', label: 'Default' },
+  { value: 'secondary', label: 'Secondary' },
+  { value: 'destructive', label: 'Destructive' },
+  { value: 'outline', label: 'Outline' },
+];
+
+// ============================================
+// SCHEMAS
+// ============================================
+
+const FIELDS: Record<ComponentType, PropField[]> = {
+  container: [
+    choice('layout', 'Layout Direction', [
+      { value: 'flex-col', label: 'Vertical (Column)' },
+      { value: 'flex-row', label: 'Horizontal (Row)' },
+    ], { syncClassName: true }),
+    color('backgroundColor', 'Background Color'),
+    className(),
+  ],
+  button: [
+    text('children', 'Text'),
+    fontSize,
+    choice('variant', 'Variant', BUTTON_VARIANTS),
+    choice('size', 'Size', [
+      { value: 'default', label: 'Default' },
+      { value: 'sm', label: 'Small' },
+      { value: 'lg', label: 'Large' },
+      { value: 'icon', label: 'Icon' },
+    ]),
+    className(),
+  ],
+  card: [
+    text('title', 'Title'),
+    longText('description', 'Description'),
+    longText('content', 'Content', { help: 'Hidden when the card has nested components' }),
+    text('footer', 'Footer'),
+    fontSize,
+    className(),
+  ],
+  header: [
+    text('children', 'Text'),
+    fontSize,
+    choice('level', 'Level', ['h1', 'h2', 'h3', 'h4'].map((level) => ({ value: level, label: level.toUpperCase() }))),
+    className(),
+  ],
+  text: [
+    longText('children', 'Text'),
+    fontSize,
+    className(),
+  ],
+  input: [
+    text('label', 'Label'),
+    text('placeholder', 'Placeholder'),
+    fontSize,
+    choice('type', 'Input Type', ['text', 'email', 'password', 'number', 'tel', 'url'].map((type) => ({
+      value: type,
+      label: type.charAt(0).toUpperCase() + type.slice(1),
+    }))),
+    className(),
+  ],
+  image: [
+    text('src', 'Image URL', { placeholder: 'https://...' }),
+    text('alt', 'Alt Text'),
+    className(),
+  ],
+  navbar: [
+    text('logo', 'Logo Text'),
+    list('links', 'Links', { help: 'One link per line' }),
+    text('ctaText', 'Button Text', { help: 'Leave empty for no button' }),
+    fontSize,
+    className(),
+  ],
+  tabs: [
+    list('tabs', 'Tabs', { help: 'One tab per line' }),
+    longText('content', 'Content', { help: 'Hidden when the tabs have nested components' }),
+    fontSize,
+    className(),
+  ],
+  table: [
+    list('columns', 'Columns', { help: 'One column per line' }),
+    rows('rows', 'Rows', { help: 'One row per line, cells separated by commas' }),
+    fontSize,
+    className(),
+  ],
+  select: [
+    text('label', 'Label'),
+    text('placeholder', 'Placeholder'),
+    list('options', 'Options', { help: 'One option per line' }),
+    fontSize,
+    className(),
+  ],
+  checkbox: [
+    text('label', 'Label'),
+    toggle('checked', 'Checked'),
+    fontSize,
+    className(),
+  ],
+  avatar: [
+    text('src', 'Image URL', { placeholder: 'https://...' }),
+    text('alt', 'Alt Text'),
+    text('fallback', 'Fallback Initials', { help: 'Shown when there is no image' }),
+    className(),
+  ],
+  badge: [
+    text('text', 'Text'),
+    fontSize,
+    choice('variant', 'Variant', BADGE_VARIANTS),
+    className(),
+  ],
+};
+
+const toComponentSchema = (fields: PropField[]): ComponentSchema => ({
+  fields,
+  schema: z.strictObject(Object.fromEntries(fields.map((field) => [field.key, field.schema.optional()]))),
+});
+
+export const COMPONENT_SCHEMAS = Object.fromEntries(
+  (Object.entries(FIELDS) as [ComponentType, PropField[]][]).map(([type, fields]) => [type, toComponentSchema(fields)])
+) as Record<ComponentType, ComponentSchema>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Fields of a component type shown in one properties panel section
+ */
+export function getFieldsByGroup(type: ComponentType, group: PropFieldGroup): PropField[] {
+  return (COMPONENT_SCHEMAS[type]?.fields ?? []).filter((field) => field.group === group);
+}
+
+/**
+ * Value a field takes on a new component
+ */
+export function getFieldDefault(type: ComponentType, key: string): unknown {
+  return getDefaultProps(type)[key];
+}
+
+/**
+ * Check props against a component type's schema. Invalid and unknown props are
+ * dropped and reported; the rest are returned normalized.
+ */
+export function validateProps(type: ComponentType, props: Record<string, any>): PropValidationResult {
+  const schema = COMPONENT_SCHEMAS[type]?.schema;
+  if (!schema) {
+    return { props: {}, issues: [{ key: '*', message: `Unknown component type "${type}"` }] };
+  }
+
+  const issues: PropIssue[] = [];
+  let candidate = { ...props };
+  // A failed parse names the offending keys; drop them and parse the rest again
+  for (;;) {
+    const result = schema.safeParse(candidate);
+    if (result.success) {
+      return { props: result.data, issues };
+    }
+    const rejected = new Set<string>();
+    result.error.issues.forEach((issue) => {
+      const keys = issue.code === 'unrecognized_keys' ? issue.keys : [String(issue.path[0] ?? '')];
+      keys.forEach((key) => {
+        if (!rejected.has(key)) {
+          rejected.add(key);
+          issues.push({ key, message: issue.code === 'unrecognized_keys' ? 'Unknown prop' : issue.message });
+        }
+      });
+    });
+    const remaining = Object.fromEntries(Object.entries(candidate).filter(([key]) => !rejected.has(key)));
+    // Nothing attributable to a key; give up rather than loop
+    if (Object.keys(remaining).length === Object.keys(candidate).length) {
+      return { props: {}, issues };
+    }
+    candidate = remaining;
+  }
+}
@@ -12,7 +12,9 @@ import {
   calculateCost, 
   estimateTokens 
 } from './db';
-import { AIProvider, getAIProvider } from './ai-service';
+import { AIProvider, ConversationHistory, ConversationTurn, getAIProvider } from './ai-service';
+import { describeAction } from './ai-actions';
+import { getActiveProjectId } from './project-manager';
 
 // ============================================
 // CONSTANTS
@@ -20,14 +22,24 @@ import { AIProvider, getAIProvider } from './ai-service';
 
 export const MAX_ACTIVE_CONVERSATIONS = 3;
 
+// Tokens of prior turns sent in full with each request
+export const HISTORY_TOKEN_BUDGET = 3000;
+
+// Most older exchanges summarized for a request; the earliest are dropped
+const MAX_SUMMARY_LINES = 8;
+
 // ============================================
 // CONVERSATION CRUD
 // ============================================
 
 /**
- * Create a new conversation, auto-archiving oldest if at limit
+ * Create a new conversation, auto-archiving oldest if at limit.
+ * The conversation is linked to the open builder project unless one is given.
  */
-export async function createConversation(title: string = 'New Conversation'): Promise<Conversation> {
+export async function createConversation(
+  title: string = 'New Conversation',
+  projectId?: string
+): Promise<Conversation> {
   const activeConvos = await db.conversations
     .where('state')
     .equals('active')
@@ -51,6 +63,7 @@ export async function createConversation(title: string = 'New Conversation'): Pr
     totalTokens: 0,
     totalCost: 0,
     primaryProvider: getAIProvider(),
+    projectId: projectId ?? (await getActiveProjectId()) ?? undefined,
   };
   
   await db.conversations.add(conversation);
@@ -218,6 +231,8 @@ export async function addAssistantMessage(
     inputTokens: number;
     outputTokens: number;
     imageCount?: number;
+    // Set when a fallback provider served the request
+    fallbackFrom?: AIProvider;
   }
 ): Promise<{ message: ConversationMessage; usage: UsageRecord }> {
   const now = Date.now();
@@ -256,6 +271,7 @@ export async function addAssistantMessage(
     estimatedCost: cost,
     imageCount: options.imageCount || 0,
     success: options.status === 'success',
+    fallbackFrom: options.fallbackFrom,
   };
   
   await db.usage.add(usageRecord);
@@ -275,6 +291,74 @@ export async function addAssistantMessage(
   return { message, usage: usageRecord };
 }
 
+// ============================================
+// CONVERSATION HISTORY
+// ============================================
+
+/**
+ * Build the prior turns sent along with a new request. The most recent
+ * exchanges are sent in full while they fit the token budget; older ones are
+ * summarized in one line each. Requests that got no successful reply are
+ * left out so user and assistant turns alternate.
+ */
+export function buildConversationHistory(
+  messages: ConversationMessage[],
+  tokenBudget: number = HISTORY_TOKEN_BUDGET,
+  provider: AIProvider = getAIProvider()
+): ConversationHistory {
+  const exchanges: { user: ConversationMessage; reply: ConversationMessage }[] = [];
+  messages.forEach((message, i) => {
+    const reply = messages[i + 1];
+    if (message.role === 'user' && reply?.role === 'assistant' && reply.status !== 'error') {
+      exchanges.push({ user: message, reply });
+    }
+  });
+
+  const turns: ConversationTurn[] = [];
+  let used = 0;
+  let cutoff = exchanges.length;
+  // Walk back from the newest exchange until the budget runs out
+  while (cutoff > 0) {
+    const { user, reply } = exchanges[cutoff - 1];
+    const userTurn: ConversationTurn = { role: 'user', content: user.content };
+    // Replies are sent in the JSON format the model answers in
+    const replyTurn: ConversationTurn = {
+      role: 'assistant',
+      content: JSON.stringify({ actions: reply.actions ?? [], explanation: reply.content }),
+    };
+    const cost = estimateTokens(userTurn.content, provider) + estimateTokens(replyTurn.content, provider);
+    if (used + cost > tokenBudget) break;
+    used += cost;
+    turns.unshift(userTurn, replyTurn);
+    cutoff--;
+  }
+
+  const summary = exchanges.slice(0, cutoff).slice(-MAX_SUMMARY_LINES).map(({ user, reply }) => {
+    const actions = reply.actions ?? [];
+    const changes = actions.length > 0
+      ? ` (${actions.slice(0, 3).map(describeAction).join(', ')}${actions.length > 3 ? `, +${actions.length - 3} more` : ''})`
+      : '';
+    return `User asked "${truncate(user.content, 80)}": ${truncate(reply.content, 120)}${changes}`;
+  });
+
+  return { turns, summary };
+}
+
+/**
+ * Load a conversation's messages and build the history for its next request
+ */
+export async function getConversationHistory(
+  conversationId: string,
+  tokenBudget: number = HISTORY_TOKEN_BUDGET
+): Promise<ConversationHistory> {
+  return buildConversationHistory(await getMessages(conversationId), tokenBudget);
+}
+
+function truncate(text: string, length: number): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length)}…` : line;
+}
+
 // ============================================
 // AUTO TITLE GENERATION
 // ============================================
@@ -1,10 +1,11 @@
 /**
  * IndexedDB Database Schema with Dexie.js
- * Client-side storage for conversations, messages, and usage tracking
+ * Client-side storage for builder projects, conversations, messages, and usage tracking
  */
 
 import Dexie, { Table } from 'dexie';
 import { AIAction, AIProvider } from './ai-service';
+import { ProjectFile, serializeProject } from './project-format';
 
 // ============================================
 // INTERFACES
@@ -51,6 +52,19 @@ export interface Conversation {
   // Provider info
   primaryProvider?: AIProvider;
   primaryModel?: string;
+  // Builder project this conversation edited
+  projectId?: string;
+}
+
+export interface Project {
+  id: string; // Primary key
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  lastOpenedAt: number;
+  componentCount: number;
+  // Canvas contents in the versioned project format
+  snapshot: ProjectFile;
 }
 
 export interface UsageRecord {
@@ -67,6 +81,8 @@ export interface UsageRecord {
   imageCount: number;
   success: boolean;
   errorMessage?: string;
+  // The configured provider, when a fallback in the chain served the request
+  fallbackFrom?: AIProvider;
 }
 
 export interface UserSettings {
@@ -94,6 +110,12 @@ export const PRICING = {
   ollama: {
     '*': { input: 0, output: 0 }, // Free (local)
   },
+  'openai-compatible': {
+    '*': { input: 0, output: 0 }, // Free (self-hosted)
+  },
+  fixture: {
+    '*': { input: 0, output: 0 }, // Recorded responses
+  },
 } as const;
 
 // ============================================
@@ -101,6 +123,7 @@ export const PRICING = {
 // ============================================
 
 export class AetheriaDB extends Dexie {
+  projects!: Table<Project, string>;
   conversations!: Table<Conversation, string>;
   messages!: Table<ConversationMessage, number>;
   usage!: Table<UsageRecord, number>;
@@ -116,6 +139,29 @@ export class AetheriaDB extends Dexie {
       usage: '++id, timestamp, provider, conversationId, [provider+timestamp]',
       settings: 'key',
     });
+
+    // v2: builder projects, and conversations linked to the project they edited
+    this.version(2).stores({
+      projects: 'id, name, updatedAt, lastOpenedAt',
+      conversations: 'id, state, createdAt, updatedAt, lastAccessedAt, archivedAt, projectId',
+    }).upgrade(async (tx) => {
+      // Existing conversations predate projects; file them under a default one
+      const conversations = tx.table<Conversation, string>('conversations');
+      if (await conversations.count() === 0) return;
+
+      const now = Date.now();
+      const project: Project = {
+        id: generateProjectId(),
+        name: 'Untitled Project',
+        createdAt: now,
+        updatedAt: now,
+        lastOpenedAt: now,
+        componentCount: 0,
+        snapshot: serializeProject([], 'Untitled Project'),
+      };
+      await tx.table<Project, string>('projects').add(project);
+      await conversations.toCollection().modify({ projectId: project.id });
+    });
   }
 }
 
@@ -164,6 +210,13 @@ export function generateConversationId(): string {
   return `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Generate a unique project ID
+ */
+export function generateProjectId(): string {
+  return `proj_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
 /**
  * Format cost for display
  */
@@ -212,6 +265,8 @@ export interface UsageStats {
     requests: number;
     tokens: number;
     cost: number;
+    // Requests this provider served as a fallback
+    fallbacks: number;
   }>;
   thisMonth: {
     requests: number;
@@ -234,13 +289,14 @@ export async function getUsageStats(): Promise<UsageStats> {
   const monthUsage = allUsage.filter(u => u.timestamp >= startOfMonth);
   const dayUsage = allUsage.filter(u => u.timestamp >= startOfDay);
   
-  const byProvider: Record<string, { requests: number; tokens: number; cost: number }> = {};
+  const byProvider: UsageStats['byProvider'] = {};
   
   for (const record of allUsage) {
     if (!byProvider[record.provider]) {
-      byProvider[record.provider] = { requests: 0, tokens: 0, cost: 0 };
+      byProvider[record.provider] = { requests: 0, tokens: 0, cost: 0, fallbacks: 0 };
     }
     byProvider[record.provider].requests++;
+    if (record.fallbackFrom) byProvider[record.provider].fallbacks++;
     byProvider[record.provider].tokens += record.totalTokens;
     byProvider[record.provider].cost += record.estimatedCost;
   }
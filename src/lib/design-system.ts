@@ -506,3 +506,68 @@ export function getAllPresets(): StylePreset[] {
 export function getAllTemplates(): PageTemplate[] {
   return Object.values(PAGE_TEMPLATES);
 }
+
+// ============================================
+// CUSTOM PRESETS
+// ============================================
+
+// A user-made preset with the palette and scales it uses, as stored
+export interface CustomPresetDefinition {
+  preset: StylePreset;
+  colors: ColorPalette;
+  typography: TypographyScale;
+  spacing: SpacingScale;
+}
+
+const CUSTOM_PRESETS_KEY = 'custom_style_presets';
+
+const customPresets = new Map<string, CustomPresetDefinition>();
+
+// Custom presets live in the same records as the built-ins, under their own id
+const registerCustomPreset = (definition: CustomPresetDefinition): StylePreset => {
+  const { id } = definition.preset;
+  COLOR_PALETTES[id] = definition.colors;
+  TYPOGRAPHY_SCALES[id] = definition.typography;
+  SPACING_SCALES[id] = definition.spacing;
+  STYLE_PRESETS[id] = { ...definition.preset, colors: id, typography: id, spacing: id };
+  customPresets.set(id, definition);
+  return STYLE_PRESETS[id];
+};
+
+const persistCustomPresets = () => {
+  localStorage.setItem(CUSTOM_PRESETS_KEY, JSON.stringify(Array.from(customPresets.values())));
+};
+
+if (typeof localStorage !== 'undefined') {
+  try {
+    const stored: CustomPresetDefinition[] = JSON.parse(localStorage.getItem(CUSTOM_PRESETS_KEY) || '[]');
+    stored.filter((definition) => definition?.preset?.id && !(definition.preset.id in STYLE_PRESETS)).forEach(registerCustomPreset);
+  } catch (error) {
+    console.error('Failed to load custom presets:', error);
+  }
+}
+
+export function isCustomPreset(id: string): boolean {
+  return customPresets.has(id);
+}
+
+/**
+ * Add or replace a custom preset and keep it for later sessions
+ */
+export function saveCustomPreset(definition: CustomPresetDefinition): StylePreset {
+  if (STYLE_PRESETS[definition.preset.id] && !customPresets.has(definition.preset.id)) {
+    throw new Error(`"${definition.preset.id}" is a built-in preset`);
+  }
+  const preset = registerCustomPreset(definition);
+  persistCustomPresets();
+  return preset;
+}
+
+export function deleteCustomPreset(id: string): void {
+  if (!customPresets.delete(id)) return;
+  delete STYLE_PRESETS[id];
+  delete COLOR_PALETTES[id];
+  delete TYPOGRAPHY_SCALES[id];
+  delete SPACING_SCALES[id];
+  persistCustomPresets();
+}
@@ -0,0 +1,372 @@
+/**
+ * Design Tokens
+ * Export a style preset as CSS custom properties, a Tailwind theme extension or
+ * a W3C design-tokens (DTCG) JSON file, and read a tokens file back into a
+ * custom preset.
+ */
+
+import {
+  ColorPalette,
+  CustomPresetDefinition,
+  SpacingScale,
+  StylePreset,
+  TypographyScale,
+  getPresetById,
+  getPresetStyles,
+} from './design-system';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface TokenImportError {
+  // Dotted token path, e.g. `color.primary`
+  path: string;
+  message: string;
+}
+
+export interface TokenImportResult {
+  // Null when nothing usable was found
+  definition: CustomPresetDefinition | null;
+  errors: TokenImportError[];
+}
+
+interface ShadowLayer {
+  color: string;
+  offsetX: string;
+  offsetY: string;
+  blur: string;
+  spread: string;
+}
+
+type TextLevel = 'h1' | 'h2' | 'h3' | 'h4' | 'body' | 'small' | 'tiny';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const COLOR_KEYS: (keyof ColorPalette)[] = [
+  'primary', 'primaryDark', 'primaryLight', 'secondary', 'accent', 'background', 'surface', 'surfaceHover',
+  'text', 'textMuted', 'textInverse', 'border', 'success', 'warning', 'error',
+];
+
+const TEXT_LEVELS: TextLevel[] = ['h1', 'h2', 'h3', 'h4', 'body', 'small', 'tiny'];
+
+const SPACING_KEYS: (keyof SpacingScale)[] = ['xs', 'sm', 'md', 'lg', 'xl', '2xl', '3xl', '4xl', 'section', 'container'];
+
+// Same values as the Tailwind classes `generateTailwindClasses` picks
+const RADIUS_VALUES: Record<StylePreset['borderRadius'], string> = {
+  none: '0px',
+  sm: '0.25rem',
+  md: '0.375rem',
+  lg: '0.5rem',
+  xl: '0.75rem',
+  full: '9999px',
+};
+
+const SHADOW_LAYERS: Record<StylePreset['shadows'], ShadowLayer[]> = {
+  none: [],
+  subtle: [{ color: '#0000000d', offsetX: '0px', offsetY: '1px', blur: '2px', spread: '0px' }],
+  medium: [
+    { color: '#0000001a', offsetX: '0px', offsetY: '4px', blur: '6px', spread: '-1px' },
+    { color: '#0000001a', offsetX: '0px', offsetY: '2px', blur: '4px', spread: '-2px' },
+  ],
+  dramatic: [
+    { color: '#0000001a', offsetX: '0px', offsetY: '20px', blur: '25px', spread: '-5px' },
+    { color: '#0000001a', offsetX: '0px', offsetY: '8px', blur: '10px', spread: '-6px' },
+  ],
+};
+
+const BUTTON_STYLES: StylePreset['buttonStyle'][] = ['solid', 'outline', 'ghost', 'gradient'];
+const CARD_STYLES: StylePreset['cardStyle'][] = ['flat', 'elevated', 'outlined', 'glass'];
+const CATEGORIES: StylePreset['category'][] = ['modern', 'classic', 'bold', 'minimal', 'creative'];
+
+// Where preset settings that have no token type are kept
+const EXTENSION_KEY = 'aetheria.preset';
+
+// ============================================
+// EXPORT
+// ============================================
+
+const kebab = (key: string) => key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`);
+
+const shadowCSS = (layers: ShadowLayer[]) =>
+  layers.length === 0 ? 'none' : layers.map((l) => `${l.offsetX} ${l.offsetY} ${l.blur} ${l.spread} ${l.color}`).join(', ');
+
+const textStyle = (typography: TypographyScale, level: TextLevel) => typography[level];
+
+/**
+ * A preset as CSS custom properties on `:root`
+ */
+export function exportCSSVariables(preset: StylePreset): string {
+  const { colors, typography, spacing } = getPresetStyles(preset.id);
+  const lines: string[] = [];
+  const section = (comment: string, entries: [string, string][]) => {
+    lines.push(`  /* ${comment} */`, ...entries.map(([name, value]) => `  --${name}: ${value};`), '');
+  };
+
+  section('Colors', COLOR_KEYS.map((key) => [`color-${kebab(key)}`, colors[key]]));
+  if (colors.gradient) section('Gradient', [['gradient', colors.gradient]]);
+  section('Typography', [
+    ['font-family', typography.fontFamily],
+    ['font-family-heading', typography.headingFamily],
+    ...TEXT_LEVELS.flatMap((level): [string, string][] => [
+      [`font-size-${level}`, textStyle(typography, level).size],
+      [`font-weight-${level}`, textStyle(typography, level).weight],
+      [`line-height-${level}`, textStyle(typography, level).lineHeight],
+    ]),
+  ]);
+  section('Spacing', SPACING_KEYS.map((key) => [`spacing-${key}`, spacing[key]]));
+  section('Shape', [
+    ['radius', RADIUS_VALUES[preset.borderRadius]],
+    ['shadow', shadowCSS(SHADOW_LAYERS[preset.shadows])],
+  ]);
+
+  return `/* ${preset.name} design tokens */\n:root {\n${lines.join('\n').trimEnd()}\n}\n`;
+}
+
+/**
+ * A `tailwind.config.js` that extends the theme with a preset's tokens. Colors
+ * are namespaced under `brand` so they do not replace the shadcn/ui theme colors.
+ */
+export function exportTailwindConfig(preset: StylePreset): string {
+  const { colors, typography, spacing } = getPresetStyles(preset.id);
+  const extend = {
+    colors: {
+      brand: Object.fromEntries(COLOR_KEYS.map((key) => [kebab(key), colors[key]])),
+    },
+    fontFamily: {
+      sans: typography.fontFamily.split(',').map((family) => family.trim()),
+      heading: typography.headingFamily.split(',').map((family) => family.trim()),
+    },
+    fontSize: Object.fromEntries(TEXT_LEVELS.map((level) => {
+      const style = textStyle(typography, level);
+      return [level, [style.size, { lineHeight: style.lineHeight, fontWeight: style.weight }]];
+    })),
+    spacing: Object.fromEntries(SPACING_KEYS.map((key) => [key, spacing[key]])),
+    borderRadius: { brand: RADIUS_VALUES[preset.borderRadius] },
+    boxShadow: { brand: shadowCSS(SHADOW_LAYERS[preset.shadows]) },
+    ...(colors.gradient ? { backgroundImage: { 'brand-gradient': colors.gradient } } : {}),
+  };
+  // Unquote keys that are valid identifiers
+  const body = JSON.stringify(extend, null, 2).replace(/"([A-Za-z_$][\w$]*)":/g, '$1:').replace(/\n/g, '\n    ');
+
+  return `/** @type {import('tailwindcss').Config} */
+// ${preset.name} design tokens
+export default {
+  theme: {
+    extend: ${body},
+  },
+};
+`;
+}
+
+/**
+ * A preset as a W3C design-tokens (DTCG) JSON document
+ */
+export function exportDesignTokens(preset: StylePreset): string {
+  const { colors, typography, spacing } = getPresetStyles(preset.id);
+  const group = (type: string, entries: [string, unknown][]) => ({
+    $type: type,
+    ...Object.fromEntries(entries.map(([name, value]) => [name, { $value: value }])),
+  });
+
+  const tokens = {
+    $description: `${preset.name} design tokens`,
+    color: group('color', COLOR_KEYS.map((key) => [kebab(key), colors[key]])),
+    'font-family': group('fontFamily', [
+      ['body', typography.fontFamily.split(',').map((family) => family.trim())],
+      ['heading', typography.headingFamily.split(',').map((family) => family.trim())],
+    ]),
+    'font-size': group('dimension', TEXT_LEVELS.map((level) => [level, textStyle(typography, level).size])),
+    'font-weight': group('fontWeight', TEXT_LEVELS.map((level) => [level, Number(textStyle(typography, level).weight)])),
+    'line-height': group('number', TEXT_LEVELS.map((level) => [level, Number(textStyle(typography, level).lineHeight)])),
+    spacing: group('dimension', SPACING_KEYS.map((key) => [key, spacing[key]])),
+    radius: { $type: 'dimension', $value: RADIUS_VALUES[preset.borderRadius] },
+    shadow: { $type: 'shadow', $value: SHADOW_LAYERS[preset.shadows] },
+    $extensions: {
+      [EXTENSION_KEY]: {
+        id: preset.id,
+        name: preset.name,
+        description: preset.description,
+        category: preset.category,
+        buttonStyle: preset.buttonStyle,
+        cardStyle: preset.cardStyle,
+        animations: preset.animations,
+        // A CSS gradient; DTCG gradients are stop lists and cannot hold it
+        ...(colors.gradient ? { gradient: colors.gradient } : {}),
+      },
+    },
+  };
+  return JSON.stringify(tokens, null, 2);
+}
+
+/**
+ * Download a token export as a file
+ */
+export function downloadTokenFile(content: string, filename: string): void {
+  const type = filename.endsWith('.json') ? 'application/json' : filename.endsWith('.css') ? 'text/css' : 'text/javascript';
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+// A token's value; plain values without `$value` are accepted too
+const tokenValue = (node: unknown): unknown => (isObject(node) && '$value' in node ? node.$value : node);
+
+const isColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^(#[0-9a-f]{3,8}|(rgb|rgba|hsl|hsla|oklch)\(.+\)|transparent)$/i.test(value.trim());
+
+// Dimensions as rem strings (the scales are in rem)
+const toRem = (value: unknown): string | null => {
+  const raw = isObject(value) ? `${value.value}${value.unit}` : typeof value === 'number' ? `${value}px` : value;
+  const match = typeof raw === 'string' ? raw.trim().match(/^(-?\d*\.?\d+)(rem|px|em)$/) : null;
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  return match[2] === 'px' ? `${Math.round((amount / 16) * 10000) / 10000}rem` : `${amount}rem`;
+};
+
+const FONT_WEIGHT_NAMES: Record<string, number> = {
+  thin: 100, extralight: 200, light: 300, normal: 400, regular: 400, medium: 500, semibold: 600, bold: 700, extrabold: 800, black: 900,
+};
+
+const toFontWeight = (value: unknown): string | null => {
+  const weight = typeof value === 'string' ? FONT_WEIGHT_NAMES[value.toLowerCase().replace(/[\s-]/g, '')] ?? Number(value) : value;
+  return typeof weight === 'number' && weight >= 1 && weight <= 1000 ? String(weight) : null;
+};
+
+const toLineHeight = (value: unknown): string | null => {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? String(number) : null;
+};
+
+const toFontFamily = (value: unknown): string | null => {
+  if (Array.isArray(value) && value.every((family) => typeof family === 'string') && value.length > 0) return value.join(', ');
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
+
+const toPx = (value: unknown): number | null => {
+  const rem = toRem(value);
+  return rem === null ? null : parseFloat(rem) * 16;
+};
+
+// The preset radius closest to a radius token
+const toRadius = (value: unknown): StylePreset['borderRadius'] | null => {
+  const px = toPx(value);
+  if (px === null) return null;
+  if (px >= 100) return 'full';
+  const distance = (key: StylePreset['borderRadius']) => Math.abs(toPx(RADIUS_VALUES[key])! - px);
+  return (['none', 'sm', 'md', 'lg', 'xl'] as const).reduce((best, key) => (distance(key) < distance(best) ? key : best));
+};
+
+// The preset shadow closest to a shadow token, judged by the blur of its largest layer
+const toShadows = (value: unknown): StylePreset['shadows'] | null => {
+  if (value === 'none') return 'none';
+  const layers = Array.isArray(value) ? value : isObject(value) ? [value] : null;
+  if (!layers) return null;
+  if (layers.length === 0) return 'none';
+  const blur = Math.max(...layers.map((layer) => (isObject(layer) ? toPx(layer.blur) ?? 0 : 0)));
+  if (blur === 0) return 'none';
+  return blur <= 3 ? 'subtle' : blur <= 12 ? 'medium' : 'dramatic';
+};
+
+const slug = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'preset';
+
+/**
+ * Read a design-tokens JSON document into a new custom preset. Tokens that are
+ * missing or invalid keep the value of `base` and are reported.
+ */
+export function importDesignTokens(text: string, base: StylePreset = getPresetById('modernSaas')): TokenImportResult {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    return { definition: null, errors: [{ path: '', message: `Invalid JSON: ${(error as Error).message}` }] };
+  }
+  if (!isObject(document)) {
+    return { definition: null, errors: [{ path: '', message: 'Expected a JSON object of token groups' }] };
+  }
+
+  const errors: TokenImportError[] = [];
+  const fallback = getPresetStyles(base.id);
+  let found = 0;
+
+  // Read one token, falling back (and reporting) when it is missing or invalid
+  const read = <T>(path: string, parse: (value: unknown) => T | null, fallbackValue: T): T => {
+    const node = path.split('.').reduce<unknown>((current, key) => (isObject(current) ? current[key] : undefined), document);
+    if (node === undefined) {
+      errors.push({ path, message: 'Missing; kept the base value' });
+      return fallbackValue;
+    }
+    const parsed = parse(tokenValue(node));
+    if (parsed === null) {
+      errors.push({ path, message: `Invalid value ${JSON.stringify(tokenValue(node))}; kept the base value` });
+      return fallbackValue;
+    }
+    found++;
+    return parsed;
+  };
+
+  const colors = Object.fromEntries(
+    COLOR_KEYS.map((key) => [key, read(`color.${kebab(key)}`, (value) => (isColor(value) ? value.trim() : null), fallback.colors[key])])
+  ) as unknown as ColorPalette;
+
+  const typography = {
+    fontFamily: read('font-family.body', toFontFamily, fallback.typography.fontFamily),
+    headingFamily: read('font-family.heading', toFontFamily, fallback.typography.headingFamily),
+    ...Object.fromEntries(TEXT_LEVELS.map((level) => [level, {
+      size: read(`font-size.${level}`, toRem, fallback.typography[level].size),
+      weight: read(`font-weight.${level}`, toFontWeight, fallback.typography[level].weight),
+      lineHeight: read(`line-height.${level}`, toLineHeight, fallback.typography[level].lineHeight),
+    }])),
+  } as TypographyScale;
+
+  const spacing = Object.fromEntries(
+    SPACING_KEYS.map((key) => [key, read(`spacing.${key}`, toRem, fallback.spacing[key])])
+  ) as unknown as SpacingScale;
+
+  const borderRadius = read('radius', toRadius, base.borderRadius);
+  const shadows = read('shadow', toShadows, base.shadows);
+
+  if (found === 0) {
+    return { definition: null, errors: [{ path: '', message: 'No design tokens found' }] };
+  }
+
+  const meta = isObject(document.$extensions?.[EXTENSION_KEY]) ? document.$extensions[EXTENSION_KEY] : {};
+  const gradient = typeof meta.gradient === 'string' && /gradient\(/.test(meta.gradient) ? meta.gradient : fallback.colors.gradient;
+  if (gradient) colors.gradient = gradient;
+  const name = typeof meta.name === 'string' && meta.name.trim()
+    ? meta.name.trim()
+    : typeof document.$description === 'string' && document.$description.trim()
+      ? document.$description.replace(/\s*design tokens$/i, '').trim()
+      : 'Imported Preset';
+
+  const preset: StylePreset = {
+    id: `custom-${slug(name)}-${Date.now().toString(36)}`,
+    name,
+    description: typeof meta.description === 'string' ? meta.description : 'Imported from design tokens',
+    category: CATEGORIES.includes(meta.category) ? meta.category : base.category,
+    colors: base.colors,
+    typography: base.typography,
+    spacing: base.spacing,
+    borderRadius,
+    shadows,
+    buttonStyle: BUTTON_STYLES.includes(meta.buttonStyle) ? meta.buttonStyle : base.buttonStyle,
+    cardStyle: CARD_STYLES.includes(meta.cardStyle) ? meta.cardStyle : base.cardStyle,
+    animations: typeof meta.animations === 'boolean' ? meta.animations : base.animations,
+  };
+
+  return { definition: { preset, colors, typography, spacing }, errors };
+}
+
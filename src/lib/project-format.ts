@@ -0,0 +1,499 @@
+/**
+ * Project Format
+ * Versioned JSON snapshot of the builder canvas, plus an importer that rebuilds
+ * the component tree from that snapshot or from a generated blueprint markdown.
+ */
+
+import { nanoid } from 'nanoid';
+import {
+  Component,
+  ComponentType,
+  ComponentPosition,
+  COMPONENT_TYPES,
+  canHaveChildren,
+  getDefaultProps,
+  getDefaultSize,
+} from '@/store/builder-store';
+import { BREAKPOINT_CONFIG, OVERRIDE_BREAKPOINTS, OverrideBreakpoint, ResponsiveOverrides } from './responsive';
+import { SymbolInfo, SymbolInstance, syncInstances } from './symbols';
+
+// ============================================
+// TYPES
+// ============================================
+
+export const PROJECT_FORMAT = 'aetheria-project';
+export const PROJECT_FORMAT_VERSION = 1;
+
+// A component flattened to a single record; the tree is rebuilt from parent links
+export interface ProjectNode {
+  id: string;
+  type: ComponentType;
+  parentId: string | null;
+  props: Record<string, any>;
+  position: ComponentPosition;
+  responsive?: ResponsiveOverrides;
+  symbol?: SymbolInfo;
+  instance?: SymbolInstance;
+  masterId?: string;
+}
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  // Depth-first order; siblings keep their canvas order
+  nodes: ProjectNode[];
+}
+
+export interface ProjectImportError {
+  nodeId?: string;
+  // 1-based line in the blueprint markdown, when importing from markdown
+  line?: number;
+  message: string;
+}
+
+export interface ProjectImportResult {
+  source: 'json' | 'blueprint';
+  components: Component[];
+  errors: ProjectImportError[];
+}
+
+// Loosely typed node as read from untrusted input
+interface RawNode {
+  id?: unknown;
+  type?: unknown;
+  parentId?: unknown;
+  props?: unknown;
+  position?: unknown;
+  responsive?: unknown;
+  symbol?: unknown;
+  instance?: unknown;
+  masterId?: unknown;
+  line?: number;
+}
+
+// ============================================
+// EXPORT
+// ============================================
+
+/**
+ * Flatten the component tree into a versioned project file
+ */
+export function serializeProject(components: Component[], name: string = 'Untitled Project'): ProjectFile {
+  const nodes: ProjectNode[] = [];
+  const visit = (node: Component, parentId: string | null) => {
+    nodes.push({
+      id: node.id,
+      type: node.type,
+      parentId,
+      props: node.props,
+      position: node.position,
+      ...(node.responsive ? { responsive: node.responsive } : {}),
+      ...(node.symbol ? { symbol: node.symbol } : {}),
+      ...(node.instance ? { instance: node.instance } : {}),
+      ...(node.masterId ? { masterId: node.masterId } : {}),
+    });
+    node.children.forEach((child) => visit(child, node.id));
+  };
+  components.forEach((component) => visit(component, null));
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_FORMAT_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    nodes,
+  };
+}
+
+/**
+ * Serialize the canvas and trigger a browser download of the project JSON
+ */
+export function downloadProjectJSON(components: Component[], filename: string = 'aetheria-project.json'): void {
+  const json = JSON.stringify(serializeProject(components), null, 2);
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Rebuild a component tree from project JSON or blueprint markdown.
+ * Nodes that cannot be reconstructed are dropped and listed in `errors`.
+ */
+export function importProject(text: string): ProjectImportResult {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return parseProjectJSON(trimmed);
+  }
+  return parseBlueprintMarkdown(trimmed);
+}
+
+/**
+ * Parse project file JSON text
+ */
+export function parseProjectJSON(text: string): ProjectImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    return {
+      source: 'json',
+      components: [],
+      errors: [{ message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }],
+    };
+  }
+
+  return deserializeProject(data);
+}
+
+/**
+ * Rebuild the component tree from an already parsed project file.
+ * A bare array of components (the store's own shape) is also accepted.
+ */
+export function deserializeProject(data: unknown): ProjectImportResult {
+  if (Array.isArray(data)) {
+    return { source: 'json', ...buildTree(flattenTree(data)) };
+  }
+
+  const file = data as Partial<ProjectFile> | null;
+  if (!file || typeof file !== 'object' || file.format !== PROJECT_FORMAT) {
+    return { source: 'json', components: [], errors: [{ message: 'Not an Aetheria project file' }] };
+  }
+  if (typeof file.version !== 'number' || file.version > PROJECT_FORMAT_VERSION) {
+    return {
+      source: 'json',
+      components: [],
+      errors: [{ message: `Unsupported project version: ${String(file.version)}` }],
+    };
+  }
+  if (!Array.isArray(file.nodes)) {
+    return { source: 'json', components: [], errors: [{ message: 'Project file has no "nodes" array' }] };
+  }
+
+  return { source: 'json', ...buildTree(file.nodes) };
+}
+
+/**
+ * Parse the markdown produced by `generateBlueprint`.
+ * Older blueprints without a Position line fall back to default placement.
+ */
+export function parseBlueprintMarkdown(text: string): ProjectImportResult {
+  const nodes: RawNode[] = [];
+  const errors: ProjectImportError[] = [];
+  // Most recent node at each nesting depth
+  const stack: RawNode[] = [];
+  let inStructure = false;
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = index + 1;
+    if (/^##\s/.test(rawLine)) {
+      inStructure = /^##\s+Structure/.test(rawLine);
+      return;
+    }
+    if (!inStructure || !rawLine.trim() || /^\s*\*No components/.test(rawLine)) return;
+
+    const nodeMatch = rawLine.match(/^(\s*)- \*\*([^*]+)\*\* \(ID: `([^`]*)`\)\s*$/);
+    if (nodeMatch) {
+      const depth = Math.floor(nodeMatch[1].length / 2);
+      const parent = depth > 0 ? stack[depth - 1] : undefined;
+      const node: RawNode = {
+        id: nodeMatch[3],
+        type: nodeMatch[2].toLowerCase(),
+        parentId: parent ? parent.id : null,
+        props: {},
+        line,
+      };
+      if (depth > 0 && !parent) {
+        errors.push({ nodeId: nodeMatch[3], line, message: 'Indented without a parent component' });
+      }
+      stack.length = depth;
+      stack[depth] = node;
+      nodes.push(node);
+      return;
+    }
+
+    const detailMatch = rawLine.match(/^(\s*)- (?:(Tablet|Mobile) )?(Props|Position|Content): (.*)$/);
+    const owner = detailMatch ? stack[Math.floor(detailMatch[1].length / 2) - 1] : undefined;
+    if (!detailMatch || !owner) {
+      errors.push({ line, message: `Unrecognized line: ${rawLine.trim()}` });
+      return;
+    }
+
+    const [, , breakpointLabel, field, value] = detailMatch;
+    const props = owner.props as Record<string, any>;
+    if (breakpointLabel) {
+      // "- Tablet Props: {...}" / "- Mobile Position: {...}" overrides
+      const breakpoint = OVERRIDE_BREAKPOINTS.find((bp) => BREAKPOINT_CONFIG[bp].label === breakpointLabel)!;
+      const responsive = (owner.responsive ?? {}) as Record<string, Record<string, any>>;
+      responsive[breakpoint] = { ...responsive[breakpoint], [field === 'Position' ? 'position' : 'props']: parseBlueprintProps(value) };
+      owner.responsive = responsive;
+    } else if (field === 'Props') {
+      Object.assign(props, parseBlueprintProps(value));
+    } else if (field === 'Content') {
+      props.children = parseQuoted(value.trim());
+    } else {
+      const position = parseBlueprintProps(value);
+      owner.position = position;
+      if (Object.keys(position).length === 0) {
+        errors.push({ nodeId: String(owner.id), line, message: 'Could not read position; using defaults' });
+      }
+    }
+  });
+
+  if (nodes.length === 0 && errors.length === 0 && !/^\s*\*No components/m.test(text)) {
+    errors.push({ message: 'No components found in blueprint' });
+  }
+
+  const result = buildTree(nodes);
+  return { source: 'blueprint', components: result.components, errors: [...errors, ...result.errors] };
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Parses `{ key: "value", other: 12, list: ["a"], flag: true }` as written by generateBlueprint
+const parseBlueprintProps = (value: string): Record<string, any> => {
+  const body = value.trim().replace(/^\{/, '').replace(/\}$/, '');
+  const props: Record<string, any> = {};
+  const pattern = /(\w+): (?:("(?:[^"\\]|\\.)*"|".*?")|(-?\d+(?:\.\d+)?)|(\[.*?\]|true|false))(?=, \w+: |\s*$)/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(body)) !== null) {
+    if (match[4] !== undefined) {
+      props[match[1]] = parseJSONValue(match[4]);
+    } else {
+      props[match[1]] = match[3] !== undefined ? Number(match[3]) : parseQuoted(match[2]);
+    }
+  }
+  return props;
+};
+
+// Strings are written as JSON; blueprints from before that wrapped the raw text in quotes
+const parseQuoted = (value: string): string => {
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed === 'string') return parsed;
+  } catch {
+    // Not JSON; fall through
+  }
+  return value.replace(/^"/, '').replace(/"$/, '');
+};
+
+// Lists and flags written as JSON; anything unreadable is kept as text
+const parseJSONValue = (value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+};
+
+// Flatten a nested Component[] into raw parent-linked nodes
+const flattenTree = (components: any[], parentId: string | null = null): RawNode[] => {
+  const nodes: RawNode[] = [];
+  components.forEach((component) => {
+    if (!component || typeof component !== 'object') {
+      nodes.push({ parentId });
+      return;
+    }
+    nodes.push({ ...component, parentId });
+    if (Array.isArray(component.children)) {
+      nodes.push(...flattenTree(component.children, typeof component.id === 'string' ? component.id : null));
+    }
+  });
+  return nodes;
+};
+
+// Restore numeric and boolean props that blueprint markdown wrote as strings
+const coerceProps = (type: ComponentType, props: Record<string, any>): Record<string, any> => {
+  const defaults = getDefaultProps(type);
+  const result: Record<string, any> = { ...defaults };
+  Object.entries(props).forEach(([key, value]) => {
+    if (typeof defaults[key] === 'number' && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+      result[key] = Number(value);
+    } else if (typeof defaults[key] === 'boolean' && (value === 'true' || value === 'false')) {
+      result[key] = value === 'true';
+    } else {
+      result[key] = value;
+    }
+  });
+  return result;
+};
+
+const toPosition = (type: ComponentType, raw: unknown): ComponentPosition => {
+  const size = getDefaultSize(type);
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const read = (key: string, fallback: number) =>
+    typeof value[key] === 'number' && isFinite(value[key] as number) ? (value[key] as number) : fallback;
+  return {
+    x: read('x', 100),
+    y: read('y', 100),
+    width: Math.max(1, read('width', size.width)),
+    height: Math.max(1, read('height', size.height)),
+  };
+};
+
+// Keep only well-formed tablet/mobile overrides; null when the value is not an object
+const toResponsive = (raw: unknown): ResponsiveOverrides | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const result: ResponsiveOverrides = {};
+  OVERRIDE_BREAKPOINTS.forEach((breakpoint: OverrideBreakpoint) => {
+    const override = (raw as Record<string, any>)[breakpoint];
+    if (!override || typeof override !== 'object') return;
+
+    const position: Partial<ComponentPosition> = {};
+    (['x', 'y', 'width', 'height'] as const).forEach((key) => {
+      const value = override.position?.[key];
+      if (typeof value === 'number' && isFinite(value)) position[key] = value;
+    });
+    const props = override.props && typeof override.props === 'object' && !Array.isArray(override.props)
+      ? override.props as Record<string, any>
+      : undefined;
+
+    if (Object.keys(position).length > 0 || props) {
+      result[breakpoint] = {
+        ...(Object.keys(position).length > 0 ? { position } : {}),
+        ...(props ? { props } : {}),
+      };
+    }
+  });
+  return result;
+};
+
+const toSymbol = (raw: unknown): SymbolInfo | null => {
+  const value = raw as Record<string, unknown> | null;
+  if (!value || typeof value !== 'object' || typeof value.id !== 'string' || !value.id) return null;
+  return { id: value.id, name: typeof value.name === 'string' && value.name ? value.name : 'Symbol' };
+};
+
+// Overrides that are not objects of props are dropped
+const toInstance = (raw: unknown): SymbolInstance | null => {
+  const value = raw as Record<string, unknown> | null;
+  if (!value || typeof value !== 'object' || typeof value.symbolId !== 'string') return null;
+  const overrides = value.overrides && typeof value.overrides === 'object' ? value.overrides as Record<string, unknown> : {};
+  return {
+    symbolId: value.symbolId,
+    overrides: Object.fromEntries(
+      Object.entries(overrides).filter(([, props]) => props && typeof props === 'object' && !Array.isArray(props))
+    ) as SymbolInstance['overrides'],
+  };
+};
+
+// Validate raw nodes and link them into a tree. Children of a dropped node are
+// promoted to the root so their content is not lost.
+const buildTree = (rawNodes: RawNode[]): { components: Component[]; errors: ProjectImportError[] } => {
+  const errors: ProjectImportError[] = [];
+  const byId = new Map<string, Component>();
+  const roots: Component[] = [];
+  const linked: { component: Component; parentId: string | null; line?: number }[] = [];
+  // Source id to the id of the latest node read with it. Nodes come parent
+  // first, so a child names the nearest node above it even when ids repeat.
+  const latestIds = new Map<string, string>();
+
+  rawNodes.forEach((raw, index) => {
+    if (!raw || typeof raw !== 'object') {
+      errors.push({ nodeId: `#${index + 1}`, message: 'Node is not an object' });
+      return;
+    }
+    const label = typeof raw.id === 'string' && raw.id ? raw.id : `#${index + 1}`;
+    if (typeof raw.type !== 'string' || !COMPONENT_TYPES.includes(raw.type as ComponentType)) {
+      errors.push({ nodeId: label, line: raw.line, message: `Unknown component type "${String(raw.type)}"` });
+      return;
+    }
+    if (raw.props !== undefined && (typeof raw.props !== 'object' || raw.props === null || Array.isArray(raw.props))) {
+      errors.push({ nodeId: label, line: raw.line, message: 'Props must be an object' });
+      return;
+    }
+
+    let id = typeof raw.id === 'string' && raw.id ? raw.id : nanoid();
+    if (byId.has(id)) {
+      errors.push({ nodeId: id, line: raw.line, message: 'Duplicate ID; assigned a new one' });
+      id = nanoid();
+    }
+    const sourceParentId = typeof raw.parentId === 'string' ? raw.parentId : null;
+    const parentId = sourceParentId ? latestIds.get(sourceParentId) ?? sourceParentId : null;
+    if (typeof raw.id === 'string' && raw.id) {
+      latestIds.set(raw.id, id);
+    }
+
+    const type = raw.type as ComponentType;
+    const component: Component = {
+      id,
+      type,
+      props: coerceProps(type, (raw.props as Record<string, any>) ?? {}),
+      children: [],
+      parentId: null,
+      position: toPosition(type, raw.position),
+    };
+    if (raw.responsive !== undefined) {
+      const responsive = toResponsive(raw.responsive);
+      if (responsive) {
+        component.responsive = responsive;
+      } else {
+        errors.push({ nodeId: id, line: raw.line, message: 'Could not read breakpoint overrides; ignored' });
+      }
+    }
+    if (raw.symbol !== undefined) {
+      const symbol = toSymbol(raw.symbol);
+      if (symbol) {
+        component.symbol = symbol;
+      } else {
+        errors.push({ nodeId: id, line: raw.line, message: 'Could not read symbol; imported as a plain component' });
+      }
+    }
+    if (raw.instance !== undefined) {
+      const instance = toInstance(raw.instance);
+      if (instance) {
+        component.instance = instance;
+      } else {
+        errors.push({ nodeId: id, line: raw.line, message: 'Could not read symbol instance; imported as plain components' });
+      }
+    }
+    if (typeof raw.masterId === 'string') {
+      component.masterId = raw.masterId;
+    }
+    byId.set(id, component);
+    linked.push({ component, parentId, line: raw.line });
+  });
+
+  // True when `ancestorId` already sits above `node` in the links made so far
+  const isAncestor = (ancestorId: string, node: Component): boolean => {
+    for (let current: Component | undefined = node; current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+      if (current.id === ancestorId) return true;
+    }
+    return false;
+  };
+
+  linked.forEach(({ component, parentId, line }) => {
+    let parent = parentId ? byId.get(parentId) : undefined;
+    if (parentId && !parent) {
+      errors.push({ nodeId: component.id, line, message: `Parent "${parentId}" not found; placed at the root` });
+    } else if (parent && !canHaveChildren(parent.type)) {
+      errors.push({ nodeId: component.id, line, message: `A ${parent.type} cannot contain components; placed at the root` });
+      parent = undefined;
+    } else if (parent && isAncestor(component.id, parent)) {
+      errors.push({ nodeId: component.id, line, message: 'Parent link forms a cycle; placed at the root' });
+      parent = undefined;
+    }
+    if (parent) {
+      component.parentId = parent.id;
+      parent.children.push(component);
+    } else {
+      roots.push(component);
+    }
+  });
+
+  // Instances are rebuilt from their masters; ones whose master is missing are detached
+  syncInstances(roots);
+  return { components: roots, errors };
+};
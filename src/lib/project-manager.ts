@@ -0,0 +1,161 @@
+/**
+ * Project Manager
+ * CRUD for builder projects stored in IndexedDB
+ */
+
+import { db, Project, Conversation, generateProjectId, getSetting, setSetting } from './db';
+import { serializeProject } from './project-format';
+import { Component } from '@/store/builder-store';
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const ACTIVE_PROJECT_KEY = 'activeProjectId';
+
+// ============================================
+// PROJECT CRUD
+// ============================================
+
+/**
+ * Create a new project, optionally seeded with components
+ */
+export async function createProject(name: string = 'Untitled Project', components: Component[] = []): Promise<Project> {
+  const now = Date.now();
+  const project: Project = {
+    id: generateProjectId(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    lastOpenedAt: now,
+    componentCount: countComponents(components),
+    snapshot: serializeProject(components, name),
+  };
+
+  await db.projects.add(project);
+  return project;
+}
+
+/**
+ * Get all projects, most recently edited first
+ */
+export async function listProjects(): Promise<Project[]> {
+  return db.projects.orderBy('updatedAt').reverse().toArray();
+}
+
+/**
+ * Get a single project
+ */
+export async function getProject(id: string): Promise<Project | undefined> {
+  return db.projects.get(id);
+}
+
+/**
+ * Replace a project's canvas contents
+ */
+export async function saveProjectComponents(id: string, components: Component[]): Promise<void> {
+  const project = await db.projects.get(id);
+  if (!project) return;
+
+  await db.projects.update(id, {
+    snapshot: serializeProject(components, project.name),
+    componentCount: countComponents(components),
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Rename a project
+ */
+export async function renameProject(id: string, name: string): Promise<void> {
+  const project = await db.projects.get(id);
+  if (!project) return;
+
+  await db.projects.update(id, {
+    name,
+    snapshot: { ...project.snapshot, name },
+    updatedAt: Date.now(),
+  });
+}
+
+/**
+ * Copy a project's canvas into a new project. Conversations stay with the original.
+ */
+export async function duplicateProject(id: string, name?: string): Promise<Project | undefined> {
+  const project = await db.projects.get(id);
+  if (!project) return undefined;
+
+  const now = Date.now();
+  const copyName = name ?? `${project.name} (copy)`;
+  const copy: Project = {
+    ...project,
+    id: generateProjectId(),
+    name: copyName,
+    createdAt: now,
+    updatedAt: now,
+    lastOpenedAt: now,
+    snapshot: { ...project.snapshot, name: copyName },
+  };
+
+  await db.projects.add(copy);
+  return copy;
+}
+
+/**
+ * Delete a project. Its conversations are kept but no longer linked to it.
+ */
+export async function deleteProject(id: string): Promise<void> {
+  await db.transaction('rw', db.projects, db.conversations, async () => {
+    await db.conversations.where('projectId').equals(id).modify({ projectId: undefined });
+    await db.projects.delete(id);
+  });
+
+  if (await getActiveProjectId() === id) {
+    await setSetting<string | null>(ACTIVE_PROJECT_KEY, null);
+  }
+}
+
+// ============================================
+// ACTIVE PROJECT
+// ============================================
+
+/**
+ * Get the ID of the project open in the builder
+ */
+export async function getActiveProjectId(): Promise<string | null> {
+  return getSetting<string | null>(ACTIVE_PROJECT_KEY, null);
+}
+
+/**
+ * Remember the project open in the builder and bump its last-opened time
+ */
+export async function setActiveProjectId(id: string): Promise<void> {
+  await setSetting(ACTIVE_PROJECT_KEY, id);
+  await db.projects.update(id, { lastOpenedAt: Date.now() });
+}
+
+// ============================================
+// CONVERSATIONS
+// ============================================
+
+/**
+ * Get the conversations that edited a project, most recent first
+ */
+export async function getProjectConversations(projectId: string): Promise<Conversation[]> {
+  const conversations = await db.conversations.where('projectId').equals(projectId).toArray();
+  return conversations
+    .filter(c => c.state !== 'deleted')
+    .sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function countComponents(components: Component[]): number {
+  let count = 0;
+  components.forEach(c => {
+    count += 1 + countComponents(c.children);
+  });
+  return count;
+}
@@ -0,0 +1,570 @@
+/**
+ * React Project Export
+ * Turns the builder component tree into a runnable Vite + React + Tailwind project
+ * using the same shadcn/ui components the canvas renders.
+ */
+
+import { zipSync, strToU8 } from 'fflate';
+import { Component } from '@/store/builder-store';
+import { cn } from '@/lib/utils';
+import { generateLayoutCSS, getNodeClassName, getPropVariants, getVariantClassName } from '@/lib/responsive';
+import { toList, toRows } from '@/lib/component-props';
+import avatarSource from '@/components/ui/avatar.tsx?raw';
+import badgeSource from '@/components/ui/badge.tsx?raw';
+import buttonSource from '@/components/ui/button.tsx?raw';
+import cardSource from '@/components/ui/card.tsx?raw';
+import checkboxSource from '@/components/ui/checkbox.tsx?raw';
+import inputSource from '@/components/ui/input.tsx?raw';
+import labelSource from '@/components/ui/label.tsx?raw';
+import selectSource from '@/components/ui/select.tsx?raw';
+import tableSource from '@/components/ui/table.tsx?raw';
+import tabsSource from '@/components/ui/tabs.tsx?raw';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ReactExportOptions {
+  projectName?: string;
+}
+
+// Map of file path (relative to project root) to file contents
+export type ProjectFiles = Record<string, string>;
+
+type UIComponentName = 'avatar' | 'badge' | 'button' | 'card' | 'checkbox' | 'input' | 'label' | 'select' | 'table' | 'tabs';
+
+const UI_SOURCES: Record<UIComponentName, string> = {
+  avatar: avatarSource,
+  badge: badgeSource,
+  button: buttonSource,
+  card: cardSource,
+  checkbox: checkboxSource,
+  input: inputSource,
+  label: labelSource,
+  select: selectSource,
+  table: tableSource,
+  tabs: tabsSource,
+};
+
+const UI_IMPORTS: Record<UIComponentName, string> = {
+  avatar: "import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';",
+  badge: "import { Badge } from '@/components/ui/badge';",
+  button: "import { Button } from '@/components/ui/button';",
+  card: "import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '@/components/ui/card';",
+  checkbox: "import { Checkbox } from '@/components/ui/checkbox';",
+  input: "import { Input } from '@/components/ui/input';",
+  label: "import { Label } from '@/components/ui/label';",
+  select: "import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';",
+  table: "import { Table, TableHeader, TableBody, TableRow, TableHead, TableCell } from '@/components/ui/table';",
+  tabs: "import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';",
+};
+
+// npm packages each shadcn/ui source imports beyond the base dependencies
+const UI_DEPENDENCIES: Partial<Record<UIComponentName, Record<string, string>>> = {
+  avatar: { '@radix-ui/react-avatar': '^1.1.10' },
+  button: { '@radix-ui/react-slot': '^1.2.3' },
+  checkbox: { '@radix-ui/react-checkbox': '^1.3.2', 'lucide-react': '^0.562.0' },
+  label: { '@radix-ui/react-label': '^2.1.7' },
+  select: { '@radix-ui/react-select': '^2.2.5', 'lucide-react': '^0.562.0' },
+  tabs: { '@radix-ui/react-tabs': '^1.1.12' },
+};
+
+// ============================================
+// STATIC PROJECT FILES
+// ============================================
+
+const TAILWIND_CONFIG = `/** @type {import('tailwindcss').Config} */
+export default {
+  darkMode: ['class'],
+  content: ['./index.html', './src/**/*.{js,ts,jsx,tsx}'],
+  theme: {
+    extend: {
+      borderRadius: {
+        lg: 'var(--radius)',
+        md: 'calc(var(--radius) - 2px)',
+        sm: 'calc(var(--radius) - 4px)',
+      },
+      colors: {
+        background: 'hsl(var(--background))',
+        foreground: 'hsl(var(--foreground))',
+        card: { DEFAULT: 'hsl(var(--card))', foreground: 'hsl(var(--card-foreground))' },
+        primary: { DEFAULT: 'hsl(var(--primary))', foreground: 'hsl(var(--primary-foreground))' },
+        secondary: { DEFAULT: 'hsl(var(--secondary))', foreground: 'hsl(var(--secondary-foreground))' },
+        muted: { DEFAULT: 'hsl(var(--muted))', foreground: 'hsl(var(--muted-foreground))' },
+        accent: { DEFAULT: 'hsl(var(--accent))', foreground: 'hsl(var(--accent-foreground))' },
+        destructive: { DEFAULT: 'hsl(var(--destructive))', foreground: 'hsl(var(--destructive-foreground))' },
+        border: 'hsl(var(--border))',
+        input: 'hsl(var(--input))',
+        ring: 'hsl(var(--ring))',
+      },
+    },
+  },
+  plugins: [],
+};
+`;
+
+const INDEX_CSS = `@tailwind base;
+@tailwind components;
+@tailwind utilities;
+
+@layer base {
+  :root {
+    --background: 0 0% 100%;
+    --foreground: 0 0% 3.9%;
+    --card: 0 0% 100%;
+    --card-foreground: 0 0% 3.9%;
+    --primary: 0 0% 9%;
+    --primary-foreground: 0 0% 98%;
+    --secondary: 0 0% 96.1%;
+    --secondary-foreground: 0 0% 9%;
+    --muted: 0 0% 96.1%;
+    --muted-foreground: 0 0% 45.1%;
+    --accent: 0 0% 96.1%;
+    --accent-foreground: 0 0% 9%;
+    --destructive: 0 84.2% 60.2%;
+    --destructive-foreground: 0 0% 98%;
+    --border: 0 0% 89.8%;
+    --input: 0 0% 89.8%;
+    --ring: 0 0% 3.9%;
+    --radius: 0.5rem;
+  }
+
+  .dark {
+    --background: 0 0% 3.9%;
+    --foreground: 0 0% 98%;
+    --card: 0 0% 3.9%;
+    --card-foreground: 0 0% 98%;
+    --primary: 0 0% 98%;
+    --primary-foreground: 0 0% 9%;
+    --secondary: 0 0% 14.9%;
+    --secondary-foreground: 0 0% 98%;
+    --muted: 0 0% 14.9%;
+    --muted-foreground: 0 0% 63.9%;
+    --accent: 0 0% 14.9%;
+    --accent-foreground: 0 0% 98%;
+    --destructive: 0 62.8% 30.6%;
+    --destructive-foreground: 0 0% 98%;
+    --border: 0 0% 14.9%;
+    --input: 0 0% 14.9%;
+    --ring: 0 0% 83.1%;
+  }
+
+  * {
+    @apply border-border;
+  }
+}
+`;
+
+// Mirrors src/lib/utils.ts
+const UTILS_SOURCE = `import { clsx, type ClassValue } from "clsx"
+import { twMerge } from "tailwind-merge"
+
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs))
+}
+`;
+
+// ============================================
+// JSX HELPERS
+// ============================================
+
+// String attribute, falling back to an expression when quoting would be ambiguous.
+// JSX decodes entities in quoted attributes, so values with `&` are expressions too.
+function attr(name: string, value: string | undefined): string {
+  if (value === undefined || value === '') return '';
+  if (/["\\{}&]/.test(value)) {
+    return ` ${name}={${JSON.stringify(value)}}`;
+  }
+  return ` ${name}="${value}"`;
+}
+
+// Text content is always emitted as an expression so braces and angle brackets survive
+function text(value: unknown): string {
+  return `{${JSON.stringify(String(value ?? ''))}}`;
+}
+
+// Text for index.html, which is plain HTML rather than JSX
+function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function fontStyle(props: Record<string, any>): string {
+  return props.fontSize ? ` style={{ fontSize: ${Number(props.fontSize)} }}` : '';
+}
+
+// Class of the page wrapper; src/layout.css sizes it per breakpoint
+const CANVAS_CLASS = 'page-canvas';
+
+// ============================================
+// CODE GENERATION
+// ============================================
+
+// JSX for one set of props; `inner` is the indentation of the element itself
+function renderBody(node: Component, props: Record<string, any>, children: string, inner: string): string {
+  let body: string;
+  switch (node.type) {
+    case 'container':
+      body = `${inner}<div${attr('className', cn('flex w-full h-full transition-all', props.className))}`
+        + `${props.backgroundColor ? ` style={{ backgroundColor: ${JSON.stringify(String(props.backgroundColor))} }}` : ''}>`
+        + (children ? `\n${children}\n${inner}` : '')
+        + '</div>';
+      break;
+    case 'button':
+      body = `${inner}<Button${attr('variant', props.variant)}${attr('size', props.size)}`
+        + `${attr('className', cn('w-full h-full', props.className))}${fontStyle(props)}>`
+        + `${text(props.children || 'Button')}</Button>`;
+      break;
+    case 'card': {
+      const lines = [`${inner}<Card${attr('className', cn('h-full', props.className))}${fontStyle(props)}>`];
+      lines.push(`${inner}  <CardHeader>`);
+      if (props.title) lines.push(`${inner}    <CardTitle>${text(props.title)}</CardTitle>`);
+      if (props.description) lines.push(`${inner}    <CardDescription>${text(props.description)}</CardDescription>`);
+      lines.push(`${inner}  </CardHeader>`);
+      lines.push(`${inner}  <CardContent>`);
+      lines.push(children ? children : `${inner}    ${text(props.content || 'Card content area')}`);
+      lines.push(`${inner}  </CardContent>`);
+      if (props.footer) lines.push(`${inner}  <CardFooter>${text(props.footer)}</CardFooter>`);
+      lines.push(`${inner}</Card>`);
+      body = lines.join('\n');
+      break;
+    }
+    case 'header': {
+      const level = ['h1', 'h2', 'h3', 'h4'].includes(props.level) ? props.level : 'h2';
+      body = `${inner}<${level}${attr('className', cn('scroll-m-20 tracking-tight w-full h-full flex items-center', props.className))}`
+        + `${fontStyle(props)}>${text(props.children || 'Header')}</${level}>`;
+      break;
+    }
+    case 'text':
+      body = `${inner}<p${attr('className', cn('leading-7 w-full h-full', props.className))}${fontStyle(props)}>`
+        + `${text(props.children || 'Text content')}</p>`;
+      break;
+    case 'input': {
+      const lines = [`${inner}<div${attr('className', cn('grid w-full items-center gap-1.5', props.className))}>`];
+      if (props.label) {
+        lines.push(`${inner}  <Label${fontStyle(props)}>${text(props.label)}</Label>`);
+      }
+      lines.push(`${inner}  <Input${attr('type', props.type || 'text')}${attr('placeholder', props.placeholder)}${fontStyle(props)} />`);
+      lines.push(`${inner}</div>`);
+      body = lines.join('\n');
+      break;
+    }
+    case 'image':
+      body = props.src
+        ? `${inner}<img${attr('src', props.src)}${attr('alt', props.alt)}${attr('className', cn('w-full h-full object-cover', props.className))} />`
+        : `${inner}<div${attr('className', cn('flex w-full h-full items-center justify-center bg-muted text-muted-foreground text-xs', props.className))}>`
+          + `${text(props.alt || 'Image')}</div>`;
+      break;
+    case 'navbar': {
+      const lines = [`${inner}<nav${attr('className', cn('flex w-full h-full items-center justify-between gap-4 px-4 bg-background', props.className))}${fontStyle(props)}>`];
+      lines.push(`${inner}  <span className="font-semibold">${text(props.logo || 'Brand')}</span>`);
+      lines.push(`${inner}  <div className="flex items-center gap-4">`);
+      toList(props.links).forEach((link) => lines.push(`${inner}    <a href="#" className="text-muted-foreground">${text(link)}</a>`));
+      if (props.ctaText) lines.push(`${inner}    <Button size="sm">${text(props.ctaText)}</Button>`);
+      lines.push(`${inner}  </div>`);
+      lines.push(`${inner}</nav>`);
+      body = lines.join('\n');
+      break;
+    }
+    case 'tabs': {
+      const lines = [`${inner}<Tabs defaultValue="0"${attr('className', cn('flex flex-col w-full h-full', props.className))}${fontStyle(props)}>`];
+      lines.push(`${inner}  <TabsList className="justify-start self-start">`);
+      toList(props.tabs).forEach((tab, index) => lines.push(`${inner}    <TabsTrigger value="${index}">${text(tab)}</TabsTrigger>`));
+      lines.push(`${inner}  </TabsList>`);
+      lines.push(`${inner}  <div className="flex-1 p-3 text-muted-foreground">`);
+      lines.push(children ? children : `${inner}    ${text(props.content || '')}`);
+      lines.push(`${inner}  </div>`);
+      lines.push(`${inner}</Tabs>`);
+      body = lines.join('\n');
+      break;
+    }
+    case 'table': {
+      const columns = toList(props.columns);
+      const lines = [`${inner}<Table${attr('className', props.className)}${fontStyle(props)}>`];
+      lines.push(`${inner}  <TableHeader>`);
+      lines.push(`${inner}    <TableRow>`);
+      columns.forEach((column) => lines.push(`${inner}      <TableHead>${text(column)}</TableHead>`));
+      lines.push(`${inner}    </TableRow>`);
+      lines.push(`${inner}  </TableHeader>`);
+      lines.push(`${inner}  <TableBody>`);
+      toRows(props.rows, columns.length).forEach((row) => {
+        lines.push(`${inner}    <TableRow>`);
+        row.forEach((cell) => lines.push(`${inner}      <TableCell>${text(cell)}</TableCell>`));
+        lines.push(`${inner}    </TableRow>`);
+      });
+      lines.push(`${inner}  </TableBody>`);
+      lines.push(`${inner}</Table>`);
+      body = lines.join('\n');
+      break;
+    }
+    case 'select': {
+      const lines = [`${inner}<div${attr('className', cn('grid w-full items-center gap-1.5', props.className))}>`];
+      if (props.label) {
+        lines.push(`${inner}  <Label${fontStyle(props)}>${text(props.label)}</Label>`);
+      }
+      lines.push(`${inner}  <Select>`);
+      lines.push(`${inner}    <SelectTrigger${fontStyle(props)}>`);
+      lines.push(`${inner}      <SelectValue${attr('placeholder', props.placeholder || 'Select')} />`);
+      lines.push(`${inner}    </SelectTrigger>`);
+      lines.push(`${inner}    <SelectContent>`);
+      toList(props.options).filter(Boolean).forEach((option) => {
+        lines.push(`${inner}      <SelectItem value={${JSON.stringify(option)}}>${text(option)}</SelectItem>`);
+      });
+      lines.push(`${inner}    </SelectContent>`);
+      lines.push(`${inner}  </Select>`);
+      lines.push(`${inner}</div>`);
+      body = lines.join('\n');
+      break;
+    }
+    case 'checkbox': {
+      const checkboxId = `checkbox-${node.id}`;
+      body = [
+        `${inner}<div${attr('className', cn('flex w-full h-full items-center gap-2', props.className))}>`,
+        `${inner}  <Checkbox${attr('id', checkboxId)}${props.checked ? ' defaultChecked' : ''} />`,
+        `${inner}  <Label${attr('htmlFor', checkboxId)}${fontStyle(props)}>${text(props.label || '')}</Label>`,
+        `${inner}</div>`,
+      ].join('\n');
+      break;
+    }
+    case 'avatar': {
+      const lines = [`${inner}<Avatar${attr('className', cn('h-full w-full', props.className))}>`];
+      if (props.src) lines.push(`${inner}  <AvatarImage${attr('src', props.src)}${attr('alt', props.alt)} />`);
+      lines.push(`${inner}  <AvatarFallback>${text(props.fallback || '?')}</AvatarFallback>`);
+      lines.push(`${inner}</Avatar>`);
+      body = lines.join('\n');
+      break;
+    }
+    case 'badge':
+      body = `${inner}<Badge${attr('variant', props.variant)}${attr('className', props.className)}${fontStyle(props)}>`
+        + `${text(props.text || 'Badge')}</Badge>`;
+      break;
+    default:
+      body = `${inner}{/* Unsupported component: ${node.type} */}`;
+  }
+  return body;
+}
+
+// Absolute placement wrapper; its position comes from src/layout.css so it can change per breakpoint
+function renderNode(node: Component, depth: number): string {
+  const pad = '  '.repeat(depth);
+  const inner = '  '.repeat(depth + 1);
+  const variants = getPropVariants(node);
+
+  let body: string;
+  if (variants.length === 1) {
+    const children = node.children.map((child) => renderNode(child, depth + 2)).join('\n');
+    body = renderBody(node, variants[0].props, children, inner);
+  } else {
+    // Props differ between breakpoints: one copy per variant, shown by media query
+    body = variants.map((variant) => {
+      const children = node.children.map((child) => renderNode(child, depth + 3)).join('\n');
+      const classes = ['bp-variant', ...variant.breakpoints.map(getVariantClassName)].join(' ');
+      return `${inner}<div className="${classes}">\n${renderBody(node, variant.props, children, `${inner}  `)}\n${inner}</div>`;
+    }).join('\n');
+  }
+
+  return `${pad}<div className="${getNodeClassName(node)}">\n${body}\n${pad}</div>`;
+}
+
+/**
+ * Generate App.tsx for the given component tree
+ */
+export function generateAppComponent(components: Component[]): string {
+  const used = collectUsedComponents(components);
+  const nodes = components.map((node) => renderNode(node, 4)).join('\n');
+
+  const imports = (Object.keys(UI_IMPORTS) as UIComponentName[])
+    .filter((name) => used.has(name))
+    .map((name) => UI_IMPORTS[name]);
+
+  return [
+    ...imports,
+    ...(imports.length > 0 ? [''] : []),
+    'export default function App() {',
+    '  return (',
+    '    <main className="min-h-screen bg-background text-foreground">',
+    `      <div className="${CANVAS_CLASS} relative mx-auto">`,
+    nodes,
+    '      </div>',
+    '    </main>',
+    '  );',
+    '}',
+    '',
+  ].join('\n');
+}
+
+// Which shadcn/ui sources the generated App needs
+function collectUsedComponents(components: Component[], used = new Set<UIComponentName>()): Set<UIComponentName> {
+  for (const node of components) {
+    if (node.type === 'button') used.add('button');
+    if (node.type === 'card') used.add('card');
+    if (node.type === 'input') {
+      used.add('input');
+      if (getPropVariants(node).some((variant) => variant.props.label)) used.add('label');
+    }
+    if (node.type === 'navbar' && getPropVariants(node).some((variant) => variant.props.ctaText)) used.add('button');
+    if (node.type === 'tabs') used.add('tabs');
+    if (node.type === 'table') used.add('table');
+    if (node.type === 'select') {
+      used.add('select');
+      if (getPropVariants(node).some((variant) => variant.props.label)) used.add('label');
+    }
+    if (node.type === 'checkbox') {
+      used.add('checkbox');
+      used.add('label');
+    }
+    if (node.type === 'avatar') used.add('avatar');
+    if (node.type === 'badge') used.add('badge');
+    collectUsedComponents(node.children, used);
+  }
+  return used;
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'aetheria-export';
+}
+
+/**
+ * Generate every file of the exported project
+ */
+export function generateReactProject(components: Component[], options: ReactExportOptions = {}): ProjectFiles {
+  const name = slugify(options.projectName || 'aetheria-export');
+  const used = collectUsedComponents(components);
+
+  const dependencies: Record<string, string> = {
+    'class-variance-authority': '^0.7.1',
+    clsx: '^2.1.1',
+    react: '^18.3.1',
+    'react-dom': '^18.3.1',
+    'tailwind-merge': '^3.4.0',
+  };
+  used.forEach((component) => Object.assign(dependencies, UI_DEPENDENCIES[component]));
+
+  const files: ProjectFiles = {
+    'package.json': JSON.stringify({
+      name,
+      private: true,
+      version: '0.0.0',
+      type: 'module',
+      scripts: {
+        dev: 'vite',
+        build: 'vite build',
+        preview: 'vite preview',
+      },
+      dependencies: Object.fromEntries(Object.entries(dependencies).sort(([a], [b]) => a.localeCompare(b))),
+      devDependencies: {
+        '@types/node': '^22.15.3',
+        '@types/react': '^18.3.1',
+        '@types/react-dom': '^18.3.1',
+        '@vitejs/plugin-react': '^4.3.4',
+        autoprefixer: '^10.4.21',
+        postcss: '^8.5.3',
+        tailwindcss: '^3.4.17',
+        typescript: '5.8',
+        vite: '^6.3.1',
+      },
+    }, null, 2) + '\n',
+    'index.html': [
+      '<!doctype html>',
+      '<html lang="en">',
+      '  <head>',
+      '    <meta charset="UTF-8" />',
+      '    <meta name="viewport" content="width=device-width, initial-scale=1.0" />',
+      `    <title>${escapeHTML(options.projectName || 'Aetheria Export')}</title>`,
+      '  </head>',
+      '  <body>',
+      '    <div id="root"></div>',
+      '    <script type="module" src="/src/main.tsx"></script>',
+      '  </body>',
+      '</html>',
+      '',
+    ].join('\n'),
+    'vite.config.ts': [
+      "import path from 'path';",
+      "import { defineConfig } from 'vite';",
+      "import react from '@vitejs/plugin-react';",
+      '',
+      'export default defineConfig({',
+      '  plugins: [react()],',
+      '  resolve: {',
+      "    alias: { '@': path.resolve(__dirname, './src') },",
+      '  },',
+      '});',
+      '',
+    ].join('\n'),
+    'tsconfig.json': JSON.stringify({
+      compilerOptions: {
+        target: 'ES2020',
+        lib: ['ES2020', 'DOM', 'DOM.Iterable'],
+        module: 'ESNext',
+        moduleResolution: 'bundler',
+        jsx: 'react-jsx',
+        strict: true,
+        skipLibCheck: true,
+        noEmit: true,
+        baseUrl: '.',
+        paths: { '@/*': ['./src/*'] },
+      },
+      include: ['src'],
+    }, null, 2) + '\n',
+    'postcss.config.js': [
+      'export default {',
+      '  plugins: {',
+      '    tailwindcss: {},',
+      '    autoprefixer: {},',
+      '  },',
+      '};',
+      '',
+    ].join('\n'),
+    'tailwind.config.js': TAILWIND_CONFIG,
+    'src/index.css': INDEX_CSS,
+    'src/main.tsx': [
+      "import React from 'react';",
+      "import ReactDOM from 'react-dom/client';",
+      "import App from './App';",
+      "import './index.css';",
+      "import './layout.css';",
+      '',
+      "ReactDOM.createRoot(document.getElementById('root')!).render(",
+      '  <React.StrictMode>',
+      '    <App />',
+      '  </React.StrictMode>',
+      ');',
+      '',
+    ].join('\n'),
+    'src/App.tsx': generateAppComponent(components),
+    'src/layout.css': generateLayoutCSS(components, CANVAS_CLASS) + '\n',
+    'src/lib/utils.ts': UTILS_SOURCE,
+  };
+
+  for (const component of used) {
+    files[`src/components/ui/${component}.tsx`] = UI_SOURCES[component];
+  }
+
+  return files;
+}
+
+/**
+ * Zip the exported project and trigger a browser download
+ */
+export function downloadReactProject(components: Component[], options: ReactExportOptions = {}): void {
+  const files = generateReactProject(components, options);
+  const root = slugify(options.projectName || 'aetheria-export');
+  const entries: Record<string, Uint8Array> = {};
+  for (const [path, content] of Object.entries(files)) {
+    entries[`${root}/${path}`] = strToU8(content);
+  }
+
+  const zipped = zipSync(entries, { level: 6 });
+  const url = URL.createObjectURL(new Blob([zipped], { type: 'application/zip' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${root}.zip`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
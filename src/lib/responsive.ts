@@ -0,0 +1,205 @@
+/**
+ * Responsive Breakpoints
+ * Per-breakpoint overrides of a component's position and props.
+ * Desktop is the base layout; tablet inherits from desktop and mobile from tablet.
+ */
+
+import type { Component, ComponentPosition } from '@/store/builder-store';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type Breakpoint = 'desktop' | 'tablet' | 'mobile';
+
+// Breakpoints that store overrides (desktop values live on the component itself)
+export type OverrideBreakpoint = Exclude<Breakpoint, 'desktop'>;
+
+export interface ResponsiveOverride {
+  position?: Partial<ComponentPosition>;
+  props?: Record<string, any>;
+}
+
+export type ResponsiveOverrides = Partial<Record<OverrideBreakpoint, ResponsiveOverride>>;
+
+export interface BreakpointConfig {
+  label: string;
+  // Device frame size on the canvas
+  width: number;
+  height: number;
+  // Widest viewport the breakpoint applies to in exports; null for no upper bound
+  maxWidth: number | null;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Largest first: each breakpoint inherits from the one before it
+export const BREAKPOINTS: Breakpoint[] = ['desktop', 'tablet', 'mobile'];
+
+export const OVERRIDE_BREAKPOINTS: OverrideBreakpoint[] = ['tablet', 'mobile'];
+
+export const BREAKPOINT_CONFIG: Record<Breakpoint, BreakpointConfig> = {
+  desktop: { label: 'Desktop', width: 1280, height: 800, maxWidth: null },
+  tablet: { label: 'Tablet', width: 768, height: 1024, maxWidth: 1023 },
+  mobile: { label: 'Mobile', width: 375, height: 812, maxWidth: 767 },
+};
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+// Override breakpoints that apply at `breakpoint`, largest first
+const getCascade = (breakpoint: Breakpoint): OverrideBreakpoint[] =>
+  OVERRIDE_BREAKPOINTS.slice(0, BREAKPOINTS.indexOf(breakpoint));
+
+/**
+ * A component's own position at a breakpoint (relative to its parent)
+ */
+export function resolvePosition(node: Component, breakpoint: Breakpoint): ComponentPosition {
+  return getCascade(breakpoint).reduce(
+    (position, bp) => ({ ...position, ...node.responsive?.[bp]?.position }),
+    node.position
+  );
+}
+
+/**
+ * A component's props at a breakpoint
+ */
+export function resolveProps(node: Component, breakpoint: Breakpoint): Record<string, any> {
+  return getCascade(breakpoint).reduce(
+    (props, bp) => ({ ...props, ...node.responsive?.[bp]?.props }),
+    node.props
+  );
+}
+
+/**
+ * Copy of a subtree with positions and props resolved for a breakpoint.
+ * Desktop returns the tree unchanged.
+ */
+export function resolveTree(nodes: Component[], breakpoint: Breakpoint): Component[] {
+  if (breakpoint === 'desktop') return nodes;
+  return nodes.map((node) => ({
+    ...node,
+    position: resolvePosition(node, breakpoint),
+    props: resolveProps(node, breakpoint),
+    children: resolveTree(node.children, breakpoint),
+  }));
+}
+
+/**
+ * Whether a component overrides anything at the given breakpoint
+ */
+export function hasOverrides(node: Component, breakpoint: Breakpoint): boolean {
+  if (breakpoint === 'desktop') return false;
+  const override = node.responsive?.[breakpoint];
+  return !!override && (
+    Object.keys(override.position ?? {}).length > 0 ||
+    Object.keys(override.props ?? {}).length > 0
+  );
+}
+
+// ============================================
+// EXPORT HELPERS
+// ============================================
+
+export interface PropVariant {
+  breakpoints: Breakpoint[];
+  props: Record<string, any>;
+}
+
+/**
+ * Group the breakpoints of a component by identical resolved props.
+ * A single entry means the props do not change across breakpoints.
+ */
+export function getPropVariants(node: Component): PropVariant[] {
+  const variants: (PropVariant & { key: string })[] = [];
+  BREAKPOINTS.forEach((breakpoint) => {
+    const props = resolveProps(node, breakpoint);
+    const key = JSON.stringify(props);
+    const existing = variants.find((variant) => variant.key === key);
+    if (existing) {
+      existing.breakpoints.push(breakpoint);
+    } else {
+      variants.push({ key, breakpoints: [breakpoint], props });
+    }
+  });
+  return variants.map(({ breakpoints, props }) => ({ breakpoints, props }));
+}
+
+/**
+ * CSS media query matching only the viewports a breakpoint applies to
+ */
+export function getMediaQuery(breakpoint: Breakpoint): string {
+  const max = BREAKPOINT_CONFIG[breakpoint].maxWidth;
+  // Starts one pixel past the next smaller breakpoint's range
+  const smaller = BREAKPOINTS[BREAKPOINTS.indexOf(breakpoint) + 1];
+  const min = smaller ? (BREAKPOINT_CONFIG[smaller].maxWidth ?? 0) + 1 : null;
+  return [min !== null ? `(min-width: ${min}px)` : '', max !== null ? `(max-width: ${max}px)` : '']
+    .filter(Boolean)
+    .join(' and ');
+}
+
+/**
+ * Class placing a component in exported markup
+ */
+export const getNodeClassName = (node: Component): string => `node-${node.id}`;
+
+/**
+ * Stylesheet with every component's absolute placement per breakpoint, plus the
+ * visibility rules for prop variants (see `getVariantClassName`).
+ * `rootClassName` is sized to the content at each breakpoint.
+ */
+export function generateLayoutCSS(components: Component[], rootClassName: string): string {
+  const blocks: string[] = [];
+  let previous: Component[] | null = null;
+
+  BREAKPOINTS.forEach((breakpoint) => {
+    const resolved = resolveTree(components, breakpoint);
+    const rules: string[] = [];
+    const bounds = getBounds(resolved);
+    const previousBounds = previous ? getBounds(previous) : null;
+    if (!previousBounds || previousBounds.width !== bounds.width || previousBounds.height !== bounds.height) {
+      rules.push(`.${rootClassName} { width: ${bounds.width}px; height: ${bounds.height}px; }`);
+    }
+
+    const visit = (nodes: Component[], previousNodes: Component[] | null) => {
+      nodes.forEach((node, index) => {
+        const before = previousNodes?.[index];
+        const { x, y, width, height } = node.position;
+        const changed = !before ||
+          before.position.x !== x || before.position.y !== y ||
+          before.position.width !== width || before.position.height !== height;
+        if (changed) {
+          rules.push(`.${getNodeClassName(node)} { position: absolute; left: ${Math.round(x)}px; top: ${Math.round(y)}px; width: ${Math.round(width)}px; height: ${Math.round(height)}px; }`);
+        }
+        visit(node.children, before?.children ?? null);
+      });
+    };
+    visit(resolved, previous);
+    previous = resolved;
+
+    if (rules.length === 0) return;
+    const max = BREAKPOINT_CONFIG[breakpoint].maxWidth;
+    // Smaller breakpoints come later so they win the cascade
+    blocks.push(max === null ? rules.join('\n') : `@media (max-width: ${max}px) {\n${rules.map((rule) => `  ${rule}`).join('\n')}\n}`);
+  });
+
+  blocks.push(
+    '.bp-variant { display: none; }',
+    ...BREAKPOINTS.map((breakpoint) => `@media ${getMediaQuery(breakpoint)} { .bp-variant.${getVariantClassName(breakpoint)} { display: contents; } }`)
+  );
+  return blocks.join('\n');
+}
+
+/**
+ * Class that shows a prop variant at one breakpoint; combine with `bp-variant`
+ */
+export const getVariantClassName = (breakpoint: Breakpoint): string => `bp-${breakpoint}`;
+
+// Area the root components occupy
+const getBounds = (nodes: Component[]): { width: number; height: number } => ({
+  width: Math.ceil(Math.max(0, ...nodes.map((node) => node.position.x + node.position.width))),
+  height: Math.ceil(Math.max(0, ...nodes.map((node) => node.position.y + node.position.height))),
+});
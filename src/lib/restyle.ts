@@ -0,0 +1,387 @@
+/**
+ * Restyle
+ * Remap the styling of an existing tree onto a `StylePreset`: colors move to
+ * the palette role they play (text, surface, primary, ...), headings and body
+ * text take the preset's typography, and spacing, radius and shadow classes
+ * follow the preset's scales. Layout and content are left alone.
+ */
+
+import type { Component, ComponentType } from '@/store/builder-store';
+import { cn } from './utils';
+import { resolveColor, splitClassNames } from './tailwind-subset';
+import { COLOR_PALETTES, ColorPalette, SPACING_SCALES, SpacingScale, StylePreset } from './design-system';
+import { SectionStyle, getSectionStyle } from './section-library';
+import { findMasterNode, findSymbolMaster } from './symbols';
+import { OVERRIDE_BREAKPOINTS } from './responsive';
+
+// ============================================
+// TYPES
+// ============================================
+
+type ColorRole = Exclude<keyof ColorPalette, 'gradient'>;
+
+// What a color paints; decides which role an ambiguous color is read as
+type ColorUse = 'text' | 'fill' | 'line';
+
+type Rgba = [number, number, number, number];
+
+export interface RestyleContext {
+  style: SectionStyle;
+  // Palette the tree is styled with now, when one can be recognized
+  source: ColorPalette | null;
+}
+
+// ============================================
+// COLORS
+// ============================================
+
+const ROLE_ORDER: Record<ColorUse, ColorRole[]> = {
+  text: ['text', 'textMuted', 'textInverse', 'primary', 'primaryDark', 'primaryLight', 'secondary', 'accent', 'success', 'warning', 'error', 'background', 'surface', 'surfaceHover', 'border'],
+  fill: ['background', 'surface', 'surfaceHover', 'primary', 'primaryDark', 'primaryLight', 'secondary', 'accent', 'success', 'warning', 'error', 'text', 'textInverse', 'textMuted', 'border'],
+  line: ['border', 'primary', 'primaryDark', 'primaryLight', 'secondary', 'accent', 'success', 'warning', 'error', 'text', 'textMuted', 'textInverse', 'background', 'surface', 'surfaceHover'],
+};
+
+// shadcn/ui theme colors by the role they play
+const THEME_ROLES: Record<string, ColorRole> = {
+  background: 'background',
+  foreground: 'text',
+  card: 'surface',
+  'card-foreground': 'text',
+  popover: 'surface',
+  'popover-foreground': 'text',
+  primary: 'primary',
+  'primary-foreground': 'textInverse',
+  secondary: 'surface',
+  'secondary-foreground': 'text',
+  muted: 'surface',
+  'muted-foreground': 'textMuted',
+  accent: 'surfaceHover',
+  'accent-foreground': 'text',
+  destructive: 'error',
+  'destructive-foreground': 'textInverse',
+  border: 'border',
+  input: 'border',
+  ring: 'primary',
+};
+
+const COLOR_UTILITIES: Record<string, ColorUse> = {
+  text: 'text',
+  placeholder: 'text',
+  decoration: 'text',
+  bg: 'fill',
+  from: 'fill',
+  via: 'fill',
+  to: 'fill',
+  fill: 'fill',
+  border: 'line',
+  'border-x': 'line',
+  'border-y': 'line',
+  'border-t': 'line',
+  'border-r': 'line',
+  'border-b': 'line',
+  'border-l': 'line',
+  divide: 'line',
+  ring: 'line',
+  outline: 'line',
+  stroke: 'line',
+};
+
+const parseColor = (value: string): Rgba | null => {
+  const color = value.trim().toLowerCase();
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/)?.[1];
+  if (hex) {
+    const full = hex.length === 3 ? hex.split('').map((c) => c + c).join('') : hex;
+    return [parseInt(full.slice(0, 2), 16), parseInt(full.slice(2, 4), 16), parseInt(full.slice(4, 6), 16), 1];
+  }
+  const channels = color.match(/^rgba?\(([^)]+)\)$/)?.[1].split(/[\s,/]+/).filter(Boolean).map(Number);
+  if (channels && channels.length >= 3 && channels.every(Number.isFinite)) {
+    return [channels[0], channels[1], channels[2], channels[3] ?? 1];
+  }
+  return null;
+};
+
+const paletteColors = (palette: ColorPalette): { rgba: Rgba; role: ColorRole }[] =>
+  (Object.entries(palette) as [keyof ColorPalette, string][])
+    .filter(([role]) => role !== 'gradient')
+    .map(([role, value]) => ({ rgba: parseColor(value), role: role as ColorRole }))
+    .filter((entry): entry is { rgba: Rgba; role: ColorRole } => entry.rgba !== null);
+
+// Every palette color, to recognize colors that came from a preset
+const PALETTE_COLORS = Object.values(COLOR_PALETTES).flatMap(paletteColors);
+
+const sameColor = (a: Rgba, b: Rgba) => a.every((channel, index) => Math.abs(channel - b[index]) < 0.01);
+
+// Tailwind color token or CSS color value as channels
+const toRgba = (color: string): Rgba | null => {
+  const resolved = resolveColor(color.startsWith('#') || /^rgba?\(/.test(color) ? `[${color.replace(/\s+/g, '')}]` : color);
+  return parseColor(resolved ?? color);
+};
+
+const toHsl = ([r, g, b]: Rgba): { s: number; l: number } => {
+  const max = Math.max(r, g, b) / 255;
+  const min = Math.min(r, g, b) / 255;
+  const l = (max + min) / 2;
+  const s = max === min ? 0 : (max - min) / (1 - Math.abs(2 * l - 1));
+  return { s, l };
+};
+
+// The role a color plays, judged from where it is used and how it looks
+const guessRole = (rgba: Rgba, use: ColorUse, utility: string): ColorRole => {
+  const { s, l } = toHsl(rgba);
+  // Near-black and near-white read as neutral however saturated they are
+  if (s >= 0.3 && l > 0.15 && l < 0.95) {
+    if (use === 'fill' && l > 0.9) return 'surface';
+    if (utility === 'to') return 'secondary';
+    if (utility === 'via') return 'accent';
+    return l > 0.75 ? 'primaryLight' : l < 0.4 ? 'primaryDark' : 'primary';
+  }
+  if (use === 'line') return 'border';
+  if (use === 'text') return l < 0.35 ? 'text' : l < 0.8 ? 'textMuted' : 'textInverse';
+  return l > 0.97 ? 'background' : l > 0.85 ? 'surface' : l > 0.6 ? 'surfaceHover' : 'text';
+};
+
+/**
+ * Palette role of a color value or Tailwind color token, or null for colors
+ * that carry no role (transparent, currentColor, ...). Colors of the `source`
+ * palette keep the role they have there.
+ */
+export function getColorRole(color: string, use: ColorUse, utility: string = '', source: ColorPalette | null = null): ColorRole | null {
+  const name = color.split('/')[0];
+  if (THEME_ROLES[name]) return THEME_ROLES[name];
+  const rgba = toRgba(color);
+  if (!rgba) return null;
+  const guess = guessRole(rgba, use, utility);
+  // A color used in several roles (white is text in dark palettes) is read by how it looks
+  const pick = (entries: { rgba: Rgba; role: ColorRole }[]): ColorRole | null => {
+    const matches = new Set(entries.filter((entry) => sameColor(entry.rgba, rgba)).map((entry) => entry.role));
+    if (matches.size === 0) return null;
+    return matches.has(guess) ? guess : ROLE_ORDER[use].find((role) => matches.has(role))!;
+  };
+  return (source ? pick(paletteColors(source)) : null) ?? pick(PALETTE_COLORS) ?? guess;
+}
+
+// Color values a subtree uses, from classes and background colors
+const collectColors = (nodes: Component[], colors: Rgba[] = []): Rgba[] => {
+  nodes.forEach((node) => {
+    [node.props, ...OVERRIDE_BREAKPOINTS.map((breakpoint) => node.responsive?.[breakpoint]?.props ?? {})].forEach((props) => {
+      splitClassNames(props.className).forEach((className) => {
+        const match = splitVariants(className)[1].match(COLOR_PATTERN);
+        const rgba = match && COLOR_UTILITIES[match[1]] ? toRgba(match[2].split('/')[0]) : null;
+        if (rgba) colors.push(rgba);
+      });
+      const background = typeof props.backgroundColor === 'string' && props.backgroundColor ? toRgba(props.backgroundColor) : null;
+      if (background) colors.push(background);
+    });
+    collectColors(node.children, colors);
+  });
+  return colors;
+};
+
+/**
+ * The palette most of a tree's colors come from, or null when none of them do
+ */
+export function detectPalette(nodes: Component[]): ColorPalette | null {
+  const colors = collectColors(nodes);
+  let best: ColorPalette | null = null;
+  let bestScore = 0;
+  Object.values(COLOR_PALETTES).forEach((palette) => {
+    const entries = paletteColors(palette);
+    const score = colors.filter((rgba) => entries.some((entry) => sameColor(entry.rgba, rgba))).length;
+    if (score > bestScore) {
+      best = palette;
+      bestScore = score;
+    }
+  });
+  return best;
+}
+
+// ============================================
+// CLASSES
+// ============================================
+
+// Spacing in the tree is read against this scale and rewritten in the target's
+const REFERENCE_SPACING = SPACING_SCALES.comfortable;
+
+const SPACING_KEYS: (keyof SpacingScale)[] = ['xs', 'sm', 'md', 'lg', 'xl', '2xl', '3xl', '4xl'];
+
+const rem = (value: string) => parseFloat(value);
+
+const remapSpacing = (step: number, target: SpacingScale): number => {
+  const value = step / 4;
+  const key = SPACING_KEYS.reduce((best, key) =>
+    Math.abs(rem(REFERENCE_SPACING[key]) - value) < Math.abs(rem(REFERENCE_SPACING[best]) - value) ? key : best
+  );
+  return rem(target[key]) * 4;
+};
+
+// `hover:bg-blue-500` -> ['hover:', 'bg-blue-500']; colons inside brackets are part of the value
+const splitVariants = (className: string): [string, string] => {
+  let depth = 0;
+  let cut = 0;
+  for (let index = 0; index < className.length; index++) {
+    const char = className[index];
+    if (char === '[') depth++;
+    else if (char === ']') depth--;
+    else if (char === ':' && depth === 0) cut = index + 1;
+  }
+  return [className.slice(0, cut), className.slice(cut)];
+};
+
+const colorClass = (utility: string, color: string, alpha?: string) => {
+  const value = color.replace(/\s+/g, '');
+  // Functional colors carry their own alpha and cannot take a `/` modifier
+  return `${utility}-[${value}]${alpha && value.startsWith('#') ? `/${alpha}` : ''}`;
+};
+
+const COLOR_PATTERN = /^(border-[xytrbl]|[a-z]+)-(.+)$/;
+const SPACING_PATTERN = /^(-?)(p|px|py|pt|pr|pb|pl|ps|pe|m|mx|my|mt|mr|mb|ml|gap|gap-x|gap-y|space-x|space-y)-(\d+(?:\.\d+)?)$/;
+const RADIUS_PATTERN = /^rounded(-(none|sm|md|lg|xl|2xl|3xl))?$/;
+const SHADOW_PATTERN = /^shadow(-(none|sm|md|lg|xl|2xl))?$/;
+const WEIGHT_PATTERN = /^font-(thin|extralight|light|normal|medium|semibold|bold|extrabold|black)$/;
+
+// Types whose rounded corners may be fully round
+const PILL_TYPES: ComponentType[] = ['button', 'badge', 'input', 'select'];
+
+const restyleClass = (className: string, type: ComponentType, { style, source }: RestyleContext, weight?: string): string => {
+  const [variants, utility] = splitVariants(className);
+
+  const colorMatch = utility.match(COLOR_PATTERN);
+  if (colorMatch && COLOR_UTILITIES[colorMatch[1]]) {
+    const [, prefix, token] = colorMatch;
+    const [name, alpha] = token.split('/');
+    const resolved = resolveColor(name);
+    if (resolved && !['transparent', 'currentColor', 'inherit'].includes(resolved)) {
+      const role = getColorRole(name, COLOR_UTILITIES[prefix], prefix, source);
+      if (role) return `${variants}${colorClass(prefix, style.colors[role], alpha)}`;
+    }
+  }
+
+  const spacingMatch = utility.match(SPACING_PATTERN);
+  if (spacingMatch && Number(spacingMatch[3]) > 0) {
+    const [, negative, prefix, step] = spacingMatch;
+    return `${variants}${negative}${prefix}-${remapSpacing(Number(step), SPACING_SCALES[style.preset.spacing])}`;
+  }
+
+  if (RADIUS_PATTERN.test(utility)) {
+    const radius = style.radius === 'rounded-full' && !PILL_TYPES.includes(type) ? 'rounded-3xl' : style.radius;
+    return `${variants}${radius}`;
+  }
+  if (SHADOW_PATTERN.test(utility)) return `${variants}${style.shadow}`;
+  if (weight && !variants && WEIGHT_PATTERN.test(utility)) return weight;
+  return className;
+};
+
+// ============================================
+// PROPS
+// ============================================
+
+const BUTTON_VARIANTS: Record<StylePreset['buttonStyle'], string> = {
+  solid: 'default',
+  outline: 'outline',
+  ghost: 'ghost',
+  gradient: 'default',
+};
+
+const GRADIENT_PATTERN = /^(bg-gradient-to-[a-z]+|from-.+|via-.+|to-.+)$/;
+
+// Text role of body copy from its current size
+const textRole = (fontSize: unknown): 'lead' | 'body' | 'small' => {
+  const size = Number(fontSize);
+  if (size >= 19) return 'lead';
+  return size > 0 && size <= 14 ? 'small' : 'body';
+};
+
+/**
+ * Preset-styled values for the styling props in `props`. `base` gives the rest
+ * of the component's props for context (heading level, button variant).
+ * Only props that change are returned.
+ */
+export function restyleProps(
+  type: ComponentType,
+  props: Record<string, any>,
+  restyle: RestyleContext,
+  base: Record<string, any> = props
+): Record<string, any> {
+  const { style, source } = restyle;
+  const context = { ...base, ...props };
+  const level = ['h1', 'h2', 'h3', 'h4'].includes(context.level) ? context.level as 'h1' | 'h2' | 'h3' | 'h4' : 'h2';
+  const next: Record<string, any> = {};
+
+  if (typeof props.className === 'string') {
+    const weight = type === 'header' ? style.fontWeight[level] : undefined;
+    let classes = splitClassNames(props.className).map((name) => restyleClass(name, type, restyle, weight));
+    if (type === 'button' && ['default', 'outline', 'ghost'].includes(context.variant ?? 'default')) {
+      classes = classes.filter((name) => !GRADIENT_PATTERN.test(splitVariants(name)[1]));
+      if (style.preset.buttonStyle === 'gradient') {
+        classes.push('bg-gradient-to-r', colorClass('from', style.colors.primary), colorClass('to', style.colors.secondary));
+      }
+    }
+    next.className = cn(classes);
+  }
+
+  if (type === 'button' && 'variant' in props && ['default', 'outline', 'ghost'].includes(props.variant)) {
+    next.variant = BUTTON_VARIANTS[style.preset.buttonStyle];
+  }
+
+  if (typeof props.backgroundColor === 'string' && props.backgroundColor) {
+    const role = getColorRole(props.backgroundColor, 'fill', 'bg', source);
+    if (role) next.backgroundColor = style.colors[role];
+  }
+
+  if ('fontSize' in props) {
+    if (type === 'header') next.fontSize = style.fontSize[level];
+    if (type === 'text') next.fontSize = style.fontSize[textRole(props.fontSize)];
+  }
+
+  return Object.fromEntries(Object.entries(next).filter(([key, value]) => value !== props[key]));
+}
+
+/**
+ * Restyle a tree in place with a preset. Instance contents follow their master,
+ * so only instance overrides are rewritten there. Returns the number of
+ * components that changed.
+ */
+export function restyleTree(nodes: Component[], preset: StylePreset): number {
+  const context: RestyleContext = { style: getSectionStyle(preset), source: detectPalette(nodes) };
+  let changed = 0;
+
+  const visit = (list: Component[]) => {
+    list.forEach((node) => {
+      let touched = false;
+      if (!node.masterId) {
+        const edits = restyleProps(node.type, node.props, context);
+        if (Object.keys(edits).length > 0) {
+          Object.assign(node.props, edits);
+          touched = true;
+        }
+        OVERRIDE_BREAKPOINTS.forEach((breakpoint) => {
+          const override = node.responsive?.[breakpoint];
+          if (!override?.props) return;
+          const overrideEdits = restyleProps(node.type, override.props, context, node.props);
+          if (Object.keys(overrideEdits).length > 0) {
+            Object.assign(override.props, overrideEdits);
+            touched = true;
+          }
+        });
+      }
+
+      const master = node.instance ? findSymbolMaster(nodes, node.instance.symbolId) : null;
+      if (node.instance && master) {
+        Object.entries(node.instance.overrides).forEach(([masterNodeId, props]) => {
+          const source = findMasterNode(master, masterNodeId);
+          if (!source) return;
+          const edits = restyleProps(source.type, props, context, source.props);
+          if (Object.keys(edits).length > 0) {
+            Object.assign(props, edits);
+            touched = true;
+          }
+        });
+      }
+
+      if (touched) changed++;
+      visit(node.children);
+    });
+  };
+  visit(nodes);
+  return changed;
+}
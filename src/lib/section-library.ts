@@ -0,0 +1,792 @@
+/**
+ * Section Library
+ * Deterministic builders that turn the named sections of a `PageTemplate`
+ * (hero, pricing, faq, ...) into component subtrees styled by a `StylePreset`.
+ * Everything is generated locally; no AI call is involved.
+ */
+
+import { nanoid } from 'nanoid';
+import { Component, ComponentType, getDefaultProps } from '@/store/builder-store';
+import { cn } from './utils';
+import { BREAKPOINT_CONFIG } from './responsive';
+import {
+  ColorPalette,
+  PageTemplate,
+  StylePreset,
+  generateTailwindClasses,
+  getPresetById,
+  getPresetStyles,
+} from './design-system';
+
+// ============================================
+// TYPES
+// ============================================
+
+type TextRole = 'h1' | 'h2' | 'h3' | 'h4' | 'lead' | 'body' | 'small';
+
+type Align = 'left' | 'center';
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A component to create, positioned relative to its parent
+interface NodeSpec {
+  type: ComponentType;
+  props: Record<string, any>;
+  box: Box;
+  children?: NodeSpec[];
+}
+
+// Section content laid out inside the padded content column
+interface SectionDraft {
+  height: number;
+  nodes: NodeSpec[];
+  // Defaults to the page background
+  background?: string;
+}
+
+export interface SectionStyle {
+  preset: StylePreset;
+  colors: ColorPalette;
+  // Opaque page and surface colors (glass palettes are translucent)
+  pageBackground: string;
+  surface: string;
+  fontSize: Record<TextRole, number>;
+  lineHeight: Record<TextRole, number>;
+  fontWeight: Record<TextRole, string>;
+  radius: string;
+  shadow: string;
+  // Vertical padding of a section, in px
+  padding: number;
+}
+
+export interface SectionDefinition {
+  id: string;
+  label: string;
+  build: (style: SectionStyle) => SectionDraft;
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const PAGE_WIDTH = BREAKPOINT_CONFIG.desktop.width;
+
+// Horizontal margin of section content
+const CONTENT_X = 120;
+const CONTENT_WIDTH = PAGE_WIDTH - CONTENT_X * 2;
+
+const GAP = 24;
+
+const FONT_WEIGHT_CLASSES: Record<string, string> = {
+  '300': 'font-light',
+  '400': 'font-normal',
+  '500': 'font-medium',
+  '600': 'font-semibold',
+  '700': 'font-bold',
+  '800': 'font-extrabold',
+  '900': 'font-black',
+};
+
+// ============================================
+// STYLE
+// ============================================
+
+const remToPx = (value: string): number => Math.round(parseFloat(value) * (value.endsWith('rem') ? 16 : 1));
+
+// Translucent colors only work over a backdrop; fall back to a solid one
+const opaque = (color: string, fallback: string): string => (/^(rgba|hsla)\(/.test(color) ? fallback : color);
+
+/**
+ * Sizes, colors and classes a preset gives generated sections
+ */
+export function getSectionStyle(preset: StylePreset): SectionStyle {
+  const { colors, typography, spacing } = getPresetStyles(preset.id);
+  const classes = generateTailwindClasses(preset);
+  const scale: Record<TextRole, { size: string; weight: string; lineHeight: string }> = {
+    h1: typography.h1,
+    h2: typography.h2,
+    h3: typography.h3,
+    h4: typography.h4,
+    lead: { ...typography.body, size: `${parseFloat(typography.body.size) * 1.25}rem` },
+    body: typography.body,
+    small: typography.small,
+  };
+  const roles = Object.keys(scale) as TextRole[];
+  const pageBackground = opaque(colors.background, colors.textInverse);
+
+  return {
+    preset,
+    colors,
+    pageBackground,
+    surface: opaque(colors.surface, pageBackground),
+    fontSize: Object.fromEntries(roles.map((role) => [role, remToPx(scale[role].size)])) as Record<TextRole, number>,
+    lineHeight: Object.fromEntries(roles.map((role) => [role, parseFloat(scale[role].lineHeight)])) as Record<TextRole, number>,
+    fontWeight: Object.fromEntries(roles.map((role) => [role, FONT_WEIGHT_CLASSES[scale[role].weight] ?? 'font-normal'])) as Record<TextRole, string>,
+    radius: classes.borderRadius,
+    shadow: classes.shadow,
+    padding: remToPx(spacing.section),
+  };
+}
+
+// ============================================
+// BUILDING BLOCKS
+// ============================================
+
+// Arbitrary-value color class, e.g. `bg-[#6366f1]`; spaces would split the class
+const colorClass = (prefix: string, color: string) => `${prefix}-[${color.replace(/\s+/g, '')}]`;
+
+const textColor = (color: string) => colorClass('text', color);
+
+// Rough height of wrapped text: average glyphs are about half an em wide
+const textHeight = (s: SectionStyle, role: TextRole, text: string, width: number): number => {
+  const size = s.fontSize[role];
+  const perLine = Math.max(1, Math.floor(width / (size * (role.startsWith('h') ? 0.56 : 0.5))));
+  const lines = Math.max(1, Math.ceil(text.length / perLine));
+  return Math.ceil(lines * size * s.lineHeight[role]) + 8;
+};
+
+// x that centers a block of `width` in the content column (or in `within`)
+const center = (width: number, within: number = CONTENT_WIDTH) => Math.round((within - width) / 2);
+
+const heading = (
+  s: SectionStyle,
+  text: string,
+  role: 'h1' | 'h2' | 'h3' | 'h4',
+  at: { x: number; y: number; width: number },
+  { align = 'left', color = s.colors.text }: { align?: Align; color?: string } = {}
+): NodeSpec => ({
+  type: 'header',
+  props: {
+    children: text,
+    level: role,
+    fontSize: s.fontSize[role],
+    className: cn(s.fontWeight[role], textColor(color), align === 'center' && 'justify-center text-center'),
+  },
+  box: { ...at, height: textHeight(s, role, text, at.width) },
+});
+
+const paragraph = (
+  s: SectionStyle,
+  text: string,
+  role: 'lead' | 'body' | 'small',
+  at: { x: number; y: number; width: number },
+  { align = 'left', color = s.colors.textMuted }: { align?: Align; color?: string } = {}
+): NodeSpec => ({
+  type: 'text',
+  props: {
+    children: text,
+    fontSize: s.fontSize[role],
+    className: cn('leading-relaxed', s.fontWeight[role], textColor(color), align === 'center' && 'text-center'),
+  },
+  box: { ...at, height: textHeight(s, role, text, at.width) },
+});
+
+type ButtonKind = 'primary' | 'secondary' | 'inverse';
+
+const button = (s: SectionStyle, text: string, box: Box, kind: ButtonKind = 'primary'): NodeSpec => {
+  const { colors, preset } = s;
+  let className: string;
+  if (kind === 'inverse') {
+    className = cn('bg-[#ffffff] hover:bg-[#ffffff]/90', textColor(colors.primary));
+  } else if (kind === 'secondary') {
+    className = cn('bg-transparent border', colorClass('border', colors.border), textColor(colors.text), colorClass('hover:bg', opaque(colors.surfaceHover, s.surface)));
+  } else if (preset.buttonStyle === 'gradient') {
+    className = cn('bg-gradient-to-r', colorClass('from', colors.primary), colorClass('to', colors.secondary), textColor(colors.textInverse));
+  } else if (preset.buttonStyle === 'outline') {
+    className = cn('bg-transparent border-2', colorClass('border', colors.primary), textColor(colors.primary), colorClass('hover:bg', colors.primary), colorClass('hover:text', colors.textInverse));
+  } else if (preset.buttonStyle === 'ghost') {
+    className = cn(`${colorClass('bg', colors.primary)}/10`, textColor(colors.primary), `${colorClass('hover:bg', colors.primary)}/20`);
+  } else {
+    className = cn(colorClass('bg', colors.primary), textColor(colors.textInverse), colorClass('hover:bg', colors.primaryDark));
+  }
+  return {
+    type: 'button',
+    props: { children: text, size: 'lg', fontSize: s.fontSize.body, className: cn(s.radius, 'font-semibold', className) },
+    box,
+  };
+};
+
+// A card-like panel; children are placed relative to it
+const panel = (s: SectionStyle, box: Box, children: NodeSpec[], background: string = s.surface): NodeSpec => {
+  const { cardStyle } = s.preset;
+  return {
+    type: 'container',
+    props: {
+      layout: 'flex-col',
+      backgroundColor: background,
+      className: cn(
+        'flex flex-col overflow-hidden',
+        s.radius === 'rounded-full' ? 'rounded-3xl' : s.radius,
+        cardStyle === 'elevated' && s.shadow,
+        cardStyle !== 'flat' && cn('border', colorClass('border', s.colors.border)),
+        cardStyle === 'glass' && 'backdrop-blur-lg'
+      ),
+    },
+    box,
+    children,
+  };
+};
+
+const image = (s: SectionStyle, alt: string, box: Box): NodeSpec => ({
+  type: 'image',
+  props: { src: '', alt, className: cn(s.radius === 'rounded-full' ? 'rounded-3xl' : s.radius, 'object-cover') },
+  box,
+});
+
+const badge = (s: SectionStyle, text: string, box: Box): NodeSpec => ({
+  type: 'badge',
+  props: {
+    text,
+    variant: 'outline',
+    fontSize: s.fontSize.small,
+    className: cn('justify-center', colorClass('border', s.colors.primary), textColor(s.colors.primary)),
+  },
+  box,
+});
+
+// Equal-width columns across the content column
+const columns = (count: number, gap: number = GAP): { x: number; width: number }[] => {
+  const width = Math.floor((CONTENT_WIDTH - gap * (count - 1)) / count);
+  return Array.from({ length: count }, (_, index) => ({ x: index * (width + gap), width }));
+};
+
+const bottom = (node: NodeSpec) => node.box.y + node.box.height;
+
+// Centered section title and optional subtitle; returns the nodes and where content starts
+const intro = (s: SectionStyle, title: string, subtitle?: string): { nodes: NodeSpec[]; y: number } => {
+  const nodes = [heading(s, title, 'h2', { x: 0, y: 0, width: CONTENT_WIDTH }, { align: 'center' })];
+  if (subtitle) {
+    nodes.push(paragraph(s, subtitle, 'lead', { x: center(720), y: bottom(nodes[0]) + 12, width: 720 }, { align: 'center' }));
+  }
+  return { nodes, y: bottom(nodes[nodes.length - 1]) + GAP * 2 };
+};
+
+// Panels with a title and description, in a row per `perRow` items
+const featureGrid = (s: SectionStyle, items: [string, string][], y: number, perRow: number = 3): NodeSpec[] => {
+  const cols = columns(perRow);
+  const inner = cols[0].width - 48;
+  const cardHeight = Math.max(...items.map(([title, text]) =>
+    24 + textHeight(s, 'h4', title, inner) + 8 + textHeight(s, 'body', text, inner) + 24
+  ));
+  return items.map(([title, text], index) => {
+    const col = cols[index % perRow];
+    const row = Math.floor(index / perRow);
+    const titleNode = heading(s, title, 'h4', { x: 24, y: 24, width: inner });
+    return panel(s, { x: col.x, y: y + row * (cardHeight + GAP), width: col.width, height: cardHeight }, [
+      titleNode,
+      paragraph(s, text, 'body', { x: 24, y: bottom(titleNode) + 8, width: inner }),
+    ]);
+  });
+};
+
+const stackHeight = (nodes: NodeSpec[]) => Math.max(0, ...nodes.map(bottom));
+
+// ============================================
+// SECTIONS
+// ============================================
+
+const hero = (s: SectionStyle): SectionDraft => {
+  const tag = badge(s, 'New — Version 2.0', { x: center(180), y: 0, width: 180, height: 28 });
+  const title = heading(s, 'Build better products, faster', 'h1', { x: center(880), y: 52, width: 880 }, { align: 'center' });
+  const subtitle = paragraph(
+    s,
+    'Everything your team needs to plan, build and ship in one place. Start free and scale when you are ready.',
+    'lead',
+    { x: center(680), y: bottom(title) + 16, width: 680 },
+    { align: 'center' }
+  );
+  const y = bottom(subtitle) + 32;
+  const nodes = [
+    tag,
+    title,
+    subtitle,
+    button(s, 'Get Started', { x: CONTENT_WIDTH / 2 - 172, y, width: 160, height: 48 }),
+    button(s, 'Learn More', { x: CONTENT_WIDTH / 2 + 12, y, width: 160, height: 48 }, 'secondary'),
+    image(s, 'Product screenshot', { x: center(880), y: y + 96, width: 880, height: 440 }),
+  ];
+  return { height: stackHeight(nodes), nodes };
+};
+
+const heroWithEmail = (s: SectionStyle): SectionDraft => {
+  const title = heading(s, 'Something new is coming', 'h1', { x: center(880), y: 0, width: 880 }, { align: 'center' });
+  const subtitle = paragraph(
+    s,
+    'Be the first to know when we launch. Join the waitlist for early access and founding-member pricing.',
+    'lead',
+    { x: center(640), y: bottom(title) + 16, width: 640 },
+    { align: 'center' }
+  );
+  const y = bottom(subtitle) + 32;
+  const nodes: NodeSpec[] = [
+    title,
+    subtitle,
+    {
+      type: 'input',
+      props: { label: '', placeholder: 'you@company.com', type: 'email', fontSize: s.fontSize.body, className: '' },
+      box: { x: center(520), y, width: 340, height: 48 },
+    },
+    button(s, 'Join the Waitlist', { x: center(520) + 356, y, width: 164, height: 48 }),
+    paragraph(s, 'No spam. Unsubscribe at any time.', 'small', { x: center(520), y: y + 64, width: 520 }, { align: 'center' }),
+  ];
+  return { height: stackHeight(nodes), nodes };
+};
+
+const heroMinimal = (s: SectionStyle): SectionDraft => {
+  const avatar: NodeSpec = { type: 'avatar', props: { src: '', alt: 'Portrait', fallback: 'AM', className: '' }, box: { x: 0, y: 0, width: 72, height: 72 } };
+  const title = heading(s, "Hi, I'm Alex — a designer and developer crafting calm, useful products.", 'h1', { x: 0, y: 104, width: 880 });
+  const subtitle = paragraph(s, 'Currently designing tools for small teams. Previously at studios in Berlin and Lisbon.', 'lead', { x: 0, y: bottom(title) + 16, width: 640 });
+  const nodes = [avatar, title, subtitle, button(s, 'View My Work', { x: 0, y: bottom(subtitle) + 32, width: 180, height: 48 })];
+  return { height: stackHeight(nodes), nodes };
+};
+
+const productHero = (s: SectionStyle): SectionDraft => {
+  const [left, right] = columns(2, 64);
+  const tag = badge(s, 'Just launched', { x: right.x, y: 40, width: 140, height: 28 });
+  const title = heading(s, 'Aura One Headphones', 'h1', { x: right.x, y: 84, width: right.width });
+  const text = paragraph(s, 'Studio-grade sound, adaptive noise cancelling and 40 hours of battery in a frame that weighs next to nothing.', 'lead', { x: right.x, y: bottom(title) + 16, width: right.width });
+  const price = heading(s, '$249', 'h2', { x: right.x, y: bottom(text) + 24, width: right.width }, { color: s.colors.primary });
+  const y = bottom(price) + 24;
+  const nodes = [
+    image(s, 'Product photo', { x: left.x, y: 0, width: left.width, height: 480 }),
+    tag,
+    title,
+    text,
+    price,
+    button(s, 'Buy Now', { x: right.x, y, width: 160, height: 48 }),
+    button(s, 'Compare Models', { x: right.x + 176, y, width: 180, height: 48 }, 'secondary'),
+  ];
+  return { height: stackHeight(nodes), nodes };
+};
+
+const logoCloud = (s: SectionStyle): SectionDraft => {
+  const label = paragraph(s, 'Trusted by teams at', 'small', { x: 0, y: 0, width: CONTENT_WIDTH }, { align: 'center' });
+  const y = bottom(label) + 16;
+  const logos = ['Northwind', 'Acme', 'Globex', 'Initech', 'Umbrella'].map((name, index) => {
+    const col = columns(5)[index];
+    return heading(s, name, 'h4', { x: col.x, y, width: col.width }, { align: 'center', color: s.colors.textMuted });
+  });
+  return { height: stackHeight(logos), nodes: [label, ...logos] };
+};
+
+const features = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'Everything you need', 'Powerful building blocks that work together, so you can focus on your customers.');
+  const grid = featureGrid(s, [
+    ['Real-time collaboration', 'Work on the same project together and see every change as it happens.'],
+    ['Automations', 'Hand repetitive work to rules that run in the background.'],
+    ['Insights', 'Dashboards that show what is working and what needs attention.'],
+    ['Integrations', 'Connect the tools you already use in a couple of clicks.'],
+    ['Security', 'Single sign-on, audit logs and encryption at rest by default.'],
+    ['Support', 'Real people ready to help, every day of the week.'],
+  ], y);
+  return { height: stackHeight(grid), nodes: [...nodes, ...grid], background: s.surface };
+};
+
+const howItWorks = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'How it works', 'Get up and running in three steps.');
+  const steps: [string, string][] = [
+    ['Create your workspace', 'Sign up and invite your team. It takes less than a minute.'],
+    ['Import your work', 'Bring in existing projects from spreadsheets or other tools.'],
+    ['Ship with confidence', 'Track progress, automate reviews and launch on schedule.'],
+  ];
+  const items = steps.flatMap(([title, text], index) => {
+    const col = columns(3)[index];
+    const titleNode = heading(s, title, 'h3', { x: col.x, y: y + 44, width: col.width });
+    return [
+      badge(s, `Step ${index + 1}`, { x: col.x, y, width: 80, height: 28 }),
+      titleNode,
+      paragraph(s, text, 'body', { x: col.x, y: bottom(titleNode) + 8, width: col.width }),
+    ];
+  });
+  return { height: stackHeight(items), nodes: [...nodes, ...items] };
+};
+
+const quoteCards = (s: SectionStyle, title: string, quotes: [string, string, string][], y0?: number, rating?: boolean): SectionDraft => {
+  const { nodes, y: introY } = intro(s, title);
+  const y = y0 ?? introY;
+  const cols = columns(3);
+  const inner = cols[0].width - 48;
+  const top = rating ? 60 : 24;
+  const height = Math.max(...quotes.map(([quote]) => top + textHeight(s, 'body', quote, inner) + 96));
+  const cards = quotes.map(([quote, name, role], index) => {
+    const text = paragraph(s, `“${quote}”`, 'body', { x: 24, y: top, width: inner }, { color: s.colors.text });
+    const children: NodeSpec[] = [
+      text,
+      heading(s, name, 'h4', { x: 24, y: height - 76, width: inner }),
+      paragraph(s, role, 'small', { x: 24, y: height - 44, width: inner }),
+    ];
+    if (rating) children.unshift(badge(s, '★★★★★', { x: 24, y: 24, width: 96, height: 24 }));
+    return panel(s, { x: cols[index].x, y, width: cols[index].width, height }, children);
+  });
+  return { height: stackHeight(cards), nodes: [...nodes, ...cards] };
+};
+
+const testimonials = (s: SectionStyle): SectionDraft => ({
+  ...quoteCards(s, 'Loved by teams everywhere', [
+    ['We replaced three tools with this and our weekly planning takes half the time.', 'Maya Chen', 'Head of Product, Northwind'],
+    ['The onboarding was effortless. The whole company was using it within a week.', 'Daniel Okafor', 'COO, Globex'],
+    ['Support answers in minutes, not days. It feels like part of our team.', 'Sofia Ramos', 'Engineering Lead, Acme'],
+  ]),
+  background: s.surface,
+});
+
+const reviews = (s: SectionStyle): SectionDraft =>
+  quoteCards(s, 'What customers say', [
+    ['Best headphones I have owned. The noise cancelling is unreal on flights.', 'Jordan P.', 'Verified buyer'],
+    ['Comfortable for a full workday and the battery just keeps going.', 'Priya K.', 'Verified buyer'],
+    ['Crisp, balanced sound and the case fits in any pocket.', 'Lucas M.', 'Verified buyer'],
+  ], undefined, true);
+
+const pricing = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'Simple, transparent pricing', 'Start free. Upgrade when your team grows.');
+  const plans: [string, string, string[]][] = [
+    ['Starter', '$0', ['Up to 3 projects', 'Basic analytics', 'Community support']],
+    ['Pro', '$19', ['Unlimited projects', 'Advanced analytics', 'Priority support']],
+    ['Enterprise', '$49', ['Everything in Pro', 'SSO and audit logs', 'Dedicated manager']],
+  ];
+  const cols = columns(3);
+  const inner = cols[0].width - 64;
+  const cards = plans.map(([name, price, perks], index) => {
+    const highlighted = index === 1;
+    const list = paragraph(s, perks.map((perk) => `✓ ${perk}`).join('\n'), 'body', { x: 32, y: 136, width: inner }, { color: s.colors.text });
+    list.props.className = cn(list.props.className, 'whitespace-pre-line');
+    list.box.height = Math.ceil(perks.length * s.fontSize.body * 1.625) + 8;
+    const card = panel(s, { x: cols[index].x, y, width: cols[index].width, height: bottom(list) + 104 }, [
+      heading(s, name, 'h4', { x: 32, y: 32, width: inner }, { color: highlighted ? s.colors.primary : s.colors.text }),
+      heading(s, `${price}/mo`, 'h2', { x: 32, y: 64, width: inner }),
+      list,
+      button(s, highlighted ? 'Start Free Trial' : 'Get Started', { x: 32, y: bottom(list) + 32, width: inner, height: 44 }, highlighted ? 'primary' : 'secondary'),
+    ]);
+    if (highlighted) card.props.className = cn(card.props.className, 'border-2', colorClass('border', s.colors.primary));
+    return card;
+  });
+  return { height: stackHeight(cards), nodes: [...nodes, ...cards] };
+};
+
+const faq = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'Frequently asked questions');
+  const items: [string, string][] = [
+    ['Is there a free plan?', 'Yes. The Starter plan is free forever for small teams.'],
+    ['Can I cancel at any time?', 'Plans are billed monthly and you can cancel with one click.'],
+    ['Do you offer discounts?', 'Non-profits and schools get 50% off every paid plan.'],
+    ['Where is my data stored?', 'In encrypted data centers in the EU and US; you choose the region.'],
+  ];
+  const cols = columns(2, 48);
+  const entries = items.flatMap(([question, answer], index) => {
+    const col = cols[index % 2];
+    const top = y + Math.floor(index / 2) * 128;
+    const q = heading(s, question, 'h4', { x: col.x, y: top, width: col.width });
+    return [q, paragraph(s, answer, 'body', { x: col.x, y: bottom(q) + 8, width: col.width })];
+  });
+  return { height: stackHeight(entries), nodes: [...nodes, ...entries], background: s.surface };
+};
+
+const cta = (s: SectionStyle): SectionDraft => {
+  const title = heading(s, 'Ready to get started?', 'h2', { x: 0, y: 0, width: CONTENT_WIDTH }, { align: 'center', color: s.colors.textInverse });
+  const text = paragraph(s, 'Join thousands of teams who ship faster every week.', 'lead', { x: center(640), y: bottom(title) + 12, width: 640 }, { align: 'center', color: s.colors.textInverse });
+  const nodes = [title, text, button(s, 'Start Building', { x: center(200), y: bottom(text) + 32, width: 200, height: 52 }, 'inverse')];
+  return { height: stackHeight(nodes), nodes, background: s.colors.primary };
+};
+
+const footer = (s: SectionStyle): SectionDraft => {
+  const light = s.colors.textInverse;
+  const cols = columns(4);
+  const nodes: NodeSpec[] = [
+    heading(s, 'Brand', 'h3', { x: cols[0].x, y: 0, width: cols[0].width }, { color: light }),
+    paragraph(s, 'Tools for teams who care about their craft.', 'small', { x: cols[0].x, y: 48, width: cols[0].width }, { color: light }),
+  ];
+  ([['Product', 'Features\nPricing\nChangelog'], ['Company', 'About\nCareers\nContact'], ['Legal', 'Privacy\nTerms\nSecurity']] as const)
+    .forEach(([title, links], index) => {
+      const col = cols[index + 1];
+      const list = paragraph(s, links, 'small', { x: col.x, y: 40, width: col.width }, { color: light });
+      list.props.className = cn(list.props.className, 'whitespace-pre-line opacity-80');
+      list.box.height = Math.ceil(3 * s.fontSize.small * 1.625) + 8;
+      nodes.push(heading(s, title, 'h4', { x: col.x, y: 0, width: col.width }, { color: light }), list);
+    });
+  const copyright = paragraph(s, `© ${new Date().getFullYear()} Brand, Inc. All rights reserved.`, 'small', { x: 0, y: stackHeight(nodes) + 48, width: CONTENT_WIDTH }, { color: light });
+  copyright.props.className = cn(copyright.props.className, 'opacity-60');
+  nodes.push(copyright);
+  return { height: stackHeight(nodes), nodes, background: opaque(s.colors.text, s.colors.textInverse) };
+};
+
+const problemSolution = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'Work shouldn’t feel this hard');
+  const [left, right] = columns(2);
+  const inner = left.width - 64;
+  const block = (box: { x: number; width: number }, title: string, text: string, accent: string) => {
+    const titleNode = heading(s, title, 'h3', { x: 32, y: 32, width: inner }, { color: accent });
+    const body = paragraph(s, text, 'body', { x: 32, y: bottom(titleNode) + 12, width: inner });
+    return panel(s, { x: box.x, y, width: box.width, height: bottom(body) + 32 }, [titleNode, body]);
+  };
+  const panels = [
+    block(left, 'The problem', 'Updates are scattered across chat, email and docs. Nobody knows what is blocked until it is too late.', s.colors.secondary),
+    block(right, 'Our solution', 'One shared timeline that pulls everything together and flags risks before they become delays.', s.colors.primary),
+  ];
+  const height = Math.max(...panels.map((p) => p.box.height));
+  panels.forEach((p) => { p.box.height = height; });
+  return { height: stackHeight(panels), nodes: [...nodes, ...panels] };
+};
+
+const socialProof = (s: SectionStyle): SectionDraft => {
+  const stats: [string, string][] = [['10k+', 'Teams on the waitlist'], ['4.9/5', 'Average beta rating'], ['38%', 'Faster delivery']];
+  const nodes = stats.flatMap(([value, label], index) => {
+    const col = columns(3)[index];
+    const valueNode = heading(s, value, 'h1', { x: col.x, y: 0, width: col.width }, { align: 'center', color: s.colors.primary });
+    return [valueNode, paragraph(s, label, 'body', { x: col.x, y: bottom(valueNode) + 4, width: col.width }, { align: 'center' })];
+  });
+  return { height: stackHeight(nodes), nodes, background: s.surface };
+};
+
+const projectGrid = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'Selected work');
+  const projects: [string, string][] = [
+    ['Fintech dashboard', 'Product design · 2024'],
+    ['Travel booking app', 'UX research and UI · 2023'],
+    ['Studio identity', 'Brand and web · 2023'],
+    ['Health companion', 'iOS app · 2022'],
+  ];
+  const cols = columns(2, 32);
+  const items = projects.flatMap(([title, meta], index) => {
+    const col = cols[index % 2];
+    const top = y + Math.floor(index / 2) * 440;
+    return [
+      image(s, title, { x: col.x, y: top, width: col.width, height: 320 }),
+      heading(s, title, 'h4', { x: col.x, y: top + 336, width: col.width }),
+      paragraph(s, meta, 'small', { x: col.x, y: top + 372, width: col.width }),
+    ];
+  });
+  return { height: stackHeight(items), nodes: [...nodes, ...items] };
+};
+
+const about = (s: SectionStyle): SectionDraft => {
+  const [left, right] = columns(2, 64);
+  const title = heading(s, 'About me', 'h2', { x: right.x, y: 0, width: right.width });
+  const text = paragraph(
+    s,
+    'I have spent the last ten years helping startups and studios turn rough ideas into products people enjoy. I care about clear structure, honest copy and details that make software feel calm.',
+    'body',
+    { x: right.x, y: bottom(title) + 16, width: right.width }
+  );
+  const nodes = [image(s, 'Portrait', { x: left.x, y: 0, width: left.width, height: 400 }), title, text];
+  return { height: stackHeight(nodes), nodes, background: s.surface };
+};
+
+const skills = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'Skills & tools');
+  const names = ['Product design', 'Design systems', 'Prototyping', 'React', 'TypeScript', 'Figma', 'User research', 'Motion'];
+  let x = 0;
+  let row = 0;
+  const badges = names.map((name) => {
+    const width = Math.round(name.length * s.fontSize.small * 0.6) + 32;
+    if (x + width > CONTENT_WIDTH) {
+      x = 0;
+      row += 1;
+    }
+    const node = badge(s, name, { x, y: y + row * 44, width, height: 32 });
+    x += width + 12;
+    return node;
+  });
+  return { height: stackHeight(badges), nodes: [...nodes, ...badges] };
+};
+
+const contact = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'Get in touch', 'Have a project in mind? Send a message and I will reply within two days.');
+  const x = center(520);
+  const field = (label: string, placeholder: string, type: string, top: number): NodeSpec => ({
+    type: 'input',
+    props: { label, placeholder, type, fontSize: s.fontSize.small, className: '' },
+    box: { x, y: top, width: 520, height: 70 },
+  });
+  const form = [
+    field('Name', 'Your name', 'text', y),
+    field('Email', 'you@company.com', 'email', y + 86),
+    field('Message', 'Tell me about your project', 'text', y + 172),
+    button(s, 'Send Message', { x, y: y + 266, width: 520, height: 48 }),
+  ];
+  return { height: stackHeight(form), nodes: [...nodes, ...form] };
+};
+
+const services = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'What we do', 'End-to-end product work, from first sketch to launch and beyond.');
+  const grid = featureGrid(s, [
+    ['Strategy', 'Research, positioning and roadmaps grounded in what your customers need.'],
+    ['Design', 'Interfaces and design systems that scale with your product.'],
+    ['Engineering', 'Fast, accessible web and mobile apps built to last.'],
+  ], y);
+  return { height: stackHeight(grid), nodes: [...nodes, ...grid], background: s.surface };
+};
+
+const caseStudies = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'Case studies');
+  const studies: [string, string, string][] = [
+    ['Northwind Bank', 'Rebuilt online banking for 2 million customers, cutting support calls by 40%.', 'Fintech'],
+    ['Globex Health', 'Designed a patient app that raised appointment attendance by 25%.', 'Healthcare'],
+  ];
+  const cols = columns(2, 32);
+  const inner = cols[0].width - 64;
+  const cards = studies.map(([title, text, tag], index) => {
+    const titleNode = heading(s, title, 'h3', { x: 32, y: 300, width: inner });
+    const body = paragraph(s, text, 'body', { x: 32, y: bottom(titleNode) + 8, width: inner });
+    return panel(s, { x: cols[index].x, y, width: cols[index].width, height: bottom(body) + 32 }, [
+      image(s, title, { x: 0, y: 0, width: cols[index].width, height: 240 }),
+      badge(s, tag, { x: 32, y: 260, width: 110, height: 28 }),
+      titleNode,
+      body,
+    ]);
+  });
+  return { height: stackHeight(cards), nodes: [...nodes, ...cards] };
+};
+
+const team = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'Meet the team');
+  const people: [string, string, string][] = [
+    ['Ava Turner', 'Managing Director', 'AT'],
+    ['Ben Ito', 'Design Lead', 'BI'],
+    ['Chloe Martin', 'Engineering Lead', 'CM'],
+    ['David Silva', 'Strategy', 'DS'],
+  ];
+  const members = people.flatMap(([name, role, initials], index) => {
+    const col = columns(4)[index];
+    return [
+      { type: 'avatar' as ComponentType, props: { src: '', alt: name, fallback: initials, className: '' }, box: { x: col.x + center(96, col.width), y, width: 96, height: 96 } },
+      heading(s, name, 'h4', { x: col.x, y: y + 112, width: col.width }, { align: 'center' }),
+      paragraph(s, role, 'small', { x: col.x, y: y + 148, width: col.width }, { align: 'center' }),
+    ];
+  });
+  return { height: stackHeight(members), nodes: [...nodes, ...members], background: s.surface };
+};
+
+const gallery = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'Gallery');
+  const images = Array.from({ length: 6 }, (_, index) => {
+    const col = columns(3)[index % 3];
+    return image(s, `Gallery image ${index + 1}`, { x: col.x, y: y + Math.floor(index / 3) * 264, width: col.width, height: 240 });
+  });
+  return { height: stackHeight(images), nodes: [...nodes, ...images] };
+};
+
+const specs = (s: SectionStyle): SectionDraft => {
+  const { nodes, y } = intro(s, 'Tech specs');
+  const rows = [
+    ['Battery life', 'Up to 40 hours'],
+    ['Charging', 'USB-C, 10 min for 5 hours'],
+    ['Weight', '250 g'],
+    ['Connectivity', 'Bluetooth 5.3, multipoint'],
+    ['Noise cancelling', 'Adaptive, 3 modes'],
+  ];
+  const table: NodeSpec = {
+    type: 'table',
+    props: { columns: ['Specification', 'Detail'], rows, fontSize: s.fontSize.body, className: textColor(s.colors.text) },
+    box: { x: center(720), y, width: 720, height: 56 + rows.length * 52 },
+  };
+  return { height: stackHeight([table]), nodes: [...nodes, table], background: s.surface };
+};
+
+/**
+ * Every section the page templates use, by id
+ */
+export const SECTION_LIBRARY: Record<string, SectionDefinition> = Object.fromEntries(
+  ([
+    ['hero', 'Hero', hero],
+    ['heroWithEmail', 'Hero with Email Signup', heroWithEmail],
+    ['heroMinimal', 'Minimal Hero', heroMinimal],
+    ['productHero', 'Product Hero', productHero],
+    ['logoCloud', 'Logo Cloud', logoCloud],
+    ['features', 'Features', features],
+    ['howItWorks', 'How It Works', howItWorks],
+    ['testimonials', 'Testimonials', testimonials],
+    ['pricing', 'Pricing', pricing],
+    ['faq', 'FAQ', faq],
+    ['cta', 'Call to Action', cta],
+    ['footer', 'Footer', footer],
+    ['problemSolution', 'Problem & Solution', problemSolution],
+    ['socialProof', 'Social Proof', socialProof],
+    ['projectGrid', 'Project Grid', projectGrid],
+    ['about', 'About', about],
+    ['skills', 'Skills', skills],
+    ['contact', 'Contact', contact],
+    ['services', 'Services', services],
+    ['caseStudies', 'Case Studies', caseStudies],
+    ['team', 'Team', team],
+    ['gallery', 'Gallery', gallery],
+    ['specs', 'Specs', specs],
+    ['reviews', 'Reviews', reviews],
+  ] as [string, string, SectionDefinition['build']][]).map(([id, label, build]) => [id, { id, label, build }])
+);
+
+// Sections a template names but the library does not know get a titled placeholder
+const placeholder = (id: string): SectionDefinition => ({
+  id,
+  label: id.replace(/([A-Z])/g, ' $1').replace(/^./, (c) => c.toUpperCase()),
+  build: (s) => {
+    const { nodes } = intro(s, placeholder(id).label, 'Add content for this section.');
+    return { height: stackHeight(nodes), nodes };
+  },
+});
+
+// ============================================
+// MATERIALIZE
+// ============================================
+
+const materialize = (spec: NodeSpec, parentId: string | null, offset: { x: number; y: number }): Component => {
+  const id = nanoid();
+  return {
+    id,
+    type: spec.type,
+    props: { ...getDefaultProps(spec.type), ...spec.props },
+    children: (spec.children ?? []).map((child) => materialize(child, id, { x: 0, y: 0 })),
+    parentId,
+    position: {
+      x: Math.round(spec.box.x + offset.x),
+      y: Math.round(spec.box.y + offset.y),
+      width: Math.round(spec.box.width),
+      height: Math.round(spec.box.height),
+    },
+  };
+};
+
+/**
+ * Label of a section id, including ids the library has no builder for
+ */
+export const getSectionLabel = (id: string): string => (SECTION_LIBRARY[id] ?? placeholder(id)).label;
+
+/**
+ * One full-width section as a container subtree, with its top edge at `y`
+ */
+export function buildSection(sectionId: string, preset: StylePreset, y: number = 0): Component {
+  const style = getSectionStyle(preset);
+  const definition = SECTION_LIBRARY[sectionId] ?? placeholder(sectionId);
+  const draft = definition.build(style);
+  return materialize(
+    {
+      type: 'container',
+      props: {
+        name: definition.label,
+        layout: 'flex-col',
+        backgroundColor: draft.background ?? style.pageBackground,
+        className: 'flex flex-col',
+      },
+      box: { x: 0, y, width: PAGE_WIDTH, height: draft.height + style.padding * 2 },
+      children: draft.nodes.map((node) => ({ ...node, box: { ...node.box, x: node.box.x + CONTENT_X, y: node.box.y + style.padding } })),
+    },
+    null,
+    { x: 0, y: 0 }
+  );
+}
+
+/**
+ * A template's sections stacked top to bottom, styled by its default preset
+ * unless another one is given
+ */
+export function buildTemplate(template: PageTemplate, preset: StylePreset = getPresetById(template.defaultPreset)): Component[] {
+  let y = 0;
+  return template.sections.map((sectionId) => {
+    const section = buildSection(sectionId, preset, y);
+    y += section.position.height;
+    return section;
+  });
+}
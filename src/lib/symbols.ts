@@ -0,0 +1,267 @@
+/**
+ * Symbols
+ * Reusable master components. Any subtree can be turned into a named symbol;
+ * instances are linked copies that follow every master edit, except for the
+ * props they override. Detaching an instance turns it back into plain components.
+ */
+
+import { nanoid } from 'nanoid';
+import type { Component, ComponentPosition } from '@/store/builder-store';
+import { OVERRIDE_BREAKPOINTS, ResponsiveOverrides } from './responsive';
+
+// ============================================
+// TYPES
+// ============================================
+
+// Marks the master component of a symbol
+export interface SymbolInfo {
+  id: string;
+  name: string;
+}
+
+// Marks the root of an instance
+export interface SymbolInstance {
+  symbolId: string;
+  // Props set on this instance, keyed by the id of the master node they replace
+  overrides: Record<string, Record<string, any>>;
+}
+
+// ============================================
+// LOOKUP
+// ============================================
+
+/**
+ * Every symbol master in the tree, in canvas order
+ */
+export function getSymbolMasters(nodes: Component[]): Component[] {
+  const masters: Component[] = [];
+  const visit = (list: Component[]) => {
+    list.forEach((node) => {
+      if (node.symbol) masters.push(node);
+      visit(node.children);
+    });
+  };
+  visit(nodes);
+  return masters;
+}
+
+/**
+ * The master of a symbol
+ */
+export function findSymbolMaster(nodes: Component[], symbolId: string): Component | null {
+  return getSymbolMasters(nodes).find((node) => node.symbol!.id === symbolId) ?? null;
+}
+
+/**
+ * Root of the instance a component belongs to (the component itself for a root), or null
+ */
+export function findInstanceRoot(nodes: Component[], id: string): Component | null {
+  const visit = (list: Component[], root: Component | null): Component | null => {
+    for (const node of list) {
+      const owner = node.instance ? node : root;
+      if (node.id === id) return owner;
+      const found = visit(node.children, owner);
+      if (found) return found;
+    }
+    return null;
+  };
+  return visit(nodes, null);
+}
+
+/**
+ * Number of instances of a symbol
+ */
+export function countInstances(nodes: Component[], symbolId: string): number {
+  return nodes.reduce(
+    (count, node) => count + (node.instance?.symbolId === symbolId ? 1 : 0) + countInstances(node.children, symbolId),
+    0
+  );
+}
+
+/**
+ * Whether a component is inside an instance (not its root). Its structure and
+ * placement follow the master; only its props can be overridden.
+ */
+export const isInstanceChild = (node: Component): boolean => !!node.masterId && !node.instance;
+
+/**
+ * Whether a subtree holds a symbol master or an instance anywhere
+ */
+export const containsSymbols = (node: Component): boolean =>
+  !!node.symbol || !!node.masterId || node.children.some(containsSymbols);
+
+/**
+ * Whether a component is, or sits inside, a symbol master or an instance
+ */
+export function isInSymbol(nodes: Component[], id: string): boolean {
+  const visit = (list: Component[], inside: boolean): boolean | null => {
+    for (const node of list) {
+      const here = inside || !!node.symbol || !!node.masterId;
+      if (node.id === id) return here;
+      const found = visit(node.children, here);
+      if (found !== null) return found;
+    }
+    return null;
+  };
+  return visit(nodes, false) ?? false;
+}
+
+// ============================================
+// INSTANCES
+// ============================================
+
+// Props and breakpoint data are plain JSON; this also copies out of immer drafts
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// A master node's breakpoint overrides as an instance node sees them: overridden
+// props are left out so the instance's own value holds at every breakpoint
+const mirrorResponsive = (
+  source: Component,
+  overrides: Record<string, any> | undefined,
+  ownPositions?: ResponsiveOverrides
+): ResponsiveOverrides | undefined => {
+  const result: ResponsiveOverrides = {};
+  OVERRIDE_BREAKPOINTS.forEach((breakpoint) => {
+    const position = ownPositions ? ownPositions[breakpoint]?.position : source.responsive?.[breakpoint]?.position;
+    const props = Object.fromEntries(
+      Object.entries(source.responsive?.[breakpoint]?.props ?? {}).filter(([key]) => !(overrides && key in overrides))
+    );
+    if (position && Object.keys(position).length > 0) {
+      result[breakpoint] = { position: clone(position) };
+    }
+    if (Object.keys(props).length > 0) {
+      result[breakpoint] = { ...result[breakpoint], props: clone(props) };
+    }
+  });
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+// New instance nodes mirroring a master subtree
+const instantiate = (source: Component, parentId: string | null, overrides: SymbolInstance['overrides']): Component => {
+  const id = nanoid();
+  const responsive = mirrorResponsive(source, overrides[source.id]);
+  return {
+    id,
+    type: source.type,
+    props: { ...clone(source.props), ...clone(overrides[source.id] ?? {}) },
+    children: source.children.map((child) => instantiate(child, id, overrides)),
+    parentId,
+    position: { ...source.position },
+    ...(responsive ? { responsive } : {}),
+    masterId: source.id,
+  };
+};
+
+/**
+ * A new instance of a symbol's master, placed at `position` (relative to `parentId`)
+ */
+export function createInstance(master: Component, position: Pick<ComponentPosition, 'x' | 'y'>, parentId: string | null): Component {
+  const instance = instantiate(master, parentId, {});
+  instance.position = { ...instance.position, ...position };
+  delete instance.responsive;
+  instance.instance = { symbolId: master.symbol!.id, overrides: {} };
+  return instance;
+}
+
+// Bring one instance node in line with its master node. Only differing fields are
+// written so an unchanged instance produces no history patches.
+const syncNode = (target: Component, source: Component, overrides: SymbolInstance['overrides'], isRoot: boolean) => {
+  const props = { ...source.props, ...overrides[source.id] };
+  if (target.type !== source.type) target.type = source.type;
+  if (!sameValue(target.props, props)) target.props = clone(props);
+
+  // The root keeps its own placement; everything inside follows the master
+  if (!isRoot && !sameValue(target.position, source.position)) {
+    target.position = { ...source.position };
+  }
+  const responsive = mirrorResponsive(source, overrides[source.id], isRoot ? target.responsive : undefined);
+  if (!sameValue(target.responsive, responsive)) {
+    if (responsive) {
+      target.responsive = responsive;
+    } else {
+      delete target.responsive;
+    }
+  }
+
+  const existing = new Map(target.children.filter((child) => child.masterId).map((child) => [child.masterId!, child]));
+  const children = source.children.map((child) => {
+    const match = existing.get(child.id);
+    if (!match) return instantiate(child, target.id, overrides);
+    syncNode(match, child, overrides, false);
+    return match;
+  });
+  if (children.length !== target.children.length || children.some((child, index) => child !== target.children[index])) {
+    target.children = children;
+  }
+};
+
+/**
+ * Remove the symbol links from an instance, leaving plain components
+ */
+export function detachTree(node: Component): void {
+  delete node.instance;
+  delete node.masterId;
+  node.children.forEach(detachTree);
+}
+
+/**
+ * Propagate master edits to every instance. Instances whose master no longer
+ * exists are detached.
+ */
+export function syncInstances(nodes: Component[]): void {
+  const masters = new Map(getSymbolMasters(nodes).map((node) => [node.symbol!.id, node]));
+  const visit = (list: Component[]) => {
+    list.forEach((node) => {
+      if (node.instance) {
+        const master = masters.get(node.instance.symbolId);
+        if (master) {
+          if (node.masterId !== master.id) node.masterId = master.id;
+          syncNode(node, master, node.instance.overrides, true);
+          return;
+        }
+        detachTree(node);
+      } else if (node.masterId) {
+        // Left over from an instance that no longer exists
+        delete node.masterId;
+      }
+      visit(node.children);
+    });
+  };
+  visit(nodes);
+}
+
+/**
+ * Record a prop edit on an instance node as an override. Values equal to the
+ * master's drop the override instead.
+ */
+export function writeOverride(root: Component, master: Component, masterNodeId: string, props: Record<string, any>): void {
+  const source = findMasterNode(master, masterNodeId);
+  if (!source || !root.instance) return;
+  const overrides = { ...root.instance.overrides[masterNodeId] };
+  Object.entries(props).forEach(([key, value]) => {
+    if (sameValue(source.props[key], value)) {
+      delete overrides[key];
+    } else {
+      overrides[key] = value;
+    }
+  });
+  if (Object.keys(overrides).length > 0) {
+    root.instance.overrides[masterNodeId] = overrides;
+  } else {
+    delete root.instance.overrides[masterNodeId];
+  }
+}
+
+/**
+ * A node in a master's subtree
+ */
+export function findMasterNode(master: Component, id: string): Component | null {
+  if (master.id === id) return master;
+  for (const child of master.children) {
+    const found = findMasterNode(child, id);
+    if (found) return found;
+  }
+  return null;
+}
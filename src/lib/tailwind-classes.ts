@@ -0,0 +1,237 @@
+/**
+ * Tailwind Class Controls
+ * Maps a component's `className` onto structured controls (spacing, typography,
+ * colors, borders, effects, layout) for the visual class editor, and writes
+ * control changes back as a deduplicated class string.
+ */
+
+import { cn } from '@/lib/utils';
+import { THEME_COLORS, resolveColor, splitClassNames } from './tailwind-subset';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ClassVariant = 'base' | 'hover' | 'dark';
+
+export type ClassSection = 'layout' | 'spacing' | 'typography' | 'colors' | 'borders' | 'effects';
+
+export interface ClassControl {
+  id: string;
+  label: string;
+  section: ClassSection;
+  // 'color' controls pick `${colorPrefix}<color token>`
+  kind: 'select' | 'color';
+  // Whether a utility belongs to this control, including values not in `options`
+  matches: (utility: string) => boolean;
+  options: string[];
+  colorPrefix?: string;
+}
+
+export interface ParsedClasses {
+  // Class each control currently has, per variant
+  values: Record<ClassVariant, Record<string, string>>;
+  // Classes no control owns (arbitrary values, responsive prefixes, ...), kept as-is
+  other: string[];
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const CLASS_VARIANTS: { id: ClassVariant; label: string; prefix: string }[] = [
+  { id: 'base', label: 'Base', prefix: '' },
+  { id: 'hover', label: 'Hover', prefix: 'hover:' },
+  { id: 'dark', label: 'Dark', prefix: 'dark:' },
+];
+
+export const CLASS_SECTIONS: { id: ClassSection; label: string }[] = [
+  { id: 'layout', label: 'Layout' },
+  { id: 'spacing', label: 'Spacing' },
+  { id: 'typography', label: 'Typography' },
+  { id: 'colors', label: 'Colors' },
+  { id: 'borders', label: 'Borders' },
+  { id: 'effects', label: 'Shadows & Effects' },
+];
+
+// Default Tailwind palette families and shades, for the color picker
+export const PALETTE_FAMILIES = [
+  'slate', 'gray', 'zinc', 'neutral', 'stone', 'red', 'orange', 'amber', 'yellow', 'lime', 'green',
+  'emerald', 'teal', 'cyan', 'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose',
+];
+export const PALETTE_SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'];
+
+// Theme colors first, then the fixed ones
+export const BASE_COLORS = [...THEME_COLORS, 'white', 'black', 'transparent'];
+
+const SPACING_SCALE = ['0', '0.5', '1', '1.5', '2', '2.5', '3', '4', '5', '6', '8', '10', '12', '16', '20', '24'];
+
+const scale = (prefix: string, values: string[]) => values.map((value) => `${prefix}-${value}`);
+
+const owns = (pattern: RegExp) => (utility: string) => pattern.test(utility);
+
+// Color utilities share their prefix with other utilities (`text-sm`, `border-2`), so check the token
+const color = (id: string, label: string, section: ClassSection, prefix: string): ClassControl => ({
+  id,
+  label,
+  section,
+  kind: 'color',
+  matches: (utility) => utility.startsWith(prefix) && resolveColor(utility.slice(prefix.length)) !== null,
+  options: [],
+  colorPrefix: prefix,
+});
+
+export const CLASS_CONTROLS: ClassControl[] = [
+  // Layout
+  {
+    id: 'display', label: 'Display', section: 'layout', kind: 'select',
+    matches: owns(/^(block|inline-block|inline|flex|inline-flex|grid|inline-grid|hidden|contents)$/),
+    options: ['block', 'inline-block', 'flex', 'inline-flex', 'grid', 'hidden'],
+  },
+  {
+    id: 'direction', label: 'Direction', section: 'layout', kind: 'select',
+    matches: owns(/^flex-(row|col)(-reverse)?$/),
+    options: ['flex-row', 'flex-col', 'flex-row-reverse', 'flex-col-reverse'],
+  },
+  {
+    id: 'justify', label: 'Justify', section: 'layout', kind: 'select',
+    matches: owns(/^justify-(start|end|center|between|around|evenly|normal|stretch)$/),
+    options: scale('justify', ['start', 'center', 'end', 'between', 'around', 'evenly']),
+  },
+  {
+    id: 'align', label: 'Align Items', section: 'layout', kind: 'select',
+    matches: owns(/^items-(start|end|center|baseline|stretch)$/),
+    options: scale('items', ['start', 'center', 'end', 'baseline', 'stretch']),
+  },
+  { id: 'gap', label: 'Gap', section: 'layout', kind: 'select', matches: owns(/^gap-(?![xy]-)/), options: scale('gap', SPACING_SCALE) },
+  // Spacing
+  { id: 'p', label: 'Padding', section: 'spacing', kind: 'select', matches: owns(/^p-/), options: scale('p', SPACING_SCALE) },
+  { id: 'px', label: 'Padding X', section: 'spacing', kind: 'select', matches: owns(/^px-/), options: scale('px', SPACING_SCALE) },
+  { id: 'py', label: 'Padding Y', section: 'spacing', kind: 'select', matches: owns(/^py-/), options: scale('py', SPACING_SCALE) },
+  { id: 'm', label: 'Margin', section: 'spacing', kind: 'select', matches: owns(/^m-/), options: scale('m', [...SPACING_SCALE, 'auto']) },
+  { id: 'mx', label: 'Margin X', section: 'spacing', kind: 'select', matches: owns(/^mx-/), options: scale('mx', [...SPACING_SCALE, 'auto']) },
+  { id: 'my', label: 'Margin Y', section: 'spacing', kind: 'select', matches: owns(/^my-/), options: scale('my', [...SPACING_SCALE, 'auto']) },
+  // Typography
+  {
+    id: 'fontSize', label: 'Size', section: 'typography', kind: 'select',
+    matches: owns(/^text-(xs|sm|base|lg|[2-9]?xl)$/),
+    options: scale('text', ['xs', 'sm', 'base', 'lg', 'xl', '2xl', '3xl', '4xl', '5xl', '6xl']),
+  },
+  {
+    id: 'fontWeight', label: 'Weight', section: 'typography', kind: 'select',
+    matches: owns(/^font-(thin|extralight|light|normal|medium|semibold|bold|extrabold|black)$/),
+    options: scale('font', ['light', 'normal', 'medium', 'semibold', 'bold', 'extrabold']),
+  },
+  {
+    id: 'textAlign', label: 'Align', section: 'typography', kind: 'select',
+    matches: owns(/^text-(left|center|right|justify|start|end)$/),
+    options: scale('text', ['left', 'center', 'right', 'justify']),
+  },
+  {
+    id: 'leading', label: 'Line Height', section: 'typography', kind: 'select',
+    matches: owns(/^leading-/),
+    options: scale('leading', ['none', 'tight', 'snug', 'normal', 'relaxed', 'loose']),
+  },
+  {
+    id: 'tracking', label: 'Letter Spacing', section: 'typography', kind: 'select',
+    matches: owns(/^tracking-/),
+    options: scale('tracking', ['tighter', 'tight', 'normal', 'wide', 'wider', 'widest']),
+  },
+  // Colors
+  color('textColor', 'Text', 'colors', 'text-'),
+  color('bgColor', 'Background', 'colors', 'bg-'),
+  color('borderColor', 'Border', 'colors', 'border-'),
+  // Borders
+  {
+    id: 'borderWidth', label: 'Width', section: 'borders', kind: 'select',
+    matches: owns(/^border(-(0|2|4|8))?$/),
+    options: ['border-0', 'border', 'border-2', 'border-4', 'border-8'],
+  },
+  {
+    id: 'borderStyle', label: 'Style', section: 'borders', kind: 'select',
+    matches: owns(/^border-(solid|dashed|dotted|double|none)$/),
+    options: scale('border', ['solid', 'dashed', 'dotted', 'none']),
+  },
+  {
+    id: 'radius', label: 'Radius', section: 'borders', kind: 'select',
+    matches: owns(/^rounded(-(none|sm|md|lg|xl|2xl|3xl|full))?$/),
+    options: ['rounded-none', 'rounded-sm', 'rounded', 'rounded-md', 'rounded-lg', 'rounded-xl', 'rounded-2xl', 'rounded-full'],
+  },
+  // Effects
+  {
+    id: 'shadow', label: 'Shadow', section: 'effects', kind: 'select',
+    matches: owns(/^shadow(-(sm|md|lg|xl|2xl|inner|none))?$/),
+    options: ['shadow-none', 'shadow-sm', 'shadow', 'shadow-md', 'shadow-lg', 'shadow-xl', 'shadow-2xl'],
+  },
+  {
+    id: 'opacity', label: 'Opacity', section: 'effects', kind: 'select',
+    matches: owns(/^opacity-\d+$/),
+    options: scale('opacity', ['0', '25', '50', '75', '90', '100']),
+  },
+];
+
+// ============================================
+// PARSING
+// ============================================
+
+// The variant a class applies to and its utility, or null for prefixes the editor does not handle
+const splitVariant = (className: string): { variant: ClassVariant; utility: string } | null => {
+  const parts = className.split(':');
+  if (parts.length === 1) return { variant: 'base', utility: className };
+  if (parts.length !== 2) return null;
+  const variant = CLASS_VARIANTS.find((v) => v.prefix === `${parts[0]}:`);
+  return variant && variant.id !== 'base' ? { variant: variant.id, utility: parts[1] } : null;
+};
+
+const findControl = (utility: string): ClassControl | undefined =>
+  CLASS_CONTROLS.find((control) => control.matches(utility));
+
+/**
+ * Read a class string into control values. When a control appears twice for a
+ * variant the later class wins, matching how the classes are merged on write.
+ */
+export function parseClasses(className: string | undefined): ParsedClasses {
+  const values: ParsedClasses['values'] = { base: {}, hover: {}, dark: {} };
+  const other: string[] = [];
+
+  splitClassNames(className).forEach((token) => {
+    const split = splitVariant(token);
+    const control = split ? findControl(split.utility) : undefined;
+    if (split && control) {
+      values[split.variant][control.id] = split.utility;
+    } else {
+      other.push(token);
+    }
+  });
+
+  return { values, other };
+}
+
+// ============================================
+// WRITING
+// ============================================
+
+/**
+ * Set (or clear, with null) one control for a variant. The result is
+ * deduplicated, so conflicting classes such as `p-4` and `p-6` collapse to the new one.
+ */
+export function setClassValue(
+  className: string | undefined,
+  control: ClassControl,
+  variant: ClassVariant,
+  value: string | null
+): string {
+  const prefix = CLASS_VARIANTS.find((v) => v.id === variant)!.prefix;
+  const kept = splitClassNames(className).filter((token) => {
+    const split = splitVariant(token);
+    return !(split && split.variant === variant && control.matches(split.utility));
+  });
+  return cleanClasses([...kept, ...(value ? [`${prefix}${value}`] : [])].join(' '));
+}
+
+/**
+ * Remove duplicate and conflicting classes; later classes win
+ */
+export function cleanClasses(className: string | undefined): string {
+  return cn(className);
+}
@@ -0,0 +1,760 @@
+/**
+ * Tailwind Subset Compiler
+ * Compiles only the Tailwind utility classes actually used on the canvas into plain CSS,
+ * so static exports work without a build step or the Tailwind CDN.
+ * Covers the utilities the builder and the AI prompts generate; anything else is reported back.
+ */
+
+import tailwindColors from 'tailwindcss/colors';
+
+// ============================================
+// TYPES
+// ============================================
+
+type Declarations = Record<string, string>;
+
+interface ResolvedUtility {
+  declarations: Declarations;
+  // Later groups override earlier ones (e.g. `px-2` must win over `p-4`)
+  order: number;
+}
+
+interface CompiledRule {
+  className: string;
+  selector: string;
+  media: string | null;
+  rank: number;
+  order: number;
+  declarations: Declarations;
+}
+
+export interface TailwindSubsetResult {
+  css: string;
+  unsupported: string[];
+}
+
+// ============================================
+// THEME
+// ============================================
+
+// Default Tailwind palette (slate, blue, indigo, ...)
+const PALETTE = tailwindColors as unknown as Record<string, Record<string, string> | string>;
+
+const SCREENS: Record<string, string> = {
+  sm: '640px',
+  md: '768px',
+  lg: '1024px',
+  xl: '1280px',
+  '2xl': '1536px',
+};
+
+const PSEUDO_VARIANTS: Record<string, string> = {
+  hover: ':hover',
+  focus: ':focus',
+  'focus-visible': ':focus-visible',
+  active: ':active',
+  disabled: ':disabled',
+  first: ':first-child',
+  last: ':last-child',
+  placeholder: '::placeholder',
+};
+
+// shadcn/ui theme colors backed by CSS variables (see src/index.css)
+export const THEME_COLORS = [
+  'background', 'foreground', 'card', 'card-foreground', 'popover', 'popover-foreground',
+  'primary', 'primary-foreground', 'secondary', 'secondary-foreground', 'muted', 'muted-foreground',
+  'accent', 'accent-foreground', 'destructive', 'destructive-foreground', 'border', 'input', 'ring',
+];
+
+const FONT_SIZES: Record<string, [string, string]> = {
+  xs: ['0.75rem', '1rem'],
+  sm: ['0.875rem', '1.25rem'],
+  base: ['1rem', '1.5rem'],
+  lg: ['1.125rem', '1.75rem'],
+  xl: ['1.25rem', '1.75rem'],
+  '2xl': ['1.5rem', '2rem'],
+  '3xl': ['1.875rem', '2.25rem'],
+  '4xl': ['2.25rem', '2.5rem'],
+  '5xl': ['3rem', '1.1'],
+  '6xl': ['3.75rem', '1.1'],
+  '7xl': ['4.5rem', '1.1'],
+  '8xl': ['6rem', '1'],
+  '9xl': ['8rem', '1'],
+};
+
+const FONT_WEIGHTS: Record<string, string> = {
+  thin: '100', extralight: '200', light: '300', normal: '400', medium: '500',
+  semibold: '600', bold: '700', extrabold: '800', black: '900',
+};
+
+const FONT_FAMILIES: Record<string, string> = {
+  sans: "Inter, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif",
+  serif: "ui-serif, Georgia, Cambria, 'Times New Roman', Times, serif",
+  mono: "'JetBrains Mono', 'Fira Code', Consolas, monospace",
+  display: "'Cal Sans', Inter, system-ui, sans-serif",
+};
+
+const LINE_HEIGHTS: Record<string, string> = {
+  none: '1', tight: '1.25', snug: '1.375', normal: '1.5', relaxed: '1.625', loose: '2',
+};
+
+const LETTER_SPACING: Record<string, string> = {
+  tighter: '-0.05em', tight: '-0.025em', normal: '0em', wide: '0.025em', wider: '0.05em', widest: '0.1em',
+};
+
+const RADIUS: Record<string, string> = {
+  none: '0px',
+  sm: 'calc(var(--radius) - 4px)',
+  DEFAULT: '0.25rem',
+  md: 'calc(var(--radius) - 2px)',
+  lg: 'var(--radius)',
+  xl: '0.75rem',
+  '2xl': '1rem',
+  '3xl': '1.5rem',
+  '4xl': '2rem',
+  '5xl': '2.5rem',
+  full: '9999px',
+};
+
+const SHADOWS: Record<string, string> = {
+  sm: '0 1px 2px 0 C05',
+  DEFAULT: '0 1px 3px 0 C10, 0 1px 2px -1px C10',
+  md: '0 4px 6px -1px C10, 0 2px 4px -2px C10',
+  lg: '0 10px 15px -3px C10, 0 4px 6px -4px C10',
+  xl: '0 20px 25px -5px C10, 0 8px 10px -6px C10',
+  '2xl': '0 25px 50px -12px C25',
+  inner: 'inset 0 2px 4px 0 C05',
+};
+
+const MAX_WIDTHS: Record<string, string> = {
+  none: 'none', xs: '20rem', sm: '24rem', md: '28rem', lg: '32rem', xl: '36rem', '2xl': '42rem',
+  '3xl': '48rem', '4xl': '56rem', '5xl': '64rem', '6xl': '72rem', '7xl': '80rem', prose: '65ch',
+};
+
+const BLUR: Record<string, string> = {
+  none: '0', sm: '4px', DEFAULT: '8px', md: '12px', lg: '16px', xl: '24px', '2xl': '40px', '3xl': '64px',
+};
+
+const GRADIENT_DIRECTIONS: Record<string, string> = {
+  t: 'to top', tr: 'to top right', r: 'to right', br: 'to bottom right',
+  b: 'to bottom', bl: 'to bottom left', l: 'to left', tl: 'to top left',
+};
+
+const TRANSFORM = 'translate(var(--tw-translate-x, 0), var(--tw-translate-y, 0)) rotate(var(--tw-rotate, 0)) scale(var(--tw-scale-x, 1), var(--tw-scale-y, 1))';
+const TRANSITION_TIMING = 'cubic-bezier(0.4, 0, 0.2, 1)';
+const BOX_SHADOW = 'var(--tw-ring-offset-shadow, 0 0 #0000), var(--tw-ring-shadow, 0 0 #0000), var(--tw-shadow, 0 0 #0000)';
+
+const transition = (property: string): Declarations => ({
+  'transition-property': property,
+  'transition-timing-function': TRANSITION_TIMING,
+  'transition-duration': '150ms',
+});
+
+const STATIC_UTILITIES: Record<string, Declarations> = {
+  block: { display: 'block' },
+  'inline-block': { display: 'inline-block' },
+  inline: { display: 'inline' },
+  flex: { display: 'flex' },
+  'inline-flex': { display: 'inline-flex' },
+  grid: { display: 'grid' },
+  'inline-grid': { display: 'inline-grid' },
+  contents: { display: 'contents' },
+  hidden: { display: 'none' },
+  static: { position: 'static' },
+  fixed: { position: 'fixed' },
+  absolute: { position: 'absolute' },
+  relative: { position: 'relative' },
+  sticky: { position: 'sticky' },
+  isolate: { isolation: 'isolate' },
+  'flex-row': { 'flex-direction': 'row' },
+  'flex-row-reverse': { 'flex-direction': 'row-reverse' },
+  'flex-col': { 'flex-direction': 'column' },
+  'flex-col-reverse': { 'flex-direction': 'column-reverse' },
+  'flex-wrap': { 'flex-wrap': 'wrap' },
+  'flex-nowrap': { 'flex-wrap': 'nowrap' },
+  'flex-1': { flex: '1 1 0%' },
+  'flex-auto': { flex: '1 1 auto' },
+  'flex-initial': { flex: '0 1 auto' },
+  'flex-none': { flex: 'none' },
+  grow: { 'flex-grow': '1' },
+  'grow-0': { 'flex-grow': '0' },
+  shrink: { 'flex-shrink': '1' },
+  'shrink-0': { 'flex-shrink': '0' },
+  'items-start': { 'align-items': 'flex-start' },
+  'items-end': { 'align-items': 'flex-end' },
+  'items-center': { 'align-items': 'center' },
+  'items-baseline': { 'align-items': 'baseline' },
+  'items-stretch': { 'align-items': 'stretch' },
+  'justify-start': { 'justify-content': 'flex-start' },
+  'justify-end': { 'justify-content': 'flex-end' },
+  'justify-center': { 'justify-content': 'center' },
+  'justify-between': { 'justify-content': 'space-between' },
+  'justify-around': { 'justify-content': 'space-around' },
+  'justify-evenly': { 'justify-content': 'space-evenly' },
+  'self-auto': { 'align-self': 'auto' },
+  'self-start': { 'align-self': 'flex-start' },
+  'self-end': { 'align-self': 'flex-end' },
+  'self-center': { 'align-self': 'center' },
+  'self-stretch': { 'align-self': 'stretch' },
+  'place-items-center': { 'place-items': 'center' },
+  'place-content-center': { 'place-content': 'center' },
+  'text-left': { 'text-align': 'left' },
+  'text-center': { 'text-align': 'center' },
+  'text-right': { 'text-align': 'right' },
+  'text-justify': { 'text-align': 'justify' },
+  uppercase: { 'text-transform': 'uppercase' },
+  lowercase: { 'text-transform': 'lowercase' },
+  capitalize: { 'text-transform': 'capitalize' },
+  'normal-case': { 'text-transform': 'none' },
+  italic: { 'font-style': 'italic' },
+  'not-italic': { 'font-style': 'normal' },
+  underline: { 'text-decoration-line': 'underline' },
+  'line-through': { 'text-decoration-line': 'line-through' },
+  'no-underline': { 'text-decoration-line': 'none' },
+  'underline-offset-4': { 'text-underline-offset': '4px' },
+  antialiased: { '-webkit-font-smoothing': 'antialiased', '-moz-osx-font-smoothing': 'grayscale' },
+  truncate: { overflow: 'hidden', 'text-overflow': 'ellipsis', 'white-space': 'nowrap' },
+  'whitespace-normal': { 'white-space': 'normal' },
+  'whitespace-nowrap': { 'white-space': 'nowrap' },
+  'whitespace-pre': { 'white-space': 'pre' },
+  'whitespace-pre-line': { 'white-space': 'pre-line' },
+  'whitespace-pre-wrap': { 'white-space': 'pre-wrap' },
+  'break-words': { 'overflow-wrap': 'break-word' },
+  'break-all': { 'word-break': 'break-all' },
+  'overflow-auto': { overflow: 'auto' },
+  'overflow-hidden': { overflow: 'hidden' },
+  'overflow-visible': { overflow: 'visible' },
+  'overflow-scroll': { overflow: 'scroll' },
+  'overflow-x-auto': { 'overflow-x': 'auto' },
+  'overflow-y-auto': { 'overflow-y': 'auto' },
+  'overflow-x-hidden': { 'overflow-x': 'hidden' },
+  'overflow-y-hidden': { 'overflow-y': 'hidden' },
+  'cursor-pointer': { cursor: 'pointer' },
+  'cursor-default': { cursor: 'default' },
+  'cursor-move': { cursor: 'move' },
+  'cursor-text': { cursor: 'text' },
+  'cursor-not-allowed': { cursor: 'not-allowed' },
+  'pointer-events-none': { 'pointer-events': 'none' },
+  'pointer-events-auto': { 'pointer-events': 'auto' },
+  'select-none': { 'user-select': 'none' },
+  'border-solid': { 'border-style': 'solid' },
+  'border-dashed': { 'border-style': 'dashed' },
+  'border-dotted': { 'border-style': 'dotted' },
+  'border-none': { 'border-style': 'none' },
+  'bg-clip-text': { '-webkit-background-clip': 'text', 'background-clip': 'text' },
+  'bg-cover': { 'background-size': 'cover' },
+  'bg-contain': { 'background-size': 'contain' },
+  'bg-center': { 'background-position': 'center' },
+  'bg-no-repeat': { 'background-repeat': 'no-repeat' },
+  'object-cover': { 'object-fit': 'cover' },
+  'object-contain': { 'object-fit': 'contain' },
+  'aspect-square': { 'aspect-ratio': '1 / 1' },
+  'aspect-video': { 'aspect-ratio': '16 / 9' },
+  'outline-none': { outline: '2px solid transparent', 'outline-offset': '2px' },
+  'shadow-none': { '--tw-shadow': '0 0 #0000', 'box-shadow': BOX_SHADOW },
+  transition: transition('color, background-color, border-color, text-decoration-color, fill, stroke, opacity, box-shadow, transform, filter, backdrop-filter'),
+  'transition-all': transition('all'),
+  'transition-colors': transition('color, background-color, border-color, text-decoration-color, fill, stroke'),
+  'transition-opacity': transition('opacity'),
+  'transition-shadow': transition('box-shadow'),
+  'transition-transform': transition('transform'),
+  'transition-none': { 'transition-property': 'none' },
+  'ease-linear': { 'transition-timing-function': 'linear' },
+  'ease-in': { 'transition-timing-function': 'cubic-bezier(0.4, 0, 1, 1)' },
+  'ease-out': { 'transition-timing-function': 'cubic-bezier(0, 0, 0.2, 1)' },
+  'ease-in-out': { 'transition-timing-function': TRANSITION_TIMING },
+  'scroll-m-20': { 'scroll-margin': '5rem' },
+  'sr-only': {
+    position: 'absolute', width: '1px', height: '1px', padding: '0', margin: '-1px',
+    overflow: 'hidden', clip: 'rect(0, 0, 0, 0)', 'white-space': 'nowrap', 'border-width': '0',
+  },
+};
+
+// ============================================
+// VALUE HELPERS
+// ============================================
+
+function arbitrary(value: string): string | null {
+  return /^\[.+\]$/.test(value) ? value.slice(1, -1).replace(/_/g, ' ') : null;
+}
+
+function spacing(value: string): string | null {
+  if (value === 'px') return '1px';
+  if (value === '0') return '0px';
+  if (/^\d+(\.5)?$/.test(value)) return `${parseFloat(value) * 0.25}rem`;
+  return arbitrary(value);
+}
+
+function fraction(value: string): string | null {
+  const match = value.match(/^(\d+)\/(\d+)$/);
+  if (!match) return null;
+  return `${Math.round((Number(match[1]) / Number(match[2])) * 1e6) / 1e4}%`;
+}
+
+function size(value: string, axis: 'x' | 'y'): string | null {
+  switch (value) {
+    case 'auto': return 'auto';
+    case 'full': return '100%';
+    case 'screen': return axis === 'x' ? '100vw' : '100vh';
+    case 'min': return 'min-content';
+    case 'max': return 'max-content';
+    case 'fit': return 'fit-content';
+  }
+  return fraction(value) ?? spacing(value);
+}
+
+function inset(value: string): string | null {
+  if (value === 'auto') return 'auto';
+  if (value === 'full') return '100%';
+  return fraction(value) ?? spacing(value);
+}
+
+function negate(value: string | null, negative: boolean): string | null {
+  if (value === null || !negative) return value;
+  return value === '0px' ? value : `calc(${value} * -1)`;
+}
+
+function hexToRgb(hex: string): [number, number, number] | null {
+  let h = hex.replace('#', '');
+  if (h.length === 3) h = h.split('').map((c) => c + c).join('');
+  if (!/^[0-9a-f]{6}$/i.test(h)) return null;
+  return [parseInt(h.slice(0, 2), 16), parseInt(h.slice(2, 4), 16), parseInt(h.slice(4, 6), 16)];
+}
+
+function parseAlpha(raw: string | undefined): number | null {
+  if (raw === undefined) return null;
+  const bracket = arbitrary(raw);
+  const value = bracket !== null ? parseFloat(bracket) : Number(raw) / 100;
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Resolve a Tailwind color token (e.g. `blue-500`, `primary/50`, `[#ff0000]`) to a CSS color
+ */
+export function resolveColor(token: string): string | null {
+  const [name, alphaRaw] = token.split('/');
+  const alpha = parseAlpha(alphaRaw);
+
+  if (THEME_COLORS.includes(name)) {
+    return alpha === null ? `hsl(var(--${name}))` : `hsl(var(--${name}) / ${alpha})`;
+  }
+  if (name === 'transparent') return 'transparent';
+  if (name === 'current') return 'currentColor';
+  if (name === 'inherit') return 'inherit';
+  // Functional notation already carries its own alpha
+  if (alpha === null && /^(rgb|hsl)a?\(/.test(arbitrary(name) ?? '')) return arbitrary(name);
+
+  let hex: string | null = null;
+  if (name === 'white') hex = '#ffffff';
+  else if (name === 'black') hex = '#000000';
+  else if (arbitrary(name)?.startsWith('#')) hex = arbitrary(name);
+  else {
+    const match = name.match(/^([a-z]+)-(50|[1-9]00|950)$/);
+    const scale = match ? PALETTE[match[1]] : undefined;
+    if (match && scale && typeof scale === 'object') {
+      hex = scale[match[2]] ?? null;
+    }
+  }
+
+  if (hex) {
+    const rgb = hexToRgb(hex);
+    if (!rgb) return hex;
+    return `rgb(${rgb.join(' ')} / ${alpha ?? 1})`;
+  }
+
+  const value = arbitrary(name);
+  if (value && /^(rgb|hsl|oklch|color|var)\(/.test(value)) {
+    return value;
+  }
+  return null;
+}
+
+// ============================================
+// UTILITY RESOLUTION
+// ============================================
+
+const SPACING_PROPERTIES: Record<string, [string[], number]> = {
+  p: [['padding'], 0],
+  px: [['padding-left', 'padding-right'], 1],
+  py: [['padding-top', 'padding-bottom'], 1],
+  pt: [['padding-top'], 2],
+  pr: [['padding-right'], 2],
+  pb: [['padding-bottom'], 2],
+  pl: [['padding-left'], 2],
+  m: [['margin'], 0],
+  mx: [['margin-left', 'margin-right'], 1],
+  my: [['margin-top', 'margin-bottom'], 1],
+  mt: [['margin-top'], 2],
+  mr: [['margin-right'], 2],
+  mb: [['margin-bottom'], 2],
+  ml: [['margin-left'], 2],
+  gap: [['gap'], 0],
+  'gap-x': [['column-gap'], 1],
+  'gap-y': [['row-gap'], 1],
+  inset: [['inset'], 0],
+  'inset-x': [['left', 'right'], 1],
+  'inset-y': [['top', 'bottom'], 1],
+  top: [['top'], 2],
+  right: [['right'], 2],
+  bottom: [['bottom'], 2],
+  left: [['left'], 2],
+};
+
+const SIZE_PROPERTIES: Record<string, [string, 'x' | 'y']> = {
+  w: ['width', 'x'],
+  h: ['height', 'y'],
+  'min-w': ['min-width', 'x'],
+  'min-h': ['min-height', 'y'],
+  'max-h': ['max-height', 'y'],
+};
+
+const BORDER_SIDES: Record<string, [string[], number]> = {
+  '': [['border-width'], 0],
+  x: [['border-left-width', 'border-right-width'], 1],
+  y: [['border-top-width', 'border-bottom-width'], 1],
+  t: [['border-top-width'], 2],
+  r: [['border-right-width'], 2],
+  b: [['border-bottom-width'], 2],
+  l: [['border-left-width'], 2],
+};
+
+const RADIUS_SIDES: Record<string, [string[], number]> = {
+  '': [['border-radius'], 0],
+  t: [['border-top-left-radius', 'border-top-right-radius'], 1],
+  r: [['border-top-right-radius', 'border-bottom-right-radius'], 1],
+  b: [['border-bottom-right-radius', 'border-bottom-left-radius'], 1],
+  l: [['border-top-left-radius', 'border-bottom-left-radius'], 1],
+  tl: [['border-top-left-radius'], 2],
+  tr: [['border-top-right-radius'], 2],
+  br: [['border-bottom-right-radius'], 2],
+  bl: [['border-bottom-left-radius'], 2],
+};
+
+function assign(properties: string[], value: string): Declarations {
+  return Object.fromEntries(properties.map((property) => [property, value]));
+}
+
+function resolveUtility(utility: string): ResolvedUtility | null {
+  const fixed = STATIC_UTILITIES[utility];
+  if (fixed) return { declarations: fixed, order: 0 };
+
+  const negative = utility.startsWith('-');
+  const name = negative ? utility.slice(1) : utility;
+  let match: RegExpMatchArray | null;
+
+  // Spacing, gaps and insets
+  if ((match = name.match(/^(p[xytrbl]?|m[xytrbl]?|gap(?:-[xy])?|inset(?:-[xy])?|top|right|bottom|left)-(.+)$/))) {
+    const entry = SPACING_PROPERTIES[match[1]];
+    if (entry) {
+      const isInset = /^(inset|top|right|bottom|left)/.test(match[1]);
+      const raw = match[2] === 'auto' && match[1].startsWith('m') ? 'auto' : (isInset ? inset(match[2]) : spacing(match[2]));
+      const value = negate(raw, negative);
+      if (value) return { declarations: assign(entry[0], value), order: entry[1] };
+    }
+  }
+
+  // Space between children
+  if ((match = name.match(/^space-([xy])-(.+)$/))) {
+    const value = negate(spacing(match[2]), negative);
+    if (value) {
+      const property = match[1] === 'x' ? 'margin-left' : 'margin-top';
+      return { declarations: { [property]: value }, order: 0 };
+    }
+  }
+
+  // Sizing
+  if ((match = name.match(/^(w|h|min-w|min-h|max-h|size)-(.+)$/))) {
+    if (match[1] === 'size') {
+      const value = size(match[2], 'x');
+      if (value) return { declarations: { width: value, height: value }, order: 0 };
+    } else {
+      const [property, axis] = SIZE_PROPERTIES[match[1]];
+      const value = size(match[2], axis);
+      if (value) return { declarations: { [property]: value }, order: 0 };
+    }
+  }
+  if ((match = name.match(/^max-w-(.+)$/))) {
+    const value = MAX_WIDTHS[match[1]] ?? size(match[1], 'x');
+    if (value) return { declarations: { 'max-width': value }, order: 0 };
+  }
+
+  // Grid
+  if ((match = name.match(/^grid-cols-(\d+)$/))) {
+    return { declarations: { 'grid-template-columns': `repeat(${match[1]}, minmax(0, 1fr))` }, order: 0 };
+  }
+  if ((match = name.match(/^col-span-(\d+|full)$/))) {
+    const value = match[1] === 'full' ? '1 / -1' : `span ${match[1]} / span ${match[1]}`;
+    return { declarations: { 'grid-column': value }, order: 0 };
+  }
+
+  // Typography
+  if ((match = name.match(/^text-(.+)$/))) {
+    const token = match[1];
+    const fontSize = FONT_SIZES[token];
+    if (fontSize) return { declarations: { 'font-size': fontSize[0], 'line-height': fontSize[1] }, order: 0 };
+    const bracket = arbitrary(token);
+    if (bracket && /^\d/.test(bracket)) return { declarations: { 'font-size': bracket }, order: 0 };
+    const color = resolveColor(token);
+    if (color) return { declarations: { color }, order: 0 };
+  }
+  if ((match = name.match(/^font-(.+)$/))) {
+    if (FONT_WEIGHTS[match[1]]) return { declarations: { 'font-weight': FONT_WEIGHTS[match[1]] }, order: 0 };
+    if (FONT_FAMILIES[match[1]]) return { declarations: { 'font-family': FONT_FAMILIES[match[1]] }, order: 0 };
+  }
+  if ((match = name.match(/^leading-(.+)$/))) {
+    const value = LINE_HEIGHTS[match[1]] ?? spacing(match[1]);
+    if (value) return { declarations: { 'line-height': value }, order: 1 };
+  }
+  if ((match = name.match(/^tracking-(.+)$/))) {
+    const value = LETTER_SPACING[match[1]] ?? arbitrary(match[1]);
+    if (value) return { declarations: { 'letter-spacing': value }, order: 0 };
+  }
+
+  // Backgrounds and gradients
+  if ((match = name.match(/^bg-gradient-to-(t|tr|r|br|b|bl|l|tl)$/))) {
+    return {
+      declarations: { 'background-image': `linear-gradient(${GRADIENT_DIRECTIONS[match[1]]}, var(--tw-gradient-stops))` },
+      order: 0,
+    };
+  }
+  if ((match = name.match(/^bg-(.+)$/))) {
+    const color = resolveColor(match[1]);
+    if (color) return { declarations: { 'background-color': color }, order: 0 };
+  }
+  if ((match = name.match(/^(from|via|to)-(.+)$/))) {
+    const color = resolveColor(match[2]);
+    if (color) {
+      if (match[1] === 'from') {
+        return {
+          declarations: {
+            '--tw-gradient-from': color,
+            '--tw-gradient-to': 'transparent',
+            '--tw-gradient-stops': 'var(--tw-gradient-from), var(--tw-gradient-to)',
+          },
+          order: 0,
+        };
+      }
+      if (match[1] === 'via') {
+        return {
+          declarations: {
+            '--tw-gradient-to': 'transparent',
+            '--tw-gradient-stops': `var(--tw-gradient-from), ${color}, var(--tw-gradient-to)`,
+          },
+          order: 1,
+        };
+      }
+      return { declarations: { '--tw-gradient-to': color }, order: 2 };
+    }
+  }
+
+  // Borders
+  if ((match = name.match(/^border(?:-([xytrbl]))?(?:-(\d+|\[\d.*\]))?$/))) {
+    const [properties, order] = BORDER_SIDES[match[1] ?? ''];
+    const width = match[2] === undefined ? '1px' : (arbitrary(match[2]) ?? `${match[2]}px`);
+    return { declarations: assign(properties, width), order };
+  }
+  if ((match = name.match(/^border-(.+)$/))) {
+    const color = resolveColor(match[1]);
+    if (color) return { declarations: { 'border-color': color }, order: 3 };
+  }
+  if ((match = name.match(/^rounded(?:-(t|r|b|l|tl|tr|br|bl))?(?:-(.+))?$/))) {
+    const [properties, order] = RADIUS_SIDES[match[1] ?? ''];
+    const value = RADIUS[match[2] ?? 'DEFAULT'] ?? arbitrary(match[2] ?? '');
+    if (value) return { declarations: assign(properties, value), order };
+  }
+
+  // Shadows and rings
+  if ((match = name.match(/^shadow(?:-(.+))?$/))) {
+    const preset = SHADOWS[match[1] ?? 'DEFAULT'];
+    if (preset) {
+      const withColor = (fallback: string) => preset.replace(/C(\d\d)/g, (_, a) => fallback.replace('A', `0.${a}`));
+      return {
+        declarations: {
+          '--tw-shadow': withColor('rgb(0 0 0 / A)'),
+          '--tw-shadow-colored': withColor('var(--tw-shadow-color)'),
+          'box-shadow': BOX_SHADOW,
+        },
+        order: 0,
+      };
+    }
+    const color = match[1] ? resolveColor(match[1]) : null;
+    if (color) {
+      return { declarations: { '--tw-shadow-color': color, '--tw-shadow': 'var(--tw-shadow-colored)' }, order: 1 };
+    }
+  }
+  if ((match = name.match(/^ring(?:-(\d+))?$/))) {
+    const width = match[1] ?? '3';
+    return {
+      declarations: {
+        '--tw-ring-shadow': `0 0 0 calc(${width}px + var(--tw-ring-offset-width, 0px)) var(--tw-ring-color, rgb(59 130 246 / 0.5))`,
+        'box-shadow': BOX_SHADOW,
+      },
+      order: 0,
+    };
+  }
+  if ((match = name.match(/^ring-offset-(\d+)$/))) {
+    return {
+      declarations: {
+        '--tw-ring-offset-width': `${match[1]}px`,
+        '--tw-ring-offset-shadow': `0 0 0 var(--tw-ring-offset-width) var(--tw-ring-offset-color, #fff)`,
+      },
+      order: 1,
+    };
+  }
+  if ((match = name.match(/^ring-(.+)$/))) {
+    const color = resolveColor(match[1]);
+    if (color) return { declarations: { '--tw-ring-color': color }, order: 1 };
+  }
+
+  // Effects
+  if ((match = name.match(/^opacity-(\d+)$/))) {
+    return { declarations: { opacity: String(Number(match[1]) / 100) }, order: 0 };
+  }
+  if ((match = name.match(/^(backdrop-)?blur(?:-(.+))?$/))) {
+    const value = BLUR[match[2] ?? 'DEFAULT'] ?? arbitrary(match[2] ?? '');
+    if (value) {
+      const property = match[1] ? 'backdrop-filter' : 'filter';
+      return { declarations: { [property]: `blur(${value})`, ...(match[1] ? { '-webkit-backdrop-filter': `blur(${value})` } : {}) }, order: 0 };
+    }
+  }
+  if ((match = name.match(/^(duration|delay)-(\d+)$/))) {
+    return { declarations: { [`transition-${match[1]}`]: `${match[2]}ms` }, order: 1 };
+  }
+  if ((match = name.match(/^z-(\d+|auto)$/))) {
+    return { declarations: { 'z-index': match[1] }, order: 0 };
+  }
+
+  // Transforms
+  if ((match = name.match(/^translate-([xy])-(.+)$/))) {
+    const value = negate(fraction(match[2]) ?? (match[2] === 'full' ? '100%' : spacing(match[2])), negative);
+    if (value) return { declarations: { [`--tw-translate-${match[1]}`]: value, transform: TRANSFORM }, order: 0 };
+  }
+  if ((match = name.match(/^scale-(\d+)$/))) {
+    const value = String(Number(match[1]) / 100);
+    return { declarations: { '--tw-scale-x': value, '--tw-scale-y': value, transform: TRANSFORM }, order: 0 };
+  }
+  if ((match = name.match(/^rotate-(\d+)$/))) {
+    return { declarations: { '--tw-rotate': `${negative ? '-' : ''}${match[1]}deg`, transform: TRANSFORM }, order: 0 };
+  }
+
+  return null;
+}
+
+// ============================================
+// COMPILATION
+// ============================================
+
+function escapeClassName(className: string): string {
+  return className.replace(/([^a-zA-Z0-9_-])/g, '\\$1');
+}
+
+function compileClass(className: string): CompiledRule | null {
+  const parts = className.split(':');
+  let utility = parts.pop() as string;
+  const important = utility.startsWith('!');
+  if (important) utility = utility.slice(1);
+
+  const resolved = resolveUtility(utility);
+  if (!resolved) return null;
+
+  let selector = `.${escapeClassName(className)}`;
+  let media: string | null = null;
+  let rank = 0;
+  let prefix = '';
+  let suffix = '';
+
+  for (const variant of parts) {
+    const arbitraryVariant = variant.match(/^\[&(.*)\]$/);
+    if (arbitraryVariant) {
+      // e.g. [&_svg] targets descendants of the element
+      suffix += arbitraryVariant[1].replace(/_/g, ' ');
+      continue;
+    }
+    if (SCREENS[variant]) {
+      media = `(min-width: ${SCREENS[variant]})`;
+      rank = Math.max(rank, 3 + Object.keys(SCREENS).indexOf(variant));
+    } else if (PSEUDO_VARIANTS[variant]) {
+      selector += PSEUDO_VARIANTS[variant];
+      rank = Math.max(rank, 1);
+    } else if (variant === 'group-hover') {
+      prefix = `.group:hover ${prefix}`;
+      rank = Math.max(rank, 1);
+    } else if (variant === 'dark') {
+      prefix = `.dark ${prefix}`;
+      rank = Math.max(rank, 2);
+    } else {
+      return null;
+    }
+  }
+
+  if (utility.startsWith('space-')) {
+    selector += ' > :not([hidden]) ~ :not([hidden])';
+  }
+
+  const declarations = important
+    ? Object.fromEntries(Object.entries(resolved.declarations).map(([k, v]) => [k, `${v} !important`]))
+    : resolved.declarations;
+
+  return { className, selector: `${prefix}${selector}${suffix}`, media, rank, order: resolved.order, declarations };
+}
+
+function formatRule(rule: CompiledRule, indent = ''): string {
+  const body = Object.entries(rule.declarations)
+    .map(([property, value]) => `${indent}  ${property}: ${value};`)
+    .join('\n');
+  return `${indent}${rule.selector} {\n${body}\n${indent}}`;
+}
+
+/**
+ * Compile the given class names into CSS, ordered so later utility groups
+ * and variants override earlier ones the same way Tailwind orders its output.
+ */
+export function compileTailwindSubset(classNames: Iterable<string>): TailwindSubsetResult {
+  const unique = Array.from(new Set(Array.from(classNames).filter(Boolean)));
+  const rules: CompiledRule[] = [];
+  const unsupported: string[] = [];
+
+  for (const className of unique) {
+    const rule = compileClass(className);
+    if (rule) {
+      rules.push(rule);
+    } else {
+      unsupported.push(className);
+    }
+  }
+
+  rules.sort((a, b) => a.rank - b.rank || a.order - b.order);
+
+  const blocks: string[] = [];
+  let currentMedia: string | null = null;
+  let mediaRules: string[] = [];
+
+  const flushMedia = () => {
+    if (currentMedia && mediaRules.length > 0) {
+      blocks.push(`@media ${currentMedia} {\n${mediaRules.join('\n')}\n}`);
+    }
+    mediaRules = [];
+  };
+
+  for (const rule of rules) {
+    if (rule.media !== currentMedia) {
+      flushMedia();
+      currentMedia = rule.media;
+    }
+    if (rule.media) {
+      mediaRules.push(formatRule(rule, '  '));
+    } else {
+      blocks.push(formatRule(rule));
+    }
+  }
+  flushMedia();
+
+  return { css: blocks.join('\n'), unsupported };
+}
+
+/**
+ * Split a className string into individual classes
+ */
+export function splitClassNames(className: string | undefined): string[] {
+  return (className || '').split(/\s+/).filter(Boolean);
+}
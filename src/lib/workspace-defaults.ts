@@ -161,6 +161,8 @@ export const DEFAULT_CANVAS: CanvasConfig = {
   gridSize: 20,
   snapToGrid: false,
   showGrid: true,
+  smartGuides: true,
+  showRulers: true,
   backgroundColor: 'transparent',
   minZoom: 0.25,
   maxZoom: 2,
@@ -3,11 +3,23 @@ import { DndContext, DragOverlay, useSensor, useSensors, MouseSensor, TouchSenso
 import { BuilderSidebar } from '@/components/builder/builder-sidebar';
 import { PropertiesPanel } from '@/components/builder/properties-panel';
 import { CanvasRenderer } from '@/components/builder/canvas-renderer';
+import { findDropTarget, toCanvasPoint, clampZoom, setupCanvasKeyboardShortcuts } from '@/components/builder/canvas-utils';
+import { CanvasToolbar } from '@/components/builder/canvas-toolbar';
+import { AIReviewPanel } from '@/components/builder/ai-review-panel';
 import { BuilderHeader } from '@/components/builder/builder-header';
-import { useBuilderStore, ComponentType } from '@/store/builder-store';
+import { useBuilderStore, ComponentType, setupBuilderKeyboardShortcuts, getAbsolutePosition } from '@/store/builder-store';
+import { useProjectStore, setupProjectAutosave } from '@/store/project-store';
+import { useWorkspaceStore } from '@/store/workspace-store';
+import { DEFAULT_CANVAS } from '@/lib/workspace-defaults';
+import { snapToGrid } from '@/lib/canvas-snapping';
+import { resolveTree } from '@/lib/responsive';
 import { Toaster } from '@/components/ui/sonner';
+import { toast } from 'sonner';
 import { COMPONENT_ICONS, COMPONENT_LABELS } from '@/components/builder/component-constants';
-import { Box, MousePointerClick, LayoutTemplate, Heading, Type, FormInput, Lock, Eye, EyeOff } from 'lucide-react';
+import {
+  Box, MousePointerClick, LayoutTemplate, Heading, Type, FormInput, Lock, Eye, EyeOff,
+  Image, PanelTop, AppWindow, Table, ChevronsUpDown, SquareCheck, CircleUser, Tag,
+} from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 
@@ -18,7 +30,15 @@ const Icons: Record<string, any> = {
   LayoutTemplate,
   Heading,
   Type,
-  FormInput
+  FormInput,
+  Image,
+  PanelTop,
+  AppWindow,
+  Table,
+  ChevronsUpDown,
+  SquareCheck,
+  CircleUser,
+  Tag
 };
 
 // Password protection configuration
@@ -101,7 +121,12 @@ export function BuilderPage() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [isChecking, setIsChecking] = useState(true);
   const addComponent = useBuilderStore((s) => s.addComponent);
+  const insertInstance = useBuilderStore((s) => s.insertInstance);
+  const isProjectReady = useProjectStore((s) => s.isInitialized);
+  const loadIssues = useProjectStore((s) => s.loadIssues);
   const [activeDragType, setActiveDragType] = React.useState<ComponentType | null>(null);
+  // Symbols are dragged under their own name
+  const [activeDragLabel, setActiveDragLabel] = React.useState<string | null>(null);
   const canvasContainerRef = useRef<HTMLDivElement>(null);
 
   // Check for existing auth on mount
@@ -123,6 +148,38 @@ export function BuilderPage() {
     setIsChecking(false);
   }, []);
 
+  // Undo/redo and zoom shortcuts are only active once the builder is shown
+  useEffect(() => {
+    if (!isAuthenticated || !isProjectReady) return;
+    const cleanupBuilder = setupBuilderKeyboardShortcuts();
+    const cleanupCanvas = setupCanvasKeyboardShortcuts();
+    return () => {
+      cleanupBuilder();
+      cleanupCanvas();
+    };
+  }, [isAuthenticated, isProjectReady]);
+
+  // Load the last open project and keep it saved
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    useProjectStore.getState().initialize();
+    // Canvas settings (grid, guides, rulers, zoom range) live in the workspace
+    useWorkspaceStore.getState().initialize().then(() => {
+      const { defaultZoom } = { ...DEFAULT_CANVAS, ...useWorkspaceStore.getState().workspace.layout.canvas };
+      useBuilderStore.getState().setZoom(clampZoom(defaultZoom));
+    });
+    return setupProjectAutosave();
+  }, [isAuthenticated]);
+
+  // Say when a saved project could not be loaded in full
+  useEffect(() => {
+    if (!loadIssues) return;
+    const { projectName, errors } = loadIssues;
+    toast.warning(`Project "${projectName}" loaded with ${errors.length} issue(s)`, {
+      description: errors.slice(0, 3).map((error) => error.message).join('; '),
+    });
+  }, [loadIssues]);
+
   const sensors = useSensors(
     useSensor(MouseSensor, {
       activationConstraint: {
@@ -141,30 +198,49 @@ export function BuilderPage() {
     const { active } = event;
     if (active.data.current?.isSidebarItem) {
       setActiveDragType(active.data.current.type as ComponentType);
+      setActiveDragLabel(active.data.current.symbolId ? active.data.current.label : null);
     }
   };
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active } = event;
     setActiveDragType(null);
+    setActiveDragLabel(null);
 
     if (active.data.current?.isSidebarItem && canvasContainerRef.current) {
       const type = active.data.current.type as ComponentType;
       const canvasRect = canvasContainerRef.current.getBoundingClientRect();
-      const scrollLeft = canvasContainerRef.current.scrollLeft;
-      const scrollTop = canvasContainerRef.current.scrollTop;
-      const pointerX = (event.activatorEvent as MouseEvent)?.clientX ?? canvasRect.left + 100;
-      const pointerY = (event.activatorEvent as MouseEvent)?.clientY ?? canvasRect.top + 100;
-      const x = pointerX - canvasRect.left + scrollLeft;
-      const y = pointerY - canvasRect.top + scrollTop;
-      addComponent(type, { x: Math.max(20, x - 50), y: Math.max(20, y - 20) });
+      // Where the pointer was released: where it started plus how far it moved
+      const pointerX = ((event.activatorEvent as MouseEvent)?.clientX ?? canvasRect.left + 100) + event.delta.x;
+      const pointerY = ((event.activatorEvent as MouseEvent)?.clientY ?? canvasRect.top + 100) + event.delta.y;
+      const point = toCanvasPoint(pointerX, pointerY);
+      const canvas = { ...DEFAULT_CANVAS, ...useWorkspaceStore.getState().workspace.layout.canvas };
+      const snap = (value: number) => (canvas.snapToGrid ? snapToGrid(value, canvas.gridSize) : value);
+      const x = Math.max(20, snap(point.x - 50));
+      const y = Math.max(20, snap(point.y - 20));
+
+      // Dropping onto a container or card nests the new component inside it
+      const parentId = findDropTarget(pointerX, pointerY);
+      const { components, breakpoint } = useBuilderStore.getState();
+      const parent = parentId ? getAbsolutePosition(resolveTree(components, breakpoint), parentId) : null;
+      const symbolId = active.data.current.symbolId as string | undefined;
+      if (symbolId) {
+        const placed = parent
+          ? insertInstance(symbolId, { x: Math.max(0, x - parent.x), y: Math.max(0, y - parent.y) }, parentId)
+          : insertInstance(symbolId, { x, y });
+        if (!placed) toast.error('Instances cannot be placed inside a symbol master or another instance');
+      } else if (parent) {
+        addComponent(type, { x: Math.max(0, x - parent.x), y: Math.max(0, y - parent.y) }, parentId);
+      } else {
+        addComponent(type, { x, y });
+      }
     }
   };
 
   const ActiveIcon = activeDragType ? Icons[COMPONENT_ICONS[activeDragType]] : null;
 
-  // Show loading while checking auth
-  if (isChecking) {
+  // Show loading while checking auth and opening the last project
+  if (isChecking || (isAuthenticated && !isProjectReady)) {
     return (
       <div className="h-screen w-screen flex items-center justify-center bg-zinc-950">
         <div className="animate-spin w-8 h-8 border-2 border-purple-500 border-t-transparent rounded-full" />
@@ -187,12 +263,17 @@ export function BuilderPage() {
       >
         <div className="flex-1 flex overflow-hidden">
           <BuilderSidebar />
-          <main 
-            ref={canvasContainerRef}
-            className="flex-1 overflow-auto relative bg-muted/5 scrollbar-thin scrollbar-thumb-border"
-          >
-            <CanvasRenderer />
-          </main>
+          <div className="flex-1 relative min-w-0 flex flex-col">
+            <main 
+              ref={canvasContainerRef}
+              data-canvas-viewport="true"
+              className="flex-1 overflow-auto relative bg-muted/5 scrollbar-thin scrollbar-thumb-border"
+            >
+              <CanvasRenderer />
+            </main>
+            <CanvasToolbar />
+            <AIReviewPanel />
+          </div>
           <PropertiesPanel />
         </div>
         <DragOverlay>
@@ -201,7 +282,7 @@ export function BuilderPage() {
               <div className="p-2 bg-primary/10 rounded-md">
                 <ActiveIcon className="h-4 w-4 text-primary" />
               </div>
-              <span className="text-sm font-medium">{COMPONENT_LABELS[activeDragType]}</span>
+              <span className="text-sm font-medium">{activeDragLabel ?? COMPONENT_LABELS[activeDragType]}</span>
             </div>
           ) : null}
         </DragOverlay>
@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import type { AIAction } from '@/lib/ai-service';
+import { getActionDependencies } from '@/lib/ai-actions';
+
+// ============================================
+// AI STAGING STORE
+// AI actions waiting for review before they are applied to the canvas
+// ============================================
+
+export type StagingStatus = 'idle' | 'streaming' | 'ready';
+
+interface AIStagingState {
+  status: StagingStatus;
+  actions: AIAction[];
+  // Whether each action will be applied on accept
+  enabled: boolean[];
+  explanation: string;
+
+  startStaging: () => void;
+  stageAction: (action: AIAction) => void;
+  finishStaging: (explanation: string) => void;
+  // Turning an action off also turns off the actions that depend on it, and
+  // turning it on turns on what it depends on
+  toggleAction: (index: number, enabled: boolean) => void;
+  setAllEnabled: (enabled: boolean) => void;
+  clearStaging: () => void;
+}
+
+const INITIAL_STATE = {
+  status: 'idle' as StagingStatus,
+  actions: [] as AIAction[],
+  enabled: [] as boolean[],
+  explanation: '',
+};
+
+export const useAIStagingStore = create<AIStagingState>((set) => ({
+  ...INITIAL_STATE,
+
+  startStaging: () => set({ ...INITIAL_STATE, status: 'streaming' }),
+
+  // Ignored once the proposal has been rejected while still streaming
+  stageAction: (action) => set((state) => (state.status === 'streaming' ? {
+    actions: [...state.actions, action],
+    enabled: [...state.enabled, true],
+  } : state)),
+
+  finishStaging: (explanation) => set((state) => (state.status === 'streaming' ? { status: 'ready', explanation } : state)),
+
+  toggleAction: (index, enabled) => set((state) => {
+    const dependencies = getActionDependencies(state.actions);
+    const next = [...state.enabled];
+    if (enabled) {
+      const enable = (i: number) => {
+        next[i] = true;
+        dependencies[i].forEach(enable);
+      };
+      enable(index);
+    } else {
+      // Dependencies always point to earlier actions, so one pass forward is enough
+      next[index] = false;
+      for (let i = index + 1; i < next.length; i++) {
+        if (dependencies[i].some((dependency) => !next[dependency])) next[i] = false;
+      }
+    }
+    return { enabled: next };
+  }),
+
+  setAllEnabled: (enabled) => set((state) => ({ enabled: state.actions.map(() => enabled) })),
+
+  clearStaging: () => set(INITIAL_STATE),
+}));
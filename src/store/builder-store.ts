@@ -1,8 +1,76 @@
 import { create } from 'zustand';
-import { produce } from 'immer';
+import { produceWithPatches, applyPatches, enablePatches, Patch } from 'immer';
 import { nanoid } from 'nanoid';
+import {
+  Breakpoint,
+  ResponsiveOverrides,
+  OVERRIDE_BREAKPOINTS,
+  resolvePosition,
+  resolveTree,
+} from '@/lib/responsive';
+import {
+  SymbolInfo,
+  SymbolInstance,
+  containsSymbols,
+  createInstance,
+  detachTree,
+  findInstanceRoot,
+  findSymbolMaster,
+  isInSymbol,
+  isInstanceChild,
+  syncInstances,
+  writeOverride,
+} from '@/lib/symbols';
+import { restyleTree } from '@/lib/restyle';
+import { StylePreset } from '@/lib/design-system';
+import { COMPONENT_CATALOG, ComponentType as CatalogComponentType } from './layout-store';
 
-export type ComponentType = 'container' | 'button' | 'card' | 'header' | 'text' | 'input';
+enablePatches();
+
+export type ComponentType =
+  | 'container'
+  | 'button'
+  | 'card'
+  | 'header'
+  | 'text'
+  | 'input'
+  | 'image'
+  | 'navbar'
+  | 'tabs'
+  | 'table'
+  | 'select'
+  | 'checkbox'
+  | 'avatar'
+  | 'badge';
+
+export const COMPONENT_TYPES: ComponentType[] = [
+  'container', 'button', 'card', 'header', 'text', 'input',
+  'image', 'navbar', 'tabs', 'table', 'select', 'checkbox', 'avatar', 'badge',
+];
+
+// The layout catalog entry each builder type corresponds to; the catalog is the
+// shared source for descriptions, categories and default props
+export const CATALOG_TYPES: Record<ComponentType, CatalogComponentType> = {
+  container: 'CONTAINER',
+  button: 'BUTTON',
+  card: 'CARD',
+  header: 'HEADING_2',
+  text: 'PARAGRAPH',
+  input: 'INPUT_TEXT',
+  image: 'IMAGE',
+  navbar: 'NAVBAR',
+  tabs: 'TABS',
+  table: 'TABLE',
+  select: 'SELECT',
+  checkbox: 'CHECKBOX',
+  avatar: 'AVATAR',
+  badge: 'BADGE',
+};
+
+// Types that can hold nested components
+export const PARENT_TYPES: ComponentType[] = ['container', 'card', 'tabs'];
+
+export const canHaveChildren = (type: ComponentType): boolean => PARENT_TYPES.includes(type);
 
 // Position and size for free-form canvas placement
 export interface ComponentPosition {
@@ -20,22 +88,143 @@ export interface Component {
   parentId?: string | null;
   // Free-form positioning
   position: ComponentPosition;
+  // Tablet/mobile changes to position and props; desktop uses the fields above
+  responsive?: ResponsiveOverrides;
+  // Set on the master component of a symbol
+  symbol?: SymbolInfo;
+  // Set on the root of a symbol instance
+  instance?: SymbolInstance;
+  // Master node an instance node mirrors
+  masterId?: string;
+}
+
+// A single undo step: forward and inverse immer patches against `components`
+export interface HistoryEntry {
+  patches: Patch[];
+  inversePatches: Patch[];
 }
 
+export type Alignment = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+
 export interface BuilderState {
   components: Component[];
+  // Primary selection (the most recently selected component)
   selectedId: string | null;
+  // Every selected component, in selection order; includes selectedId
+  selectedIds: string[];
   mode: 'edit' | 'preview';
+  // Canvas view scale (1 = 100%); not part of the undo history
+  zoom: number;
+  // Breakpoint being edited; position and prop edits below desktop are stored as overrides
+  breakpoint: Breakpoint;
+  // Undo/redo history
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  // Open transaction depth and the patches collected while it is open
+  transactionDepth: number;
+  pendingEntry: HistoryEntry | null;
   // Actions
-  addComponent: (type: ComponentType, position?: { x: number; y: number }) => void;
+  // Position is relative to the parent when one is given
+  addComponent: (type: ComponentType, position?: { x: number; y: number }, parentId?: string | null) => string;
   updateComponent: (id: string, props: Record<string, any>) => void;
   updateComponentPosition: (id: string, position: Partial<ComponentPosition>) => void;
   removeComponent: (id: string) => void;
-  selectComponent: (id: string | null) => void;
+  // Additive selection toggles the component in or out of the current selection
+  selectComponent: (id: string | null, additive?: boolean) => void;
+  setSelection: (ids: string[]) => void;
   reorderComponent: (activeId: string, overId: string) => void;
+  // Reparent keeping the component's place on screen; null parent moves it to the root
+  moveToParent: (id: string, parentId: string | null, index?: number) => void;
+  // Wrap the selected siblings in a new container; returns its id, or null if they do not share a parent
+  groupSelection: () => string | null;
+  // Move a container's children up to its parent and remove it
+  ungroup: (id: string) => void;
+  alignSelection: (alignment: Alignment) => void;
+  // Equal spacing between the selected components along an axis
+  distributeSelection: (axis: 'horizontal' | 'vertical') => void;
   setMode: (mode: 'edit' | 'preview') => void;
+  setZoom: (zoom: number) => void;
+  setBreakpoint: (breakpoint: Breakpoint) => void;
+  // Drop a component's overrides at a breakpoint so it inherits again
+  clearOverrides: (id: string, breakpoint: Breakpoint) => void;
+  // Turn a subtree into a symbol master; returns the symbol id, or null if it already holds symbols
+  createSymbol: (id: string, name: string) => string | null;
+  renameSymbol: (symbolId: string, name: string) => void;
+  // Place a linked copy of a symbol's master; returns its id, or null if it cannot go there
+  insertInstance: (symbolId: string, position?: { x: number; y: number }, parentId?: string | null) => string | null;
+  // Drop an instance node's prop overrides (only `keys` when given) so it follows the master again
+  resetInstanceOverrides: (id: string, keys?: string[]) => void;
+  // Unlink an instance from its master, keeping its current content
+  detachInstance: (id: string) => void;
+  // Remap every component's colors, typography and spacing to a preset, as one history step
+  applyStylePreset: (preset: StylePreset) => void;
   reset: () => void;
+  loadComponents: (components: Component[]) => void;
+  // History
+  undo: () => void;
+  redo: () => void;
+  beginTransaction: () => void;
+  commitTransaction: () => void;
+  clearHistory: () => void;
 }
+
+const MAX_HISTORY = 100;
+
+// Whether a patch may change what symbol instances show: it adds, removes or
+// moves nodes, or edits a node inside a master or an instance. Plain prop and
+// position edits elsewhere, such as every frame of a drag, do not.
+const touchesSymbols = (components: Component[], patch: Patch): boolean => {
+  if (patch.path[0] !== 'components') return false;
+  let list = components;
+  for (let i = 1; i < patch.path.length; i += 2) {
+    const node = typeof patch.path[i] === 'number' ? list[patch.path[i] as number] : undefined;
+    // A whole node or list changed
+    if (!node || i + 1 >= patch.path.length) return true;
+    if (node.symbol || node.instance || node.masterId) return true;
+    if (patch.path[i + 1] !== 'children') return false;
+    list = node.children;
+  }
+  return true;
+};
+
+// Run a recipe against the store and record the component tree changes it made.
+// Inside a transaction the patches are merged into the pending entry instead.
+// Symbol instances are brought up to date with their masters as part of the same change.
+const recordChange = (state: BuilderState, recipe: (draft: BuilderState) => void): BuilderState => {
+  let [next, patches, inversePatches] = produceWithPatches(state, recipe);
+  if (patches.some((patch) => touchesSymbols(next.components, patch))) {
+    const [synced, syncPatches, syncInversePatches] = produceWithPatches(next, (draft) => {
+      syncInstances(draft.components);
+    });
+    next = synced;
+    patches = [...patches, ...syncPatches];
+    inversePatches = [...syncInversePatches, ...inversePatches];
+  }
+  const treePatches = patches.filter((p) => p.path[0] === 'components');
+  const treeInversePatches = inversePatches.filter((p) => p.path[0] === 'components');
+
+  if (treePatches.length === 0) {
+    return next;
+  }
+
+  if (state.transactionDepth > 0) {
+    const pending = state.pendingEntry ?? { patches: [], inversePatches: [] };
+    return {
+      ...next,
+      pendingEntry: {
+        patches: [...pending.patches, ...treePatches],
+        // Inverse patches must be replayed newest-first
+        inversePatches: [...treeInversePatches, ...pending.inversePatches],
+      },
+    };
+  }
+
+  return {
+    ...next,
+    past: [...state.past, { patches: treePatches, inversePatches: treeInversePatches }].slice(-MAX_HISTORY),
+    future: [],
+  };
+};
 // Helper to find a node and its parent array in the tree
 const findNode = (nodes: Component[], id: string): { node: Component; parentArray: Component[]; index: number } | null => {
   for (let i = 0; i < nodes.length; i++) {
@@ -49,14 +238,97 @@ const findNode = (nodes: Component[], id: string): { node: Component; parentArra
   }
   return null;
 };
+// Canvas-space offset of a node's parent: the sum of its ancestors' positions
+const getParentOffset = (nodes: Component[], id: string): { x: number; y: number } | null => {
+  for (const node of nodes) {
+    if (node.id === id) return { x: 0, y: 0 };
+    const inner = getParentOffset(node.children, id);
+    if (inner) return { x: node.position.x + inner.x, y: node.position.y + inner.y };
+  }
+  return null;
+};
+
+/**
+ * Position of a component in canvas coordinates rather than relative to its parent
+ */
+export const getAbsolutePosition = (nodes: Component[], id: string): ComponentPosition | null => {
+  const result = findNode(nodes, id);
+  const offset = getParentOffset(nodes, id);
+  if (!result || !offset) return null;
+  return {
+    ...result.node.position,
+    x: result.node.position.x + offset.x,
+    y: result.node.position.y + offset.y,
+  };
+};
+
+// Canvas-space boxes of the top-level selected components
+const getSelectionBoxes = (components: Component[], selectedIds: string[]): (ComponentPosition & { id: string })[] =>
+  getTopLevelSelection(components, selectedIds).map((id) => ({ id, ...getAbsolutePosition(components, id)! }));
+
+// Write a position change to the base layout on desktop, otherwise to the breakpoint's override
+const writePosition = (node: Component, breakpoint: Breakpoint, position: Partial<ComponentPosition>) => {
+  if (breakpoint === 'desktop') {
+    node.position = { ...node.position, ...position };
+    return;
+  }
+  node.responsive = node.responsive ?? {};
+  const override = node.responsive[breakpoint] ?? {};
+  node.responsive[breakpoint] = { ...override, position: { ...override.position, ...position } };
+};
+
+const writeProps = (node: Component, breakpoint: Breakpoint, props: Record<string, any>) => {
+  if (breakpoint === 'desktop') {
+    node.props = { ...node.props, ...props };
+    return;
+  }
+  node.responsive = node.responsive ?? {};
+  const override = node.responsive[breakpoint] ?? {};
+  node.responsive[breakpoint] = { ...override, props: { ...override.props, ...props } };
+};
+
+// Canvas-space position of a component at each override breakpoint
+const captureLayouts = (components: Component[], id: string) =>
+  OVERRIDE_BREAKPOINTS.map((breakpoint) => ({
+    breakpoint,
+    box: getAbsolutePosition(resolveTree(components, breakpoint), id),
+  }));
+
+// Structural edits convert base coordinates only; put the component back where it was
+// on tablet and mobile by adjusting (or adding) those overrides
+const restoreLayouts = (components: Component[], id: string, before: ReturnType<typeof captureLayouts>) => {
+  before.forEach(({ breakpoint, box }) => {
+    const after = getAbsolutePosition(resolveTree(components, breakpoint), id);
+    const result = findNode(components, id);
+    if (!box || !after || !result) return;
+    const dx = box.x - after.x;
+    const dy = box.y - after.y;
+    if (dx === 0 && dy === 0) return;
+    const own = resolvePosition(result.node, breakpoint);
+    writePosition(result.node, breakpoint, { x: own.x + dx, y: own.y + dy });
+  });
+};
+
+const containsNode = (node: Component, id: string): boolean =>
+  node.id === id || node.children.some((child) => containsNode(child, id));
+
+// Instances have a fixed structure, and symbols cannot nest: an instance inside
+// its own master would copy itself forever
+const canAdopt = (components: Component[], parent: Component | null, node: Component | null): boolean => {
+  if (!parent) return true;
+  if (parent.masterId) return false;
+  return !(node && containsSymbols(node) && isInSymbol(components, parent.id));
+};
+
 // Default props for new components
-const getDefaultProps = (type: ComponentType): Record<string, any> => {
+export const getDefaultProps = (type: ComponentType): Record<string, any> => {
   switch (type) {
     case 'container':
       return {
         // Added flex flex-col to match default layout
         className: 'p-4 border border-dashed border-border min-h-[100px] rounded-lg bg-background/50 flex flex-col',
-        layout: 'flex-col'
+        layout: 'flex-col',
+        backgroundColor: ''
       };
     case 'button':
       return {
@@ -96,13 +368,70 @@ const getDefaultProps = (type: ComponentType): Record<string, any> => {
         fontSize: 14,
         className: ''
       };
+    case 'image':
+      return {
+        ...catalogDefaults(type),
+        className: 'rounded-lg object-cover'
+      };
+    case 'navbar':
+      return {
+        logo: 'Brand',
+        links: ['Home', 'About', 'Contact'],
+        ctaText: 'Get Started',
+        fontSize: 14,
+        className: 'border-b'
+      };
+    case 'tabs':
+      return {
+        tabs: ['Overview', 'Details', 'Settings'],
+        content: 'Tab content area.',
+        fontSize: 14,
+        className: ''
+      };
+    case 'table':
+      return {
+        ...catalogDefaults(type),
+        rows: [['Example', 'Value']],
+        fontSize: 14,
+        className: ''
+      };
+    case 'select':
+      return {
+        ...catalogDefaults(type),
+        placeholder: 'Choose an option',
+        fontSize: 14,
+        className: ''
+      };
+    case 'checkbox':
+      return {
+        ...catalogDefaults(type),
+        fontSize: 14,
+        className: ''
+      };
+    case 'avatar':
+      return {
+        src: '',
+        alt: 'Avatar',
+        fallback: 'U',
+        className: ''
+      };
+    case 'badge':
+      return {
+        ...catalogDefaults(type),
+        fontSize: 12,
+        className: ''
+      };
     default:
       return {};
   }
 };
 
+// Copy of the layout catalog's default props (arrays are cloned so components never share them)
+const catalogDefaults = (type: ComponentType): Record<string, any> =>
+  structuredClone(COMPONENT_CATALOG[CATALOG_TYPES[type]].defaultProps ?? {});
+
 // Default sizes for different component types
-const getDefaultSize = (type: ComponentType): { width: number; height: number } => {
+export const getDefaultSize = (type: ComponentType): { width: number; height: number } => {
   switch (type) {
     case 'container':
       return { width: 400, height: 200 };
@@ -116,63 +445,139 @@ const getDefaultSize = (type: ComponentType): { width: number; height: number }
       return { width: 300, height: 80 };
     case 'input':
       return { width: 250, height: 70 };
+    case 'image':
+      return { width: 320, height: 200 };
+    case 'navbar':
+      return { width: 800, height: 56 };
+    case 'tabs':
+      return { width: 400, height: 240 };
+    case 'table':
+      return { width: 400, height: 140 };
+    case 'select':
+      return { width: 250, height: 70 };
+    case 'checkbox':
+      return { width: 200, height: 24 };
+    case 'avatar':
+      return { width: 40, height: 40 };
+    case 'badge':
+      return { width: 64, height: 24 };
     default:
       return { width: 200, height: 100 };
   }
 };
 
-export const useBuilderStore = create<BuilderState>((set) => ({
+/**
+ * Find a component anywhere in the tree
+ */
+export const findComponent = (nodes: Component[], id: string): Component | null => findNode(nodes, id)?.node ?? null;
+
+// Selection should not point at nodes that an undo/redo or removal took away
+const keepSelection = (components: Component[], selectedIds: string[]): Pick<BuilderState, 'selectedId' | 'selectedIds'> => {
+  const ids = selectedIds.filter((id) => findNode(components, id));
+  return { selectedId: ids[ids.length - 1] ?? null, selectedIds: ids };
+};
+
+/**
+ * Drop selected ids whose ancestor is also selected, so moving the
+ * selection does not move nested components twice
+ */
+export const getTopLevelSelection = (components: Component[], selectedIds: string[]): string[] => {
+  const selected = new Set(selectedIds);
+  const result: string[] = [];
+  const visit = (nodes: Component[]) => {
+    nodes.forEach((node) => {
+      if (selected.has(node.id)) {
+        result.push(node.id);
+      } else {
+        visit(node.children);
+      }
+    });
+  };
+  visit(components);
+  return result;
+};
+
+export const useBuilderStore = create<BuilderState>((set, get) => ({
   components: [],
   selectedId: null,
+  selectedIds: [],
   mode: 'edit',
+  zoom: 1,
+  breakpoint: 'desktop',
+  past: [],
+  future: [],
+  transactionDepth: 0,
+  pendingEntry: null,
 
-  addComponent: (type, position) => set(produce((state: BuilderState) => {
-    const defaultSize = getDefaultSize(type);
-    const newComponent: Component = {
-      id: nanoid(),
-      type,
-      props: getDefaultProps(type),
-      children: [],
-      parentId: null,
-      position: {
-        x: position?.x ?? 100,
-        y: position?.y ?? 100,
-        width: defaultSize.width,
-        height: defaultSize.height,
-      },
-    };
-    state.components.push(newComponent);
-    // Auto-select the new component
-    state.selectedId = newComponent.id;
-  })),
+  addComponent: (type, position, parentId) => {
+    const id = nanoid();
+    set((current) => recordChange(current, (state) => {
+      const defaultSize = getDefaultSize(type);
+      const match = parentId ? findNode(state.components, parentId) : null;
+      const parent = match && canHaveChildren(match.node.type) && canAdopt(state.components, match.node, null) ? match : null;
+      const newComponent: Component = {
+        id,
+        type,
+        props: getDefaultProps(type),
+        children: [],
+        parentId: parent ? parent.node.id : null,
+        position: {
+          x: position?.x ?? 100,
+          y: position?.y ?? 100,
+          width: defaultSize.width,
+          height: defaultSize.height,
+        },
+      };
+      // Unknown parents and leaf types fall back to the root
+      (parent ? parent.node.children : state.components).push(newComponent);
+      // Auto-select the new component
+      state.selectedId = newComponent.id;
+      state.selectedIds = [newComponent.id];
+    }));
+    return id;
+  },
 
-  updateComponent: (id, props) => set(produce((state: BuilderState) => {
+  updateComponent: (id, props) => set((current) => recordChange(current, (state) => {
     const result = findNode(state.components, id);
-    if (result) {
-      result.node.props = { ...result.node.props, ...props };
+    if (!result) return;
+    // Instance props are stored as overrides of the master, at every breakpoint
+    const root = result.node.masterId ? findInstanceRoot(state.components, id) : null;
+    const master = root?.instance ? findSymbolMaster(state.components, root.instance.symbolId) : null;
+    if (root && master) {
+      writeOverride(root, master, result.node.masterId!, props);
+      return;
     }
+    writeProps(result.node, state.breakpoint, props);
   })),
 
-  updateComponentPosition: (id, position) => set(produce((state: BuilderState) => {
+  updateComponentPosition: (id, position) => set((current) => recordChange(current, (state) => {
     const result = findNode(state.components, id);
-    if (result) {
-      result.node.position = { ...result.node.position, ...position };
+    if (result && !isInstanceChild(result.node)) {
+      writePosition(result.node, state.breakpoint, position);
     }
   })),
 
-  removeComponent: (id) => set(produce((state: BuilderState) => {
+  removeComponent: (id) => set((current) => recordChange(current, (state) => {
     const result = findNode(state.components, id);
-    if (result) {
+    // Parts of an instance come from the master; remove the whole instance instead
+    if (result && !isInstanceChild(result.node)) {
       result.parentArray.splice(result.index, 1);
-      if (state.selectedId === id) {
-        state.selectedId = null;
-      }
+      Object.assign(state, keepSelection(state.components, state.selectedIds));
     }
   })),
 
-  selectComponent: (id) => set({ selectedId: id }),
+  selectComponent: (id, additive = false) => set((state) => {
+    if (!id) return { selectedId: null, selectedIds: [] };
+    if (!additive) return { selectedId: id, selectedIds: [id] };
+    const selectedIds = state.selectedIds.includes(id)
+      ? state.selectedIds.filter((selected) => selected !== id)
+      : [...state.selectedIds, id];
+    return { selectedId: selectedIds[selectedIds.length - 1] ?? null, selectedIds };
+  }),
+
+  setSelection: (ids) => set({ selectedId: ids[ids.length - 1] ?? null, selectedIds: ids }),
   
-  reorderComponent: (activeId, overId) => set(produce((state: BuilderState) => {
+  reorderComponent: (activeId, overId) => set((current) => recordChange(current, (state) => {
     const activeResult = findNode(state.components, activeId);
     const overResult = findNode(state.components, overId);
 
@@ -187,6 +592,315 @@ export const useBuilderStore = create<BuilderState>((set) => ({
     }
   })),
 
-  setMode: (mode) => set({ mode, selectedId: null }), // Deselect when changing modes
-  reset: () => set({ components: [], selectedId: null, mode: 'edit' }),
-}));
\ No newline at end of file
+  moveToParent: (id, parentId, index) => set((current) => recordChange(current, (state) => {
+    const result = findNode(state.components, id);
+    if (!result) return;
+    const parent = parentId ? findNode(state.components, parentId) : null;
+    if (parentId && (!parent || !canHaveChildren(parent.node.type))) return;
+    // A component cannot be moved into itself or its own descendants
+    if (parent && containsNode(result.node, parent.node.id)) return;
+    if (isInstanceChild(result.node) || !canAdopt(state.components, parent?.node ?? null, result.node)) return;
+
+    const layouts = captureLayouts(state.components, id);
+    const oldOffset = getParentOffset(state.components, id)!;
+    const newOffset = parent ? getParentOffset(state.components, parent.node.id)! : { x: 0, y: 0 };
+    if (parent) {
+      newOffset.x += parent.node.position.x;
+      newOffset.y += parent.node.position.y;
+    }
+
+    const [node] = result.parentArray.splice(result.index, 1);
+    node.parentId = parent ? parent.node.id : null;
+    node.position.x += oldOffset.x - newOffset.x;
+    node.position.y += oldOffset.y - newOffset.y;
+
+    const siblings = parent ? parent.node.children : state.components;
+    const insertAt = index === undefined ? siblings.length : Math.max(0, Math.min(index, siblings.length));
+    siblings.splice(insertAt, 0, node);
+    restoreLayouts(state.components, id, layouts);
+  })),
+
+  groupSelection: () => {
+    const { components, selectedIds } = get();
+    const ids = getTopLevelSelection(components, selectedIds);
+    if (ids.length === 0) return null;
+    const parentIds = new Set(ids.map((id) => findNode(components, id)?.node.parentId ?? null));
+    if (parentIds.size > 1) return null;
+    if (ids.some((id) => isInstanceChild(findNode(components, id)!.node))) return null;
+
+    const groupId = nanoid();
+    set((current) => recordChange(current, (state) => {
+      const layouts = ids.map((id) => ({ id, before: captureLayouts(state.components, id) }));
+      const members = ids.map((id) => findNode(state.components, id)!);
+      const siblings = members[0].parentArray;
+      const parentId = members[0].node.parentId ?? null;
+
+      // Bounding box of the members in their shared parent's space
+      const left = Math.min(...members.map(({ node }) => node.position.x));
+      const top = Math.min(...members.map(({ node }) => node.position.y));
+      const right = Math.max(...members.map(({ node }) => node.position.x + node.position.width));
+      const bottom = Math.max(...members.map(({ node }) => node.position.y + node.position.height));
+
+      const insertAt = Math.min(...members.map(({ index }) => index));
+      // Children keep their canvas order inside the group
+      const children = members
+        .sort((a, b) => a.index - b.index)
+        .map(({ node }) => node);
+      children.forEach((node) => {
+        siblings.splice(siblings.indexOf(node), 1);
+        node.parentId = groupId;
+        node.position.x -= left;
+        node.position.y -= top;
+      });
+
+      siblings.splice(insertAt, 0, {
+        id: groupId,
+        type: 'container',
+        props: getDefaultProps('container'),
+        children,
+        parentId,
+        position: { x: left, y: top, width: right - left, height: bottom - top },
+      });
+      layouts.forEach(({ id, before }) => restoreLayouts(state.components, id, before));
+      state.selectedId = groupId;
+      state.selectedIds = [groupId];
+    }));
+    return groupId;
+  },
+
+  ungroup: (id) => set((current) => recordChange(current, (state) => {
+    const result = findNode(state.components, id);
+    if (!result || !canHaveChildren(result.node.type) || result.node.masterId) return;
+    const { node, parentArray, index } = result;
+
+    const children = node.children;
+    const layouts = children.map((child) => ({ id: child.id, before: captureLayouts(state.components, child.id) }));
+    children.forEach((child) => {
+      child.parentId = node.parentId ?? null;
+      child.position.x += node.position.x;
+      child.position.y += node.position.y;
+    });
+    parentArray.splice(index, 1, ...children);
+    layouts.forEach(({ id, before }) => restoreLayouts(state.components, id, before));
+    state.selectedIds = children.map((child) => child.id);
+    state.selectedId = state.selectedIds[state.selectedIds.length - 1] ?? null;
+  })),
+
+  alignSelection: (alignment) => set((current) => recordChange(current, (state) => {
+    const { breakpoint } = state;
+    const boxes = getSelectionBoxes(resolveTree(state.components, breakpoint), state.selectedIds);
+    if (boxes.length < 2) return;
+
+    const left = Math.min(...boxes.map((b) => b.x));
+    const top = Math.min(...boxes.map((b) => b.y));
+    const right = Math.max(...boxes.map((b) => b.x + b.width));
+    const bottom = Math.max(...boxes.map((b) => b.y + b.height));
+
+    boxes.forEach((box) => {
+      const { node } = findNode(state.components, box.id)!;
+      const { x, y } = resolvePosition(node, breakpoint);
+      switch (alignment) {
+        case 'left': writePosition(node, breakpoint, { x: Math.round(x + left - box.x) }); break;
+        case 'center': writePosition(node, breakpoint, { x: Math.round(x + (left + right) / 2 - (box.x + box.width / 2)) }); break;
+        case 'right': writePosition(node, breakpoint, { x: Math.round(x + right - (box.x + box.width)) }); break;
+        case 'top': writePosition(node, breakpoint, { y: Math.round(y + top - box.y) }); break;
+        case 'middle': writePosition(node, breakpoint, { y: Math.round(y + (top + bottom) / 2 - (box.y + box.height / 2)) }); break;
+        case 'bottom': writePosition(node, breakpoint, { y: Math.round(y + bottom - (box.y + box.height)) }); break;
+      }
+    });
+  })),
+
+  distributeSelection: (axis) => set((current) => recordChange(current, (state) => {
+    const { breakpoint } = state;
+    const boxes = getSelectionBoxes(resolveTree(state.components, breakpoint), state.selectedIds);
+    if (boxes.length < 3) return;
+
+    const start = axis === 'horizontal' ? 'x' : 'y';
+    const length = axis === 'horizontal' ? 'width' : 'height';
+    boxes.sort((a, b) => a[start] - b[start]);
+
+    // Keep the outermost components in place and share the free space equally
+    const first = boxes[0];
+    const last = boxes[boxes.length - 1];
+    const occupied = boxes.reduce((sum, box) => sum + box[length], 0);
+    const gap = (last[start] + last[length] - first[start] - occupied) / (boxes.length - 1);
+
+    let cursor = first[start];
+    boxes.forEach((box) => {
+      const { node } = findNode(state.components, box.id)!;
+      const own = resolvePosition(node, breakpoint);
+      writePosition(node, breakpoint, { [start]: Math.round(own[start] + cursor - box[start]) });
+      cursor += box[length] + gap;
+    });
+  })),
+
+  setMode: (mode) => set({ mode, selectedId: null, selectedIds: [] }), // Deselect when changing modes
+  setZoom: (zoom) => set({ zoom }),
+  setBreakpoint: (breakpoint) => set({ breakpoint }),
+
+  clearOverrides: (id, breakpoint) => set((current) => recordChange(current, (state) => {
+    const result = findNode(state.components, id);
+    if (!result || breakpoint === 'desktop' || !result.node.responsive) return;
+    delete result.node.responsive[breakpoint];
+    if (Object.keys(result.node.responsive).length === 0) delete result.node.responsive;
+  })),
+
+  createSymbol: (id, name) => {
+    const { components } = get();
+    const result = findNode(components, id);
+    if (!result || containsSymbols(result.node) || isInSymbol(components, id)) return null;
+    const symbolId = nanoid();
+    set((current) => recordChange(current, (state) => {
+      findNode(state.components, id)!.node.symbol = { id: symbolId, name };
+    }));
+    return symbolId;
+  },
+
+  renameSymbol: (symbolId, name) => set((current) => recordChange(current, (state) => {
+    const master = findSymbolMaster(state.components, symbolId);
+    if (master) master.symbol!.name = name;
+  })),
+
+  insertInstance: (symbolId, position, parentId) => {
+    const { components } = get();
+    const master = findSymbolMaster(components, symbolId);
+    const match = parentId ? findNode(components, parentId) : null;
+    const parent = match && canHaveChildren(match.node.type) ? match.node : null;
+    if (!master || !canAdopt(components, parent, master)) return null;
+
+    const instance = createInstance(master, { x: position?.x ?? 100, y: position?.y ?? 100 }, parent ? parent.id : null);
+    set((current) => recordChange(current, (state) => {
+      const target = parent ? findNode(state.components, parent.id)!.node.children : state.components;
+      target.push(instance);
+      state.selectedId = instance.id;
+      state.selectedIds = [instance.id];
+    }));
+    return instance.id;
+  },
+
+  resetInstanceOverrides: (id, keys) => set((current) => recordChange(current, (state) => {
+    const result = findNode(state.components, id);
+    const root = result?.node.masterId ? findInstanceRoot(state.components, id) : null;
+    if (!result || !root?.instance) return;
+    const masterId = result.node.masterId!;
+    const overrides = root.instance.overrides[masterId];
+    if (!overrides) return;
+    if (keys) {
+      keys.forEach((key) => delete overrides[key]);
+    }
+    if (!keys || Object.keys(overrides).length === 0) {
+      delete root.instance.overrides[masterId];
+    }
+  })),
+
+  detachInstance: (id) => set((current) => recordChange(current, (state) => {
+    const root = findInstanceRoot(state.components, id);
+    if (root) detachTree(root);
+  })),
+
+  applyStylePreset: (preset) => set((current) => recordChange(current, (state) => {
+    restyleTree(state.components, preset);
+  })),
+
+  // Clearing the canvas is recorded so it can be undone
+  reset: () => set((current) => recordChange(current, (state) => {
+    state.components = [];
+    state.selectedId = null;
+    state.selectedIds = [];
+    state.mode = 'edit';
+  })),
+
+  // Replace the canvas with an imported tree; recorded so the import can be undone
+  loadComponents: (components) => set((current) => recordChange(current, (state) => {
+    state.components = components;
+    state.selectedId = null;
+    state.selectedIds = [];
+  })),
+
+  undo: () => set((state) => {
+    const entry = state.past[state.past.length - 1];
+    if (!entry || state.transactionDepth > 0) return state;
+    const { components } = applyPatches({ components: state.components }, entry.inversePatches);
+    return {
+      components,
+      ...keepSelection(components, state.selectedIds),
+      past: state.past.slice(0, -1),
+      future: [...state.future, entry],
+    };
+  }),
+
+  redo: () => set((state) => {
+    const entry = state.future[state.future.length - 1];
+    if (!entry || state.transactionDepth > 0) return state;
+    const { components } = applyPatches({ components: state.components }, entry.patches);
+    return {
+      components,
+      ...keepSelection(components, state.selectedIds),
+      past: [...state.past, entry],
+      future: state.future.slice(0, -1),
+    };
+  }),
+
+  // Group every change until the matching commit into one undo step.
+  // Transactions nest; only the outermost commit pushes the entry.
+  beginTransaction: () => set((state) => ({ transactionDepth: state.transactionDepth + 1 })),
+
+  commitTransaction: () => {
+    const { transactionDepth, pendingEntry, past } = get();
+    if (transactionDepth === 0) return;
+    if (transactionDepth > 1) {
+      set({ transactionDepth: transactionDepth - 1 });
+      return;
+    }
+    set({
+      transactionDepth: 0,
+      pendingEntry: null,
+      ...(pendingEntry ? { past: [...past, pendingEntry].slice(-MAX_HISTORY), future: [] } : {}),
+    });
+  },
+
+  clearHistory: () => set({ past: [], future: [], transactionDepth: 0, pendingEntry: null }),
+}));
+
+// ============================================
+// KEYBOARD SHORTCUTS (undo/redo, group/ungroup, detach)
+// ============================================
+
+export const setupBuilderKeyboardShortcuts = () => {
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (!(e.metaKey || e.ctrlKey)) return;
+
+    // Leave native text undo alone while typing in a field
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    // Cmd/Ctrl + Z to undo, Cmd/Ctrl + Shift + Z or Ctrl + Y to redo
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      useBuilderStore.getState().undo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      useBuilderStore.getState().redo();
+    } else if (e.altKey && e.code === 'KeyB') {
+      // Cmd/Ctrl + Alt + B to detach the selected instance
+      e.preventDefault();
+      const { selectedId, detachInstance } = useBuilderStore.getState();
+      if (selectedId) detachInstance(selectedId);
+    } else if (key === 'g') {
+      // Cmd/Ctrl + G to group the selection, Cmd/Ctrl + Shift + G to ungroup
+      e.preventDefault();
+      const state = useBuilderStore.getState();
+      if (!e.shiftKey) {
+        state.groupSelection();
+      } else if (state.selectedId) {
+        state.ungroup(state.selectedId);
+      }
+    }
+  };
+
+  window.addEventListener('keydown', handleKeyDown);
+  return () => window.removeEventListener('keydown', handleKeyDown);
+};
@@ -0,0 +1,230 @@
+/**
+ * Project Store
+ * Zustand store for the list of saved builder projects and which one is open.
+ * The open project's canvas lives in the builder store and is autosaved back here.
+ */
+
+import { create } from 'zustand';
+import { Project } from '@/lib/db';
+import * as projectManager from '@/lib/project-manager';
+import { ProjectImportError, deserializeProject } from '@/lib/project-format';
+import { useBuilderStore, Component } from '@/store/builder-store';
+
+// ============================================
+// STORE INTERFACE
+// ============================================
+
+export type ProjectSaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+// Parts of a saved project that could not be put back on the canvas
+export interface ProjectLoadIssues {
+  projectName: string;
+  errors: ProjectImportError[];
+}
+
+export interface ProjectStore {
+  projects: Project[];
+  activeProjectId: string | null;
+  saveStatus: ProjectSaveStatus;
+  // Set each time a project opens with issues, for the page to report
+  loadIssues: ProjectLoadIssues | null;
+
+  // Loading state; the canvas is not editable until initialized, as loading
+  // the open project replaces it
+  isLoading: boolean;
+  isInitialized: boolean;
+
+  initialize: () => Promise<void>;
+  refreshProjects: () => Promise<void>;
+  openProject: (id: string) => Promise<void>;
+  createProject: (name?: string) => Promise<void>;
+  renameProject: (id: string, name: string) => Promise<void>;
+  duplicateProject: (id: string) => Promise<void>;
+  deleteProject: (id: string) => Promise<void>;
+  // Write any pending autosave immediately
+  saveNow: () => Promise<void>;
+}
+
+// ============================================
+// AUTOSAVE STATE
+// ============================================
+
+const AUTOSAVE_DELAY = 800;
+
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+// Components last written to (or read from) the database, to skip no-op saves
+let persistedComponents: Component[] | null = null;
+
+const cancelScheduledSave = () => {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveTimer = null;
+  }
+};
+
+// Put a project's snapshot on the canvas with fresh history. Returns what
+// could not be loaded, or null when it all was.
+const showProject = (project: Project): ProjectLoadIssues | null => {
+  const { components, errors } = deserializeProject(project.snapshot);
+  if (errors.length > 0) {
+    console.warn(`Project "${project.name}" loaded with issues:`, errors);
+  }
+  const builder = useBuilderStore.getState();
+  builder.loadComponents(components);
+  builder.clearHistory();
+  persistedComponents = useBuilderStore.getState().components;
+  return errors.length > 0 ? { projectName: project.name, errors } : null;
+};
+
+// ============================================
+// STORE IMPLEMENTATION
+// ============================================
+
+export const useProjectStore = create<ProjectStore>((set, get) => ({
+  projects: [],
+  activeProjectId: null,
+  saveStatus: 'idle',
+  loadIssues: null,
+  isLoading: false,
+  isInitialized: false,
+
+  initialize: async () => {
+    if (get().isInitialized) return;
+
+    set({ isLoading: true });
+
+    try {
+      const projects = await projectManager.listProjects();
+      const activeId = await projectManager.getActiveProjectId();
+      const project = projects.find(p => p.id === activeId) ?? projects[0];
+
+      if (project) {
+        const loadIssues = showProject(project);
+        await projectManager.setActiveProjectId(project.id);
+        set({ projects, activeProjectId: project.id, loadIssues, isLoading: false, isInitialized: true });
+        return;
+      }
+
+      // First visit: keep whatever is on the canvas in a new project
+      const created = await projectManager.createProject('Untitled Project', useBuilderStore.getState().components);
+      await projectManager.setActiveProjectId(created.id);
+      persistedComponents = useBuilderStore.getState().components;
+      set({ projects: [created], activeProjectId: created.id, isLoading: false, isInitialized: true });
+    } catch (error) {
+      console.error('Failed to initialize projects:', error);
+      set({ isLoading: false, isInitialized: true, saveStatus: 'error' });
+    }
+  },
+
+  refreshProjects: async () => {
+    set({ projects: await projectManager.listProjects() });
+  },
+
+  openProject: async (id) => {
+    if (id === get().activeProjectId) return;
+    await get().saveNow();
+
+    const project = await projectManager.getProject(id);
+    if (!project) return;
+
+    const loadIssues = showProject(project);
+    await projectManager.setActiveProjectId(id);
+    set({ activeProjectId: id, saveStatus: 'idle', loadIssues });
+    await get().refreshProjects();
+  },
+
+  createProject: async (name) => {
+    await get().saveNow();
+
+    const project = await projectManager.createProject(name);
+    showProject(project);
+    await projectManager.setActiveProjectId(project.id);
+    set({ activeProjectId: project.id, saveStatus: 'idle' });
+    await get().refreshProjects();
+  },
+
+  renameProject: async (id, name) => {
+    await projectManager.renameProject(id, name);
+    await get().refreshProjects();
+  },
+
+  duplicateProject: async (id) => {
+    // Make sure the copy includes unsaved edits to the open project
+    if (id === get().activeProjectId) await get().saveNow();
+
+    const copy = await projectManager.duplicateProject(id);
+    if (!copy) return;
+    await get().refreshProjects();
+    await get().openProject(copy.id);
+  },
+
+  deleteProject: async (id) => {
+    const wasActive = id === get().activeProjectId;
+    if (wasActive) cancelScheduledSave();
+
+    await projectManager.deleteProject(id);
+    const projects = await projectManager.listProjects();
+    set({ projects });
+
+    if (!wasActive) return;
+
+    // Fall back to the most recent remaining project, or start a fresh one
+    set({ activeProjectId: null });
+    if (projects.length > 0) {
+      await get().openProject(projects[0].id);
+    } else {
+      await get().createProject();
+    }
+  },
+
+  saveNow: async () => {
+    cancelScheduledSave();
+    const { activeProjectId } = get();
+    const { components } = useBuilderStore.getState();
+    if (!activeProjectId || components === persistedComponents) return;
+
+    set({ saveStatus: 'saving' });
+    try {
+      await projectManager.saveProjectComponents(activeProjectId, components);
+      persistedComponents = components;
+      set({ saveStatus: 'saved' });
+      await get().refreshProjects();
+    } catch (error) {
+      console.error('Failed to save project:', error);
+      set({ saveStatus: 'error' });
+    }
+  },
+}));
+
+// ============================================
+// AUTOSAVE
+// ============================================
+
+/**
+ * Save the open project shortly after each canvas change.
+ * Returns a cleanup function that stops autosaving.
+ */
+export const setupProjectAutosave = () => {
+  const unsubscribe = useBuilderStore.subscribe((state, prev) => {
+    if (state.components === prev.components || state.components === persistedComponents) return;
+    if (!useProjectStore.getState().activeProjectId) return;
+
+    cancelScheduledSave();
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      useProjectStore.getState().saveNow();
+    }, AUTOSAVE_DELAY);
+  });
+
+  // Best effort: write pending edits when the tab is hidden or closed
+  const handlePageHide = () => {
+    if (saveTimer) useProjectStore.getState().saveNow();
+  };
+  window.addEventListener('pagehide', handlePageHide);
+
+  return () => {
+    unsubscribe();
+    window.removeEventListener('pagehide', handlePageHide);
+    handlePageHide();
+  };
+};
@@ -11,6 +11,7 @@ import {
   PanelConfig,
   Section,
   ThemeConfig,
+  CanvasConfig,
   MetaEditState,
   MetaElementType,
   ComponentGroup,
@@ -80,6 +81,11 @@ export interface WorkspaceStore {
   updateTheme: (updates: Partial<ThemeConfig>) => void;
   toggleThemeMode: () => void;
   
+  // =====================
+  // CANVAS ACTIONS
+  // =====================
+  updateCanvas: (updates: Partial<CanvasConfig>) => void;
+  
   // =====================
   // WORKSPACE MANAGEMENT
   // =====================
@@ -503,6 +509,14 @@ export const useWorkspaceStore = create<WorkspaceStore>((set, get) => ({
     state.workspace.updatedAt = Date.now();
   })),
 
+  // =====================
+  // CANVAS ACTIONS
+  // =====================
+  updateCanvas: (updates) => set(produce((state: WorkspaceStore) => {
+    Object.assign(state.workspace.layout.canvas, updates);
+    state.workspace.updatedAt = Date.now();
+  })),
+
   // =====================
   // WORKSPACE MANAGEMENT
   // =====================
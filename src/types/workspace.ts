@@ -81,6 +81,9 @@ export interface CanvasConfig {
   gridSize: number;
   snapToGrid: boolean;
   showGrid: boolean;
+  // Align to sibling edges/centers while dragging and show gap measurements
+  smartGuides: boolean;
+  showRulers: boolean;
   backgroundColor: string;
   minZoom: number;
   maxZoom: number;